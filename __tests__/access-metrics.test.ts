@@ -0,0 +1,92 @@
+/**
+ * Tests for batched access metrics (reads counted in memory, written to
+ * the metadata index in batches and on close)
+ */
+
+import fs from 'fs/promises';
+import { storageService } from '../src/services/storage.service';
+import { generateCID } from '../src/utils/cid';
+import { config } from '../src/config';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-access-'));
+
+describe('Access Metrics', () => {
+  const stored: string[] = [];
+
+  async function store(content: string): Promise<string> {
+    const data = Buffer.from(content);
+    const cid = generateCID(data);
+    await storageService.storeBlob(cid, data, 'text/plain', { appId: 'hashd' });
+    stored.push(cid);
+    return cid;
+  }
+
+  async function indexedReads(cid: string): Promise<number | undefined> {
+    return (await storageService.getMetadataIndex().get(cid))?.metrics?.retrievalCount;
+  }
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  afterEach(async () => {
+    await storageService.flushAccessMetrics();
+    for (const cid of stored.splice(0)) {
+      await storageService.deleteBlob(cid, { force: true, permanent: true }).catch(() => {});
+    }
+  });
+
+  afterAll(async () => {
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should count reads in memory and show them before they are written', async () => {
+    const cid = await store('read often');
+    const before = await indexedReads(cid);
+    const update = jest.spyOn(storageService.getMetadataIndex(), 'update');
+
+    for (let i = 0; i < 5; i++) {
+      await storageService.getBlob(cid);
+    }
+    const { stream } = await storageService.openBlobStream(cid);
+    await stream.toArray();
+
+    expect(update).not.toHaveBeenCalled();
+    update.mockRestore();
+    expect(await indexedReads(cid)).toBe(before);
+
+    const metadata = await storageService.getMetadata(cid);
+    expect(metadata.metrics).toMatchObject({ retrievalCount: 6, avgLatency: expect.any(Number) });
+    const listed = (await storageService.listBlobs()).find(blob => blob.cid === cid);
+    expect(listed?.metrics?.retrievalCount).toBe(6);
+
+    expect(await storageService.flushAccessMetrics()).toBe(1);
+    expect(await indexedReads(cid)).toBe(6);
+    expect(await storageService.flushAccessMetrics()).toBe(0);
+  });
+
+  test('should not count reads twice when a metadata update wrote them first', async () => {
+    const cid = await store('pinned while read');
+    await storageService.getBlob(cid);
+    await storageService.getBlob(cid);
+
+    await storageService.pinBlob(cid);
+    expect(await indexedReads(cid)).toBe(2);
+
+    await storageService.flushAccessMetrics();
+    expect(await indexedReads(cid)).toBe(2);
+    expect((await storageService.getMetadata(cid)).pinned).toBe(true);
+  });
+
+  test('should write pending reads on close', async () => {
+    const cid = await store('read before shutdown');
+    await storageService.getBlob(cid);
+
+    await storageService.close();
+    await storageService.initialize();
+
+    expect(await indexedReads(cid)).toBe(1);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for admin authentication (owner-signed requests, scoped API tokens
+ * and the audit log)
+ */
+
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { ethers } from 'ethers';
+import { adminAuthService } from '../src/services/admin-auth.service';
+import { captureRawBody, requireAdmin } from '../src/middleware/admin-auth.middleware';
+import { createTokenHandler, revokeTokenHandler } from '../src/routes/admin.route';
+import { listTrashHandler } from '../src/routes/trash.route';
+import { listQuotasHandler, quotaUsageHandler } from '../src/routes/quota.route';
+import { usageBreakdownHandler } from '../src/routes/usage.route';
+import { fsckStatusHandler } from '../src/routes/fsck.route';
+import { encryptionStatusHandler } from '../src/routes/encryption.route';
+import { config } from '../src/config';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-admin-'));
+
+jest.mock('../src/services/p2p.service.js', () => ({
+  p2pService: {}
+}));
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {}
+}));
+
+const owner = ethers.Wallet.createRandom();
+
+const ok = (_req: Request, res: Response) => res.json({ actor: res.locals.adminActor });
+
+const app = express();
+app.use(express.json({ verify: captureRawBody }));
+app.post('/admin/gc', requireAdmin('gc'), ok);
+app.post('/pin/:cid', requireAdmin('pin'), ok);
+app.post('/admin/tokens', requireAdmin('owner'), createTokenHandler);
+app.delete('/admin/tokens/:id', requireAdmin('owner'), revokeTokenHandler);
+
+// Operator reads, mounted as in server.ts
+app.get('/admin/trash', requireAdmin('trash'), listTrashHandler);
+app.get('/admin/quotas', requireAdmin('audit'), listQuotasHandler);
+app.get('/admin/quotas/:scope/:key', requireAdmin('audit'), quotaUsageHandler);
+app.get('/admin/usage', requireAdmin('audit'), usageBreakdownHandler);
+app.get('/admin/fsck', requireAdmin('maintenance'), fsckStatusHandler);
+app.get('/admin/encryption', requireAdmin('encryption'), encryptionStatusHandler);
+
+const OPERATOR_READS = [
+  '/admin/trash',
+  '/admin/quotas',
+  '/admin/quotas/app/hashd',
+  '/admin/usage',
+  '/admin/fsck',
+  '/admin/encryption'
+];
+
+async function sign(method: string, path: string, body = '', wallet: ethers.HDNodeWallet = owner): Promise<string> {
+  const timestamp = Date.now();
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const message = `HASHD Vault Admin Request
+Node: ${config.nodeId}
+Method: ${method}
+Path: ${path}
+Body Hash: ${ethers.keccak256(Buffer.from(body))}
+Timestamp: ${timestamp}
+Nonce: ${nonce}`;
+  const signature = await wallet.signMessage(message);
+  return Buffer.from(JSON.stringify({ address: owner.address, timestamp, nonce, signature })).toString('base64');
+}
+
+async function signedPost(path: string, body: object) {
+  const json = JSON.stringify(body);
+  return request(app)
+    .post(path)
+    .set('Content-Type', 'application/json')
+    .set('X-ByteCave-Admin-Signature', await sign('POST', path, json))
+    .send(json);
+}
+
+describe('Admin Authentication', () => {
+  beforeAll(async () => {
+    config.ownerAddress = owner.address;
+    await adminAuthService.initialize();
+  });
+
+  afterAll(async () => {
+    adminAuthService.stop();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should reject operator requests without credentials', async () => {
+    const response = await request(app).post('/admin/gc');
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe('ADMIN_AUTH_REQUIRED');
+  });
+
+  test('should reject operator reads without credentials', async () => {
+    for (const path of OPERATOR_READS) {
+      const response = await request(app).get(path);
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('ADMIN_AUTH_REQUIRED');
+    }
+  });
+
+  test('should admit requests signed by the owner once, and audit them', async () => {
+    const header = await sign('POST', '/admin/gc');
+
+    const response = await request(app).post('/admin/gc').set('X-ByteCave-Admin-Signature', header);
+    expect(response.status).toBe(200);
+    expect(response.body.actor).toEqual({ type: 'owner', address: owner.address });
+
+    const replayed = await request(app).post('/admin/gc').set('X-ByteCave-Admin-Signature', header);
+    expect(replayed.status).toBe(401);
+
+    const [record] = adminAuthService.getAuditLog(1);
+    expect(record).toMatchObject({ method: 'POST', path: '/admin/gc', statusCode: 200, actor: { type: 'owner' } });
+    const logged = (await fs.readFile(`${config.dataDir}/admin-audit.log`, 'utf8')).trim().split('\n');
+    expect(logged).toHaveLength(1);
+  });
+
+  test('should reject signatures by anyone else or over a different body', async () => {
+    const stranger = ethers.Wallet.createRandom();
+    const forged = await request(app)
+      .post('/admin/gc')
+      .set('X-ByteCave-Admin-Signature', await sign('POST', '/admin/gc', '', stranger));
+    expect(forged.status).toBe(401);
+
+    const header = await sign('POST', '/admin/tokens', JSON.stringify({ name: 'ci', scopes: ['gc'] }));
+    const tampered = await request(app)
+      .post('/admin/tokens')
+      .set('X-ByteCave-Admin-Signature', header)
+      .send({ name: 'ci', scopes: ['gc', 'delete', 'encryption'] });
+    expect(tampered.status).toBe(401);
+    expect(adminAuthService.listTokens()).toHaveLength(0);
+  });
+
+  test('should admit API tokens within their scopes until revoked', async () => {
+    const created = await signedPost('/admin/tokens', { name: 'ci', scopes: ['gc'] });
+    expect(created.status).toBe(201);
+    const bearer = `Bearer ${created.body.token}`;
+    expect(JSON.stringify(adminAuthService.listTokens())).not.toContain(created.body.token);
+
+    const gc = await request(app).post('/admin/gc').set('Authorization', bearer);
+    expect(gc.status).toBe(200);
+    expect(gc.body.actor).toEqual({ type: 'token', tokenId: created.body.id, tokenName: 'ci' });
+
+    expect((await request(app).post('/pin/abc').set('Authorization', bearer)).status).toBe(403);
+    for (const path of OPERATOR_READS) {
+      expect((await request(app).get(path).set('Authorization', bearer)).status).toBe(403);
+    }
+    const minted = await request(app)
+      .post('/admin/tokens')
+      .set('Authorization', bearer)
+      .send({ name: 'escalated', scopes: ['pin'] });
+    expect(minted.status).toBe(403);
+
+    const path = `/admin/tokens/${created.body.id}`;
+    const revoked = await request(app).delete(path).set('X-ByteCave-Admin-Signature', await sign('DELETE', path));
+    expect(revoked.status).toBe(200);
+    expect((await request(app).post('/admin/gc').set('Authorization', bearer)).status).toBe(401);
+  });
+
+  test('should validate new tokens', async () => {
+    const response = await signedPost('/admin/tokens', { name: 'ci', scopes: ['everything'] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('INVALID_REQUEST');
+  });
+});
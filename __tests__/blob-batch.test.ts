@@ -0,0 +1,129 @@
+/**
+ * Tests for POST /blobs/batch (length-prefixed parts with per-CID status)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import request from 'supertest';
+import express from 'express';
+import { Readable } from 'stream';
+import { blobBatchHandler, BATCH_MIME_TYPE } from '../src/routes/blob-batch.route';
+import { storageService } from '../src/services/storage.service';
+import { blockedContentService } from '../src/services/blocked-content.service';
+import { generateCID } from '../src/utils/cid';
+import { BatchBlobHeader } from '../src/types';
+import { config } from '../src/config';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-batch-'));
+
+const app = express();
+app.use(express.json());
+app.post('/blobs/batch', blobBatchHandler);
+
+function binaryParser(res: any, callback: (err: Error | null, body: Buffer) => void): void {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+function parseBatch(body: Buffer): { header: BatchBlobHeader; data?: Buffer }[] {
+  const parts: { header: BatchBlobHeader; data?: Buffer }[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const length = body.readUInt32BE(offset);
+    const header: BatchBlobHeader = JSON.parse(body.subarray(offset + 4, offset + 4 + length).toString());
+    offset += 4 + length;
+    if (header.status === 'found') {
+      parts.push({ header, data: body.subarray(offset, offset + header.size!) });
+      offset += header.size!;
+    } else {
+      parts.push({ header });
+    }
+  }
+  return parts;
+}
+
+async function fetchBatch(body: object) {
+  return request(app).post('/blobs/batch').send(body).buffer(true).parse(binaryParser);
+}
+
+describe('Batch Retrieval', () => {
+  const blobs: { cid: string; data: Buffer }[] = [];
+
+  beforeAll(async () => {
+    await storageService.initialize();
+
+    for (let i = 0; i < 3; i++) {
+      const data = crypto.randomBytes(512 * (i + 1));
+      const cid = generateCID(data);
+      await storageService.storeBlob(cid, data, 'image/png');
+      blobs.push({ cid, data });
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should return each blob in request order with its status', async () => {
+    const missing = generateCID(Buffer.from('not stored'));
+    const response = await fetchBatch({ cids: [blobs[1].cid, missing, blobs[0].cid] });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe(BATCH_MIME_TYPE);
+
+    const parts = parseBatch(response.body);
+    expect(parts.map(part => part.header.status)).toEqual(['found', 'missing', 'found']);
+    expect(parts[0].header).toMatchObject({ cid: blobs[1].cid, size: 1024, mimeType: 'image/png' });
+    expect(parts[0].data).toEqual(blobs[1].data);
+    expect(parts[1].header).toEqual({ cid: missing, status: 'missing' });
+    expect(parts[2].data).toEqual(blobs[0].data);
+  });
+
+  test('should apply the blocked list and CID verification', async () => {
+    const [blocked, tampered, intact] = blobs;
+    jest.spyOn(blockedContentService, 'isBlocked').mockImplementation(async cid => cid === blocked.cid);
+
+    const getBlob = storageService.getBlob.bind(storageService);
+    jest.spyOn(storageService, 'getBlob').mockImplementation(async cid => {
+      const blob = await getBlob(cid);
+      return cid === tampered.cid ? { ...blob, ciphertext: Buffer.from('tampered') } : blob;
+    });
+
+    const parts = parseBatch((await fetchBatch({ cids: [blocked.cid, tampered.cid, intact.cid] })).body);
+
+    expect(parts.map(part => part.header.status)).toEqual(['blocked', 'integrity-failed', 'found']);
+    expect(parts[0].data).toBeUndefined();
+    expect(parts[1].data).toBeUndefined();
+    expect(parts[2].data).toEqual(intact.data);
+  });
+
+  test('should reassemble chunked blobs unless resolve is false', async () => {
+    const content = crypto.randomBytes(4096);
+    const staged = await storageService.stageBlobStream(Readable.from([content]), content.length, 1024);
+    const cid = await storageService.storeChunkedBlob(staged, 'video/mp4');
+
+    const [resolved] = parseBatch((await fetchBatch({ cids: [cid] })).body);
+    expect(resolved.header).toMatchObject({ status: 'found', size: 4096, mimeType: 'video/mp4' });
+    expect(resolved.data).toEqual(content);
+
+    const [manifest] = parseBatch((await fetchBatch({ cids: [cid], resolve: false })).body);
+    expect(generateCID(manifest.data!)).toBe(cid);
+  });
+
+  test('should reject invalid requests', async () => {
+    const tooMany = Array.from({ length: 101 }, (_, i) => generateCID(Buffer.from(String(i))));
+
+    for (const body of [{}, { cids: [] }, { cids: tooMany }, { cids: ['not-a-cid'] }, { cids: [blobs[0].cid], resolve: 'no' }]) {
+      const response = await request(app).post('/blobs/batch').send(body);
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('INVALID_REQUEST');
+    }
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for GET /blobs (cursor pagination, filters, sort and count-only mode)
+ * and for paging through a peer's list when pulling from it
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import request from 'supertest';
+import express from 'express';
+import { storageService } from '../src/services/storage.service';
+import { listHandler } from '../src/routes/list.route';
+import { ReplicationService } from '../src/services/replication.service';
+import { generateCID } from '../src/utils/cid';
+import { calculateShardKey } from '../src/utils/sharding';
+import { config } from '../src/config';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-listing-'));
+
+jest.mock('../src/services/p2p.service.js', () => ({
+  p2pService: {}
+}));
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {}
+}));
+
+const app = express();
+app.get('/blobs', listHandler);
+
+describe('Blob Listing', () => {
+  const cids: string[] = [];
+
+  beforeAll(async () => {
+    await storageService.initialize();
+
+    for (let i = 0; i < 5; i++) {
+      const data = crypto.randomBytes(100 * (i + 1));
+      const cid = generateCID(data);
+      await storageService.storeBlob(cid, data, i < 3 ? 'image/png' : 'text/plain', {
+        appId: i % 2 === 0 ? 'app-a' : 'app-b'
+      });
+      cids.push(cid);
+    }
+  });
+
+  afterAll(async () => {
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should page through every blob by following nextCursor', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const response = await request(app).get('/blobs').query({ limit: 2, ...(cursor && { cursor }) });
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(response.body.blobs.length);
+      seen.push(...response.body.blobs.map((blob: { cid: string }) => blob.cid));
+      cursor = response.body.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(seen.sort()).toEqual([...cids].sort());
+  });
+
+  test('should filter, sort and count', async () => {
+    const images = await request(app).get('/blobs').query({ mimeType: 'image/*', appId: 'app-a' });
+    expect(images.body.blobs).toHaveLength(2);
+
+    const bySize = await request(app).get('/blobs').query({ sort: 'size', order: 'asc' });
+    expect(bySize.body.blobs.map((blob: { size: number }) => blob.size)).toEqual([100, 200, 300, 400, 500]);
+
+    const shard = calculateShardKey(cids[0], config.shardCount);
+    const inShard = cids.filter(cid => calculateShardKey(cid, config.shardCount) === shard);
+    const sharded = await request(app).get('/blobs').query({ shard });
+    expect(sharded.body.blobs.map((blob: { cid: string }) => blob.cid).sort()).toEqual(inShard.sort());
+
+    const counted = await request(app).get('/blobs').query({ count: 'true', mimeType: 'text/plain' });
+    expect(counted.body).toEqual({ count: 2 });
+
+    const none = await request(app).get('/blobs').query({ since: Date.now() + 60000 });
+    expect(none.body).toMatchObject({ count: 0, blobs: [] });
+  });
+
+  test('should reject invalid parameters and cursors', async () => {
+    for (const query of [{ limit: 0 }, { sort: 'name' }, { order: 'up' }, { shard: config.shardCount }, { since: 10, until: 5 }, { pinned: 'yes' }]) {
+      const response = await request(app).get('/blobs').query(query);
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('INVALID_REQUEST');
+    }
+
+    const badCursor = await request(app).get('/blobs').query({ cursor: 'not-a-cursor' });
+    expect(badCursor.status).toBe(400);
+  });
+
+  describe('Pulling from peers', () => {
+    let replication: ReplicationService;
+    let fetchMock: jest.SpyInstance;
+
+    const requestedCursors = () =>
+      fetchMock.mock.calls.map(([url]) => new URL(String(url)).searchParams.get('cursor'));
+
+    beforeEach(() => {
+      replication = new ReplicationService();
+      (replication as any).peers = [{ url: 'http://peer.example:3004', priority: 1, enabled: true, healthy: true }];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should stop reading a peer whose cursor repeats', async () => {
+      fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () =>
+        new Response(JSON.stringify({ blobs: [], nextCursor: 'stuck' }))
+      );
+
+      await replication.pullMissingBlobs();
+
+      expect(requestedCursors()).toEqual([null, 'stuck']);
+    });
+
+    test('should refuse blobs from older peers that do not match the requested CID', async () => {
+      const genuine = crypto.randomBytes(256);
+      const forged = crypto.randomBytes(256);
+      const wanted = [generateCID(genuine), generateCID(crypto.randomBytes(256))];
+      const served: Record<string, Buffer> = { [wanted[0]]: genuine, [wanted[1]]: forged };
+
+      fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async input => {
+        const url = new URL(String(input));
+        if (url.pathname === '/blobs') {
+          return Response.json({ blobs: wanted.map(cid => ({ cid, mimeType: 'image/png' })) });
+        }
+        // Peers before raw blob responses answer with JSON
+        const cid = url.pathname.split('/').pop()!;
+        return Response.json({ cid, ciphertext: served[cid].toString('base64'), mimeType: 'image/png' });
+      });
+
+      await replication.pullMissingBlobs();
+
+      expect(await storageService.hasBlob(wanted[0])).toBe(true);
+      expect(await storageService.hasBlob(wanted[1])).toBe(false);
+    });
+
+    test('should cap the pages read per run and resume after them next run', async () => {
+      let page = 0;
+      fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () =>
+        new Response(JSON.stringify({ blobs: [], nextCursor: `page-${++page}` }))
+      );
+
+      await replication.pullMissingBlobs();
+      expect(fetchMock).toHaveBeenCalledTimes(100);
+
+      fetchMock.mockClear();
+      await replication.pullMissingBlobs();
+      expect(requestedCursors()[0]).toBe('page-100');
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tests for raw binary streaming (upload hashing, CID-verified download,
+ * Range requests and HEAD)
+ */
+
+import request from 'supertest';
+import express from 'express';
+import zlib from 'zlib';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ethers } from 'ethers';
+import { storeHandler } from '../src/routes/store.route';
+import { blobHandler, blobHeadHandler } from '../src/routes/blob.route';
+import { storageService } from '../src/services/storage.service';
+import { generateCID } from '../src/utils/cid';
+import { HashingStream, CIDVerifyStream, SliceStream } from '../src/utils/stream';
+
+jest.mock('../src/services/p2p.service.js', () => ({
+  p2pService: {
+    isStarted: jest.fn(),
+    getConnectedPeers: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {
+    replicateToPeer: jest.fn()
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.post('/store', storeHandler);
+app.head('/blob/:cid', blobHeadHandler);
+app.get('/blob/:cid', blobHandler);
+
+function binaryParser(res: any, callback: (err: Error | null, body: Buffer) => void): void {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+function collect(chunks: Buffer[]): Writable {
+  return new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    }
+  });
+}
+
+describe('Stream Utilities', () => {
+  const data = Buffer.from('raw encrypted bytes '.repeat(500));
+
+  test('HashingStream should compute CID and keccak256 content hash in one pass', async () => {
+    const hasher = new HashingStream();
+    const out: Buffer[] = [];
+
+    await pipeline(Readable.from([data.subarray(0, 100), data.subarray(100)]), hasher, collect(out));
+
+    const result = hasher.getResult();
+    expect(result.cid).toBe(generateCID(data));
+    expect(result.contentHash).toBe(ethers.keccak256(data));
+    expect(result.size).toBe(data.length);
+    expect(Buffer.concat(out).equals(data)).toBe(true);
+  });
+
+  test('HashingStream should abort when the size limit is exceeded', async () => {
+    const hasher = new HashingStream(data.length - 1);
+
+    await expect(
+      pipeline(Readable.from([data]), hasher, collect([]))
+    ).rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+  });
+
+  test('CIDVerifyStream should pass through content matching the CID', async () => {
+    const out: Buffer[] = [];
+
+    await pipeline(Readable.from([data]), new CIDVerifyStream(generateCID(data)), collect(out));
+
+    expect(Buffer.concat(out).equals(data)).toBe(true);
+  });
+
+  test('CIDVerifyStream should fail on tampered content', async () => {
+    const tampered = Buffer.from(data);
+    tampered[10] ^= 0xff;
+
+    await expect(
+      pipeline(Readable.from([tampered]), new CIDVerifyStream(generateCID(data)), collect([]))
+    ).rejects.toMatchObject({ code: 'CID_MISMATCH' });
+  });
+
+  test('SliceStream should emit only the requested range across chunk boundaries', async () => {
+    const out: Buffer[] = [];
+    const chunks = [data.subarray(0, 7), data.subarray(7, 50), data.subarray(50)];
+
+    await pipeline(Readable.from(chunks), new SliceStream(5, 60), collect(out));
+
+    expect(Buffer.concat(out).equals(data.subarray(5, 61))).toBe(true);
+  });
+
+  test('SliceStream should slice decompressed gzip output', async () => {
+    const out: Buffer[] = [];
+
+    await pipeline(
+      Readable.from([zlib.gzipSync(data)]),
+      zlib.createGunzip(),
+      new SliceStream(1000, 1999),
+      collect(out)
+    );
+
+    expect(Buffer.concat(out).equals(data.subarray(1000, 2000))).toBe(true);
+  });
+});
+
+describe('Raw Blob HTTP API', () => {
+  const ciphertext = Buffer.from('streamed ciphertext for raw retrieval');
+  const cid = generateCID(ciphertext);
+
+  beforeAll(async () => {
+    await storageService.initialize();
+    await storageService.storeBlob(cid, ciphertext, 'image/png');
+  });
+
+  afterAll(async () => {
+    await storageService.deleteBlob(cid).catch(() => {});
+  });
+
+  describe('GET /blob/:cid', () => {
+    it('should stream raw bytes when octet-stream is requested', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}`)
+        .set('Accept', 'application/octet-stream')
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['content-length']).toBe(String(ciphertext.length));
+      expect(response.headers['etag']).toBe(`"${cid}"`);
+      expect(response.headers['cache-control']).toContain('immutable');
+      expect((response.body as Buffer).equals(ciphertext)).toBe(true);
+    });
+
+    it('should keep returning JSON by default', async () => {
+      const response = await request(app).get(`/blob/${cid}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ciphertext).toBe(ciphertext.toString('base64'));
+    });
+
+    it('should return 304 when the ETag matches', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}?format=raw`)
+        .set('If-None-Match', `"${cid}"`);
+
+      expect(response.status).toBe(304);
+    });
+
+    it('should serve a single byte range with 206', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}`)
+        .set('Range', 'bytes=4-9')
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(206);
+      expect(response.headers['content-range']).toBe(`bytes 4-9/${ciphertext.length}`);
+      expect(response.headers['content-length']).toBe('6');
+      expect((response.body as Buffer).equals(ciphertext.subarray(4, 10))).toBe(true);
+    });
+
+    it('should serve a suffix range', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}`)
+        .set('Range', 'bytes=-5')
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(206);
+      expect((response.body as Buffer).equals(ciphertext.subarray(-5))).toBe(true);
+    });
+
+    it('should return 416 for an unsatisfiable range', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}`)
+        .set('Range', `bytes=${ciphertext.length + 10}-`);
+
+      expect(response.status).toBe(416);
+      expect(response.headers['content-range']).toBe(`bytes */${ciphertext.length}`);
+    });
+
+    it('should serve the full blob when If-Range does not match', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}`)
+        .set('Range', 'bytes=0-3')
+        .set('If-Range', '"stale"')
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(200);
+      expect((response.body as Buffer).equals(ciphertext)).toBe(true);
+    });
+
+    it('should return 404 for a missing blob', async () => {
+      const response = await request(app)
+        .get(`/blob/${'b'.repeat(64)}`)
+        .set('Accept', 'application/octet-stream');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('BLOB_NOT_FOUND');
+    });
+  });
+
+  describe('HEAD /blob/:cid', () => {
+    it('should return size, mimeType and CID headers without a body', async () => {
+      const response = await request(app).head(`/blob/${cid}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-length']).toBe(String(ciphertext.length));
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['x-bytecave-cid']).toBe(cid);
+      expect(response.headers['accept-ranges']).toBe('bytes');
+      expect(response.body).toEqual({});
+    });
+
+    it('should return 404 for a missing blob', async () => {
+      const response = await request(app).head(`/blob/${'c'.repeat(64)}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /store (application/octet-stream)', () => {
+    it('should require the authorization header', async () => {
+      const response = await request(app)
+        .post('/store')
+        .set('Content-Type', 'application/octet-stream')
+        .send(ciphertext);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('INVALID_REQUEST');
+      expect(response.body.message).toContain('X-ByteCave-Authorization');
+    });
+
+    it('should reject a malformed authorization header', async () => {
+      const response = await request(app)
+        .post('/store')
+        .set('Content-Type', 'application/octet-stream')
+        .set('X-ByteCave-Authorization', Buffer.from('{"type":"bogus"}').toString('base64'))
+        .send(ciphertext);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('INVALID_AUTHORIZATION');
+    });
+  });
+});
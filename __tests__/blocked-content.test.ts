@@ -0,0 +1,207 @@
+/**
+ * Tests for blocked content (operator blocks with reasons, and subscriptions
+ * to signed denylists fetched from a URL or over P2P)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ethers } from 'ethers';
+import { BlockedContentService, getDenylistMessage } from '../src/services/blocked-content.service';
+import { storageService } from '../src/services/storage.service';
+import { p2pProtocolsService } from '../src/services/p2p-protocols.service';
+import { generateCID } from '../src/utils/cid';
+import { SignedDenylist, TrashEntryNotFoundError } from '../src/types';
+import { config } from '../src/config';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-blocked-'));
+
+jest.mock('../src/services/p2p.service.js', () => ({
+  p2pService: {
+    isStarted: jest.fn(),
+    getConnectedPeers: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {
+    getDenylistFromPeer: jest.fn()
+  }
+}));
+
+const mockProtocols = p2pProtocolsService as jest.Mocked<typeof p2pProtocolsService>;
+
+const publisher = ethers.Wallet.createRandom();
+
+async function storeRandomBlob(): Promise<string> {
+  const data = crypto.randomBytes(1024);
+  const cid = generateCID(data);
+  await storageService.storeBlob(cid, data, 'application/octet-stream');
+  return cid;
+}
+
+async function publish(version: number, cids: string[], signer: ethers.HDNodeWallet = publisher): Promise<SignedDenylist> {
+  const list = {
+    publisher: publisher.address,
+    version,
+    publishedAt: Date.now(),
+    cids: cids.map(cid => ({ cid, reason: 'malware' })),
+    peerIds: [{ peerId: '12D3KooWSpammer', reason: 'spam' }]
+  };
+  return { ...list, signature: await signer.signMessage(getDenylistMessage(list)) };
+}
+
+function serve(list: SignedDenylist): void {
+  jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify(list)));
+}
+
+describe('Blocked Content', () => {
+  let service: BlockedContentService;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  beforeEach(async () => {
+    service = new BlockedContentService(path.join(config.dataDir, `blocked-${crypto.randomUUID()}.json`));
+    await service.load();
+  });
+
+  afterEach(() => {
+    service.stop();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should block a CID with a reason and purge it, from the trash too', async () => {
+    const stored = await storeRandomBlob();
+    const trashed = await storeRandomBlob();
+    await storageService.deleteBlob(trashed);
+
+    const entry = await service.addCid(stored.toUpperCase(), 'DMCA notice');
+    await service.addCid(trashed);
+
+    expect(entry).toEqual({ value: stored, reason: 'DMCA notice', blockedAt: expect.any(Number), source: 'local' });
+    expect(await storageService.hasBlob(stored)).toBe(false);
+    await expect(storageService.purgeTrashed(trashed)).rejects.toThrow(TrashEntryNotFoundError);
+    expect(await service.isBlocked(stored)).toBe(true);
+
+    expect(await service.removeCid(stored)).toBe(true);
+    expect(await service.isBlocked(stored)).toBe(false);
+    expect(await service.removeCid(stored)).toBe(false);
+  });
+
+  test('should read block lists from earlier versions', async () => {
+    const file = path.join(config.dataDir, 'blocked-v1.json');
+    await fs.writeFile(file, JSON.stringify({ version: 1, updatedAt: 1700000000000, cids: ['ABC'], peerIds: ['peer-1'] }));
+
+    const legacy = new BlockedContentService(file);
+    await legacy.load();
+
+    expect(await legacy.isBlocked('abc')).toBe(true);
+    expect(await legacy.isPeerBlocked('peer-1')).toBe(true);
+    expect(legacy.getBlocked().cids).toEqual([{ value: 'abc', blockedAt: 1700000000000, source: 'local' }]);
+  });
+
+  test('should apply a signed denylist from a URL and purge what it blocks', async () => {
+    const cid = await storeRandomBlob();
+    const list = await publish(1, [cid]);
+    serve(list);
+
+    const subscription = await service.addSubscription({ publisher: publisher.address, url: 'https://example.com/denylist.json' });
+
+    expect(subscription).toMatchObject({ version: 1, blockedCids: 1, blockedPeers: 1, lastError: undefined });
+    expect(await storageService.hasBlob(cid)).toBe(false);
+    expect(await service.isBlocked(cid)).toBe(true);
+    expect(await service.isPeerBlocked('12D3KooWSpammer')).toBe(true);
+    expect(service.getBlocked().cids).toContainEqual(expect.objectContaining({ value: cid, source: subscription.id }));
+    expect(service.getSignedDenylist(publisher.address.toLowerCase())).toEqual(list);
+
+    expect(await service.removeSubscription(subscription.id)).toBe(true);
+    expect(await service.isBlocked(cid)).toBe(false);
+  });
+
+  test('should reject denylists that are forged, tampered with or older', async () => {
+    const cid = await storeRandomBlob();
+    serve(await publish(1, [cid], ethers.Wallet.createRandom()));
+
+    const forged = await service.addSubscription({ publisher: publisher.address, url: 'https://example.com/denylist.json' });
+    expect(forged).toMatchObject({ blockedCids: 0, lastError: 'Invalid signature' });
+
+    const tampered = await publish(1, []);
+    tampered.cids.push({ cid, reason: 'malware' });
+    serve(tampered);
+    await service.refreshSubscriptions();
+    expect(service.getBlocked().subscriptions[0].lastError).toBe('Invalid signature');
+    expect(await storageService.hasBlob(cid)).toBe(true);
+
+    serve(await publish(2, []));
+    await service.refreshSubscriptions();
+    serve(await publish(1, [cid]));
+    await service.refreshSubscriptions();
+
+    expect(service.getBlocked().subscriptions[0]).toMatchObject({ version: 2, blockedCids: 0 });
+    expect(await storageService.hasBlob(cid)).toBe(true);
+  });
+
+  test('should refuse denylists over the size limit without reading them whole', async () => {
+    const MB = 1024 * 1024;
+    jest.spyOn(global, 'fetch').mockResolvedValueOnce(new Response('{}', {
+      headers: { 'Content-Length': String(64 * MB) }
+    }));
+    const declared = await service.addSubscription({ publisher: publisher.address, url: 'https://example.com/denylist.json' });
+    expect(declared.lastError).toBe('Denylist too large');
+
+    // No declared length: the download stops once it passes the limit
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += MB;
+        controller.enqueue(new Uint8Array(MB));
+      }
+    });
+    jest.spyOn(global, 'fetch').mockResolvedValueOnce(new Response(body));
+    await service.refreshSubscriptions();
+
+    expect(service.getBlocked().subscriptions[0].lastError).toBe('Denylist too large');
+    expect(sent).toBeLessThan(20 * MB);
+  });
+
+  test('should apply a denylist fetched while the block list was reloaded', async () => {
+    const cid = await storeRandomBlob();
+    mockProtocols.getDenylistFromPeer.mockResolvedValue(await publish(1, []));
+    const subscription = await service.addSubscription({ publisher: publisher.address, peerId: 'peer-1' });
+
+    let respond!: (list: SignedDenylist) => void;
+    mockProtocols.getDenylistFromPeer.mockReturnValue(new Promise(resolve => { respond = resolve; }));
+    const refreshing = service.refreshSubscriptions();
+
+    // A lookup while the fetch is pending finds the list stale and reloads it
+    (service as any).lastLoad = 0;
+    expect(await service.isBlocked(cid)).toBe(false);
+
+    respond(await publish(2, [cid]));
+    await refreshing;
+
+    expect(service.getBlocked().subscriptions).toEqual([expect.objectContaining({ id: subscription.id, version: 2, blockedCids: 1 })]);
+    expect(await storageService.hasBlob(cid)).toBe(false);
+    (service as any).lastLoad = 0;
+    expect(await service.isBlocked(cid)).toBe(true);
+  });
+
+  test('should fetch denylists from peers over P2P', async () => {
+    const cid = await storeRandomBlob();
+    mockProtocols.getDenylistFromPeer.mockResolvedValue(await publish(1, [cid]));
+
+    const subscription = await service.addSubscription({ publisher: publisher.address.toLowerCase(), peerId: 'peer-1' });
+
+    expect(mockProtocols.getDenylistFromPeer).toHaveBeenCalledWith('peer-1', publisher.address);
+    expect(subscription.version).toBe(1);
+    expect(await storageService.hasBlob(cid)).toBe(false);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Tests for chunked large-blob storage (Merkle manifests, reassembly,
+ * incomplete manifests and chunk reference tracking)
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import express from 'express';
+import { Readable } from 'stream';
+import { blobHandler, blobHeadHandler } from '../src/routes/blob.route';
+import { storageService } from '../src/services/storage.service';
+import { generateCID } from '../src/utils/cid';
+import {
+  MANIFEST_MIME_TYPE,
+  computeMerkleRoot,
+  createManifest,
+  parseManifest
+} from '../src/utils/manifest';
+
+const app = express();
+app.head('/blob/:cid', blobHeadHandler);
+app.get('/blob/:cid', blobHandler);
+
+const CHUNK_SIZE = 1024;
+
+function binaryParser(res: any, callback: (err: Error | null, body: Buffer) => void): void {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+async function storeChunked(content: Buffer, mimeType = 'video/mp4'): Promise<string> {
+  const staged = await storageService.stageBlobStream(
+    Readable.from([content]),
+    content.length,
+    CHUNK_SIZE
+  );
+  return storageService.storeChunkedBlob(staged, mimeType);
+}
+
+describe('Manifest Utilities', () => {
+  const cids = ['a', 'b', 'c'].map(s => generateCID(Buffer.from(s)));
+
+  test('computeMerkleRoot should hash pairs and carry an odd node up', () => {
+    const pair = (x: Buffer, y: Buffer) => crypto.createHash('sha256').update(x).update(y).digest();
+    const leaves = cids.map(c => Buffer.from(c, 'hex'));
+    const expected = pair(pair(leaves[0], leaves[1]), leaves[2]).toString('hex');
+
+    expect(computeMerkleRoot(cids)).toBe(expected);
+    expect(computeMerkleRoot([cids[0]])).toBe(cids[0]);
+  });
+
+  test('createManifest should be deterministic', () => {
+    const chunks = cids.map(cid => ({ cid, size: 10 }));
+    const first = createManifest(chunks, 'text/plain', 30, cids[0], 10);
+    const second = createManifest(chunks, 'text/plain', 30, cids[0], 10);
+
+    expect(first.cid).toBe(second.cid);
+    expect(first.cid).toBe(generateCID(first.buffer));
+  });
+
+  test('parseManifest should accept a valid manifest', () => {
+    const { buffer, manifest } = createManifest(
+      [{ cid: cids[0], size: 10 }, { cid: cids[1], size: 4 }],
+      'text/plain',
+      14,
+      cids[2],
+      10
+    );
+
+    expect(parseManifest(buffer)).toEqual(manifest);
+  });
+
+  test('parseManifest should reject a wrong Merkle root', () => {
+    const { manifest } = createManifest([{ cid: cids[0], size: 10 }], 'text/plain', 10, cids[2], 10);
+    const tampered = Buffer.from(JSON.stringify({ ...manifest, merkleRoot: cids[1] }));
+
+    expect(() => parseManifest(tampered)).toThrow('Merkle root');
+  });
+
+  test('parseManifest should reject sizes that do not add up', () => {
+    const { manifest } = createManifest([{ cid: cids[0], size: 10 }], 'text/plain', 10, cids[2], 10);
+    const tampered = Buffer.from(JSON.stringify({ ...manifest, size: 11 }));
+
+    expect(() => parseManifest(tampered)).toThrow('add up');
+  });
+});
+
+describe('Chunked Blob Storage', () => {
+  const content = crypto.randomBytes(CHUNK_SIZE * 3 + 100);
+  let cid: string;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+    cid = await storeChunked(content);
+  });
+
+  afterAll(async () => {
+    await storageService.deleteBlob(cid).catch(() => {});
+  });
+
+  test('should store chunks under their own CIDs and the manifest last', async () => {
+    const manifest = await storageService.getManifest(cid);
+
+    expect(manifest).not.toBeNull();
+    expect(manifest!.chunks).toHaveLength(4);
+    expect(manifest!.contentCid).toBe(generateCID(content));
+    expect(manifest!.chunks[0].cid).toBe(generateCID(content.subarray(0, CHUNK_SIZE)));
+
+    const metadata = await storageService.getMetadata(cid);
+    expect(metadata.mimeType).toBe(MANIFEST_MIME_TYPE);
+    expect(metadata.manifest).toEqual({ mimeType: 'video/mp4', size: content.length, chunkCount: 4 });
+
+    const chunkMeta = await storageService.getMetadata(manifest!.chunks[0].cid);
+    expect(chunkMeta.chunkOf).toContain(cid);
+  });
+
+  test('should reassemble the full content when streamed', async () => {
+    const { stream } = await storageService.openBlobStream(cid);
+    const data = Buffer.concat(await stream.toArray());
+
+    expect(data.equals(content)).toBe(true);
+  });
+
+  test('should serve a range spanning chunk boundaries', async () => {
+    const { stream } = await storageService.openBlobStream(cid, { start: 1000, end: 2100 });
+    const data = Buffer.concat(await stream.toArray());
+
+    expect(data.equals(content.subarray(1000, 2101))).toBe(true);
+  });
+
+  test('should refuse a stored manifest that does not match its CID', async () => {
+    // A manifest swapped for another valid one would serve the other content
+    const other = createManifest([{ cid: generateCID(content), size: 1 }], 'video/mp4', 1, generateCID(content), CHUNK_SIZE);
+    jest.spyOn(storageService as any, 'readBlobData').mockResolvedValueOnce(other.buffer);
+
+    await expect(storageService.openBlobStream(cid)).rejects.toMatchObject({ code: 'CID_MISMATCH' });
+  });
+
+  test('should refuse to delete a chunk still referenced by a manifest', async () => {
+    const manifest = await storageService.getManifest(cid);
+
+    await expect(
+      storageService.deleteBlob(manifest!.chunks[1].cid)
+    ).rejects.toMatchObject({ code: 'CHUNK_IN_USE' });
+  });
+
+  test('should reject a manifest whose chunks are missing', async () => {
+    const missing = generateCID(Buffer.from('never stored'));
+    const { cid: orphanCid, buffer } = createManifest(
+      [{ cid: missing, size: 12 }],
+      'text/plain',
+      12,
+      missing,
+      CHUNK_SIZE
+    );
+
+    await expect(
+      storageService.storeBlob(orphanCid, buffer, MANIFEST_MIME_TYPE)
+    ).rejects.toMatchObject({ code: 'BLOB_INCOMPLETE' });
+    expect(await storageService.hasBlob(orphanCid)).toBe(false);
+  });
+
+  describe('GET /blob/:cid', () => {
+    it('should stream the reassembled content with the original mimeType', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}`)
+        .set('Accept', 'application/octet-stream')
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('video/mp4');
+      expect(response.headers['content-length']).toBe(String(content.length));
+      expect((response.body as Buffer).equals(content)).toBe(true);
+    });
+
+    it('should serve ranges against the reassembled content', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}`)
+        .set('Range', 'bytes=1020-1030')
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(206);
+      expect(response.headers['content-range']).toBe(`bytes 1020-1030/${content.length}`);
+      expect((response.body as Buffer).equals(content.subarray(1020, 1031))).toBe(true);
+    });
+
+    it('should serve the manifest itself with resolve=false', async () => {
+      const response = await request(app)
+        .get(`/blob/${cid}?resolve=false&format=raw`)
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe(MANIFEST_MIME_TYPE);
+      expect(generateCID(response.body as Buffer)).toBe(cid);
+    });
+
+    it('should return reassembled base64 content in JSON mode', async () => {
+      const response = await request(app).get(`/blob/${cid}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.mimeType).toBe('video/mp4');
+      expect(Buffer.from(response.body.ciphertext, 'base64').equals(content)).toBe(true);
+    });
+
+    it('should report the content size on HEAD', async () => {
+      const response = await request(app).head(`/blob/${cid}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-length']).toBe(String(content.length));
+      expect(response.headers['content-type']).toBe('video/mp4');
+    });
+  });
+
+  test('should delete unreferenced chunks together with the manifest', async () => {
+    const other = crypto.randomBytes(CHUNK_SIZE * 2);
+    const otherCid = await storeChunked(other);
+    const manifest = await storageService.getManifest(otherCid);
+
+    await storageService.deleteBlob(otherCid);
+
+    expect(await storageService.hasBlob(otherCid)).toBe(false);
+    for (const chunk of manifest!.chunks) {
+      expect(await storageService.hasBlob(chunk.cid)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for compression algorithms (per-type policy, sampling, legacy
+ * gzip records and per-algorithm stats)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { storageService } from '../src/services/storage.service';
+import { cacheService } from '../src/services/cache.service';
+import { selectCompression } from '../src/utils/compression';
+import { generateCID } from '../src/utils/cid';
+import { config } from '../src/config';
+import { CompressionRule } from '../src/types';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-compression-', { compressionEnabled: true }));
+
+const TEXT = Buffer.from('compressible blob content '.repeat(4000));
+
+describe('Compression Policy', () => {
+  test('should pick the first matching rule, else the default', () => {
+    const rules: CompressionRule[] = [
+      { mimeType: 'image/*', algorithm: 'none' },
+      { contentType: 'post', algorithm: 'brotli' },
+      { mimeType: 'text/plain', contentType: 'message', algorithm: 'none' }
+    ];
+
+    expect(selectCompression(rules, 'gzip', { mimeType: 'IMAGE/PNG', contentType: 'post' })).toBe('none');
+    expect(selectCompression(rules, 'gzip', { mimeType: 'application/json', contentType: 'post' })).toBe('brotli');
+    expect(selectCompression(rules, 'gzip', { mimeType: 'text/plain', contentType: 'message' })).toBe('none');
+    expect(selectCompression(rules, 'gzip', { mimeType: 'text/plain' })).toBe('gzip');
+  });
+});
+
+describe('Compressed Storage', () => {
+  const stored: string[] = [];
+  const defaultRules = config.compressionRules;
+
+  async function store(content: Buffer, mimeType: string, contentType?: string): Promise<string> {
+    const cid = generateCID(content);
+    await storageService.storeBlob(cid, content, mimeType, { appId: 'hashd', contentType });
+    stored.push(cid);
+    return cid;
+  }
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  afterEach(async () => {
+    for (const cid of stored.splice(0)) {
+      await storageService.deleteBlob(cid, { force: true, permanent: true }).catch(() => {});
+    }
+    config.compressionRules = defaultRules;
+  });
+
+  afterAll(async () => {
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should store with the algorithm the rules pick and read it back', async () => {
+    config.compressionRules = [{ contentType: 'post', algorithm: 'brotli' }];
+    const cid = await store(TEXT, 'application/json', 'post');
+
+    const metadata = await storageService.getMetadata(cid);
+    expect(metadata.compression).toBe('brotli');
+    expect((await storageService.getBlob(cid)).ciphertext.equals(TEXT)).toBe(true);
+
+    const { stream } = await storageService.openBlobStream(cid, { start: 10, end: 99 });
+    expect(Buffer.concat(await stream.toArray()).equals(TEXT.subarray(10, 100))).toBe(true);
+  });
+
+  test('should leave blobs uncompressed when the sample or the blob gains too little', async () => {
+    const random = await store(crypto.randomBytes(256 * 1024), 'application/octet-stream');
+    expect((await storageService.getMetadata(random)).compression).toBe('none');
+
+    config.compressionRules = [{ mimeType: 'image/*', algorithm: 'none' }];
+    const image = await store(TEXT.subarray(1), 'image/png');
+    expect((await storageService.getMetadata(image)).compression).toBe('none');
+  });
+
+  test('should read records from before algorithms were recorded as gzip', async () => {
+    const cid = await store(TEXT, 'text/plain');
+    expect((await storageService.getMetadata(cid)).compression).toBe('gzip');
+
+    await storageService.updateMetadata(cid, { compression: undefined, compressed: true });
+    cacheService.clear();
+
+    expect((await storageService.getBlob(cid)).ciphertext.equals(TEXT)).toBe(true);
+    expect(await storageService.verifyStoredBlob(cid, await storageService.getMetadata(cid)))
+      .toMatchObject({ status: 'ok' });
+  });
+
+  test('should report savings per algorithm', async () => {
+    config.compressionRules = [{ contentType: 'post', algorithm: 'brotli' }];
+    await store(TEXT, 'text/plain', 'post');
+    await store(TEXT.subarray(1), 'text/plain');
+    await store(crypto.randomBytes(1024), 'application/octet-stream');
+
+    const stats = await storageService.getCompressionStats();
+    expect(stats.map(stat => stat.algorithm)).toEqual(['brotli', 'gzip', 'none']);
+    for (const stat of stats) {
+      expect(stat.blobCount).toBe(1);
+      expect(stat.savedBytes).toBe(stat.originalSize - stat.storedSize);
+    }
+    expect(stats[0].savedBytes).toBeGreaterThan(TEXT.length / 2);
+    expect(stats[2].savedBytes).toBe(0);
+  });
+});
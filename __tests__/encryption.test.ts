@@ -0,0 +1,185 @@
+/**
+ * Tests for encryption at rest (envelope format, keyring, encrypted
+ * backend, encrypted metadata and key rotation)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  ENVELOPE_SEGMENT_SIZE,
+  decryptEnvelope,
+  encryptEnvelope,
+  envelopePlaintextSize,
+  parseEnvelopeHeader
+} from '../src/utils/envelope';
+import { EncryptionService } from '../src/services/encryption.service';
+import { EncryptedBackend, FilesystemBackend, MetadataIndex } from '../src/services/backends';
+import { generateCID } from '../src/utils/cid';
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+describe('Envelope Format', () => {
+  const key = crypto.randomBytes(32);
+
+  test('should round-trip empty, small and multi-segment data', () => {
+    for (const size of [0, 10, ENVELOPE_SEGMENT_SIZE, ENVELOPE_SEGMENT_SIZE * 2 + 5]) {
+      const data = crypto.randomBytes(size);
+      const sealed = encryptEnvelope(key, 7, data);
+
+      expect(parseEnvelopeHeader(sealed).keyId).toBe(7);
+      expect(envelopePlaintextSize(parseEnvelopeHeader(sealed), sealed.length)).toBe(size);
+      expect(decryptEnvelope(key, sealed).equals(data)).toBe(true);
+    }
+  });
+
+  test('should detect tampering and truncation', () => {
+    const sealed = encryptEnvelope(key, 1, crypto.randomBytes(ENVELOPE_SEGMENT_SIZE + 100));
+
+    const flipped = Buffer.from(sealed);
+    flipped[40] ^= 0x01;
+    expect(() => decryptEnvelope(key, flipped)).toThrow('authentication');
+
+    // Dropping the final segment leaves a valid-looking but non-final last segment
+    const truncated = sealed.subarray(0, 24 + ENVELOPE_SEGMENT_SIZE + 16);
+    expect(() => decryptEnvelope(key, truncated)).toThrow('authentication');
+  });
+});
+
+describe('Encryption at Rest', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-encryption-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should create a keyring and reopen it with the same passphrase only', async () => {
+    const first = new EncryptionService(dir, { passphrase: 'correct horse' });
+    await first.initialize();
+    const sealed = first.encrypt(Buffer.from('secret'));
+
+    const reopened = new EncryptionService(dir, { passphrase: 'correct horse' });
+    await reopened.initialize();
+    expect(reopened.decrypt(sealed).toString()).toBe('secret');
+
+    await expect(new EncryptionService(dir, { passphrase: 'wrong' }).initialize()).rejects.toThrow('does not unlock');
+    await expect(new EncryptionService(dir, {}).initialize()).rejects.toThrow('cannot be read');
+  });
+
+  test('should accept a hex key file', async () => {
+    const keyFile = path.join(dir, 'node.key');
+    await fs.writeFile(keyFile, crypto.randomBytes(32).toString('hex'));
+
+    const service = new EncryptionService(dir, { keyFile });
+    await service.initialize();
+
+    expect(service.getStatus()).toMatchObject({ enabled: true, activeKeyId: 1 });
+  });
+
+  describe('EncryptedBackend', () => {
+    let encryption: EncryptionService;
+    let inner: FilesystemBackend;
+    let backend: EncryptedBackend;
+
+    beforeEach(async () => {
+      encryption = new EncryptionService(dir, { passphrase: 'test passphrase' });
+      await encryption.initialize();
+      inner = new FilesystemBackend(dir);
+      backend = new EncryptedBackend(inner, encryption);
+      await backend.initialize();
+    });
+
+    test('should never write plaintext to the inner backend', async () => {
+      const data = Buffer.from('client ciphertext that must not hit the disk as-is');
+      const cid = generateCID(data);
+      await backend.put(cid, data);
+
+      const stored = (await inner.get(cid))!;
+      expect(stored.includes(data)).toBe(false);
+      expect((await backend.get(cid))!.equals(data)).toBe(true);
+    });
+
+    test('should stream ranges spanning segment boundaries', async () => {
+      const data = crypto.randomBytes(ENVELOPE_SEGMENT_SIZE * 3);
+      const cid = generateCID(data);
+      const filePath = path.join(dir, 'staged.part');
+      await fs.writeFile(filePath, data);
+      await backend.putFile(cid, filePath);
+
+      const start = ENVELOPE_SEGMENT_SIZE - 10;
+      const end = ENVELOPE_SEGMENT_SIZE * 2 + 10;
+      const range = await readAll((await backend.stream(cid, { start, end }))!);
+      expect(range.equals(data.subarray(start, end + 1))).toBe(true);
+
+      const full = await readAll((await backend.stream(cid))!);
+      expect(full.equals(data)).toBe(true);
+    });
+
+    test('should read plaintext written before encryption and encrypt it on reencrypt', async () => {
+      const data = Buffer.from('stored before encryption was enabled');
+      const cid = generateCID(data);
+      await inner.put(cid, data);
+
+      expect((await backend.get(cid))!.equals(data)).toBe(true);
+      expect(await readAll((await backend.stream(cid, { start: 0, end: 5 }))!)).toEqual(data.subarray(0, 6));
+
+      expect(await backend.reencrypt()).toEqual({ reencrypted: 1, failed: 0 });
+      expect(encryption.isCurrent((await inner.get(cid))!)).toBe(true);
+      expect((await backend.get(cid))!.equals(data)).toBe(true);
+    });
+
+    test('should move data to a rotated key and then retire the old one', async () => {
+      const data = Buffer.from('rotate me');
+      const cid = generateCID(data);
+      await backend.put(cid, data);
+
+      const metadataIndex = new MetadataIndex(dir);
+      await metadataIndex.initialize();
+      metadataIndex.setCipher(encryption);
+      await metadataIndex.put({ cid, size: data.length, mimeType: 'text/plain', createdAt: Date.now(), version: 2 }, 0);
+
+      const newKeyId = await encryption.rotateKey();
+      expect(encryption.getStatus().keyIds).toEqual([1, newKeyId]);
+
+      expect(await backend.reencrypt()).toEqual({ reencrypted: 1, failed: 0 });
+      expect(await metadataIndex.reencrypt()).toBe(1);
+      await encryption.completeReencryption(newKeyId);
+
+      expect(encryption.getStatus()).toMatchObject({ keyIds: [newKeyId], reencryptionPending: false });
+      expect((await backend.get(cid))!.equals(data)).toBe(true);
+      expect((await metadataIndex.get(cid))!.mimeType).toBe('text/plain');
+
+      await metadataIndex.close();
+    });
+  });
+
+  test('should store metadata records encrypted', async () => {
+    const encryption = new EncryptionService(dir, { passphrase: 'test passphrase' });
+    await encryption.initialize();
+    const metadataIndex = new MetadataIndex(dir);
+    await metadataIndex.initialize();
+    metadataIndex.setCipher(encryption);
+
+    const cid = generateCID(Buffer.from('x'));
+    await metadataIndex.put({ cid, size: 1, mimeType: 'application/secret-type', createdAt: 1, version: 2 }, 1);
+
+    // Usage scans decrypt the record for its MIME type only when asked
+    const mimeTypes: Array<string | null> = [];
+    await metadataIndex.scanUsage({}, record => mimeTypes.push(record.mimeType));
+    await metadataIndex.scanUsage({ resolveMimeTypes: true }, record => mimeTypes.push(record.mimeType));
+    expect(mimeTypes).toEqual([null, 'application/secret-type']);
+    await metadataIndex.close();
+
+    const raw = await fs.readFile(path.join(dir, 'metadata.sqlite'));
+    expect(raw.includes(Buffer.from('application/secret-type'))).toBe(false);
+  });
+});
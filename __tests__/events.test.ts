@@ -0,0 +1,176 @@
+/**
+ * Tests for the node event stream (events from the storage and P2P services,
+ * filters, and resuming after a reconnect)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import request from 'supertest';
+import { Readable } from 'stream';
+import { eventsService } from '../src/services/events.service';
+import { storageService } from '../src/services/storage.service';
+import { p2pService } from '../src/services/p2p.service';
+import { eventsHandler } from '../src/routes/events.route';
+import { generateCID } from '../src/utils/cid';
+import { NodeEvent } from '../src/types';
+import { config } from '../src/config';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-events-'));
+
+jest.mock('../src/services/p2p.service.js', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return {
+    p2pService: Object.assign(new EventEmitter(), {
+      isStarted: jest.fn(),
+      getConnectedPeers: jest.fn()
+    })
+  };
+});
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {}
+}));
+
+const app = express();
+app.get('/events', eventsHandler);
+
+async function storeRandomBlob(options?: { appId?: string; sender?: string }): Promise<string> {
+  const data = crypto.randomBytes(256);
+  const cid = generateCID(data);
+  await storageService.storeBlob(cid, data, 'image/png', options);
+  return cid;
+}
+
+/**
+ * Open GET /events and collect messages until `count` have arrived
+ */
+function readEvents(
+  port: number,
+  query: string,
+  count: number,
+  headers: Record<string, string> = {}
+): Promise<Array<{ id?: string; event: string; data: any }>> {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ port, path: `/events${query}`, headers }, res => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => {
+        text += chunk;
+        const messages = text.split('\n\n')
+          .filter(block => block.includes('event: '))
+          .map(block => {
+            const field = (name: string) => block.split('\n').find(line => line.startsWith(`${name}: `))?.slice(name.length + 2);
+            return { id: field('id'), event: field('event')!, data: JSON.parse(field('data')!) };
+          });
+        if (messages.length >= count) {
+          req.destroy();
+          resolve(messages.slice(0, count));
+        }
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('Node Events', () => {
+  let server: http.Server;
+  let port: number;
+  const published: NodeEvent[] = [];
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+    await eventsService.initialize();
+    unsubscribe = eventsService.subscribe(event => published.push(event));
+
+    server = app.listen(0);
+    port = (server.address() as AddressInfo).port;
+  });
+
+  beforeEach(() => {
+    published.length = 0;
+  });
+
+  afterAll(async () => {
+    unsubscribe();
+    eventsService.stop();
+    await new Promise(resolve => server.close(resolve));
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should publish stored and deleted blobs with their owners', async () => {
+    const cid = await storeRandomBlob({ appId: 'app-a', sender: '0xAbC' });
+    await storageService.deleteBlob(cid, { reason: 'gc' });
+
+    expect(published.map(event => event.type)).toEqual(['blob.stored', 'blob.deleted']);
+    expect(published[0].data).toEqual({
+      cid,
+      size: 256,
+      mimeType: 'image/png',
+      owners: [{ appId: 'app-a', sender: '0xAbC', contentType: undefined }],
+      fromPeer: undefined
+    });
+    expect(published[1].data).toMatchObject({ cid, reason: 'gc', trashed: true });
+  });
+
+  test('should publish a chunked blob once, with its reassembled size', async () => {
+    const content = crypto.randomBytes(4096);
+    const staged = await storageService.stageBlobStream(Readable.from([content]), content.length, 1024);
+    const cid = await storageService.storeChunkedBlob(staged, 'video/mp4');
+
+    expect(published).toHaveLength(1);
+    expect(published[0].data).toMatchObject({ cid, size: 4096, mimeType: 'video/mp4' });
+  });
+
+  test('should publish P2P broadcasts with only the expected fields', () => {
+    p2pService.emit('broadcast', { from: 'peer-1', message: 'hello', timestamp: 1700000000000, extra: 'dropped' });
+
+    expect(published[0]).toMatchObject({
+      type: 'broadcast',
+      data: { from: 'peer-1', message: 'hello', timestamp: 1700000000000 }
+    });
+    expect(published[0].data).not.toHaveProperty('extra');
+  });
+
+  test('should return missed events, or null when they cannot be resumed', async () => {
+    const start = eventsService.getLastEventId();
+    await storeRandomBlob();
+    await storeRandomBlob();
+
+    expect(eventsService.getEventsSince(start)).toEqual(published);
+    expect(eventsService.getEventsSince(published[1].id)).toEqual([]);
+    expect(eventsService.getEventsSince('1-1')).toBeNull();
+    expect(eventsService.getEventsSince('not-an-id')).toBeNull();
+  });
+
+  test('should stream filtered events and resume after Last-Event-ID', async () => {
+    const start = eventsService.getLastEventId();
+    const streamed = readEvents(port, '?types=blob.stored&appId=app-b', 1);
+    // Let the stream subscribe before anything is published
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    await storeRandomBlob({ appId: 'app-a' });
+    const matching = await storeRandomBlob({ appId: 'app-b' });
+
+    const [live] = await streamed;
+    expect(live).toMatchObject({ event: 'blob.stored', data: { cid: matching } });
+
+    const resumed = await readEvents(port, '', 2, { 'Last-Event-ID': start });
+    expect(resumed.map(message => message.id)).toEqual(published.map(event => event.id));
+
+    const [reset] = await readEvents(port, '?lastEventId=1-1', 1);
+    expect(reset).toEqual({ id: eventsService.getLastEventId(), event: 'reset', data: {} });
+  });
+
+  test('should reject unknown event types', async () => {
+    const response = await request(app).get('/events').query({ types: 'blob.stored,blob.updated' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('INVALID_REQUEST');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for uploader-specified expiry (signed expiresAt, per-owner expiry,
+ * GC deletion and refusal to store or replicate expired content)
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import express from 'express';
+import { ethers } from 'ethers';
+import { storageService } from '../src/services/storage.service';
+import { storageAuthorizationService } from '../src/services/storage-authorization.service';
+import { GarbageCollectionService } from '../src/services/gc.service';
+import { replicateHandler } from '../src/routes/replicate.route';
+import { generateCID } from '../src/utils/cid';
+import { BlobExpiredError, StorageAuthorization } from '../src/types';
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+app.post('/replicate', replicateHandler);
+
+const HOUR = 60 * 60 * 1000;
+
+async function signedAuthorization(
+  wallet: ethers.HDNodeWallet,
+  content: Buffer,
+  expiresAt?: number
+): Promise<StorageAuthorization> {
+  const authorization: StorageAuthorization = {
+    type: 'media',
+    sender: wallet.address,
+    signature: '',
+    timestamp: Date.now(),
+    nonce: crypto.randomUUID(),
+    contentHash: ethers.keccak256(content),
+    appId: 'hashd',
+    contentType: 'media',
+    expiresAt
+  };
+
+  const lines = [
+    'HASHD Vault Storage Request',
+    'Type: media',
+    `Content Hash: ${authorization.contentHash}`,
+    'App ID: hashd',
+    'Content Type: media',
+    'Context: ',
+    `Timestamp: ${authorization.timestamp}`,
+    `Nonce: ${authorization.nonce}`
+  ];
+  if (expiresAt !== undefined) {
+    lines.push(`Expires At: ${expiresAt}`);
+  }
+  const message = lines.join('\n');
+
+  authorization.signature = await wallet.signMessage(message);
+  return authorization;
+}
+
+describe('Blob Expiry', () => {
+  const wallet = ethers.Wallet.createRandom();
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  describe('Authorization', () => {
+    const content = Buffer.from('typing indicator');
+
+    test('should accept a signed expiry and reject one changed after signing', async () => {
+      const authorization = await signedAuthorization(wallet, content, Date.now() + HOUR);
+      expect(storageAuthorizationService.precheckAuthorization(authorization).authorized).toBe(true);
+
+      const extended = { ...authorization, expiresAt: authorization.expiresAt! + HOUR };
+      expect(storageAuthorizationService.precheckAuthorization(extended)).toMatchObject({
+        authorized: false,
+        error: 'Invalid signature'
+      });
+
+      // Stripping the expiry invalidates the signature too
+      const { expiresAt: _expiresAt, ...permanent } = authorization;
+      expect(storageAuthorizationService.precheckAuthorization(permanent).authorized).toBe(false);
+    });
+
+    test('should reject an expiry that is not in the future', async () => {
+      const authorization = await signedAuthorization(wallet, content, Date.now() - 1000);
+      expect(storageAuthorizationService.precheckAuthorization(authorization)).toMatchObject({
+        authorized: false,
+        error: 'expiresAt must be in the future'
+      });
+    });
+  });
+
+  describe('Storage', () => {
+    let content: Buffer;
+    let cid: string;
+
+    beforeEach(() => {
+      content = crypto.randomBytes(1024);
+      cid = generateCID(content);
+    });
+
+    afterEach(async () => {
+      if (await storageService.hasBlob(cid)) {
+        await storageService.deleteBlob(cid, { force: true });
+      }
+    });
+
+    test('should expire with the last owner and never while any owner keeps it', async () => {
+      const soon = Date.now() + HOUR;
+      const later = Date.now() + 2 * HOUR;
+
+      await storageService.storeBlob(cid, content, 'image/png', { appId: 'a', sender: '0xa', expiresAt: soon });
+      expect((await storageService.getMetadata(cid)).expiresAt).toBe(soon);
+
+      await storageService.storeBlob(cid, content, 'image/png', { appId: 'b', sender: '0xb', expiresAt: later });
+      expect((await storageService.getMetadata(cid)).expiresAt).toBe(later);
+
+      await storageService.storeBlob(cid, content, 'image/png', { appId: 'c', sender: '0xc' });
+      expect((await storageService.getMetadata(cid)).expiresAt).toBeUndefined();
+
+      await storageService.releaseBlob(cid, { appId: 'c', sender: '0xc' });
+      expect((await storageService.getMetadata(cid)).expiresAt).toBe(later);
+    });
+
+    test('should drop expired owners and delete the blob once it has expired', async () => {
+      const expiresAt = Date.now() + HOUR;
+      await storageService.storeBlob(cid, content, 'image/png', { appId: 'a', sender: '0xa', expiresAt });
+      await storageService.storeBlob(cid, content, 'image/png', { appId: 'b', sender: '0xb' });
+
+      expect(await storageService.expireBlob(cid, expiresAt)).toEqual({ deleted: false, expiredOwners: 1 });
+      expect((await storageService.getOwners(cid)).map(o => o.appId)).toEqual(['b']);
+
+      await storageService.releaseBlob(cid, { appId: 'b', sender: '0xb' });
+      expect(await storageService.hasBlob(cid)).toBe(false);
+    });
+
+    test('should keep expired blobs the operator has pinned', async () => {
+      const expiresAt = Date.now() + HOUR;
+      await storageService.storeBlob(cid, content, 'image/png', { appId: 'a', sender: '0xa', expiresAt });
+      await storageService.pinBlob(cid);
+
+      expect(await storageService.expireBlob(cid, expiresAt + 1)).toEqual({ deleted: false, expiredOwners: 1 });
+      expect(await storageService.hasBlob(cid)).toBe(true);
+    });
+
+    test('should refuse to store content that has already expired', async () => {
+      await expect(
+        storageService.storeBlob(cid, content, 'image/png', { expiresAt: Date.now() - 1 })
+      ).rejects.toThrow(BlobExpiredError);
+      expect(await storageService.hasBlob(cid)).toBe(false);
+    });
+
+    test('should delete expired blobs during GC regardless of retention policy', async () => {
+      await storageService.storeBlob(cid, content, 'image/png', {
+        appId: 'a',
+        sender: '0xa',
+        expiresAt: Date.now() + 50
+      });
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const gc = new GarbageCollectionService();
+      const dryRun = await gc.runGC(true);
+      expect(dryRun.deletedCids).toContain(cid);
+      expect(await storageService.hasBlob(cid)).toBe(true);
+
+      const result = await gc.runGC(false);
+      expect(result.expired).toBeGreaterThanOrEqual(1);
+      expect(result.deletedCids).toContain(cid);
+      expect(await storageService.hasBlob(cid)).toBe(false);
+    });
+
+    test('should reject replicas of expired content', async () => {
+      const authorization = await signedAuthorization(wallet, content, Date.now() - 1);
+      const response = await request(app).post('/replicate').send({
+        cid,
+        ciphertext: content.toString('base64'),
+        mimeType: 'image/png',
+        fromPeer: 'http://peer.example:3004',
+        authorization
+      });
+
+      expect(response.status).toBe(410);
+      expect(response.body.error).toBe('BLOB_EXPIRED');
+      expect(await storageService.hasBlob(cid)).toBe(false);
+    });
+
+    test('should only give replicas an expiry the uploader signed for this content', async () => {
+      const expiresAt = Date.now() + HOUR;
+      const replicate = (body: object) => request(app).post('/replicate').send({
+        cid,
+        ciphertext: content.toString('base64'),
+        mimeType: 'image/png',
+        fromPeer: 'http://peer.example:3004',
+        appId: 'hashd',
+        sender: wallet.address,
+        ...body
+      });
+
+      // Unsigned, for other content, or altered after signing: stored without expiry
+      const forged = { ...(await signedAuthorization(wallet, content, expiresAt)), expiresAt: Date.now() + 60 };
+      for (const body of [
+        { expiresAt: Date.now() + 60 },
+        { authorization: await signedAuthorization(wallet, crypto.randomBytes(1024), expiresAt) },
+        { authorization: forged }
+      ]) {
+        expect((await replicate(body)).status).toBe(200);
+        expect((await storageService.getMetadata(cid)).expiresAt).toBeUndefined();
+        await storageService.deleteBlob(cid, { force: true });
+      }
+
+      const authorization = await signedAuthorization(wallet, content, expiresAt);
+      expect((await replicate({ authorization })).status).toBe(200);
+      expect((await storageService.getMetadata(cid)).expiresAt).toBe(expiresAt);
+      expect((await storageService.getOwners(cid))[0].authorization).toEqual(authorization);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for crash consistency (write journal rollback on startup and the
+ * fsck pass reconciling blob files with their metadata)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import { storageService } from '../src/services/storage.service';
+import { fsckService } from '../src/services/fsck.service';
+import { p2pService } from '../src/services/p2p.service';
+import { p2pProtocolsService } from '../src/services/p2p-protocols.service';
+import { generateCID } from '../src/utils/cid';
+import { config } from '../src/config';
+
+jest.mock('../src/config/index.js', () =>
+  jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-fsck-'));
+
+jest.mock('../src/services/p2p.service.js', () => ({
+  p2pService: {
+    isStarted: jest.fn(),
+    getConnectedPeers: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {
+    retrieveFromPeer: jest.fn()
+  }
+}));
+
+const mockP2P = p2pService as jest.Mocked<typeof p2pService>;
+const mockProtocols = p2pProtocolsService as jest.Mocked<typeof p2pProtocolsService>;
+
+function randomBlob(): { cid: string; data: Buffer } {
+  const data = crypto.randomBytes(1024);
+  return { cid: generateCID(data), data };
+}
+
+describe('Crash Consistency', () => {
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  beforeEach(() => {
+    mockP2P.isStarted.mockReturnValue(false);
+  });
+
+  afterAll(async () => {
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+  });
+
+  test('should roll back a store interrupted before its metadata was written', async () => {
+    const metadataIndex = storageService.getMetadataIndex();
+    const manifest = randomBlob();
+    const chunk = randomBlob();
+
+    // A crash after the chunk and the manifest bytes, before the manifest record
+    const journalId = await metadataIndex.beginWrite(manifest.cid);
+    await metadataIndex.updateWrite(journalId, [chunk.cid]);
+    await storageService.storeBlob(chunk.cid, chunk.data, 'application/octet-stream');
+    await storageService.getBackend().put(manifest.cid, manifest.data);
+
+    await storageService.close();
+    await storageService.initialize();
+
+    expect(await storageService.getBackend().has(manifest.cid)).toBe(false);
+    expect(await storageService.hasBlob(chunk.cid)).toBe(false);
+    expect(await metadataIndex.get(chunk.cid)).toBeNull();
+    expect(await metadataIndex.listWrites()).toEqual([]);
+  });
+
+  test('should leave completed stores out of the journal', async () => {
+    const { cid, data } = randomBlob();
+    await storageService.storeBlob(cid, data, 'application/octet-stream');
+
+    expect(await storageService.getMetadataIndex().isWritePending(cid)).toBe(false);
+  });
+
+  test('should re-derive metadata for blob files matching their CID and quarantine the rest', async () => {
+    const orphan = randomBlob();
+    const compressible = Buffer.from('orphaned and compressed '.repeat(200));
+    const compressedCid = generateCID(compressible);
+    const mismatched = randomBlob();
+    await storageService.getBackend().put(orphan.cid, orphan.data);
+    await storageService.getBackend().put(compressedCid, gzipSync(compressible));
+    await storageService.getBackend().put(mismatched.cid, Buffer.from('not the right bytes'));
+
+    const result = await fsckService.run();
+
+    expect(result).toMatchObject({ orphanedBlobs: 3, rederived: 2, quarantined: 1 });
+    expect((await storageService.getBlob(orphan.cid)).ciphertext.equals(orphan.data)).toBe(true);
+    expect((await storageService.getBlob(compressedCid)).ciphertext.equals(compressible)).toBe(true);
+    expect((await storageService.getMetadata(compressedCid)).compression).toBe('gzip');
+    expect(await storageService.hasBlob(mismatched.cid)).toBe(false);
+    expect(fsckService.getStatus()).toMatchObject({ running: false, lastResult: result });
+  });
+
+  test('should re-fetch blobs whose file is missing from peers', async () => {
+    const found = randomBlob();
+    const lost = randomBlob();
+    for (const blob of [found, lost]) {
+      await storageService.storeBlob(blob.cid, blob.data, 'application/octet-stream');
+      await storageService.getBackend().delete(blob.cid);
+    }
+
+    mockP2P.isStarted.mockReturnValue(true);
+    mockP2P.getConnectedPeers.mockReturnValue(['peer-1']);
+    mockProtocols.retrieveFromPeer.mockImplementation(async (_peerId: string, cid: string) =>
+      cid === found.cid ? { ciphertext: found.data, mimeType: 'application/octet-stream' } : null
+    );
+
+    const result = await fsckService.run();
+
+    expect(result).toMatchObject({ missingBlobs: 2, refetched: 1, unrepaired: 1, unrepairedCids: [lost.cid] });
+    expect((await storageService.getBlob(found.cid)).ciphertext.equals(found.data)).toBe(true);
+  });
+
+  test('should remove temp files of interrupted writes, but not recent ones', async () => {
+    const blobsDir = path.join(config.dataDir, 'blobs', 'ab', 'cd');
+    await fs.mkdir(blobsDir, { recursive: true });
+    const stale = path.join(blobsDir, 'abcd-stale.enc.tmp');
+    const recent = path.join(blobsDir, 'abcd-recent.enc.tmp');
+    await fs.writeFile(stale, 'partial');
+    await fs.writeFile(recent, 'partial');
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    await fs.utimes(stale, yesterday, yesterday);
+
+    const result = await fsckService.run();
+
+    expect(result.tempFilesRemoved).toBe(1);
+    await expect(fs.access(stale)).rejects.toThrow();
+    await expect(fs.access(recent)).resolves.toBeUndefined();
+  });
+});
@@ -15,7 +15,9 @@ jest.mock('../src/services/storage.service.js', () => ({
     getMetadata: jest.fn(),
     deleteBlob: jest.fn(),
     getStats: jest.fn(),
-    getFreeDiskSpace: jest.fn()
+    getFreeDiskSpace: jest.fn(),
+    getBlobTier: jest.fn().mockResolvedValue('hot'),
+    getTierUsage: jest.fn().mockResolvedValue([])
   }
 }));
 
@@ -0,0 +1,32 @@
+/**
+ * Config for suites that need a data directory of their own
+ *
+ * jest.mock factories are hoisted above the imports, so suites load this
+ * helper with jest.requireActual inside the factory:
+ *
+ *   jest.mock('../src/config/index.js', () =>
+ *     jest.requireActual('./helpers/temp-config').withTempDataDir('bytecave-fsck-'));
+ */
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Config } from '../../src/types';
+
+/**
+ * A new empty directory under the system temp directory
+ */
+export function tempDir(prefix: string): string {
+  return mkdtempSync(join(tmpdir(), prefix));
+}
+
+/**
+ * The real config module, with dataDir pointed at a new temp directory and
+ * any overrides applied before the services read it
+ */
+export function withTempDataDir(prefix: string, overrides: Partial<Config> = {}): typeof import('../../src/config') {
+  const actual = jest.requireActual('../../src/config/index.js');
+  actual.config.dataDir = tempDir(prefix);
+  Object.assign(actual.config, overrides);
+  return actual;
+}
@@ -0,0 +1,223 @@
+/**
+ * Tests for the metadata index (incremental totals and per-app/sender usage,
+ * usage scans, filtered pagination and import of legacy per-CID metadata)
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import SQLite from 'better-sqlite3';
+import { FilesystemBackend, MetadataIndex } from '../src/services/backends';
+import { generateCID } from '../src/utils/cid';
+import { BlobMetadata, UsageRecord } from '../src/types';
+
+function makeMetadata(content: string, overrides: Partial<BlobMetadata> = {}): BlobMetadata {
+  const cid = generateCID(Buffer.from(content));
+  return {
+    cid,
+    size: content.length,
+    mimeType: 'text/plain',
+    createdAt: Date.now(),
+    version: 2,
+    ...overrides
+  };
+}
+
+describe('Metadata Index', () => {
+  let dir: string;
+  let index: MetadataIndex;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-index-'));
+    index = new MetadataIndex(dir);
+    await index.initialize();
+  });
+
+  afterEach(async () => {
+    await index.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should keep totals in step with inserts, updates and deletes', async () => {
+    const a = makeMetadata('a');
+    const b = makeMetadata('b', { pinned: true });
+
+    await index.put(a, 100);
+    await index.put(b, 40);
+    expect(await index.getTotals()).toEqual({ blobCount: 2, totalSize: 140, pinnedCount: 1, pinnedSize: 40 });
+
+    await index.update({ ...a, pinned: true });
+    expect(await index.getTotals()).toEqual({ blobCount: 2, totalSize: 140, pinnedCount: 2, pinnedSize: 140 });
+
+    await index.put(b, 60);
+    expect(await index.getTotals()).toMatchObject({ totalSize: 160, pinnedSize: 160 });
+
+    expect(await index.delete(a.cid)).toBe(true);
+    expect(await index.delete(a.cid)).toBe(false);
+    expect(await index.getTotals()).toEqual({ blobCount: 1, totalSize: 60, pinnedCount: 1, pinnedSize: 60 });
+  });
+
+  test('should keep per-app and per-sender usage in step', async () => {
+    const a = makeMetadata('a', { appId: 'app-1', sender: '0xAbC' });
+    const b = makeMetadata('b', { appId: 'app-1', sender: '0xdef' });
+    const manifest = makeMetadata('m', {
+      appId: 'app-2',
+      sender: '0xabc',
+      manifest: { mimeType: 'video/mp4', size: 5000, chunkCount: 2 }
+    });
+
+    await index.put(a, 10);
+    await index.put(b, 10);
+    await index.put(manifest, 10);
+    expect(await index.getUsage('app', 'app-1')).toMatchObject({ blobCount: 2, totalSize: 2 });
+    // Senders are case-insensitive; manifests count their whole content
+    expect(await index.getUsage('sender', '0xABC')).toMatchObject({ blobCount: 2, totalSize: 5001 });
+
+    await index.update({ ...b, appId: 'app-2' });
+    expect(await index.getUsage('app', 'app-2')).toMatchObject({ blobCount: 2, totalSize: 5001 });
+
+    await index.delete(a.cid);
+    expect(await index.getUsage('app', 'app-1')).toMatchObject({ blobCount: 0, totalSize: 0 });
+    expect((await index.listUsage('app')).map(u => u.key)).toEqual(['app-2']);
+  });
+
+  test('should scan the usage columns of records created in a range', async () => {
+    await index.put(makeMetadata('early', { createdAt: 1000 }), 1);
+    await index.put(makeMetadata('video', {
+      createdAt: 2000,
+      mimeType: 'application/vnd.bytecave.manifest+json',
+      manifest: { mimeType: 'video/mp4', size: 5000, chunkCount: 2 },
+      metrics: { retrievalCount: 3, lastAccessed: 2500, avgLatency: 0 }
+    }), 20);
+    const late = makeMetadata('late', { createdAt: 3000 });
+    await index.put(late, 1);
+
+    const records: UsageRecord[] = [];
+    expect(await index.scanUsage({ since: 2000, until: 3000 }, record => records.push(record))).toBe(1);
+    expect(records[0]).toMatchObject({ createdAt: 2000, mimeType: 'video/mp4', storedSize: 20, retrievalCount: 3 });
+
+    // Retrieval counts follow metadata updates
+    await index.update({ ...late, metrics: { retrievalCount: 1, lastAccessed: 3500, avgLatency: 0 } });
+    const counts: number[] = [];
+    await index.scanUsage({ since: 3000 }, record => counts.push(record.retrievalCount));
+    expect(counts).toEqual([1]);
+  });
+
+  test('should backfill usage for an index created before usage tracking', async () => {
+    const legacyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-index-'));
+    const metadata = makeMetadata('old', {
+      appId: 'app-old',
+      sender: '0xOld',
+      metrics: { retrievalCount: 7, lastAccessed: Date.now(), avgLatency: 0 }
+    });
+    const db = new SQLite(path.join(legacyDir, 'metadata.sqlite'));
+    db.exec(`
+      CREATE TABLE blob_metadata (
+        cid TEXT PRIMARY KEY, created_at INTEGER NOT NULL, app_id TEXT, content_type TEXT,
+        sender TEXT, pinned INTEGER NOT NULL DEFAULT 0, stored_size INTEGER NOT NULL, json TEXT NOT NULL
+      ) WITHOUT ROWID
+    `);
+    db.prepare('INSERT INTO blob_metadata VALUES (?, ?, ?, NULL, ?, 0, 99, ?)')
+      .run(metadata.cid, metadata.createdAt, 'app-old', '0xOld', JSON.stringify(metadata));
+    db.close();
+
+    const legacy = new MetadataIndex(legacyDir);
+    await legacy.initialize();
+    try {
+      expect(await legacy.getUsage('app', 'app-old')).toMatchObject({ blobCount: 1, totalSize: 3 });
+      expect(await legacy.getUsage('sender', '0xold')).toMatchObject({ blobCount: 1, totalSize: 3 });
+
+      const records: UsageRecord[] = [];
+      await legacy.scanUsage({}, record => records.push(record));
+      expect(records).toEqual([expect.objectContaining({ mimeType: 'text/plain', storedSize: 99, retrievalCount: 7 })]);
+    } finally {
+      await legacy.close();
+      await fs.rm(legacyDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should page through records newest first', async () => {
+    const records = Array.from({ length: 5 }, (_, i) => makeMetadata(`blob-${i}`, { createdAt: 1000 + i }));
+    for (const record of records) {
+      await index.put(record, 1);
+    }
+
+    const first = await index.query({ limit: 2 });
+    const second = await index.query({ limit: 2, cursor: first.nextCursor });
+    const third = await index.query({ limit: 2, cursor: second.nextCursor });
+
+    expect([...first.blobs, ...second.blobs, ...third.blobs].map(b => b.createdAt))
+      .toEqual([1004, 1003, 1002, 1001, 1000]);
+    expect(third.nextCursor).toBeUndefined();
+  });
+
+  test('should filter on indexed fields', async () => {
+    await index.put(makeMetadata('x', { appId: 'hashd', contentType: 'message', sender: '0xabc' }), 1);
+    await index.put(makeMetadata('y', { appId: 'hashd', contentType: 'media', pinned: true }), 1);
+    await index.put(makeMetadata('z', { appId: 'other', contentType: 'message' }), 1);
+
+    expect((await index.query({ appId: 'hashd' })).blobs).toHaveLength(2);
+    expect((await index.query({ contentType: 'message' })).blobs).toHaveLength(2);
+    expect((await index.query({ sender: '0xabc' })).blobs).toHaveLength(1);
+    expect((await index.query({ appId: 'hashd', pinned: true })).blobs).toHaveLength(1);
+  });
+
+  test('should sort by size and filter on creation time and MIME type', async () => {
+    const records = [
+      makeMetadata('a', { size: 300, createdAt: 1000, mimeType: 'image/png' }),
+      makeMetadata('b', { size: 100, createdAt: 2000, mimeType: 'image/jpeg' }),
+      makeMetadata('c', { size: 200, createdAt: 3000, mimeType: 'text/plain' }),
+      makeMetadata('d', { size: 400, createdAt: 4000, mimeType: 'IMAGE/GIF' })
+    ];
+    for (const record of records) {
+      await index.put(record, 1);
+    }
+
+    const first = await index.query({ sort: 'size', order: 'asc', limit: 3 });
+    const second = await index.query({ sort: 'size', order: 'asc', limit: 3, cursor: first.nextCursor });
+    expect([...first.blobs, ...second.blobs].map(b => b.size)).toEqual([100, 200, 300, 400]);
+    expect(second.nextCursor).toBeUndefined();
+
+    expect((await index.query({ since: 2000, until: 4000 })).blobs.map(b => b.createdAt)).toEqual([3000, 2000]);
+    expect((await index.query({ mimeType: 'image/*' })).blobs).toHaveLength(3);
+    expect((await index.query({ mimeType: 'image/png' })).blobs).toHaveLength(1);
+    expect(await index.count({ mimeType: 'image/*', since: 2000 })).toBe(2);
+  });
+
+  test('should page through records checked by a match function', async () => {
+    const records = Array.from({ length: 6 }, (_, i) => makeMetadata(`match-${i}`, { createdAt: 1000 + i }));
+    for (const record of records) {
+      await index.put(record, 1);
+    }
+    const even = (metadata: BlobMetadata) => metadata.createdAt % 2 === 0;
+
+    const first = await index.query({ limit: 2 }, even);
+    const second = await index.query({ limit: 2, cursor: first.nextCursor }, even);
+
+    expect([...first.blobs, ...second.blobs].map(b => b.createdAt)).toEqual([1004, 1002, 1000]);
+    expect(second.nextCursor).toBeUndefined();
+    expect(await index.count({}, even)).toBe(3);
+  });
+
+  test('should reject a malformed cursor', async () => {
+    await expect(index.query({ cursor: 'not-a-cursor' })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+  });
+
+  test('should import legacy meta/<cid>.json files with their stored sizes', async () => {
+    const backend = new FilesystemBackend(dir);
+    await backend.initialize();
+
+    const data = Buffer.from('legacy blob');
+    const metadata = makeMetadata('legacy blob');
+    await backend.put(metadata.cid, data);
+    await fs.mkdir(path.join(dir, 'meta'));
+    await fs.writeFile(path.join(dir, 'meta', `${metadata.cid}.json`), JSON.stringify(metadata));
+
+    expect(await index.importLegacy(backend)).toBe(1);
+    expect(await index.get(metadata.cid)).toEqual(metadata);
+    expect(await index.getTotals()).toMatchObject({ blobCount: 1, totalSize: data.length });
+    await expect(fs.access(path.join(dir, 'meta'))).rejects.toThrow();
+
+    expect(await index.importLegacy(backend)).toBe(0);
+  });
+});
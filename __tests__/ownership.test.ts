@@ -0,0 +1,196 @@
+/**
+ * Tests for per-blob ownership and reference counting (several apps or
+ * senders storing the same CID, owner pins and releases)
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import express from 'express';
+import { ethers } from 'ethers';
+import { storageService } from '../src/services/storage.service';
+import { integrityService } from '../src/services/integrity.service';
+import { listOwnersHandler, ownerActionHandler } from '../src/routes/owners.route';
+import { generateCID } from '../src/utils/cid';
+import { OwnerAction, StoreBlobOptions } from '../src/types';
+
+const app = express();
+app.use(express.json());
+app.get('/blobs/:cid/owners', listOwnersHandler);
+app.post('/blobs/:cid/owners/:action', ownerActionHandler);
+
+const alice = ethers.Wallet.createRandom();
+const bob = ethers.Wallet.createRandom();
+
+function storeOptions(appId: string, sender: string): StoreBlobOptions {
+  return { appId, sender, contentType: 'post', timestamp: Date.now() };
+}
+
+async function signedAction(wallet: ethers.HDNodeWallet, action: OwnerAction, cid: string, appId: string) {
+  const timestamp = Date.now();
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const message = `HASHD Vault Owner Action
+Action: ${action}
+CID: ${cid}
+App ID: ${appId}
+Timestamp: ${timestamp}
+Nonce: ${nonce}`;
+
+  return { appId, sender: wallet.address, timestamp, nonce, signature: await wallet.signMessage(message) };
+}
+
+describe('Blob Ownership', () => {
+  let content: Buffer;
+  let cid: string;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  beforeEach(async () => {
+    content = crypto.randomBytes(1024);
+    cid = generateCID(content);
+    await storageService.storeBlob(cid, content, 'application/octet-stream', storeOptions('app-a', alice.address));
+    await storageService.storeBlob(cid, content, 'application/octet-stream', storeOptions('app-b', bob.address));
+  });
+
+  afterEach(async () => {
+    if (await storageService.hasBlob(cid)) {
+      await storageService.deleteBlob(cid, { force: true });
+    }
+  });
+
+  test('should record every app and sender that stores the same blob', async () => {
+    const owners = await storageService.getOwners(cid);
+    expect(owners.map(o => [o.appId, o.sender])).toEqual([
+      ['app-a', alice.address],
+      ['app-b', bob.address]
+    ]);
+
+    // Storing again refreshes the record instead of adding a duplicate
+    await storageService.storeBlob(cid, content, 'application/octet-stream', storeOptions('app-a', alice.address));
+    expect(await storageService.getOwners(cid)).toHaveLength(2);
+
+    const page = await storageService.queryBlobs({ appId: 'app-b' });
+    expect(page.blobs.map(b => b.cid)).toContain(cid);
+  });
+
+  test('should not let replicas add owners to an existing blob', async () => {
+    await storageService.storeBlob(cid, content, 'application/octet-stream', {
+      ...storeOptions('app-c', '0xpeerclaimed'),
+      fromPeer: 'peer-1'
+    });
+
+    expect(await storageService.getOwners(cid)).toHaveLength(2);
+  });
+
+  test('should keep the blob pinned while any owner or the operator pins it', async () => {
+    await storageService.setOwnerPinned(cid, { appId: 'app-a', sender: alice.address }, true);
+    await storageService.pinBlob(cid);
+    expect((await storageService.getMetadata(cid)).pinned).toBe(true);
+
+    await storageService.unpinBlob(cid);
+    expect((await storageService.getMetadata(cid)).pinned).toBe(true);
+
+    await storageService.setOwnerPinned(cid, { appId: 'app-a', sender: alice.address }, false);
+    expect((await storageService.getMetadata(cid)).pinned).toBe(false);
+  });
+
+  test('should delete the blob only when the last reference is released', async () => {
+    expect(await storageService.releaseBlob(cid, { appId: 'app-a', sender: alice.address }))
+      .toEqual({ deleted: false, remainingOwners: 1 });
+    expect(await storageService.hasBlob(cid)).toBe(true);
+
+    const metadata = await storageService.getMetadata(cid);
+    expect(metadata).toMatchObject({ appId: 'app-b', sender: bob.address });
+    expect((await storageService.queryBlobs({ appId: 'app-a' })).blobs.map(b => b.cid)).not.toContain(cid);
+
+    expect(await storageService.releaseBlob(cid, { appId: 'app-b', sender: bob.address }))
+      .toEqual({ deleted: true, remainingOwners: 0 });
+    expect(await storageService.hasBlob(cid)).toBe(false);
+  });
+
+  test('should keep a released blob the operator has pinned', async () => {
+    await storageService.pinBlob(cid);
+    await storageService.releaseBlob(cid, { appId: 'app-a', sender: alice.address });
+    const result = await storageService.releaseBlob(cid, { appId: 'app-b', sender: bob.address });
+
+    expect(result).toEqual({ deleted: false, remainingOwners: 0 });
+    expect(await storageService.hasBlob(cid)).toBe(true);
+  });
+
+  test('should treat records written before ownership tracking as owned by their sender', async () => {
+    const metadataIndex = storageService.getMetadataIndex();
+    const legacyContent = crypto.randomBytes(512);
+    const legacyCid = generateCID(legacyContent);
+    await storageService.storeBlob(legacyCid, legacyContent, 'application/octet-stream');
+
+    const { owners: _owners, operatorPinned: _operatorPinned, ...current } = (await metadataIndex.get(legacyCid))!;
+    const legacy = { ...current, appId: 'app-old', sender: alice.address, pinned: true };
+    await metadataIndex.update({ ...legacy, integrityHash: integrityService.signMetadata(legacy) });
+
+    expect(await storageService.getOwners(legacyCid)).toMatchObject([{ appId: 'app-old', sender: alice.address }]);
+
+    // The old pin was the operator's, so releasing the only owner keeps the blob
+    expect(await storageService.releaseBlob(legacyCid, { appId: 'app-old', sender: alice.address }))
+      .toEqual({ deleted: false, remainingOwners: 0 });
+
+    await storageService.deleteBlob(legacyCid, { force: true });
+  });
+
+  describe('HTTP API', () => {
+    test('should list owners without their authorization envelopes', async () => {
+      const response = await request(app).get(`/blobs/${cid}/owners`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(2);
+      expect(response.body.owners[0]).toEqual({
+        appId: 'app-a',
+        sender: alice.address,
+        contentType: 'post',
+        timestamp: expect.any(Number),
+        pinned: false
+      });
+    });
+
+    test('should apply signed owner actions', async () => {
+      const pin = await request(app)
+        .post(`/blobs/${cid}/owners/pin`)
+        .send(await signedAction(bob, 'pin', cid, 'app-b'));
+      expect(pin.status).toBe(200);
+      expect((await storageService.getMetadata(cid)).pinned).toBe(true);
+
+      const release = await request(app)
+        .post(`/blobs/${cid}/owners/release`)
+        .send(await signedAction(alice, 'release', cid, 'app-a'));
+      expect(release.status).toBe(200);
+      expect(release.body).toMatchObject({ deleted: false, remainingOwners: 1 });
+    });
+
+    test('should reject forged, replayed and unknown-owner requests', async () => {
+      // Signed by alice but claiming to be bob
+      const forged = { ...(await signedAction(alice, 'release', cid, 'app-b')), sender: bob.address };
+      expect((await request(app).post(`/blobs/${cid}/owners/release`).send(forged)).status).toBe(403);
+
+      // A signature for one action cannot be used for another
+      const pinRequest = await signedAction(alice, 'pin', cid, 'app-a');
+      expect((await request(app).post(`/blobs/${cid}/owners/release`).send(pinRequest)).status).toBe(403);
+
+      const body = await signedAction(alice, 'unpin', cid, 'app-a');
+      expect((await request(app).post(`/blobs/${cid}/owners/unpin`).send(body)).status).toBe(200);
+      expect((await request(app).post(`/blobs/${cid}/owners/unpin`).send(body)).status).toBe(403);
+
+      const notOwner = await request(app)
+        .post(`/blobs/${cid}/owners/release`)
+        .send(await signedAction(alice, 'release', cid, 'app-b'));
+      expect(notOwner.status).toBe(404);
+      expect(notOwner.body.error).toBe('OWNER_NOT_FOUND');
+
+      expect(await storageService.getOwners(cid)).toHaveLength(2);
+    });
+
+    test('should validate the action and body', async () => {
+      expect((await request(app).post(`/blobs/${cid}/owners/delete`).send({})).status).toBe(400);
+      expect((await request(app).post(`/blobs/${cid}/owners/pin`).send({ appId: 'app-a' })).status).toBe(400);
+    });
+  });
+});
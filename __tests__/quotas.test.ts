@@ -0,0 +1,234 @@
+/**
+ * Tests for per-app and per-sender storage quotas (enforcement on
+ * replication and the admin usage endpoints)
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import express from 'express';
+import { ethers } from 'ethers';
+import { storageService } from '../src/services/storage.service';
+import { quotaService } from '../src/services/quota.service';
+import { replicateHandler } from '../src/routes/replicate.route';
+import { listQuotasHandler, quotaUsageHandler } from '../src/routes/quota.route';
+import { generateCID } from '../src/utils/cid';
+import { config } from '../src/config';
+import { QuotaExceededError, StorageAuthorization } from '../src/types';
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+app.post('/replicate', replicateHandler);
+app.get('/admin/quotas', listQuotasHandler);
+app.get('/admin/quotas/:scope/:key', quotaUsageHandler);
+
+function randomBlob(size = 1024): { cid: string; content: Buffer } {
+  const content = crypto.randomBytes(size);
+  return { cid: generateCID(content), content };
+}
+
+async function signedAuthorization(
+  wallet: ethers.HDNodeWallet,
+  appId: string,
+  content: Buffer
+): Promise<StorageAuthorization> {
+  const authorization: StorageAuthorization = {
+    type: 'media',
+    sender: wallet.address,
+    signature: '',
+    timestamp: Date.now(),
+    nonce: crypto.randomUUID(),
+    contentHash: ethers.keccak256(content),
+    appId,
+    contentType: 'media'
+  };
+
+  const message = [
+    'HASHD Vault Storage Request',
+    'Type: media',
+    `Content Hash: ${authorization.contentHash}`,
+    `App ID: ${appId}`,
+    'Content Type: media',
+    'Context: ',
+    `Timestamp: ${authorization.timestamp}`,
+    `Nonce: ${authorization.nonce}`
+  ].join('\n');
+
+  authorization.signature = await wallet.signMessage(message);
+  return authorization;
+}
+
+describe('Storage Quotas', () => {
+  const appId = `quota-app-${crypto.randomUUID()}`;
+  const sender = `0x${crypto.randomBytes(20).toString('hex')}`;
+  const stored: string[] = [];
+  const savedAppQuotas = config.appQuotas;
+  const savedSenderQuotas = config.senderQuotas;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  afterEach(async () => {
+    config.appQuotas = savedAppQuotas;
+    config.senderQuotas = savedSenderQuotas;
+    for (const cid of stored.splice(0)) {
+      if (await storageService.hasBlob(cid)) {
+        await storageService.deleteBlob(cid, { force: true, permanent: true });
+      }
+    }
+  });
+
+  async function store(owner: { appId?: string; sender?: string }, size = 1024): Promise<string> {
+    const { cid, content } = randomBlob(size);
+    await storageService.storeBlob(cid, content, 'image/png', owner);
+    stored.push(cid);
+    return cid;
+  }
+
+  test('should track usage as blobs are stored and deleted', async () => {
+    const first = await store({ appId, sender });
+    await store({ appId, sender: sender.toUpperCase() });
+
+    expect(await storageService.getUsage('app', appId)).toMatchObject({ blobCount: 2, totalSize: 2048 });
+    expect(await storageService.getUsage('sender', sender)).toMatchObject({ blobCount: 2, totalSize: 2048 });
+
+    // Trashed blobs no longer count
+    await storageService.deleteBlob(first);
+    expect(await storageService.getUsage('app', appId)).toMatchObject({ blobCount: 1, totalSize: 1024 });
+    await storageService.purgeTrashed(first);
+  });
+
+  test('should refuse new blobs over the byte or blob limit', async () => {
+    config.appQuotas = { [appId]: { maxMB: 1 } };
+    config.senderQuotas = { [sender.toUpperCase()]: { maxBlobs: 1 } };
+
+    await expect(quotaService.assertWithinQuota({ appId }, 2 * 1024 * 1024))
+      .rejects.toMatchObject({ code: 'QUOTA_EXCEEDED', details: { scope: 'app', limit: 'bytes' } });
+
+    await store({ appId, sender });
+    await expect(quotaService.assertWithinQuota({ appId, sender }, 1024))
+      .rejects.toMatchObject({ details: { scope: 'sender', key: sender, limit: 'blobs', used: 1, max: 1 } });
+  });
+
+  test('should apply the default quota to apps without their own', async () => {
+    config.appQuotas = { '*': { maxBlobs: 0 }, 'listed-app': {} };
+
+    await expect(quotaService.assertWithinQuota({ appId }, 1)).rejects.toThrow(QuotaExceededError);
+    await expect(quotaService.assertWithinQuota({ appId: 'listed-app' }, 1)).resolves.toBeUndefined();
+    expect(quotaService.getQuota('app', appId)).toEqual({ maxBlobs: 0 });
+  });
+
+  test('should reject replicas over quota but accept blobs already stored', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const existing = await store({ appId, sender: wallet.address });
+    config.senderQuotas = { '*': { maxBlobs: 1 } };
+
+    const { cid, content } = randomBlob();
+    stored.push(cid);
+    const rejected = await request(app).post('/replicate').send({
+      cid,
+      ciphertext: content.toString('base64'),
+      mimeType: 'image/png',
+      fromPeer: 'http://peer.example:3004',
+      authorization: await signedAuthorization(wallet, appId, content)
+    });
+    expect(rejected.status).toBe(403);
+    expect(rejected.body.error).toBe('QUOTA_EXCEEDED');
+    expect(await storageService.hasBlob(cid)).toBe(false);
+
+    const { ciphertext } = await storageService.getBlob(existing);
+    const duplicate = await request(app).post('/replicate').send({
+      cid: existing,
+      ciphertext: ciphertext.toString('base64'),
+      mimeType: 'image/png',
+      fromPeer: 'http://peer.example:3004',
+      authorization: await signedAuthorization(wallet, appId, ciphertext)
+    });
+    expect(duplicate.status).toBe(200);
+    expect(duplicate.body.alreadyStored).toBe(true);
+  });
+
+  test('should charge replicas to the signed owner, not the one the peer claims', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    config.senderQuotas = { [sender]: { maxBlobs: 0 } };
+
+    // An unsigned replica naming a full sender is stored unowned and charged to no one
+    const unsigned = randomBlob();
+    stored.push(unsigned.cid);
+    const accepted = await request(app).post('/replicate').send({
+      cid: unsigned.cid,
+      ciphertext: unsigned.content.toString('base64'),
+      mimeType: 'image/png',
+      fromPeer: 'http://peer.example:3004',
+      appId,
+      sender
+    });
+    expect(accepted.status).toBe(200);
+    expect(await storageService.getUsage('app', appId)).toMatchObject({ blobCount: 0 });
+
+    // A signed replica is owned by the signer whatever appId and sender the peer sends
+    const signed = randomBlob();
+    stored.push(signed.cid);
+    const response = await request(app).post('/replicate').send({
+      cid: signed.cid,
+      ciphertext: signed.content.toString('base64'),
+      mimeType: 'image/png',
+      fromPeer: 'http://peer.example:3004',
+      appId: 'other-app',
+      sender,
+      authorization: await signedAuthorization(wallet, appId, signed.content)
+    });
+    expect(response.status).toBe(200);
+    expect(await storageService.getUsage('app', appId)).toMatchObject({ blobCount: 1, totalSize: 1024 });
+    expect(await storageService.getUsage('sender', wallet.address)).toMatchObject({ blobCount: 1 });
+    expect(await storageService.getUsage('sender', sender)).toMatchObject({ blobCount: 0 });
+  });
+
+  test('should refuse replicas when the node is full', async () => {
+    const savedMaxStorageGB = config.maxStorageGB;
+    config.maxStorageGB = 0;
+    try {
+      const { cid, content } = randomBlob();
+      stored.push(cid);
+      const response = await request(app).post('/replicate').send({
+        cid,
+        ciphertext: content.toString('base64'),
+        mimeType: 'image/png',
+        fromPeer: 'http://peer.example:3004'
+      });
+      expect(response.status).toBe(507);
+      expect(response.body.error).toBe('STORAGE_FULL');
+      expect(await storageService.hasBlob(cid)).toBe(false);
+    } finally {
+      config.maxStorageGB = savedMaxStorageGB;
+    }
+  });
+
+  describe('HTTP API', () => {
+    test('should report usage against quota', async () => {
+      config.appQuotas = { [appId]: { maxMB: 1, maxBlobs: 10 }, 'idle-app': { maxBlobs: 5 } };
+      await store({ appId, sender }, 1024 * 512);
+
+      const one = await request(app).get(`/admin/quotas/app/${appId}`);
+      expect(one.status).toBe(200);
+      expect(one.body).toMatchObject({
+        key: appId,
+        blobCount: 1,
+        totalSize: 1024 * 512,
+        quota: { maxMB: 1, maxBlobs: 10 },
+        percentUsed: 50
+      });
+
+      const list = await request(app).get('/admin/quotas?scope=app&limit=1000');
+      expect(list.status).toBe(200);
+      const keys = list.body.usage.map((u: any) => u.key);
+      expect(keys).toEqual(expect.arrayContaining([appId, 'idle-app']));
+    });
+
+    test('should validate the scope and limit', async () => {
+      expect((await request(app).get('/admin/quotas?scope=owner')).status).toBe(400);
+      expect((await request(app).get('/admin/quotas?limit=0')).status).toBe(400);
+      expect((await request(app).get('/admin/quotas/group/x')).status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for the integrity scrubber (detection, quarantine, repair from
+ * peers and repair history)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import request from 'supertest';
+import express from 'express';
+import { storageService } from '../src/services/storage.service';
+import { scrubService } from '../src/services/scrub.service';
+import { scrubRepairsHandler, scrubStatusHandler } from '../src/routes/scrub.route';
+import { p2pService } from '../src/services/p2p.service';
+import { p2pProtocolsService } from '../src/services/p2p-protocols.service';
+import { generateCID } from '../src/utils/cid';
+
+jest.mock('../src/services/p2p.service.js', () => ({
+  p2pService: {
+    isStarted: jest.fn(),
+    getConnectedPeers: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {
+    retrieveFromPeer: jest.fn()
+  }
+}));
+
+const app = express();
+app.get('/scrub/status', scrubStatusHandler);
+app.get('/scrub/repairs', scrubRepairsHandler);
+
+const mockP2P = p2pService as jest.Mocked<typeof p2pService>;
+const mockProtocols = p2pProtocolsService as jest.Mocked<typeof p2pProtocolsService>;
+
+describe('Integrity Scrubber', () => {
+  let content: Buffer;
+  let cid: string;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  beforeEach(async () => {
+    content = crypto.randomBytes(2048);
+    cid = generateCID(content);
+    await storageService.storeBlob(cid, content, 'application/octet-stream');
+
+    mockP2P.isStarted.mockReturnValue(true);
+    mockP2P.getConnectedPeers.mockReturnValue(['peer-bad', 'peer-good']);
+    mockProtocols.retrieveFromPeer.mockImplementation(async (peerId: string, requested: string) => {
+      if (requested !== cid) return null;
+      return {
+        ciphertext: peerId === 'peer-good' ? content : Buffer.from('not the right bytes'),
+        mimeType: 'application/octet-stream'
+      };
+    });
+  });
+
+  test('should quarantine corrupt bytes and repair them from a peer with a good copy', async () => {
+    await storageService.getBackend().put(cid, Buffer.from('bit rot'));
+
+    const result = await scrubService.runScrub();
+    expect(result.corrupt).toBeGreaterThanOrEqual(1);
+    expect(result.repaired).toBeGreaterThanOrEqual(1);
+
+    const [record] = scrubService.getRepairHistory().filter(r => r.cid === cid);
+    expect(record).toMatchObject({ problem: 'corrupt', outcome: 'repaired', peerId: 'peer-good' });
+    expect((await fs.readFile(record.quarantinePath!)).toString()).toBe('bit rot');
+
+    const { ciphertext } = await storageService.getBlob(cid);
+    expect(ciphertext.equals(content)).toBe(true);
+
+    await fs.unlink(record.quarantinePath!);
+    await storageService.deleteBlob(cid);
+  });
+
+  test('should record missing bytes it cannot repair and retry on the next pass', async () => {
+    await storageService.getBackend().delete(cid);
+    mockP2P.getConnectedPeers.mockReturnValue(['peer-bad']);
+
+    await scrubService.runScrub();
+    let [record] = scrubService.getRepairHistory().filter(r => r.cid === cid);
+    expect(record).toMatchObject({ problem: 'missing', outcome: 'unrepaired' });
+
+    mockP2P.getConnectedPeers.mockReturnValue(['peer-good']);
+    await scrubService.runScrub();
+    [record] = scrubService.getRepairHistory().filter(r => r.cid === cid);
+    expect(record).toMatchObject({ problem: 'missing', outcome: 'repaired', peerId: 'peer-good' });
+    expect(await storageService.hasBlob(cid)).toBe(true);
+
+    await storageService.deleteBlob(cid);
+  });
+
+  test('should only re-fetch missing bytes in a recovery pass', async () => {
+    const other = crypto.randomBytes(1024);
+    const otherCid = generateCID(other);
+    await storageService.storeBlob(otherCid, other, 'application/octet-stream');
+    await storageService.getBackend().put(otherCid, Buffer.from('bit rot'));
+    await storageService.getBackend().delete(cid);
+
+    const result = await scrubService.runScrub('recovery');
+    expect(result).toMatchObject({ mode: 'recovery', bytesRead: 0, corrupt: 0 });
+    const [record] = scrubService.getRepairHistory().filter(r => r.cid === cid);
+    expect(record).toMatchObject({ problem: 'missing', outcome: 'repaired', peerId: 'peer-good' });
+    expect(await storageService.hasBlob(cid)).toBe(true);
+
+    await storageService.deleteBlob(otherCid, { permanent: true });
+    await storageService.deleteBlob(cid);
+  });
+
+  test('should report tampered metadata without touching the blob', async () => {
+    const metadataIndex = storageService.getMetadataIndex();
+    const metadata = (await metadataIndex.get(cid))!;
+    await metadataIndex.update({ ...metadata, sender: '0xattacker' });
+
+    await scrubService.runScrub();
+    const [record] = scrubService.getRepairHistory().filter(r => r.cid === cid);
+    expect(record).toMatchObject({ problem: 'metadata_invalid', outcome: 'unrepaired', error: 'hash_mismatch' });
+    expect(await storageService.hasBlob(cid)).toBe(true);
+
+    await storageService.deleteBlob(cid, { force: true });
+  });
+
+  test('should expose status and repair history over HTTP', async () => {
+    await storageService.deleteBlob(cid);
+
+    const status = await request(app).get('/scrub/status');
+    expect(status.status).toBe(200);
+    expect(status.body).toMatchObject({ running: false, lastResult: expect.any(Object) });
+
+    const repairs = await request(app).get('/scrub/repairs?limit=2');
+    expect(repairs.status).toBe(200);
+    expect(repairs.body.repairs.length).toBeLessThanOrEqual(2);
+
+    expect((await request(app).get('/scrub/repairs?limit=0')).status).toBe(400);
+  });
+});
@@ -5,8 +5,13 @@
  * 1. Ciphertext integrity (CID verification)
  * 2. Metadata integrity (HMAC protection)
  * 3. Replication state integrity (HMAC protection)
+ * 4. Node integrity key and re-signing of legacy metadata
  */
 
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
 import {
   generateCID,
   verifyCID,
@@ -15,6 +20,11 @@ import {
   generateReplicationStateHash,
   verifyReplicationStateIntegrity
 } from '../src/utils/cid.js';
+import { INTEGRITY_KEY_FILENAME, IntegrityService } from '../src/services/integrity.service.js';
+import { MetadataIndex } from '../src/services/backends/index.js';
+
+// Per-node integrity secret (normally loaded by the integrity service)
+const secret = crypto.randomBytes(32);
 
 describe('Security: Ciphertext Integrity', () => {
   const validCiphertext = Buffer.from('encrypted data here');
@@ -77,87 +87,197 @@ describe('Security: Metadata Integrity', () => {
   };
 
   beforeEach(() => {
-    validMetadata.integrityHash = generateMetadataIntegrityHash(
-      validMetadata.cid,
-      validMetadata.size,
-      validMetadata.mimeType,
-      validMetadata.createdAt,
-      validMetadata.pinned
-    );
+    validMetadata.integrityHash = generateMetadataIntegrityHash(secret, validMetadata);
   });
 
   test('should generate consistent hash for same metadata', () => {
-    const hash1 = generateMetadataIntegrityHash(
-      validMetadata.cid,
-      validMetadata.size,
-      validMetadata.mimeType,
-      validMetadata.createdAt,
-      validMetadata.pinned
-    );
-    const hash2 = generateMetadataIntegrityHash(
-      validMetadata.cid,
-      validMetadata.size,
-      validMetadata.mimeType,
-      validMetadata.createdAt,
-      validMetadata.pinned
-    );
+    const hash1 = generateMetadataIntegrityHash(secret, validMetadata);
+    const hash2 = generateMetadataIntegrityHash(secret, validMetadata);
     expect(hash1).toBe(hash2);
   });
 
   test('should verify valid metadata', () => {
-    const result = verifyMetadataIntegrity(validMetadata);
+    const result = verifyMetadataIntegrity(secret, validMetadata);
     expect(result.valid).toBe(true);
     expect(result.reason).toBeUndefined();
   });
 
-  test('should allow legacy metadata without hash', () => {
-    const legacyMetadata = { ...validMetadata, integrityHash: undefined };
-    const result = verifyMetadataIntegrity(legacyMetadata);
-    expect(result.valid).toBe(true);
-    expect(result.reason).toBe('legacy_no_hash');
+  test('should reject metadata without hash', () => {
+    const stripped = { ...validMetadata, integrityHash: undefined };
+    const result = verifyMetadataIntegrity(secret, stripped);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('missing_hash');
   });
 
   test('should reject tampered mimeType', () => {
     const tampered = { ...validMetadata, mimeType: 'application/malware' };
-    const result = verifyMetadataIntegrity(tampered);
+    const result = verifyMetadataIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject tampered size', () => {
     const tampered = { ...validMetadata, size: 999999 };
-    const result = verifyMetadataIntegrity(tampered);
+    const result = verifyMetadataIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject tampered createdAt', () => {
     const tampered = { ...validMetadata, createdAt: 1600000000000 };
-    const result = verifyMetadataIntegrity(tampered);
+    const result = verifyMetadataIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject tampered pinned status', () => {
     const tampered = { ...validMetadata, pinned: true };
-    const result = verifyMetadataIntegrity(tampered);
+    const result = verifyMetadataIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject tampered CID in metadata', () => {
     const tampered = { ...validMetadata, cid: 'different_cid_xyz' };
-    const result = verifyMetadataIntegrity(tampered);
+    const result = verifyMetadataIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject corrupted integrity hash', () => {
     const tampered = { ...validMetadata, integrityHash: 'corrupted_hash_value' };
-    const result = verifyMetadataIntegrity(tampered);
+    const result = verifyMetadataIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
+  test('should reject tampered application fields', () => {
+    const signed = { ...validMetadata, appId: '0xapp', sender: '0xsender', contentType: 'message' };
+    signed.integrityHash = generateMetadataIntegrityHash(secret, signed);
+
+    expect(verifyMetadataIntegrity(secret, signed).valid).toBe(true);
+    expect(verifyMetadataIntegrity(secret, { ...signed, appId: '0xother' }).valid).toBe(false);
+    expect(verifyMetadataIntegrity(secret, { ...signed, sender: '0xattacker' }).valid).toBe(false);
+    expect(verifyMetadataIntegrity(secret, { ...signed, contentType: 'post' }).valid).toBe(false);
+  });
+
+  test('should reject tampered replication record', () => {
+    const signed = { ...validMetadata, replication: { replicatedTo: ['node-a'] } };
+    signed.integrityHash = generateMetadataIntegrityHash(secret, signed);
+
+    const tampered = { ...signed, replication: { replicatedTo: ['node-a', 'node-b', 'node-c'] } };
+    expect(verifyMetadataIntegrity(secret, tampered).reason).toBe('hash_mismatch');
+  });
+
+  test('should reject tampered manifest, chunk references, app metadata and timestamp', () => {
+    const signed = {
+      ...validMetadata,
+      manifest: { mimeType: 'video/mp4', size: 4096, chunkCount: 4 },
+      chunkOf: ['manifest-a'],
+      metadata: { threadId: '0xthread' },
+      timestamp: 1700000000000
+    };
+    signed.integrityHash = generateMetadataIntegrityHash(secret, signed);
+    expect(verifyMetadataIntegrity(secret, signed).valid).toBe(true);
+
+    for (const tampered of [
+      { ...signed, manifest: { ...signed.manifest, size: 1 } },
+      { ...signed, manifest: { ...signed.manifest, mimeType: 'text/html' } },
+      { ...signed, manifest: { ...signed.manifest, chunkCount: 5 } },
+      { ...signed, chunkOf: [] },
+      { ...signed, chunkOf: undefined },
+      { ...signed, metadata: { threadId: '0xother' } },
+      { ...signed, timestamp: 1600000000000 }
+    ]) {
+      expect(verifyMetadataIntegrity(secret, tampered).reason).toBe('hash_mismatch');
+    }
+  });
+
+  test('should report hashes from before the chunk fields were covered as legacy', () => {
+    // Earlier hashes were computed as if these fields were absent
+    const record = {
+      ...validMetadata,
+      chunkOf: ['manifest-a'],
+      timestamp: 1700000000000,
+      integrityHash: generateMetadataIntegrityHash(secret, validMetadata)
+    };
+
+    expect(verifyMetadataIntegrity(secret, record).reason).toBe('legacy_hash');
+    expect(verifyMetadataIntegrity(secret, { ...record, size: 1 }).reason).toBe('hash_mismatch');
+  });
+
+  test('should reject a hash made with another node secret', () => {
+    const forged = {
+      ...validMetadata,
+      integrityHash: generateMetadataIntegrityHash(crypto.randomBytes(32), validMetadata)
+    };
+    expect(verifyMetadataIntegrity(secret, forged).valid).toBe(false);
+  });
+
+  test('should reject a recomputed legacy (CID-keyed) hash', () => {
+    const tampered = { ...validMetadata, mimeType: 'image/png' };
+    const legacyHash = crypto.createHmac('sha256', `vault-meta-${tampered.cid}`)
+      .update(`${tampered.cid}:${tampered.size}:${tampered.mimeType}:${tampered.createdAt}:false`)
+      .digest('hex');
+
+    const result = verifyMetadataIntegrity(secret, { ...tampered, integrityHash: legacyHash });
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('legacy_hash');
+  });
+});
+
+describe('Security: Integrity Service', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-integrity-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should keep the secret in an owner-only key file', async () => {
+    const metadata = { cid: 'abc123def456', size: 1024, mimeType: 'text/plain', createdAt: 1700000000000 };
+    const first = new IntegrityService(dir);
+    await first.initialize();
+    const hash = first.signMetadata(metadata);
+
+    const reloaded = new IntegrityService(dir);
+    await reloaded.initialize();
+    expect(reloaded.verifyMetadata({ ...metadata, integrityHash: hash }).valid).toBe(true);
+
+    const stats = await fs.stat(path.join(dir, INTEGRITY_KEY_FILENAME));
+    expect(stats.mode & 0o777).toBe(0o600);
+  });
+
+  test('should re-sign legacy and unsigned metadata but not tampered records', async () => {
+    const service = new IntegrityService(dir);
+    await service.initialize();
+    const metadataIndex = new MetadataIndex(dir);
+    await metadataIndex.initialize();
+
+    const legacyHash = (m: { cid: string; size: number; mimeType: string; createdAt: number }) =>
+      crypto.createHmac('sha256', `vault-meta-${m.cid}`)
+        .update(`${m.cid}:${m.size}:${m.mimeType}:${m.createdAt}:false`)
+        .digest('hex');
+
+    const legacy = { cid: 'a'.repeat(64), size: 1, mimeType: 'text/plain', createdAt: 1, version: 2 };
+    const unsigned = { cid: 'b'.repeat(64), size: 2, mimeType: 'text/plain', createdAt: 2, version: 2 };
+    const tampered = { cid: 'c'.repeat(64), size: 3, mimeType: 'text/plain', createdAt: 3, version: 2 };
+    await metadataIndex.put({ ...legacy, integrityHash: legacyHash(legacy) }, 1);
+    await metadataIndex.put(unsigned, 2);
+    await metadataIndex.put({ ...tampered, mimeType: 'image/png', integrityHash: legacyHash(tampered) }, 3);
+
+    expect(await service.resignMetadata(metadataIndex)).toEqual({ resigned: 2, failed: 1 });
+    expect(service.verifyMetadata((await metadataIndex.get(legacy.cid))!).valid).toBe(true);
+    expect(service.verifyMetadata((await metadataIndex.get(unsigned.cid))!).valid).toBe(true);
+    expect(service.verifyMetadata((await metadataIndex.get(tampered.cid))!).valid).toBe(false);
+
+    // Running again finds nothing left to do
+    expect(await service.resignMetadata(metadataIndex)).toEqual({ resigned: 0, failed: 1 });
+
+    await metadataIndex.close();
+  });
 });
 
 describe('Security: Replication State Integrity', () => {
@@ -170,57 +290,38 @@ describe('Security: Replication State Integrity', () => {
   };
 
   beforeEach(() => {
-    validState.integrityHash = generateReplicationStateHash(
-      validState.cid,
-      validState.replicationFactor,
-      validState.confirmedNodes,
-      validState.complete
-    );
+    validState.integrityHash = generateReplicationStateHash(secret, validState);
   });
 
   test('should generate consistent hash for same state', () => {
-    const hash1 = generateReplicationStateHash(
-      validState.cid,
-      validState.replicationFactor,
-      validState.confirmedNodes,
-      validState.complete
-    );
-    const hash2 = generateReplicationStateHash(
-      validState.cid,
-      validState.replicationFactor,
-      validState.confirmedNodes,
-      validState.complete
-    );
+    const hash1 = generateReplicationStateHash(secret, validState);
+    const hash2 = generateReplicationStateHash(secret, validState);
     expect(hash1).toBe(hash2);
   });
 
   test('should generate same hash regardless of node order', () => {
-    const hash1 = generateReplicationStateHash(
-      validState.cid,
-      validState.replicationFactor,
-      ['http://node1:3000', 'http://node2:3000'],
-      validState.complete
-    );
-    const hash2 = generateReplicationStateHash(
-      validState.cid,
-      validState.replicationFactor,
-      ['http://node2:3000', 'http://node1:3000'], // Different order
-      validState.complete
-    );
+    const hash1 = generateReplicationStateHash(secret, {
+      ...validState,
+      confirmedNodes: ['http://node1:3000', 'http://node2:3000']
+    });
+    const hash2 = generateReplicationStateHash(secret, {
+      ...validState,
+      confirmedNodes: ['http://node2:3000', 'http://node1:3000'] // Different order
+    });
     expect(hash1).toBe(hash2);
   });
 
   test('should verify valid replication state', () => {
-    const result = verifyReplicationStateIntegrity(validState);
+    const result = verifyReplicationStateIntegrity(secret, validState);
     expect(result.valid).toBe(true);
     expect(result.reason).toBeUndefined();
   });
 
-  test('should allow legacy state without hash', () => {
-    const legacyState = { ...validState, integrityHash: undefined };
-    const result = verifyReplicationStateIntegrity(legacyState);
-    expect(result.valid).toBe(true);
-    expect(result.reason).toBe('legacy_no_hash');
+  test('should reject state without hash', () => {
+    const stripped = { ...validState, integrityHash: undefined };
+    const result = verifyReplicationStateIntegrity(secret, stripped);
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('missing_hash');
   });
 
   test('should reject tampered confirmedNodes (added fake node)', () => {
@@ -228,7 +329,7 @@ describe('Security: Replication State Integrity', () => {
       ...validState,
       confirmedNodes: [...validState.confirmedNodes, 'http://fake-node:9999']
     };
-    const result = verifyReplicationStateIntegrity(tampered);
+    const result = verifyReplicationStateIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
@@ -238,35 +339,35 @@ describe('Security: Replication State Integrity', () => {
       ...validState,
       confirmedNodes: ['http://node1:3000'] // Removed one
     };
-    const result = verifyReplicationStateIntegrity(tampered);
+    const result = verifyReplicationStateIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject tampered complete status', () => {
     const tampered = { ...validState, complete: false };
-    const result = verifyReplicationStateIntegrity(tampered);
+    const result = verifyReplicationStateIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject tampered replicationFactor', () => {
     const tampered = { ...validState, replicationFactor: 1 };
-    const result = verifyReplicationStateIntegrity(tampered);
+    const result = verifyReplicationStateIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject tampered CID', () => {
     const tampered = { ...validState, cid: 'different_cid' };
-    const result = verifyReplicationStateIntegrity(tampered);
+    const result = verifyReplicationStateIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
 
   test('should reject corrupted integrity hash', () => {
     const tampered = { ...validState, integrityHash: 'corrupted_hash' };
-    const result = verifyReplicationStateIntegrity(tampered);
+    const result = verifyReplicationStateIntegrity(secret, tampered);
     expect(result.valid).toBe(false);
     expect(result.reason).toBe('hash_mismatch');
   });
@@ -297,18 +398,12 @@ describe('Security: Attack Scenarios', () => {
         integrityHash: ''
       };
       
-      metadata.integrityHash = generateMetadataIntegrityHash(
-        metadata.cid,
-        metadata.size,
-        metadata.mimeType,
-        metadata.createdAt,
-        metadata.pinned
-      );
+      metadata.integrityHash = generateMetadataIntegrityHash(secret, metadata);
       
       // Attacker changes MIME type to trick clients
       const tampered = { ...metadata, mimeType: 'image/png' };
       
-      const result = verifyMetadataIntegrity(tampered);
+      const result = verifyMetadataIntegrity(secret, tampered);
       expect(result.valid).toBe(false);
     });
 
@@ -322,18 +417,12 @@ describe('Security: Attack Scenarios', () => {
         integrityHash: ''
       };
       
-      metadata.integrityHash = generateMetadataIntegrityHash(
-        metadata.cid,
-        metadata.size,
-        metadata.mimeType,
-        metadata.createdAt,
-        metadata.pinned
-      );
+      metadata.integrityHash = generateMetadataIntegrityHash(secret, metadata);
       
       // Attacker removes pin to allow GC deletion
       const tampered = { ...metadata, pinned: false };
       
-      const result = verifyMetadataIntegrity(tampered);
+      const result = verifyMetadataIntegrity(secret, tampered);
       expect(result.valid).toBe(false);
     });
   });
@@ -348,12 +437,7 @@ describe('Security: Attack Scenarios', () => {
         integrityHash: ''
       };
       
-      state.integrityHash = generateReplicationStateHash(
-        state.cid,
-        state.replicationFactor,
-        state.confirmedNodes,
-        state.complete
-      );
+      state.integrityHash = generateReplicationStateHash(secret, state);
       
       // Attacker claims blob is fully replicated to allow deletion
       const tampered = {
@@ -362,7 +446,7 @@ describe('Security: Attack Scenarios', () => {
         complete: true
       };
       
-      const result = verifyReplicationStateIntegrity(tampered);
+      const result = verifyReplicationStateIntegrity(secret, tampered);
       expect(result.valid).toBe(false);
     });
 
@@ -375,17 +459,12 @@ describe('Security: Attack Scenarios', () => {
         integrityHash: ''
       };
       
-      state.integrityHash = generateReplicationStateHash(
-        state.cid,
-        state.replicationFactor,
-        state.confirmedNodes,
-        state.complete
-      );
+      state.integrityHash = generateReplicationStateHash(secret, state);
       
       // Attacker marks as complete to trick GC
       const tampered = { ...state, complete: true };
       
-      const result = verifyReplicationStateIntegrity(tampered);
+      const result = verifyReplicationStateIntegrity(secret, tampered);
       expect(result.valid).toBe(false);
     });
   });
@@ -0,0 +1,201 @@
+/**
+ * Tests for storage backends (filesystem and SQLite) and migration between them
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { FilesystemBackend, MetadataIndex, SqliteBackend, createStorageBackend } from '../src/services/backends';
+import { migrateStorage } from '../src/services/backends/migrate';
+import { generateCID } from '../src/utils/cid';
+import { BlobMetadata, StorageBackend } from '../src/types';
+
+function makeBlob(content: string): { cid: string; data: Buffer; metadata: BlobMetadata } {
+  const data = Buffer.from(content);
+  const cid = generateCID(data);
+  return {
+    cid,
+    data,
+    metadata: { cid, size: data.length, mimeType: 'text/plain', createdAt: Date.now(), version: 2 }
+  };
+}
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+describe.each([
+  ['filesystem', (dir: string) => new FilesystemBackend(dir)],
+  ['sqlite', (dir: string) => new SqliteBackend(dir)]
+])('%s backend', (_name, create) => {
+  let dir: string;
+  let backend: StorageBackend;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-backend-'));
+    backend = create(dir);
+    await backend.initialize();
+  });
+
+  afterEach(async () => {
+    await backend.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should store and read back bytes', async () => {
+    const blob = makeBlob('hello backend');
+    await backend.put(blob.cid, blob.data);
+
+    expect(await backend.has(blob.cid)).toBe(true);
+    expect((await backend.get(blob.cid))!.equals(blob.data)).toBe(true);
+    expect(await backend.stat(blob.cid)).toEqual({ size: blob.data.length });
+    expect(await backend.list()).toEqual([blob.cid]);
+  });
+
+  test('should stream a byte range', async () => {
+    const blob = makeBlob('0123456789abcdef');
+    await backend.put(blob.cid, blob.data);
+
+    const stream = await backend.stream(blob.cid, { start: 3, end: 7 });
+    expect((await readAll(stream!)).toString()).toBe('34567');
+  });
+
+  test('should consume a file with putFile', async () => {
+    const blob = makeBlob('from a staged file');
+    const filePath = path.join(dir, 'staged.part');
+    await fs.writeFile(filePath, blob.data);
+
+    await backend.putFile(blob.cid, filePath);
+
+    expect((await backend.get(blob.cid))!.equals(blob.data)).toBe(true);
+    await expect(fs.access(filePath)).rejects.toThrow();
+  });
+
+  test('should delete bytes', async () => {
+    const blob = makeBlob('to be deleted');
+    await backend.put(blob.cid, blob.data);
+
+    expect(await backend.delete(blob.cid)).toBe(true);
+    expect(await backend.delete(blob.cid)).toBe(false);
+    expect(await backend.has(blob.cid)).toBe(false);
+    expect(await backend.get(blob.cid)).toBeNull();
+    expect(await backend.stream(blob.cid)).toBeNull();
+  });
+});
+
+describe('Filesystem fan-out layout', () => {
+  let dir: string;
+  let backend: FilesystemBackend;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-layout-'));
+    backend = new FilesystemBackend(dir);
+    await backend.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should nest blob files under CID prefix directories', async () => {
+    const blob = makeBlob('fan-out');
+    await backend.put(blob.cid, blob.data);
+
+    const nested = path.join(dir, 'blobs', blob.cid.slice(0, 2), blob.cid.slice(2, 4), `${blob.cid}.enc`);
+    expect((await fs.readFile(nested)).equals(blob.data)).toBe(true);
+  });
+
+  test('should serve flat-layout blobs and move them with migrateLayout', async () => {
+    const legacy = makeBlob('stored before the fan-out');
+    const current = makeBlob('stored after the fan-out');
+    const legacyPath = path.join(dir, 'blobs', `${legacy.cid}.enc`);
+    await fs.writeFile(legacyPath, legacy.data);
+    await backend.put(current.cid, current.data);
+
+    expect((await backend.get(legacy.cid))!.equals(legacy.data)).toBe(true);
+    expect((await backend.list()).sort()).toEqual([legacy.cid, current.cid].sort());
+
+    expect(await backend.migrateLayout()).toEqual({ moved: 1, failed: 0 });
+
+    await expect(fs.access(legacyPath)).rejects.toThrow();
+    expect((await backend.get(legacy.cid))!.equals(legacy.data)).toBe(true);
+    expect(await backend.stat(legacy.cid)).toEqual({ size: legacy.data.length });
+    expect((await backend.list()).sort()).toEqual([legacy.cid, current.cid].sort());
+  });
+
+  test('should delete a blob that is still in the flat layout', async () => {
+    const legacy = makeBlob('flat and deleted');
+    await fs.writeFile(path.join(dir, 'blobs', `${legacy.cid}.enc`), legacy.data);
+
+    expect(await backend.delete(legacy.cid)).toBe(true);
+    expect(await backend.has(legacy.cid)).toBe(false);
+  });
+});
+
+describe('Storage Migration', () => {
+  let dir: string;
+  let source: StorageBackend;
+  let target: StorageBackend;
+  let metadataIndex: MetadataIndex;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-migrate-'));
+    source = createStorageBackend(dir, 'filesystem');
+    target = createStorageBackend(dir, 'sqlite');
+    metadataIndex = new MetadataIndex(dir);
+    await source.initialize();
+    await target.initialize();
+    await metadataIndex.initialize();
+  });
+
+  afterEach(async () => {
+    await source.close();
+    await target.close();
+    await metadataIndex.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should copy blobs, keep compressed bytes as-is and skip existing ones', async () => {
+    const plain = makeBlob('plain blob');
+    const compressedContent = makeBlob('compressed blob '.repeat(50));
+    const gz = zlib.gzipSync(compressedContent.data);
+
+    await source.put(plain.cid, plain.data);
+    await source.put(compressedContent.cid, gz);
+    await target.put(plain.cid, plain.data);
+    await metadataIndex.put(plain.metadata, plain.data.length);
+    await metadataIndex.put({ ...compressedContent.metadata, compressed: true }, gz.length);
+
+    const result = await migrateStorage(source, target, metadataIndex);
+
+    expect(result).toMatchObject({ total: 2, migrated: 1, skipped: 1, failed: 0 });
+    expect((await target.get(compressedContent.cid))!.equals(gz)).toBe(true);
+    expect(await source.has(plain.cid)).toBe(true);
+  });
+
+  test('should refuse to copy corrupted blobs', async () => {
+    const blob = makeBlob('original');
+    await source.put(blob.cid, Buffer.from('tampered'));
+    await metadataIndex.put(blob.metadata, 8);
+
+    const result = await migrateStorage(source, target, metadataIndex);
+
+    expect(result.failed).toBe(1);
+    expect(result.failedCids).toEqual([blob.cid]);
+    expect(await target.has(blob.cid)).toBe(false);
+  });
+
+  test('should delete migrated blobs from the source when asked', async () => {
+    const blob = makeBlob('moving');
+    await source.put(blob.cid, blob.data);
+    await metadataIndex.put(blob.metadata, blob.data.length);
+
+    await migrateStorage(source, target, metadataIndex, { deleteSource: true });
+
+    expect(await source.has(blob.cid)).toBe(false);
+    expect(await target.has(blob.cid)).toBe(true);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for hot/cold storage tiers (tiered backend, moving blobs between
+ * tiers and the access-driven tier mover)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { FilesystemBackend, TieredBackend } from '../src/services/backends';
+import { storageService } from '../src/services/storage.service';
+import { tierService } from '../src/services/tier.service';
+import { generateCID } from '../src/utils/cid';
+import { config } from '../src/config';
+
+// The storage service picks up its cold tier when it is constructed
+jest.mock('../src/config/index.js', () => {
+  const { withTempDataDir, tempDir } = jest.requireActual('./helpers/temp-config');
+  return withTempDataDir('bytecave-hot-', { coldDataDir: tempDir('bytecave-cold-') });
+});
+
+const HOUR = 60 * 60 * 1000;
+const CHUNK_SIZE = 1024;
+
+describe('TieredBackend', () => {
+  let dir: string;
+  let hot: FilesystemBackend;
+  let cold: FilesystemBackend;
+  let backend: TieredBackend;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-tiered-'));
+    hot = new FilesystemBackend(path.join(dir, 'hot'));
+    cold = new FilesystemBackend(path.join(dir, 'cold'));
+    backend = new TieredBackend(hot, cold);
+    await backend.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should store new blobs hot and read blobs from either tier', async () => {
+    const a = Buffer.from('hot blob');
+    const b = Buffer.from('cold blob');
+    await backend.put(generateCID(a), a);
+    await cold.put(generateCID(b), b);
+
+    expect(await backend.tierOf(generateCID(a))).toBe('hot');
+    expect(await backend.tierOf(generateCID(b))).toBe('cold');
+    expect((await backend.get(generateCID(b)))!.equals(b)).toBe(true);
+    expect(Buffer.concat(await (await backend.stream(generateCID(b), { start: 0, end: 3 }))!.toArray()).toString()).toBe('cold');
+    expect(await backend.stat(generateCID(b))).toEqual({ size: b.length });
+    expect((await backend.list()).sort()).toEqual([generateCID(a), generateCID(b)].sort());
+  });
+
+  test('should keep rewritten bytes in the tier that holds them and delete from both', async () => {
+    const data = Buffer.from('rewritten in place');
+    const cid = generateCID(data);
+    await cold.put(cid, data);
+
+    await backend.put(cid, data);
+    expect(await hot.has(cid)).toBe(false);
+    expect(await cold.has(cid)).toBe(true);
+
+    await hot.put(cid, data);
+    expect(await backend.delete(cid)).toBe(true);
+    expect(await backend.tierOf(cid)).toBeNull();
+  });
+});
+
+describe('Storage Tiers', () => {
+  const stored: string[] = [];
+
+  async function store(size = 2048): Promise<{ cid: string; content: Buffer }> {
+    const content = crypto.randomBytes(size);
+    const cid = generateCID(content);
+    await storageService.storeBlob(cid, content, 'application/octet-stream');
+    stored.push(cid);
+    return { cid, content };
+  }
+
+  async function setReads(cid: string, retrievalCount: number, lastAccessed: number): Promise<void> {
+    await storageService.updateMetadata(cid, { metrics: { retrievalCount, lastAccessed, avgLatency: 0 } });
+  }
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  afterEach(async () => {
+    for (const cid of stored.splice(0)) {
+      await storageService.deleteBlob(cid, { force: true, permanent: true }).catch(() => {});
+    }
+    config.tierHotMaxMB = 0;
+  });
+
+  afterAll(async () => {
+    await storageService.close();
+    await fs.rm(config.dataDir, { recursive: true, force: true });
+    await fs.rm(config.coldDataDir, { recursive: true, force: true });
+  });
+
+  test('should move blob bytes between tiers and keep serving them', async () => {
+    const { cid, content } = await store();
+
+    expect(await storageService.moveBlobToTier(cid, 'cold')).toBeGreaterThan(0);
+    expect(await storageService.getBlobTier(cid)).toBe('cold');
+    expect(await new FilesystemBackend(config.coldDataDir).has(cid)).toBe(true);
+    expect(await new FilesystemBackend(config.dataDir).has(cid)).toBe(false);
+    expect((await storageService.getBlob(cid)).ciphertext.equals(content)).toBe(true);
+
+    const usage = await storageService.getTierUsage();
+    expect(usage.map(tier => tier.tier)).toEqual(['hot', 'cold']);
+    expect(usage[1]).toMatchObject({ blobCount: 1, storedSize: expect.any(Number) });
+
+    // Already there: nothing to move
+    expect(await storageService.moveBlobToTier(cid, 'cold')).toBe(0);
+    await storageService.moveBlobToTier(cid, 'hot');
+    expect((await storageService.getTierUsage())[1].blobCount).toBe(0);
+  });
+
+  test('should move chunks together with their manifest', async () => {
+    const large = crypto.randomBytes(CHUNK_SIZE * 3);
+    const staged = await storageService.stageBlobStream(Readable.from([large]), large.length, CHUNK_SIZE);
+    const manifestCid = await storageService.storeChunkedBlob(staged, 'video/mp4');
+    stored.push(manifestCid);
+    const manifest = (await storageService.getManifest(manifestCid))!;
+
+    await storageService.moveBlobToTier(manifestCid, 'cold');
+
+    for (const chunk of manifest.chunks) {
+      expect(await storageService.getBlobTier(chunk.cid)).toBe('cold');
+    }
+    const { stream } = await storageService.openBlobStream(manifestCid);
+    expect(Buffer.concat(await stream.toArray()).equals(large)).toBe(true);
+  });
+
+  test('should demote blobs not read recently and promote them once read again', async () => {
+    const now = Date.now();
+    const idle = await store();
+    const busy = await store();
+    await setReads(idle.cid, 1, now - (config.tierColdAfterHours + 1) * HOUR);
+    await setReads(busy.cid, 5, now - HOUR);
+
+    const demotion = await tierService.runMove(now);
+    expect(demotion).toMatchObject({ demoted: 1, promoted: 0, failed: 0, aborted: false });
+    expect(await storageService.getBlobTier(idle.cid)).toBe('cold');
+    expect(await storageService.getBlobTier(busy.cid)).toBe('hot');
+
+    // Reads since the demotion count, not the ones before it
+    await setReads(idle.cid, config.tierPromoteReads, now);
+    expect((await tierService.runMove(now)).promoted).toBe(0);
+
+    await setReads(idle.cid, 1 + config.tierPromoteReads, now);
+    const promotion = await tierService.runMove(now);
+    expect(promotion).toMatchObject({ demoted: 0, promoted: 1 });
+    expect(await storageService.getBlobTier(idle.cid)).toBe('hot');
+
+    const status = await tierService.getStatus();
+    expect(status).toMatchObject({ enabled: true, running: false, lastResult: promotion });
+  });
+
+  test('should keep the hot tier under its size limit, least recently read first', async () => {
+    const now = Date.now();
+    const blobs = [await store(), await store(), await store()];
+    for (const [i, blob] of blobs.entries()) {
+      await setReads(blob.cid, 1, now - (3 - i) * HOUR);
+    }
+    const storedSize = (await storageService.getTierUsage())[0].storedSize;
+    config.tierHotMaxMB = (storedSize - 1024) / (1024 * 1024);
+
+    const result = await tierService.runMove(now);
+
+    expect(result.demoted).toBe(1);
+    expect(await storageService.getBlobTier(blobs[0].cid)).toBe('cold');
+    expect(await storageService.getBlobTier(blobs[2].cid)).toBe('hot');
+
+    // Promotion does not push the hot tier back over the limit
+    await setReads(blobs[0].cid, 10, now);
+    expect((await tierService.runMove(now)).promoted).toBe(0);
+  });
+});
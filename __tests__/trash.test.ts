@@ -0,0 +1,146 @@
+/**
+ * Tests for the trash (soft delete, restore, manual and retention purge)
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import express from 'express';
+import { Readable } from 'stream';
+import { storageService } from '../src/services/storage.service';
+import { GarbageCollectionService } from '../src/services/gc.service';
+import { listTrashHandler, restoreTrashHandler, purgeTrashHandler } from '../src/routes/trash.route';
+import { generateCID } from '../src/utils/cid';
+import { config } from '../src/config';
+
+const app = express();
+app.get('/admin/trash', listTrashHandler);
+app.post('/admin/trash/:cid/restore', restoreTrashHandler);
+app.delete('/admin/trash/:cid', purgeTrashHandler);
+
+const CHUNK_SIZE = 1024;
+
+describe('Trash', () => {
+  let content: Buffer;
+  let cid: string;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+  });
+
+  beforeEach(async () => {
+    content = crypto.randomBytes(2048);
+    cid = generateCID(content);
+    await storageService.storeBlob(cid, content, 'image/png', { appId: 'app-a', sender: '0xa' });
+  });
+
+  afterEach(async () => {
+    if (await storageService.hasBlob(cid)) {
+      await storageService.deleteBlob(cid, { force: true, permanent: true });
+    }
+    await storageService.purgeTrashed(cid).catch(() => {});
+  });
+
+  test('should move deleted blobs to the trash and restore them intact', async () => {
+    const before = await storageService.getStats();
+    await storageService.deleteBlob(cid, { reason: 'admin' });
+
+    expect(await storageService.hasBlob(cid)).toBe(false);
+    expect((await storageService.getStats()).blobCount).toBe(before.blobCount - 1);
+
+    const { entries } = await storageService.listTrash();
+    const entry = entries.find(e => e.cid === cid);
+    expect(entry).toMatchObject({ reason: 'admin', storedSize: expect.any(Number) });
+    expect(entry!.purgeAfter - entry!.deletedAt).toBe(config.trashRetentionHours * 60 * 60 * 1000);
+
+    await storageService.restoreBlob(cid);
+
+    const { ciphertext, metadata } = await storageService.getBlob(cid);
+    expect(ciphertext.equals(content)).toBe(true);
+    expect(metadata.owners).toMatchObject([{ appId: 'app-a', sender: '0xa' }]);
+    expect((await storageService.listTrash()).entries.map(e => e.cid)).not.toContain(cid);
+  });
+
+  test('should skip the trash for permanent deletes', async () => {
+    await storageService.deleteBlob(cid, { permanent: true });
+
+    expect(await storageService.hasBlob(cid)).toBe(false);
+    expect((await storageService.listTrash()).entries.map(e => e.cid)).not.toContain(cid);
+  });
+
+  test('should drop the trashed copy when the blob is stored again', async () => {
+    await storageService.deleteBlob(cid);
+    await storageService.storeBlob(cid, content, 'image/png');
+
+    expect((await storageService.listTrash()).entries.map(e => e.cid)).not.toContain(cid);
+  });
+
+  test('should restore a manifest together with its trashed chunks', async () => {
+    const large = crypto.randomBytes(CHUNK_SIZE * 3);
+    const staged = await storageService.stageBlobStream(Readable.from([large]), large.length, CHUNK_SIZE);
+    const manifestCid = await storageService.storeChunkedBlob(staged, 'video/mp4');
+    const manifest = (await storageService.getManifest(manifestCid))!;
+
+    await storageService.deleteBlob(manifestCid);
+    for (const chunk of manifest.chunks) {
+      expect(await storageService.hasBlob(chunk.cid)).toBe(false);
+    }
+
+    await storageService.restoreBlob(manifestCid);
+
+    const { stream } = await storageService.openBlobStream(manifestCid);
+    expect(Buffer.concat(await stream.toArray()).equals(large)).toBe(true);
+    for (const chunk of manifest.chunks) {
+      expect((await storageService.getMetadata(chunk.cid)).chunkOf).toEqual([manifestCid]);
+    }
+
+    await storageService.deleteBlob(manifestCid, { permanent: true });
+  });
+
+  test('should purge entries past their retention window during GC', async () => {
+    await storageService.deleteBlob(cid);
+
+    // Not yet due
+    expect(await storageService.purgeTrash(Date.now())).toEqual({ purged: 0, purgedBytes: 0 });
+
+    const later = Date.now() + config.trashRetentionHours * 60 * 60 * 1000 + 1;
+    const dryRun = await storageService.purgeTrash(later, true);
+    expect(dryRun.purged).toBeGreaterThanOrEqual(1);
+
+    const result = await storageService.purgeTrash(later);
+    expect(result.purged).toBe(dryRun.purged);
+    expect((await storageService.listTrash()).entries.map(e => e.cid)).not.toContain(cid);
+
+    const gc = new GarbageCollectionService();
+    expect(await gc.runGC(true)).toMatchObject({ purged: expect.any(Number), purgedBytes: expect.any(Number) });
+  });
+
+  describe('HTTP API', () => {
+    test('should list, restore and purge trashed blobs', async () => {
+      await storageService.deleteBlob(cid, { reason: 'gc' });
+
+      const list = await request(app).get('/admin/trash?limit=1000');
+      expect(list.status).toBe(200);
+      expect(list.body.entries.find((e: any) => e.cid === cid)).toMatchObject({
+        size: content.length,
+        mimeType: 'image/png',
+        reason: 'gc'
+      });
+
+      const restore = await request(app).post(`/admin/trash/${cid}/restore`);
+      expect(restore.status).toBe(200);
+      expect(await storageService.hasBlob(cid)).toBe(true);
+
+      await storageService.deleteBlob(cid);
+      expect((await request(app).delete(`/admin/trash/${cid}`)).status).toBe(200);
+
+      const missing = await request(app).post(`/admin/trash/${cid}/restore`);
+      expect(missing.status).toBe(404);
+      expect(missing.body.error).toBe('TRASH_ENTRY_NOT_FOUND');
+    });
+
+    test('should validate paging parameters', async () => {
+      expect((await request(app).get('/admin/trash?limit=0')).status).toBe(400);
+      expect((await request(app).get('/admin/trash?cursor=bogus')).status).toBe(400);
+    });
+  });
+});
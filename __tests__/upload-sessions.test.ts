@@ -0,0 +1,324 @@
+/**
+ * Tests for resumable upload sessions
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import express from 'express';
+import { Readable } from 'stream';
+import { ethers } from 'ethers';
+import {
+  createUploadHandler,
+  uploadPieceHandler,
+  uploadStatusHandler,
+  finalizeUploadHandler,
+  abortUploadHandler
+} from '../src/routes/upload.route';
+import { storeHandler } from '../src/routes/store.route';
+import { uploadSessionService } from '../src/services/upload-session.service';
+import { storageService } from '../src/services/storage.service';
+import { storageAuthorizationService } from '../src/services/storage-authorization.service';
+import { contractIntegrationService } from '../src/services/contract-integration.service';
+import { blockedContentService } from '../src/services/blocked-content.service';
+import { generateCID } from '../src/utils/cid';
+import { StorageAuthorization } from '../src/types';
+import { config } from '../src/config';
+
+jest.mock('../src/services/p2p.service.js', () => ({
+  p2pService: {
+    isStarted: jest.fn(),
+    getConnectedPeers: jest.fn()
+  }
+}));
+
+jest.mock('../src/services/p2p-protocols.service.js', () => ({
+  p2pProtocolsService: {
+    replicateToPeer: jest.fn()
+  }
+}));
+
+const app = express();
+app.use(express.json());
+app.post('/uploads', createUploadHandler);
+app.put('/uploads/:uploadId', uploadPieceHandler);
+app.get('/uploads/:uploadId', uploadStatusHandler);
+app.post('/uploads/:uploadId/finalize', finalizeUploadHandler);
+app.delete('/uploads/:uploadId', abortUploadHandler);
+app.post('/store', storeHandler);
+
+function makeAuthorization(content: Buffer): StorageAuthorization {
+  return {
+    type: 'media',
+    sender: ethers.Wallet.createRandom().address,
+    signature: '0xsigned',
+    timestamp: Date.now(),
+    nonce: crypto.randomUUID(),
+    contentHash: ethers.keccak256(content),
+    appId: 'hashd',
+    contentType: 'media'
+  };
+}
+
+describe('Upload Session Service', () => {
+  const content = crypto.randomBytes(5000);
+
+  beforeAll(async () => {
+    await storageService.initialize();
+    await uploadSessionService.initialize();
+  });
+
+  afterAll(() => {
+    uploadSessionService.shutdown();
+  });
+
+  test('should track pieces written out of order', async () => {
+    const auth = makeAuthorization(content);
+    const session = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+
+    await uploadSessionService.writePiece(session.id, 3000, Readable.from([content.subarray(3000)]));
+    await uploadSessionService.writePiece(session.id, 0, Readable.from([content.subarray(0, 1000)]));
+
+    const updated = uploadSessionService.getSession(session.id);
+    expect(updated.received).toEqual([{ start: 0, end: 999 }, { start: 3000, end: 4999 }]);
+    expect(uploadSessionService.getMissingRanges(updated)).toEqual([{ start: 1000, end: 2999 }]);
+
+    await uploadSessionService.abortSession(session.id);
+  });
+
+  test('should refuse to stage an incomplete upload', async () => {
+    const auth = makeAuthorization(content);
+    const session = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+    await uploadSessionService.writePiece(session.id, 0, Readable.from([content.subarray(0, 10)]));
+
+    await expect(uploadSessionService.stageUpload(session.id)).rejects.toMatchObject({
+      code: 'UPLOAD_INCOMPLETE'
+    });
+
+    await uploadSessionService.abortSession(session.id);
+  });
+
+  test('should reject pieces that run past the declared size', async () => {
+    const auth = makeAuthorization(content);
+    const session = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+
+    await expect(
+      uploadSessionService.writePiece(session.id, 4990, Readable.from([content.subarray(0, 20)]))
+    ).rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+
+    await uploadSessionService.abortSession(session.id);
+  });
+
+  test('should stage a complete upload after verifying both hashes', async () => {
+    const auth = makeAuthorization(content);
+    const session = await uploadSessionService.createSession(
+      auth,
+      'video/mp4',
+      content.length,
+      auth.contentHash,
+      generateCID(content)
+    );
+
+    await uploadSessionService.writePiece(session.id, 2500, Readable.from([content.subarray(2500)]));
+    await uploadSessionService.writePiece(session.id, 0, Readable.from([content.subarray(0, 2500)]));
+
+    const { staged } = await uploadSessionService.stageUpload(session.id);
+    expect(staged.cid).toBe(generateCID(content));
+    expect(staged.contentHash).toBe(auth.contentHash);
+
+    await storageService.discardStagedBlob(staged);
+    await uploadSessionService.completeSession(session.id);
+    expect(() => uploadSessionService.getSession(session.id)).toThrow('not found');
+  });
+
+  test('should reject content that does not match the content hash', async () => {
+    const auth = makeAuthorization(content);
+    const session = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+
+    const tampered = Buffer.from(content);
+    tampered[0] ^= 0xff;
+    await uploadSessionService.writePiece(session.id, 0, Readable.from([tampered]));
+
+    await expect(uploadSessionService.stageUpload(session.id)).rejects.toMatchObject({
+      code: 'CONTENT_HASH_MISMATCH'
+    });
+
+    await uploadSessionService.abortSession(session.id);
+  });
+
+  test('should remove expired sessions', async () => {
+    const auth = makeAuthorization(content);
+    const session = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+    session.expiresAt = Date.now() - 1;
+
+    expect(await uploadSessionService.cleanupExpired()).toBeGreaterThanOrEqual(1);
+    expect(() => uploadSessionService.getSession(session.id)).toThrow('not found');
+  });
+
+  test('should cap the open sessions of one sender', async () => {
+    const auth = makeAuthorization(content);
+    const { maxUploadSessionsPerSender } = config;
+    config.maxUploadSessionsPerSender = 2;
+
+    try {
+      const first = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+      const second = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+      await expect(
+        uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash)
+      ).rejects.toMatchObject({ code: 'TOO_MANY_UPLOADS', statusCode: 429 });
+
+      // Sessions of other senders are not counted
+      const other = makeAuthorization(content);
+      const third = await uploadSessionService.createSession(other, 'video/mp4', content.length, other.contentHash);
+
+      for (const session of [first, second, third]) {
+        await uploadSessionService.abortSession(session.id);
+      }
+    } finally {
+      config.maxUploadSessionsPerSender = maxUploadSessionsPerSender;
+    }
+  });
+
+  test('should count open sessions against capacity and quotas', async () => {
+    const auth = makeAuthorization(content);
+    const { senderQuotas } = config;
+    config.senderQuotas = { [auth.sender]: { maxBlobs: 1 } };
+
+    try {
+      const session = await uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash);
+      await expect(
+        uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash)
+      ).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+      await uploadSessionService.abortSession(session.id);
+    } finally {
+      config.senderQuotas = senderQuotas;
+    }
+
+    const stats = await storageService.getStats();
+    jest.spyOn(storageService, 'getStats').mockResolvedValueOnce({
+      ...stats,
+      totalSize: config.maxStorageGB * 1024 * 1024 * 1024 - content.length + 1
+    });
+    await expect(
+      uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash)
+    ).rejects.toMatchObject({ code: 'STORAGE_FULL' });
+  });
+
+  test('should refuse sessions for blocked content', async () => {
+    const auth = makeAuthorization(content);
+    jest.spyOn(blockedContentService, 'isBlocked').mockResolvedValueOnce(true);
+
+    await expect(
+      uploadSessionService.createSession(auth, 'video/mp4', content.length, auth.contentHash, generateCID(content))
+    ).rejects.toMatchObject({ code: 'CONTENT_BLOCKED', statusCode: 403 });
+  });
+});
+
+describe('Upload HTTP API', () => {
+  const content = crypto.randomBytes(3000);
+  const auth = makeAuthorization(content);
+  let uploadId: string;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+    await uploadSessionService.initialize();
+    jest.spyOn(storageAuthorizationService, 'precheckAuthorization').mockReturnValue({ authorized: true });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    uploadSessionService.shutdown();
+  });
+
+  it('should open a session', async () => {
+    const response = await request(app)
+      .post('/uploads')
+      .send({ authorization: auth, mimeType: 'video/mp4', size: content.length });
+
+    expect(response.status).toBe(201);
+    expect(response.body.uploadId).toBeDefined();
+    expect(response.body.missing).toEqual([{ start: 0, end: content.length - 1 }]);
+    uploadId = response.body.uploadId;
+  });
+
+  it('should reject a contentHash that differs from the authorization', async () => {
+    const response = await request(app)
+      .post('/uploads')
+      .send({
+        authorization: auth,
+        mimeType: 'video/mp4',
+        size: content.length,
+        contentHash: ethers.keccak256(Buffer.from('other'))
+      });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should accept a piece and report received ranges', async () => {
+    const response = await request(app)
+      .put(`/uploads/${uploadId}?offset=1000`)
+      .set('Content-Type', 'application/octet-stream')
+      .send(content.subarray(1000, 2000));
+
+    expect(response.status).toBe(200);
+    expect(response.body.bytesReceived).toBe(1000);
+
+    const status = await request(app).get(`/uploads/${uploadId}`);
+    expect(status.body.received).toEqual([{ start: 1000, end: 1999 }]);
+    expect(status.body.missing).toEqual([
+      { start: 0, end: 999 },
+      { start: 2000, end: content.length - 1 }
+    ]);
+  });
+
+  it('should refuse to finalize while ranges are missing', async () => {
+    const response = await request(app).post(`/uploads/${uploadId}/finalize`);
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('UPLOAD_INCOMPLETE');
+    expect(response.body.details.missing).toHaveLength(2);
+  });
+
+  it('should keep the space open sessions reserve from other stores, but not from themselves', async () => {
+    const reserved = crypto.randomBytes(3000);
+    const reservedAuth = makeAuthorization(reserved);
+    const session = await uploadSessionService.createSession(reservedAuth, 'video/mp4', reserved.length, reservedAuth.contentHash);
+    await uploadSessionService.writePiece(session.id, 0, Readable.from([reserved]));
+    expect(uploadSessionService.reservedBytes()).toBeGreaterThanOrEqual(reserved.length);
+    expect(uploadSessionService.reservedBytes(session.id)).toBe(uploadSessionService.reservedBytes() - reserved.length);
+
+    const verify = jest.spyOn(storageAuthorizationService, 'verifyAuthorization').mockResolvedValue({ authorized: true });
+    const registered = jest.spyOn(contractIntegrationService, 'isNodeActive').mockResolvedValue(true);
+    const { publicKey } = config;
+    config.publicKey = '0x04' + 'a'.repeat(128);
+    const stats = await storageService.getStats();
+    const getStats = jest.spyOn(storageService, 'getStats').mockResolvedValue({
+      ...stats,
+      totalSize: config.maxStorageGB * 1024 * 1024 * 1024 - uploadSessionService.reservedBytes() - 100
+    });
+
+    try {
+      const other = crypto.randomBytes(200);
+      const stored = await request(app)
+        .post('/store')
+        .send({ ciphertext: other.toString('base64'), mimeType: 'image/png', authorization: makeAuthorization(other) });
+      expect(stored.status).toBe(507);
+
+      const finalized = await request(app).post(`/uploads/${session.id}/finalize`);
+      expect(finalized.status).toBe(201);
+    } finally {
+      getStats.mockRestore();
+      verify.mockRestore();
+      registered.mockRestore();
+      config.publicKey = publicKey;
+    }
+  });
+
+  it('should abort a session', async () => {
+    const response = await request(app).delete(`/uploads/${uploadId}`);
+    expect(response.status).toBe(200);
+
+    const status = await request(app).get(`/uploads/${uploadId}`);
+    expect(status.status).toBe(404);
+    expect(status.body.error).toBe('UPLOAD_NOT_FOUND');
+  });
+});
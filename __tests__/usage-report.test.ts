@@ -0,0 +1,129 @@
+/**
+ * Tests for the storage usage breakdown (grouping, retrievals, age
+ * distribution, growth series and the admin endpoint)
+ */
+
+import crypto from 'crypto';
+import request from 'supertest';
+import express from 'express';
+import { storageService } from '../src/services/storage.service';
+import { usageReportService } from '../src/services/usage-report.service';
+import { usageBreakdownHandler } from '../src/routes/usage.route';
+import { generateCID } from '../src/utils/cid';
+import { calculateShardKey } from '../src/utils/sharding';
+import { config } from '../src/config';
+
+const app = express();
+app.get('/admin/usage', usageBreakdownHandler);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Usage Breakdown', () => {
+  const appId = `usage-app-${crypto.randomUUID()}`;
+  const contentType = `usage-type-${crypto.randomUUID()}`;
+  const sender = `0x${crypto.randomBytes(20).toString('hex')}`;
+  const cids: string[] = [];
+  let since: number;
+
+  beforeAll(async () => {
+    await storageService.initialize();
+    since = Date.now();
+
+    for (const size of [1024, 2048]) {
+      const content = crypto.randomBytes(size);
+      const cid = generateCID(content);
+      await storageService.storeBlob(cid, content, 'image/webp', {
+        appId,
+        contentType,
+        sender: sender.toUpperCase()
+      });
+      cids.push(cid);
+    }
+    await storageService.updateMetadata(cids[0], {
+      metrics: { retrievalCount: 5, lastAccessed: Date.now(), avgLatency: 0 }
+    });
+  });
+
+  afterAll(async () => {
+    for (const cid of cids) {
+      await storageService.deleteBlob(cid, { force: true, permanent: true });
+    }
+  });
+
+  test('should aggregate blobs, bytes and retrievals per group', async () => {
+    const { groups, totals, groupCount } = await usageReportService.getBreakdown({ groupBy: 'appId', limit: 1000 });
+    const group = groups.find(g => g.key === appId);
+
+    expect(group).toMatchObject({ blobCount: 2, retrievalCount: 5 });
+    expect(group!.storedSize).toBeGreaterThan(0);
+    expect(totals.blobCount).toBeGreaterThanOrEqual(2);
+    expect(groupCount).toBe(groups.length);
+
+    // Largest first
+    const sizes = groups.map(g => g.storedSize);
+    expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+  });
+
+  test('should group by content type, sender, MIME type and shard', async () => {
+    const byType = await usageReportService.getBreakdown({ groupBy: 'contentType', limit: 1000 });
+    expect(byType.groups.find(g => g.key === contentType)?.blobCount).toBe(2);
+
+    // Senders are grouped case-insensitively
+    const bySender = await usageReportService.getBreakdown({ groupBy: 'sender', limit: 1000 });
+    expect(bySender.groups.find(g => g.key === sender)?.blobCount).toBe(2);
+
+    const byMime = await usageReportService.getBreakdown({ groupBy: 'mimeType', since, limit: 1000 });
+    expect(byMime.groups.find(g => g.key === 'image/webp')?.blobCount).toBeGreaterThanOrEqual(2);
+
+    const shard = calculateShardKey(cids[0], config.shardCount);
+    const byShard = await usageReportService.getBreakdown({ groupBy: 'shard', limit: 1000 });
+    expect(byShard.groups.find(g => g.key === shard)?.blobCount).toBeGreaterThanOrEqual(1);
+  });
+
+  test('should bucket blobs by age and creation time', async () => {
+    const now = Date.now() + 10 * DAY;
+    const breakdown = await usageReportService.getBreakdown(
+      { groupBy: 'appId', since, interval: 'day', limit: 1000 },
+      now
+    );
+    const group = breakdown.groups.find(g => g.key === appId)!;
+
+    expect(group.ageDistribution.map(b => b.label)).toEqual(['<1d', '1-7d', '7-30d', '30-90d', '>90d']);
+    expect(group.ageDistribution.find(b => b.label === '7-30d')).toMatchObject({
+      blobCount: 2,
+      storedSize: group.storedSize
+    });
+
+    expect(group.growth!.reduce((sum, point) => sum + point.blobCount, 0)).toBe(2);
+    for (const point of group.growth!) {
+      expect(point.start % DAY).toBe(0);
+    }
+    expect(breakdown.growth).toBeDefined();
+
+    // Nothing created after the window
+    const empty = await usageReportService.getBreakdown({ groupBy: 'appId', since: now });
+    expect(empty).toMatchObject({ groupCount: 0, totals: { blobCount: 0, storedSize: 0, retrievalCount: 0 } });
+  });
+
+  describe('HTTP API', () => {
+    test('should return the breakdown', async () => {
+      const response = await request(app).get(`/admin/usage?groupBy=contentType&since=${since}&interval=hour`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.groupBy).toBe('contentType');
+      expect(response.body.groups.find((g: any) => g.key === contentType)).toMatchObject({
+        blobCount: 2,
+        retrievalCount: 5,
+        growth: expect.any(Array)
+      });
+    });
+
+    test('should validate query parameters', async () => {
+      expect((await request(app).get('/admin/usage?groupBy=owner')).status).toBe(400);
+      expect((await request(app).get('/admin/usage?interval=month')).status).toBe(400);
+      expect((await request(app).get('/admin/usage?since=yesterday')).status).toBe(400);
+      expect((await request(app).get('/admin/usage?since=2000&until=1000')).status).toBe(400);
+      expect((await request(app).get('/admin/usage?limit=0')).status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for multiple data volumes (placement by free space, degraded and
+ * failed volumes)
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FilesystemBackend, VolumeBackend } from '../src/services/backends';
+import { generateCID } from '../src/utils/cid';
+
+// Volume "a" has three times the free space of volume "b"
+jest.mock('../src/utils/disk.js', () => ({
+  getFreeDiskSpace: jest.fn(async (dir: string) => (dir.endsWith('a') ? 3e9 : 1e9))
+}));
+
+function blob(content: string): { cid: string; data: Buffer } {
+  const data = Buffer.from(content);
+  return { cid: generateCID(data), data };
+}
+
+describe('VolumeBackend', () => {
+  let dir: string;
+  let a: FilesystemBackend;
+  let b: FilesystemBackend;
+  let draw: number;
+  let backend: VolumeBackend;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bytecave-volumes-'));
+    a = new FilesystemBackend(path.join(dir, 'a'));
+    b = new FilesystemBackend(path.join(dir, 'b'));
+    draw = 0;
+    backend = new VolumeBackend(
+      [{ path: path.join(dir, 'a'), backend: a }, { path: path.join(dir, 'b'), backend: b }],
+      () => draw
+    );
+    await backend.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // Make a volume's blob directory unusable, as a dying disk would
+  async function breakVolume(name: string): Promise<void> {
+    await fs.rm(path.join(dir, name), { recursive: true, force: true });
+    await fs.writeFile(path.join(dir, name), 'not a directory');
+  }
+
+  test('should place new blobs by free space and read them from any volume', async () => {
+    const first = blob('first');
+    const second = blob('second');
+    draw = 0.7;                 // 0.7 * 4e9 falls in a's 3e9
+    await backend.put(first.cid, first.data);
+    draw = 0.8;
+    await backend.put(second.cid, second.data);
+
+    expect(await a.has(first.cid)).toBe(true);
+    expect(await b.has(second.cid)).toBe(true);
+    expect((await backend.get(second.cid))!.equals(second.data)).toBe(true);
+    expect((await backend.list()).sort()).toEqual([first.cid, second.cid].sort());
+
+    // Rewrites stay where the blob is
+    draw = 0;
+    await backend.put(second.cid, second.data);
+    expect(await a.has(second.cid)).toBe(false);
+
+    expect(await backend.delete(second.cid)).toBe(true);
+    expect(await backend.has(second.cid)).toBe(false);
+  });
+
+  test('should mark a volume degraded on IO errors and place blobs elsewhere', async () => {
+    await breakVolume('a');
+    const { cid, data } = blob('placed on b');
+
+    await backend.put(cid, data);
+
+    expect(await b.has(cid)).toBe(true);
+    const [volumeA, volumeB] = backend.getVolumes();
+    expect(volumeA).toMatchObject({ state: 'degraded', errors: 1, lastError: expect.any(String) });
+    expect(volumeB).toMatchObject({ state: 'ok', errors: 0 });
+    expect(await backend.getFreeDiskSpace()).toBe(1e9);
+  });
+
+  test('should fail volumes that fail their probe and recover them once they pass', async () => {
+    const { cid, data } = blob('on a failing disk');
+    draw = 0;
+    await backend.put(cid, data);
+    await breakVolume('a');
+
+    const failed = await backend.check();
+    expect(failed.map(volume => volume.path)).toEqual([path.join(dir, 'a')]);
+    expect(await backend.has(cid)).toBe(false);
+    expect(await backend.check()).toEqual([]);
+
+    await fs.rm(path.join(dir, 'a'));
+    await fs.mkdir(path.join(dir, 'a'));
+    await backend.check();
+    expect(backend.getVolumes()[0].state).toBe('ok');
+  });
+
+  test('should refuse writes when no volume is healthy', async () => {
+    await breakVolume('a');
+    await breakVolume('b');
+    await backend.check();
+
+    const { cid, data } = blob('nowhere to go');
+    await expect(backend.put(cid, data)).rejects.toMatchObject({ code: 'VOLUME_UNAVAILABLE' });
+  });
+});
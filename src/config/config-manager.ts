@@ -17,6 +17,7 @@ export interface PersistedConfig {
   // Identity
   publicKey?: string;
   ownerAddress?: string;
+  adminAuthEnabled?: boolean;
   
   // P2P Configuration
   p2pBootstrapPeers: string[];
@@ -36,11 +37,38 @@ export interface PersistedConfig {
   gcIntervalMinutes?: number;
   // gcVerifyReplicas and gcVerifyProofs removed - always true for security
   
+  // Integrity Scrubbing
+  scrubEnabled?: boolean;
+  scrubIntervalHours?: number;
+  scrubMaxMBPerSecond?: number;
+  
+  // Trash
+  trashRetentionHours?: number;
+  
+  // Quotas (by appId and by sender; '*' applies to all others)
+  appQuotas?: Record<string, { maxMB?: number; maxBlobs?: number }>;
+  senderQuotas?: Record<string, { maxMB?: number; maxBlobs?: number }>;
+  
   // Storage Configuration
   maxStorageMB?: number;
   dataDir?: string;
   maxBlobSizeMB?: number;
   maxStorageGB?: number;
+  storageBackend?: 'filesystem' | 'sqlite';
+  
+  // Storage Tiers
+  coldDataDir?: string;
+  tierColdAfterHours?: number;
+  tierPromoteReads?: number;
+  tierHotMaxMB?: number;
+  tierIntervalMinutes?: number;
+  
+  // Data Volumes
+  dataVolumes?: string[];
+  volumeCheckIntervalMinutes?: number;
+  
+  // Consistency Checks
+  fsckOnStartup?: boolean;
   
   // Replication Configuration
   replicationEnabled?: boolean;
@@ -49,12 +77,21 @@ export interface PersistedConfig {
   
   // Security
   enableBlockedContent?: boolean;
+  denylistRefreshMinutes?: number;
   allowedApps?: string[];
   requireAppRegistry?: boolean;
   
   // Performance
   cacheSizeMB?: number;
+  accessMetricsFlushSeconds?: number;
   compressionEnabled?: boolean;
+  compressionAlgorithm?: 'none' | 'gzip' | 'brotli' | 'zstd';
+  compressionRules?: Array<{ mimeType?: string; contentType?: string; algorithm: 'none' | 'gzip' | 'brotli' | 'zstd' }>;
+  compressionMinGainPercent?: number;
+  chunkSizeMB?: number;
+  maxChunkedBlobSizeMB?: number;
+  uploadSessionTtlMinutes?: number;
+  maxUploadSessionsPerSender?: number;
   
   // Monitoring
   metricsEnabled?: boolean;
@@ -3,7 +3,10 @@
  */
 
 import dotenv from 'dotenv';
-import { Config } from '../types/index.js';
+import path from 'path';
+import { ethers } from 'ethers';
+import { CompressionAlgorithm, CompressionRule, Config, StorageBackendType, StorageQuota } from '../types/index.js';
+import { COMPRESSION_ALGORITHMS, isCompressionSupported } from '../utils/compression.js';
 import { getConfigManager } from './config-manager.js';
 
 dotenv.config();
@@ -39,6 +42,22 @@ function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   return value.toLowerCase() === 'true';
 }
 
+function getEnvJson<T>(key: string, defaultValue: T): T {
+  const value = process.env[key];
+  if (!value) {
+    return defaultValue;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`Invalid JSON for ${key}: ${value}`);
+  }
+}
+
+function getEnvQuotas(key: string): Record<string, StorageQuota> {
+  return getEnvJson<Record<string, StorageQuota>>(key, {});
+}
+
 function getEnvArray(key: string, defaultValue: string[] = []): string[] {
   const value = process.env[key];
   if (!value) {
@@ -47,6 +66,17 @@ function getEnvArray(key: string, defaultValue: string[] = []): string[] {
   return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
 }
 
+// Already-compressed formats gain nothing from another pass
+const DEFAULT_COMPRESSION_RULES: CompressionRule[] = [
+  { mimeType: 'image/*', algorithm: 'none' },
+  { mimeType: 'video/*', algorithm: 'none' },
+  { mimeType: 'audio/*', algorithm: 'none' },
+  { mimeType: 'application/zip', algorithm: 'none' },
+  { mimeType: 'application/gzip', algorithm: 'none' },
+  { mimeType: 'application/x-7z-compressed', algorithm: 'none' },
+  { mimeType: 'application/zstd', algorithm: 'none' }
+];
+
 // Content filtering removed - nodes now accept all content in their shard range
 // Content type is stored as metadata for application-level filtering
 
@@ -80,6 +110,7 @@ export const config: Config = {
   // Node identity for P2P and registration
   publicKey: getConfigValue(persistedConfig.publicKey, process.env.PUBLIC_KEY || ''),
   ownerAddress: getConfigValue(persistedConfig.ownerAddress, process.env.OWNER_ADDRESS || ''),
+  adminAuthEnabled: getConfigValue(persistedConfig.adminAuthEnabled, getEnvBoolean('ADMIN_AUTH_ENABLED', true)),
 
   // P2P Configuration - config.json takes precedence
   p2pEnabled: getEnvBoolean('P2P_ENABLED', true),
@@ -112,10 +143,37 @@ export const config: Config = {
   gcVerifyReplicas: true, // Always verify replicas before deletion (security requirement)
   gcVerifyProofs: true, // Always verify storage proofs (security requirement)
 
+  // Integrity scrubbing - config.json takes precedence
+  scrubEnabled: getConfigValue(persistedConfig.scrubEnabled, getEnvBoolean('SCRUB_ENABLED', true)),
+  scrubIntervalHours: getConfigValue(persistedConfig.scrubIntervalHours, getEnvNumber('SCRUB_INTERVAL_HOURS', 24)),
+  scrubMaxMBPerSecond: getConfigValue(persistedConfig.scrubMaxMBPerSecond, getEnvNumber('SCRUB_MAX_MB_PER_SEC', 5)),
+
+  // Trash - config.json takes precedence
+  trashRetentionHours: getConfigValue(persistedConfig.trashRetentionHours, getEnvNumber('TRASH_RETENTION_HOURS', 72)),
+
+  // Quotas - config.json takes precedence
+  appQuotas: getConfigValue(persistedConfig.appQuotas, getEnvQuotas('APP_QUOTAS')),
+  senderQuotas: getConfigValue(persistedConfig.senderQuotas, getEnvQuotas('SENDER_QUOTAS')),
+
   // Storage configuration - config.json takes precedence
   dataDir: dataDir,
   maxBlobSizeMB: getConfigValue(persistedConfig.maxBlobSizeMB, getEnvNumber('MAX_BLOB_SIZE_MB', 10)),
   maxStorageGB: getConfigValue(persistedConfig.maxStorageGB, getEnvNumber('MAX_STORAGE_GB', 100)),
+  storageBackend: getConfigValue(persistedConfig.storageBackend, (process.env.STORAGE_BACKEND || 'filesystem') as StorageBackendType),
+
+  // Storage tiers - config.json takes precedence
+  coldDataDir: getConfigValue(persistedConfig.coldDataDir, process.env.COLD_DATA_DIR || ''),
+  tierColdAfterHours: getConfigValue(persistedConfig.tierColdAfterHours, getEnvNumber('TIER_COLD_AFTER_HOURS', 168)),
+  tierPromoteReads: getConfigValue(persistedConfig.tierPromoteReads, getEnvNumber('TIER_PROMOTE_READS', 3)),
+  tierHotMaxMB: getConfigValue(persistedConfig.tierHotMaxMB, getEnvNumber('TIER_HOT_MAX_MB', 0)),
+  tierIntervalMinutes: getConfigValue(persistedConfig.tierIntervalMinutes, getEnvNumber('TIER_INTERVAL_MINUTES', 60)),
+
+  // Data volumes - config.json takes precedence
+  dataVolumes: getConfigValue(persistedConfig.dataVolumes, getEnvArray('DATA_VOLUMES', [])),
+  volumeCheckIntervalMinutes: getConfigValue(persistedConfig.volumeCheckIntervalMinutes, getEnvNumber('VOLUME_CHECK_INTERVAL_MINUTES', 5)),
+
+  // Consistency checks - config.json takes precedence
+  fsckOnStartup: getConfigValue(persistedConfig.fsckOnStartup, getEnvBoolean('FSCK_ON_STARTUP', true)),
   
   // Replication - config.json takes precedence
   replicationEnabled: getConfigValue(persistedConfig.replicationEnabled, getEnvBoolean('REPLICATION_ENABLED', true)),
@@ -124,12 +182,25 @@ export const config: Config = {
   
   // Security - config.json takes precedence
   enableBlockedContent: getConfigValue(persistedConfig.enableBlockedContent, getEnvBoolean('ENABLE_BLOCKED_CONTENT', true)),
+  denylistRefreshMinutes: getConfigValue(persistedConfig.denylistRefreshMinutes, getEnvNumber('DENYLIST_REFRESH_MINUTES', 60)),
   allowedApps: getConfigValue(persistedConfig.allowedApps, getEnvArray('ALLOWED_APPS', ['hashd'])),
   requireAppRegistry: getConfigValue(persistedConfig.requireAppRegistry, getEnvBoolean('REQUIRE_APP_REGISTRY', true)),
   
   // Performance - config.json takes precedence
   cacheSizeMB: getConfigValue(persistedConfig.cacheSizeMB, getEnvNumber('CACHE_SIZE_MB', 50)),
+  accessMetricsFlushSeconds: getConfigValue(persistedConfig.accessMetricsFlushSeconds, getEnvNumber('ACCESS_METRICS_FLUSH_SECONDS', 30)),
   compressionEnabled: getConfigValue(persistedConfig.compressionEnabled, getEnvBoolean('COMPRESSION_ENABLED', false)),
+  compressionAlgorithm: getConfigValue(persistedConfig.compressionAlgorithm, (process.env.COMPRESSION_ALGORITHM || 'gzip') as CompressionAlgorithm),
+  compressionRules: getConfigValue(persistedConfig.compressionRules, getEnvJson('COMPRESSION_RULES', DEFAULT_COMPRESSION_RULES)),
+  compressionMinGainPercent: getConfigValue(persistedConfig.compressionMinGainPercent, getEnvNumber('COMPRESSION_MIN_GAIN_PERCENT', 10)),
+  chunkSizeMB: getConfigValue(persistedConfig.chunkSizeMB, getEnvNumber('CHUNK_SIZE_MB', 4)),
+  maxChunkedBlobSizeMB: getConfigValue(persistedConfig.maxChunkedBlobSizeMB, getEnvNumber('MAX_CHUNKED_BLOB_SIZE_MB', 2048)),
+  uploadSessionTtlMinutes: getConfigValue(persistedConfig.uploadSessionTtlMinutes, getEnvNumber('UPLOAD_SESSION_TTL_MINUTES', 60)),
+  maxUploadSessionsPerSender: getConfigValue(persistedConfig.maxUploadSessionsPerSender, getEnvNumber('UPLOAD_MAX_SESSIONS_PER_SENDER', 4)),
+
+  // Encryption at rest - secrets come from the environment only
+  encryptionPassphrase: process.env.ENCRYPTION_PASSPHRASE || '',
+  encryptionKeyFile: process.env.ENCRYPTION_KEY_FILE || '',
   
   // Monitoring - config.json takes precedence
   metricsEnabled: getConfigValue(persistedConfig.metricsEnabled, getEnvBoolean('METRICS_ENABLED', true)),
@@ -151,6 +222,7 @@ configManager.updateNodeConfig({
   // Identity
   publicKey: config.publicKey,
   ownerAddress: config.ownerAddress,
+  adminAuthEnabled: config.adminAuthEnabled,
   
   // P2P Configuration
   p2pBootstrapPeers: config.p2pBootstrapPeers,
@@ -171,11 +243,38 @@ configManager.updateNodeConfig({
   // Verification is always enabled for security - not saved to config
   // gcVerifyReplicas and gcVerifyProofs are hardcoded to true
   
+  // Integrity Scrubbing
+  scrubEnabled: config.scrubEnabled,
+  scrubIntervalHours: config.scrubIntervalHours,
+  scrubMaxMBPerSecond: config.scrubMaxMBPerSecond,
+  
+  // Trash
+  trashRetentionHours: config.trashRetentionHours,
+  
+  // Quotas
+  appQuotas: config.appQuotas,
+  senderQuotas: config.senderQuotas,
+  
   // Storage Configuration
   maxStorageMB: config.gcMaxStorageMB,
   dataDir: config.dataDir,
   maxBlobSizeMB: config.maxBlobSizeMB,
   maxStorageGB: config.maxStorageGB,
+  storageBackend: config.storageBackend,
+  
+  // Storage Tiers
+  coldDataDir: config.coldDataDir,
+  tierColdAfterHours: config.tierColdAfterHours,
+  tierPromoteReads: config.tierPromoteReads,
+  tierHotMaxMB: config.tierHotMaxMB,
+  tierIntervalMinutes: config.tierIntervalMinutes,
+  
+  // Data Volumes
+  dataVolumes: config.dataVolumes,
+  volumeCheckIntervalMinutes: config.volumeCheckIntervalMinutes,
+  
+  // Consistency Checks
+  fsckOnStartup: config.fsckOnStartup,
   
   // Replication Configuration
   replicationEnabled: config.replicationEnabled,
@@ -184,12 +283,21 @@ configManager.updateNodeConfig({
   
   // Security
   enableBlockedContent: config.enableBlockedContent,
+  denylistRefreshMinutes: config.denylistRefreshMinutes,
   allowedApps: config.allowedApps,
   requireAppRegistry: config.requireAppRegistry,
   
   // Performance
   cacheSizeMB: config.cacheSizeMB,
+  accessMetricsFlushSeconds: config.accessMetricsFlushSeconds,
   compressionEnabled: config.compressionEnabled,
+  compressionAlgorithm: config.compressionAlgorithm,
+  compressionRules: config.compressionRules,
+  compressionMinGainPercent: config.compressionMinGainPercent,
+  chunkSizeMB: config.chunkSizeMB,
+  maxChunkedBlobSizeMB: config.maxChunkedBlobSizeMB,
+  uploadSessionTtlMinutes: config.uploadSessionTtlMinutes,
+  maxUploadSessionsPerSender: config.maxUploadSessionsPerSender,
   
   // Monitoring
   metricsEnabled: config.metricsEnabled,
@@ -205,6 +313,113 @@ export function validateConfig(): void {
     throw new Error('MAX_BLOB_SIZE_MB must be at least 1');
   }
 
+  if (config.chunkSizeMB < 1) {
+    throw new Error('CHUNK_SIZE_MB must be at least 1');
+  }
+
+  if (config.maxChunkedBlobSizeMB < config.maxBlobSizeMB) {
+    throw new Error('MAX_CHUNKED_BLOB_SIZE_MB must be at least MAX_BLOB_SIZE_MB');
+  }
+
+  if (!['filesystem', 'sqlite'].includes(config.storageBackend)) {
+    throw new Error('STORAGE_BACKEND must be "filesystem" or "sqlite"');
+  }
+
+  if (config.accessMetricsFlushSeconds <= 0) {
+    throw new Error('ACCESS_METRICS_FLUSH_SECONDS must be greater than 0');
+  }
+
+  if (!COMPRESSION_ALGORITHMS.includes(config.compressionAlgorithm)) {
+    throw new Error(`COMPRESSION_ALGORITHM must be one of: ${COMPRESSION_ALGORITHMS.join(', ')}`);
+  }
+
+  if (!Array.isArray(config.compressionRules) || config.compressionRules.some(rule => !COMPRESSION_ALGORITHMS.includes(rule?.algorithm))) {
+    throw new Error(`COMPRESSION_RULES must be a list of rules whose algorithm is one of: ${COMPRESSION_ALGORITHMS.join(', ')}`);
+  }
+
+  for (const algorithm of [config.compressionAlgorithm, ...config.compressionRules.map(rule => rule.algorithm)]) {
+    if (!isCompressionSupported(algorithm)) {
+      throw new Error(`Compression algorithm ${algorithm} needs a newer Node.js version`);
+    }
+  }
+
+  if (config.compressionMinGainPercent < 0 || config.compressionMinGainPercent > 100) {
+    throw new Error('COMPRESSION_MIN_GAIN_PERCENT must be between 0 and 100');
+  }
+
+  if (config.uploadSessionTtlMinutes < 1) {
+    throw new Error('UPLOAD_SESSION_TTL_MINUTES must be at least 1');
+  }
+
+  if (!Number.isInteger(config.maxUploadSessionsPerSender) || config.maxUploadSessionsPerSender < 1) {
+    throw new Error('UPLOAD_MAX_SESSIONS_PER_SENDER must be a positive integer');
+  }
+
+  if (config.coldDataDir && path.resolve(config.coldDataDir) === path.resolve(config.dataDir)) {
+    throw new Error('COLD_DATA_DIR must be a different directory from the data directory');
+  }
+
+  if (config.tierColdAfterHours <= 0) {
+    throw new Error('TIER_COLD_AFTER_HOURS must be greater than 0');
+  }
+
+  if (config.tierPromoteReads < 1) {
+    throw new Error('TIER_PROMOTE_READS must be at least 1');
+  }
+
+  if (config.tierHotMaxMB < 0) {
+    throw new Error('TIER_HOT_MAX_MB must be 0 or greater');
+  }
+
+  if (config.tierIntervalMinutes <= 0) {
+    throw new Error('TIER_INTERVAL_MINUTES must be greater than 0');
+  }
+
+  const blobDirs = [config.dataDir, ...config.dataVolumes, config.coldDataDir]
+    .filter(dir => dir)
+    .map(dir => path.resolve(dir));
+  if (new Set(blobDirs).size !== blobDirs.length) {
+    throw new Error('DATA_VOLUMES must be different directories from each other, the data directory and COLD_DATA_DIR');
+  }
+
+  if (config.volumeCheckIntervalMinutes <= 0) {
+    throw new Error('VOLUME_CHECK_INTERVAL_MINUTES must be greater than 0');
+  }
+
+  if (config.denylistRefreshMinutes <= 0) {
+    throw new Error('DENYLIST_REFRESH_MINUTES must be greater than 0');
+  }
+
+  if (config.scrubIntervalHours <= 0) {
+    throw new Error('SCRUB_INTERVAL_HOURS must be greater than 0');
+  }
+
+  if (config.scrubMaxMBPerSecond <= 0) {
+    throw new Error('SCRUB_MAX_MB_PER_SEC must be greater than 0');
+  }
+
+  if (config.trashRetentionHours < 0) {
+    throw new Error('TRASH_RETENTION_HOURS must be 0 or greater');
+  }
+
+  for (const [name, quotas] of [['APP_QUOTAS', config.appQuotas], ['SENDER_QUOTAS', config.senderQuotas]] as const) {
+    for (const [key, quota] of Object.entries(quotas)) {
+      for (const limit of [quota.maxMB, quota.maxBlobs]) {
+        if (limit !== undefined && (typeof limit !== 'number' || limit < 0)) {
+          throw new Error(`${name} limits must be numbers of 0 or more (${key})`);
+        }
+      }
+    }
+  }
+
+  if (config.encryptionPassphrase && config.encryptionKeyFile) {
+    throw new Error('Set only one of ENCRYPTION_PASSPHRASE and ENCRYPTION_KEY_FILE');
+  }
+
+  if (config.ownerAddress && !ethers.isAddress(config.ownerAddress)) {
+    throw new Error('OWNER_ADDRESS must be an Ethereum address');
+  }
+
   if (config.maxStorageGB < 1) {
     throw new Error('MAX_STORAGE_GB must be at least 1');
   }
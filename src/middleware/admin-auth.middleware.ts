@@ -0,0 +1,133 @@
+/**
+ * HASHD Vault - Admin Authentication Middleware
+ *
+ * Guards operator routes. A request is admitted if it carries either
+ * - X-ByteCave-Admin-Signature: base64-encoded JSON AdminSignature by the
+ *   node owner over the node ID, method, path, body hash, timestamp and nonce
+ * - Authorization: Bearer <token>, an API token holding the route's scope
+ *
+ * Admitted requests are recorded in the admin audit log once answered.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ethers } from 'ethers';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { adminAuthService } from '../services/admin-auth.service.js';
+import { AdminActor, AdminScope, AdminSignature } from '../types/index.js';
+
+const SIGNATURE_HEADER = 'X-ByteCave-Admin-Signature';
+const BEARER_PREFIX = 'Bearer ';
+
+// Raw JSON bodies, for the body hash of signed requests
+const rawBodies = new WeakMap<Request, Buffer>();
+
+/**
+ * express.json() verify hook keeping the raw body of each request
+ *
+ * Usage:
+ * app.use(express.json({ verify: captureRawBody }));
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer): void {
+  rawBodies.set(req, buf);
+}
+
+/**
+ * Require the node owner's signature, or an API token with a scope
+ *
+ * Usage:
+ * app.post('/admin/gc', adminLimiter, requireAdmin('gc'), triggerGCHandler);
+ * app.post('/admin/tokens', adminLimiter, requireAdmin('owner'), createTokenHandler);
+ *
+ * 'owner' admits only signed requests (token management).
+ */
+export function requireAdmin(scope: AdminScope | 'owner'): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const actor = authenticate(req, res, scope);
+    if (!actor) return;
+
+    res.on('finish', () => {
+      adminAuthService.recordAudit({
+        actor,
+        method: req.method,
+        path: req.originalUrl,
+        statusCode: res.statusCode,
+        ip: req.ip
+      }).catch(() => {});
+    });
+    res.locals.adminActor = actor;
+    next();
+  };
+}
+
+/**
+ * The request's actor, or null once a 401/403 has been sent
+ */
+function authenticate(req: Request, res: Response, scope: AdminScope | 'owner'): AdminActor | null {
+  if (!config.adminAuthEnabled) {
+    return { type: 'unauthenticated' };
+  }
+
+  const signatureHeader = req.get(SIGNATURE_HEADER);
+  const authorization = req.get('Authorization');
+
+  if (signatureHeader) {
+    const signed = parseSignatureHeader(signatureHeader);
+    if (!signed) {
+      reject(res, 401, 'UNAUTHORIZED', `Invalid ${SIGNATURE_HEADER} header`);
+      return null;
+    }
+
+    const result = adminAuthService.verifySignature(
+      { method: req.method, path: req.originalUrl, body: rawBodies.get(req) },
+      signed
+    );
+    if (!result.authorized) {
+      logger.warn('Admin request rejected', { path: req.originalUrl, ip: req.ip, error: result.error });
+      reject(res, 401, 'UNAUTHORIZED', result.error || 'Invalid signature');
+      return null;
+    }
+    return { type: 'owner', address: signed.address };
+  }
+
+  if (authorization?.startsWith(BEARER_PREFIX)) {
+    const token = adminAuthService.verifyToken(authorization.slice(BEARER_PREFIX.length).trim());
+    if (!token) {
+      logger.warn('Admin request rejected', { path: req.originalUrl, ip: req.ip, error: 'Unknown or expired token' });
+      reject(res, 401, 'UNAUTHORIZED', 'Unknown, revoked or expired API token');
+      return null;
+    }
+    if (scope === 'owner' || !token.scopes.includes(scope)) {
+      reject(res, 403, 'FORBIDDEN', scope === 'owner'
+        ? 'Only the node owner can do this'
+        : `API token lacks the ${scope} scope`);
+      return null;
+    }
+    return { type: 'token', tokenId: token.id, tokenName: token.name };
+  }
+
+  reject(res, 401, 'ADMIN_AUTH_REQUIRED', `Sign the request as the node owner (${SIGNATURE_HEADER}) or present an API token`);
+  return null;
+}
+
+function parseSignatureHeader(header: string): AdminSignature | null {
+  try {
+    const signed = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+    if (!signed || typeof signed !== 'object') return null;
+    if (!signed.address || !ethers.isAddress(signed.address)) return null;
+    if (!signed.signature || typeof signed.signature !== 'string') return null;
+    if (!signed.timestamp || typeof signed.timestamp !== 'number') return null;
+    if (!signed.nonce || typeof signed.nonce !== 'string') return null;
+    return signed;
+  } catch {
+    return null;
+  }
+}
+
+function reject(res: Response, status: number, error: string, message: string): void {
+  res.status(status).json({
+    error,
+    message,
+    timestamp: Date.now()
+  });
+}
@@ -91,6 +91,18 @@ export const adminLimiter = rateLimit({
   skip: () => config.nodeEnv === 'test'
 });
 
+/**
+ * Batch read rate limiter - each request can fetch many blobs
+ */
+export const batchLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { ...rateLimitMessage, message: 'Too many batch requests' },
+  skip: () => config.nodeEnv === 'test'
+});
+
 /**
  * Read endpoint rate limiter - higher limits for reads
  */
@@ -59,6 +59,13 @@ export function checkProductionSecurity(): void {
     warnings.push('No TLS certificate configured. Ensure a reverse proxy (nginx/caddy) handles TLS.');
   }
 
+  // Check that operator routes are authenticated
+  if (!config.adminAuthEnabled) {
+    warnings.push('ADMIN_AUTH_ENABLED=false: anyone who can reach the node can use the admin routes.');
+  } else if (!config.ownerAddress) {
+    warnings.push('OWNER_ADDRESS not set: admin routes only accept existing API tokens.');
+  }
+
   // Check for secure CORS
   if (config.corsOrigin.includes('*')) {
     warnings.push('CORS allows all origins (*). Consider restricting in production.');
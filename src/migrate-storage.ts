@@ -0,0 +1,87 @@
+/**
+ * HASHD Vault - Storage Migration CLI
+ *
+ * Moves blobs between storage backends. Stop the node first.
+ *
+ *   npm run migrate:storage -- --from filesystem --to sqlite [--delete-source] [--data-dir ./data]
+ *
+ * On success the node's config.json is switched to the target backend.
+ */
+
+import { config } from './config/index.js';
+import { ConfigManager } from './config/config-manager.js';
+import { EncryptedBackend, MetadataIndex, createStorageBackend } from './services/backends/index.js';
+import { EncryptionService } from './services/encryption.service.js';
+import { migrateStorage } from './services/backends/migrate.js';
+import { StorageBackend, StorageBackendType } from './types/index.js';
+
+const BACKENDS: StorageBackendType[] = ['filesystem', 'sqlite'];
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const from = getArg('from') as StorageBackendType | undefined;
+  const to = getArg('to') as StorageBackendType | undefined;
+  const dataDir = getArg('data-dir') || config.dataDir;
+  const deleteSource = process.argv.includes('--delete-source');
+
+  if (!from || !to || !BACKENDS.includes(from) || !BACKENDS.includes(to) || from === to) {
+    console.error('Usage: migrate-storage --from <filesystem|sqlite> --to <filesystem|sqlite> [--delete-source] [--data-dir <dir>]');
+    process.exit(1);
+  }
+
+  // Blobs are decrypted for verification and re-encrypted into the target
+  const encryption = new EncryptionService(dataDir);
+  await encryption.initialize();
+  const withEncryption = (backend: StorageBackend): StorageBackend =>
+    encryption.isEnabled() ? new EncryptedBackend(backend, encryption) : backend;
+
+  const source = withEncryption(createStorageBackend(dataDir, from));
+  const target = withEncryption(createStorageBackend(dataDir, to));
+  const metadataIndex = new MetadataIndex(dataDir);
+  if (encryption.isEnabled()) {
+    metadataIndex.setCipher(encryption);
+  }
+  await source.initialize();
+  await target.initialize();
+  await metadataIndex.initialize();
+
+  // Metadata from versions without the index is needed to read compressed blobs
+  await metadataIndex.importLegacy(source);
+
+  console.log(`Migrating ${dataDir} from ${from} to ${to}...`);
+
+  try {
+    const result = await migrateStorage(source, target, metadataIndex, {
+      deleteSource,
+      onProgress: (done, total) => {
+        if (done % 1000 === 0 || done === total) {
+          console.log(`  ${done}/${total}`);
+        }
+      }
+    });
+
+    console.log(`Migrated: ${result.migrated}, already present: ${result.skipped}, failed: ${result.failed}`);
+
+    if (result.failed > 0) {
+      console.error('Some blobs failed to migrate; the node configuration was not changed.');
+      process.exitCode = 1;
+      return;
+    }
+
+    new ConfigManager(dataDir).updateNodeConfig({ storageBackend: to });
+    console.log(`config.json now uses the ${to} backend.`);
+  } finally {
+    await source.close();
+    await target.close();
+    await metadataIndex.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
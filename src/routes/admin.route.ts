@@ -0,0 +1,112 @@
+/**
+ * HASHD Vault - Admin API Token and Audit Routes
+ *
+ * POST /admin/tokens - Create a scoped API token (node owner only)
+ * GET /admin/tokens - List API tokens (node owner only)
+ * DELETE /admin/tokens/:id - Revoke an API token (node owner only)
+ * GET /admin/audit - Admin audit log (newest first)
+ */
+
+import { Request, Response } from 'express';
+import { ADMIN_SCOPES, adminAuthService } from '../services/admin-auth.service.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_AUDIT_LIMIT = 1000;
+const MAX_TOKEN_NAME_LENGTH = 100;
+
+/**
+ * Create an API token
+ *
+ * Body:
+ * - name: string - what the token is for
+ * - scopes: AdminScope[] - routes it may use
+ * - expiresAt?: number - Unix timestamp (ms) after which it stops working
+ *
+ * The token is only ever returned in this response.
+ */
+export async function createTokenHandler(req: Request, res: Response): Promise<void> {
+  const { name, scopes, expiresAt } = req.body ?? {};
+
+  let error: string | null = null;
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_TOKEN_NAME_LENGTH) {
+    error = `name must be a non-empty string of up to ${MAX_TOKEN_NAME_LENGTH} characters`;
+  } else if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => ADMIN_SCOPES.includes(scope))) {
+    error = `scopes must be a non-empty array of: ${ADMIN_SCOPES.join(', ')}`;
+  } else if (expiresAt !== undefined && (!Number.isSafeInteger(expiresAt) || expiresAt <= Date.now())) {
+    error = 'expiresAt must be a future Unix timestamp in milliseconds';
+  }
+  if (error) {
+    res.status(400).json({
+      error: 'INVALID_REQUEST',
+      message: error,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  try {
+    const { token, secret } = await adminAuthService.createToken({ name: name.trim(), scopes, expiresAt });
+    res.status(201).json({ ...token, token: secret });
+  } catch (error: any) {
+    logger.error('Failed to create admin API token', error);
+    res.status(500).json({
+      error: 'TOKEN_CREATE_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * List API tokens (without their secrets)
+ */
+export async function listTokensHandler(_req: Request, res: Response): Promise<void> {
+  const tokens = adminAuthService.listTokens();
+  res.json({ tokens, count: tokens.length });
+}
+
+/**
+ * Revoke an API token
+ */
+export async function revokeTokenHandler(req: Request, res: Response): Promise<void> {
+  try {
+    if (!(await adminAuthService.revokeToken(req.params.id))) {
+      res.status(404).json({
+        error: 'TOKEN_NOT_FOUND',
+        message: `API token not found: ${req.params.id}`,
+        timestamp: Date.now()
+      });
+      return;
+    }
+    res.json({ id: req.params.id, revoked: true });
+  } catch (error: any) {
+    logger.error('Failed to revoke admin API token', error);
+    res.status(500).json({
+      error: 'TOKEN_REVOKE_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * Get the admin audit log
+ *
+ * Query params:
+ * - limit: number - entries to return (default 100, max 1000)
+ */
+export async function auditLogHandler(req: Request, res: Response): Promise<void> {
+  const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_LIMIT) {
+    res.status(400).json({
+      error: 'INVALID_REQUEST',
+      message: `limit must be an integer between 1 and ${MAX_AUDIT_LIMIT}`,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  const records = adminAuthService.getAuditLog(limit);
+  res.json({ records, count: records.length });
+}
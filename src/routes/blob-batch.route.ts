@@ -0,0 +1,183 @@
+/**
+ * HASHD Vault - Batch Blob Route
+ * POST /blobs/batch - Retrieve many blobs in one request
+ *
+ * The response is a stream of parts, one per requested CID, in request
+ * order: a 4-byte big-endian header length, the JSON header
+ * (BatchBlobHeader), then header.size bytes of blob data if it was found.
+ *
+ * Each blob gets the same checks as GET /blob/:cid: blocked CIDs are refused
+ * and bytes are verified against their CID. A blob is read into memory and
+ * verified before its part is written, so a failed check is reported in its
+ * header instead of aborting the whole response.
+ */
+
+import { Request, Response } from 'express';
+import { config } from '../config/index.js';
+import { storageService } from '../services/storage.service.js';
+import { blockedContentService } from '../services/blocked-content.service.js';
+import { metricsService } from '../services/metrics.service.js';
+import { logger } from '../utils/logger.js';
+import { isValidCID, verifyCID } from '../utils/cid.js';
+import { BatchBlobHeader, BlobNotFoundError } from '../types/index.js';
+
+export const BATCH_MIME_TYPE = 'application/vnd.bytecave.blob-batch';
+export const MAX_BATCH_CIDS = 100;
+
+/**
+ * Retrieve a batch of blobs
+ *
+ * Body:
+ * - cids: string[] - up to 100 CIDs
+ * - resolve?: boolean - reassemble chunked blobs (default true); false returns manifests
+ */
+export async function blobBatchHandler(req: Request, res: Response): Promise<void> {
+  const startTime = Date.now();
+  const { cids, resolve } = req.body ?? {};
+
+  let error: string | null = null;
+  if (!Array.isArray(cids) || cids.length === 0 || cids.length > MAX_BATCH_CIDS) {
+    error = `cids must be an array of 1 to ${MAX_BATCH_CIDS} CIDs`;
+  } else if (!cids.every(cid => typeof cid === 'string' && isValidCID(cid))) {
+    error = 'cids must be 64-character hex CIDs';
+  } else if (resolve !== undefined && typeof resolve !== 'boolean') {
+    error = 'resolve must be a boolean';
+  }
+  if (error) {
+    res.status(400).json({
+      error: 'INVALID_REQUEST',
+      message: error,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  try {
+    res.status(200);
+    res.setHeader('Content-Type', BATCH_MIME_TYPE);
+    res.setHeader('Cache-Control', 'no-store');
+
+    let found = 0;
+    let bytes = 0;
+    for (const cid of cids as string[]) {
+      // The client went away
+      if (res.destroyed) break;
+
+      const { header, data } = await readBatchBlob(cid, resolve !== false);
+      if (data) {
+        found++;
+        bytes += data.length;
+      }
+      await writePart(res, header, data);
+    }
+    res.end();
+
+    const latency = Date.now() - startTime;
+    metricsService.recordRequest(true, latency, bytes);
+
+    logger.debug('Batch blob request completed', {
+      requested: cids.length,
+      found,
+      bytes,
+      latency
+    });
+  } catch (error: any) {
+    metricsService.recordRequest(false, Date.now() - startTime);
+    logger.error('Batch blob request failed', error);
+
+    // Failure mid-stream: the only way to signal it is to abort the response
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+
+    res.status(500).json({
+      error: 'BATCH_RETRIEVAL_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * Read and verify one blob of a batch
+ */
+async function readBatchBlob(cid: string, resolveManifest: boolean): Promise<{ header: BatchBlobHeader; data?: Buffer }> {
+  try {
+    if (await blockedContentService.isBlocked(cid)) {
+      return { header: { cid, status: 'blocked' } };
+    }
+
+    const metadata = await storageService.getMetadata(cid);
+
+    if (metadata.manifest && resolveManifest) {
+      const maxBytes = config.maxBlobSizeMB * 1024 * 1024;
+      if (metadata.manifest.size > maxBytes) {
+        return { header: { cid, status: 'too-large', error: `Content is over ${config.maxBlobSizeMB} MB; fetch it with GET /blob/${cid}` } };
+      }
+
+      // Chunks are verified against their own CIDs by the storage service
+      const { stream } = await storageService.openBlobStream(cid);
+      const data = Buffer.concat(await stream.toArray());
+      return {
+        header: { cid, status: 'found', size: data.length, mimeType: metadata.manifest.mimeType, createdAt: metadata.createdAt },
+        data
+      };
+    }
+
+    const { ciphertext } = await storageService.getBlob(cid);
+
+    // SECURITY: Verify CID matches stored content (prevents tampering)
+    if (!verifyCID(cid, ciphertext)) {
+      logger.error('SECURITY: CID verification failed - possible tampering detected', { cid });
+      return { header: { cid, status: 'integrity-failed', error: 'Stored data does not match CID' } };
+    }
+
+    return {
+      header: { cid, status: 'found', size: ciphertext.length, mimeType: metadata.mimeType, createdAt: metadata.createdAt },
+      data: ciphertext
+    };
+  } catch (error: any) {
+    if (error instanceof BlobNotFoundError) {
+      return { header: { cid, status: 'missing' } };
+    }
+    if (error.code === 'BLOB_INCOMPLETE') {
+      return { header: { cid, status: 'missing', error: error.message } };
+    }
+    if (error.code === 'CID_MISMATCH' || error.message?.startsWith('METADATA_TAMPERED')) {
+      logger.error('SECURITY: Batch blob failed verification', { cid, error: error.message });
+      return { header: { cid, status: 'integrity-failed', error: error.message } };
+    }
+
+    logger.warn('Failed to read blob for batch', { cid, error: error.message });
+    return { header: { cid, status: 'error', error: error.message } };
+  }
+}
+
+async function writePart(res: Response, header: BatchBlobHeader, data?: Buffer): Promise<void> {
+  const json = Buffer.from(JSON.stringify(header));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(json.length);
+
+  await write(res, Buffer.concat([length, json]));
+  if (data) {
+    await write(res, data);
+  }
+}
+
+/**
+ * Write respecting backpressure (resolves early if the client disconnects)
+ */
+function write(res: Response, chunk: Buffer): Promise<void> {
+  if (res.write(chunk)) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
@@ -1,16 +1,91 @@
 /**
  * HASHD Vault - Blob Route
  * GET /blob/:cid - Retrieve stored blob
+ * HEAD /blob/:cid - Blob size, mimeType and CID without the body
+ *
+ * Returns JSON with base64 ciphertext by default. Clients that accept
+ * application/octet-stream (and not JSON), pass ?format=raw, or send a
+ * Range header receive the raw bytes streamed from disk instead.
+ *
+ * Chunk manifests are reassembled transparently; ?resolve=false serves the
+ * manifest blob itself (used by peers replicating chunked blobs).
  */
 
 import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { config } from '../config/index.js';
 import { storageService } from '../services/storage.service.js';
 import { blockedContentService } from '../services/blocked-content.service.js';
 import { metricsService } from '../services/metrics.service.js';
 import { logger } from '../utils/logger.js';
 import { validateCIDParam } from '../utils/validation.js';
 import { bufferToBase64, verifyCID } from '../utils/cid.js';
-import { BlobResponse, BlobBannedError } from '../types/index.js';
+import { CIDVerifyStream } from '../utils/stream.js';
+import {
+  BlobResponse,
+  BlobBannedError,
+  BlobMetadata,
+  BlobNotFoundError,
+  ByteRange,
+  VaultError
+} from '../types/index.js';
+
+// Blobs are content-addressed, so a CID's bytes never change
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Whether the client asked for raw bytes rather than the JSON envelope
+ */
+function wantsRawBlob(req: Request): boolean {
+  if (req.query.format === 'raw') return true;
+  if (req.query.format === 'json') return false;
+  if (req.get('Range')) return true;
+  return req.accepts(['application/json', 'application/octet-stream']) === 'application/octet-stream';
+}
+
+/**
+ * Resolve the Range header to a single byte range
+ *
+ * Returns null when the full blob should be served: no Range header, a
+ * stale If-Range, a malformed header, or multiple disjoint ranges (which
+ * RFC 9110 allows a server to ignore).
+ */
+function resolveRange(req: Request, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!req.get('Range')) return null;
+
+  const ifRange = req.get('If-Range');
+  if (ifRange && ifRange.trim() !== `"${req.params.cid}"`) return null;
+
+  const ranges = req.range(size, { combine: true });
+  if (ranges === -1) return 'unsatisfiable';
+  if (ranges === undefined || ranges === -2 || ranges.type !== 'bytes' || ranges.length !== 1) {
+    return null;
+  }
+
+  return { start: ranges[0].start, end: ranges[0].end };
+}
+
+/**
+ * Size and type of what the client receives: the reassembled content for
+ * manifests (unless ?resolve=false), the stored bytes otherwise
+ */
+function describeContent(
+  req: Request,
+  metadata: BlobMetadata
+): { size: number; mimeType: string; resolveManifest: boolean } {
+  if (metadata.manifest && req.query.resolve !== 'false') {
+    return { size: metadata.manifest.size, mimeType: metadata.manifest.mimeType, resolveManifest: true };
+  }
+  return { size: metadata.size, mimeType: metadata.mimeType, resolveManifest: false };
+}
+
+function setRawBlobHeaders(res: Response, cid: string, mimeType: string): void {
+  res.setHeader('Content-Type', mimeType);
+  res.setHeader('ETag', `"${cid}"`);
+  res.setHeader('Cache-Control', IMMUTABLE_CACHE_CONTROL);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('X-ByteCave-CID', cid);
+}
 
 export async function blobHandler(req: Request, res: Response): Promise<void> {
   const startTime = Date.now();
@@ -29,6 +104,17 @@ export async function blobHandler(req: Request, res: Response): Promise<void> {
       throw new BlobBannedError(cid);
     }
 
+    if (wantsRawBlob(req)) {
+      await streamRawBlob(req, res, cid, startTime);
+      return;
+    }
+
+    const content = describeContent(req, await storageService.getMetadata(cid));
+    if (content.resolveManifest) {
+      await sendReassembledJson(res, cid, content, startTime);
+      return;
+    }
+
     // Retrieve blob
     const { ciphertext, metadata } = await storageService.getBlob(cid);
 
@@ -69,6 +155,12 @@ export async function blobHandler(req: Request, res: Response): Promise<void> {
 
     logger.error('Blob request failed', error, { cid: req.params.cid });
 
+    // Failure mid-stream: the only way to signal it is to abort the response
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+
     const statusCode = error.statusCode || 500;
     res.status(statusCode).json({
       error: error.code || 'BLOB_RETRIEVAL_FAILED',
@@ -78,3 +170,153 @@ export async function blobHandler(req: Request, res: Response): Promise<void> {
     });
   }
 }
+
+/**
+ * HEAD /blob/:cid
+ * Same headers as a raw GET, no body and no access metrics
+ */
+export async function blobHeadHandler(req: Request, res: Response): Promise<void> {
+  const { cid } = req.params;
+
+  try {
+    validateCIDParam(cid);
+
+    if (await blockedContentService.isBlocked(cid)) {
+      throw new BlobBannedError(cid);
+    }
+
+    const content = describeContent(req, await storageService.getMetadata(cid));
+    const present = content.resolveManifest
+      ? await storageService.hasCompleteBlob(cid)
+      : await storageService.hasBlob(cid);
+    if (!present) {
+      throw new BlobNotFoundError(cid);
+    }
+
+    setRawBlobHeaders(res, cid, content.mimeType);
+    res.setHeader('Content-Length', content.size.toString());
+    res.status(200).end();
+  } catch (error: any) {
+    logger.debug('Blob HEAD request failed', { cid, error: error.message });
+    res.status(error.statusCode || 500).end();
+  }
+}
+
+/**
+ * Stream raw blob bytes, honouring Range requests
+ *
+ * SECURITY: Full reads verify the CID as the bytes flow through. A mismatch
+ * is only detectable at the end of the stream, so the connection is aborted
+ * (via the caller's error handling) rather than completed cleanly. Partial
+ * reads cannot be verified against the CID and are served as stored.
+ */
+async function streamRawBlob(
+  req: Request,
+  res: Response,
+  cid: string,
+  startTime: number
+): Promise<void> {
+  const content = describeContent(req, await storageService.getMetadata(cid));
+  const etag = `"${cid}"`;
+
+  if (req.get('If-None-Match')?.split(',').some(tag => tag.trim() === etag)) {
+    // Existence still has to hold for a 304 to be truthful
+    const present = content.resolveManifest
+      ? await storageService.hasCompleteBlob(cid)
+      : await storageService.hasBlob(cid);
+    if (!present) {
+      throw new BlobNotFoundError(cid);
+    }
+    setRawBlobHeaders(res, cid, content.mimeType);
+    res.status(304).end();
+    return;
+  }
+
+  const range = resolveRange(req, content.size);
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${content.size}`);
+    res.status(416).json({
+      error: 'RANGE_NOT_SATISFIABLE',
+      message: `Requested range is outside blob size ${content.size}`,
+      cid,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  const { stream } = await storageService.openBlobStream(cid, range ?? undefined, {
+    resolveManifest: content.resolveManifest
+  });
+  const length = range ? range.end - range.start + 1 : content.size;
+
+  setRawBlobHeaders(res, cid, content.mimeType);
+  res.setHeader('Content-Length', length.toString());
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${content.size}`);
+    await pipeline(stream, res);
+  } else if (content.resolveManifest) {
+    // Chunks are verified against their own CIDs by the storage service
+    res.status(200);
+    await pipeline(stream, res);
+  } else {
+    res.status(200);
+    try {
+      await pipeline(stream, new CIDVerifyStream(cid), res);
+    } catch (error: any) {
+      if (error.code === 'CID_MISMATCH') {
+        logger.error('SECURITY: CID verification failed - possible tampering detected', { cid });
+      }
+      throw error;
+    }
+  }
+
+  const latency = Date.now() - startTime;
+  metricsService.recordRequest(true, latency, length);
+
+  logger.debug('Raw blob streamed successfully', {
+    cid,
+    size: length,
+    range: range ? `${range.start}-${range.end}` : undefined,
+    latency
+  });
+}
+
+/**
+ * JSON response for a chunked blob, reassembled in memory
+ * Only allowed up to maxBlobSizeMB; larger blobs must be fetched raw
+ */
+async function sendReassembledJson(
+  res: Response,
+  cid: string,
+  content: { size: number; mimeType: string },
+  startTime: number
+): Promise<void> {
+  const maxBytes = config.maxBlobSizeMB * 1024 * 1024;
+  if (content.size > maxBytes) {
+    throw new VaultError(
+      'Blob is too large for a JSON response; request application/octet-stream instead',
+      'PAYLOAD_TOO_LARGE',
+      413,
+      { size: content.size, maxSize: maxBytes }
+    );
+  }
+
+  const { stream, metadata } = await storageService.openBlobStream(cid);
+  const ciphertext = Buffer.concat(await stream.toArray());
+
+  const response: BlobResponse = {
+    cid,
+    ciphertext: bufferToBase64(ciphertext),
+    mimeType: content.mimeType,
+    createdAt: metadata.createdAt,
+    size: ciphertext.length,
+    version: metadata.version
+  };
+
+  const latency = Date.now() - startTime;
+  metricsService.recordRequest(true, latency, ciphertext.length);
+
+  res.status(200).json(response);
+}
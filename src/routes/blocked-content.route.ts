@@ -0,0 +1,215 @@
+/**
+ * HASHD Vault - Blocked Content Routes
+ *
+ * GET /admin/blocked - Blocked CIDs, peers and denylist subscriptions
+ * POST /admin/blocked/cids - Block a CID (purges it from local storage)
+ * DELETE /admin/blocked/cids/:cid - Unblock a CID
+ * POST /admin/blocked/peers - Block a peer
+ * DELETE /admin/blocked/peers/:peerId - Unblock a peer
+ * POST /admin/blocked/subscriptions - Subscribe to a signed denylist
+ * DELETE /admin/blocked/subscriptions/:id - Unsubscribe
+ */
+
+import { Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { blockedContentService } from '../services/blocked-content.service.js';
+import { isValidCID } from '../utils/cid.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * List blocked CIDs and peers
+ *
+ * Entries from subscribed denylists carry the subscription ID as their source.
+ */
+export async function listBlockedHandler(_req: Request, res: Response): Promise<void> {
+  res.json(blockedContentService.getBlocked());
+}
+
+/**
+ * Block a CID
+ *
+ * Body:
+ * - cid: string
+ * - reason?: string
+ */
+export async function blockCidHandler(req: Request, res: Response): Promise<void> {
+  const { cid, reason } = req.body ?? {};
+
+  if (typeof cid !== 'string' || !isValidCID(cid)) {
+    sendInvalid(res, 'cid must be a 64-character hex CID');
+    return;
+  }
+  if (!isValidReason(reason)) {
+    sendInvalid(res, `reason must be a string of up to ${MAX_REASON_LENGTH} characters`);
+    return;
+  }
+
+  try {
+    const entry = await blockedContentService.addCid(cid, reason);
+    res.status(201).json(entry);
+  } catch (error: any) {
+    logger.error('Failed to block CID', error, { cid });
+    res.status(500).json({
+      error: 'BLOCK_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * Unblock a CID the operator blocked
+ */
+export async function unblockCidHandler(req: Request, res: Response): Promise<void> {
+  await unblock(res, 'CID', req.params.cid, () => blockedContentService.removeCid(req.params.cid));
+}
+
+/**
+ * Block a peer
+ *
+ * Body:
+ * - peerId: string - libp2p peer ID
+ * - reason?: string
+ */
+export async function blockPeerHandler(req: Request, res: Response): Promise<void> {
+  const { peerId, reason } = req.body ?? {};
+
+  if (typeof peerId !== 'string' || !peerId.trim()) {
+    sendInvalid(res, 'peerId must be a non-empty string');
+    return;
+  }
+  if (!isValidReason(reason)) {
+    sendInvalid(res, `reason must be a string of up to ${MAX_REASON_LENGTH} characters`);
+    return;
+  }
+
+  try {
+    const entry = await blockedContentService.addPeer(peerId.trim(), reason);
+    res.status(201).json(entry);
+  } catch (error: any) {
+    logger.error('Failed to block peer', error, { peerId });
+    res.status(500).json({
+      error: 'BLOCK_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * Unblock a peer the operator blocked
+ */
+export async function unblockPeerHandler(req: Request, res: Response): Promise<void> {
+  await unblock(res, 'Peer', req.params.peerId, () => blockedContentService.removePeer(req.params.peerId));
+}
+
+/**
+ * Subscribe to a denylist
+ *
+ * Body:
+ * - publisher: string - address the list must be signed by
+ * - url?: string - where to fetch it (HTTP or HTTPS), or
+ * - peerId?: string - a peer that serves it over P2P
+ *
+ * The list is fetched once right away; the response's lastError says why it
+ * was not applied, if it was not.
+ */
+export async function addSubscriptionHandler(req: Request, res: Response): Promise<void> {
+  const { publisher, url, peerId } = req.body ?? {};
+
+  let error: string | null = null;
+  if (typeof publisher !== 'string' || !ethers.isAddress(publisher)) {
+    error = 'publisher must be an Ethereum address';
+  } else if ((url === undefined) === (peerId === undefined)) {
+    error = 'Provide either url or peerId';
+  } else if (url !== undefined && !isHttpUrl(url)) {
+    error = 'url must be an HTTP or HTTPS URL';
+  } else if (peerId !== undefined && (typeof peerId !== 'string' || !peerId.trim())) {
+    error = 'peerId must be a non-empty string';
+  }
+  if (error) {
+    sendInvalid(res, error);
+    return;
+  }
+
+  try {
+    const subscription = await blockedContentService.addSubscription({ publisher, url, peerId: peerId?.trim() });
+    res.status(201).json(subscription);
+  } catch (error: any) {
+    logger.error('Failed to add denylist subscription', error);
+    res.status(500).json({
+      error: 'SUBSCRIPTION_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * Unsubscribe from a denylist
+ */
+export async function removeSubscriptionHandler(req: Request, res: Response): Promise<void> {
+  try {
+    if (!(await blockedContentService.removeSubscription(req.params.id))) {
+      res.status(404).json({
+        error: 'SUBSCRIPTION_NOT_FOUND',
+        message: `Denylist subscription not found: ${req.params.id}`,
+        timestamp: Date.now()
+      });
+      return;
+    }
+    res.json({ id: req.params.id, removed: true });
+  } catch (error: any) {
+    logger.error('Failed to remove denylist subscription', error);
+    res.status(500).json({
+      error: 'SUBSCRIPTION_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+async function unblock(res: Response, kind: 'CID' | 'Peer', value: string, remove: () => Promise<boolean>): Promise<void> {
+  try {
+    if (!(await remove())) {
+      res.status(404).json({
+        error: 'NOT_BLOCKED',
+        message: `${kind} is not on the local blocked list: ${value}`,
+        timestamp: Date.now()
+      });
+      return;
+    }
+    res.json({ value, unblocked: true });
+  } catch (error: any) {
+    logger.error(`Failed to unblock ${kind}`, error, { value });
+    res.status(500).json({
+      error: 'UNBLOCK_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+function isValidReason(reason: unknown): boolean {
+  return reason === undefined || (typeof reason === 'string' && reason.length <= MAX_REASON_LENGTH);
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function sendInvalid(res: Response, message: string): void {
+  res.status(400).json({
+    error: 'INVALID_REQUEST',
+    message,
+    timestamp: Date.now()
+  });
+}
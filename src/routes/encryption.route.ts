@@ -0,0 +1,55 @@
+/**
+ * HASHD Vault - Encryption at Rest Routes
+ *
+ * GET /admin/encryption - Key and re-encryption status
+ * POST /admin/encryption/rotate - Switch to a new data key and re-encrypt in the background
+ */
+
+import { Request, Response } from 'express';
+import { encryptionService } from '../services/encryption.service.js';
+import { storageService } from '../services/storage.service.js';
+import { logger } from '../utils/logger.js';
+
+function getStatus() {
+  return {
+    ...encryptionService.getStatus(),
+    reencrypting: storageService.isReencrypting(),
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Get encryption status
+ */
+export async function encryptionStatusHandler(_req: Request, res: Response): Promise<void> {
+  res.json(getStatus());
+}
+
+/**
+ * Rotate the data key
+ */
+export async function rotateEncryptionKeyHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    if (!encryptionService.isEnabled()) {
+      res.status(409).json({
+        error: 'ENCRYPTION_DISABLED',
+        message: 'Encryption at rest is not enabled on this node',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const keyId = await encryptionService.rotateKey();
+    storageService.startReencryption();
+
+    logger.info('Encryption key rotation triggered', { keyId });
+    res.status(202).json(getStatus());
+  } catch (error: any) {
+    logger.error('Encryption key rotation failed', error);
+    res.status(500).json({
+      error: 'ROTATION_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
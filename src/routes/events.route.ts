@@ -0,0 +1,165 @@
+/**
+ * HASHD Vault - Events Route
+ * GET /events - Server-sent event stream of node activity
+ */
+
+import { Request, Response } from 'express';
+import { eventsService, MAX_EVENT_SUBSCRIBERS } from '../services/events.service.js';
+import { logger } from '../utils/logger.js';
+import { BlobDeletedEvent, BlobStoredEvent, FeedEvent, NodeEvent, NodeEventType } from '../types/index.js';
+
+const EVENT_TYPES: NodeEventType[] = [
+  'blob.stored',
+  'blob.deleted',
+  'feed.entry',
+  'replication.completed',
+  'replication.failed',
+  'broadcast'
+];
+
+// Comment lines keep proxies and the request timeout from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Reconnect delay suggested to EventSource clients
+const RETRY_MS = 5000;
+
+// Output queued for a client that is not reading; past this it is disconnected
+const MAX_QUEUED_BYTES = 1024 * 1024;
+
+interface EventFilter {
+  types?: Set<NodeEventType>;
+  appId?: string;
+  contentType?: string;
+  sender?: string;
+  feedId?: string;
+}
+
+/**
+ * Stream node events (text/event-stream)
+ *
+ * Query params:
+ * - types: comma-separated event types (default all)
+ * - appId, contentType, sender: blob events need an owner matching all given
+ * - feedId: feed entries of this feed only
+ * - lastEventId: resume after this event (the Last-Event-ID header takes precedence)
+ *
+ * When the events after lastEventId are no longer available (too old, or the
+ * node restarted) a `reset` event is sent instead; the client should re-sync
+ * with GET /blobs and GET /feed/:feedId.
+ */
+export async function eventsHandler(req: Request, res: Response): Promise<void> {
+  const filter = parseEventFilter(req.query);
+  if (typeof filter === 'string') {
+    res.status(400).json({
+      error: 'INVALID_REQUEST',
+      message: filter,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  if (eventsService.getSubscriberCount() >= MAX_EVENT_SUBSCRIBERS) {
+    res.status(503).json({
+      error: 'TOO_MANY_SUBSCRIBERS',
+      message: `Event streams are limited to ${MAX_EVENT_SUBSCRIBERS} clients`,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  const lastEventId = req.get('Last-Event-ID')
+    ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+  // The stream stays open; heartbeats replace the request timeout
+  res.setTimeout(0);
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const send = (event: NodeEvent) => {
+    if (!matchesFilter(event, filter)) return;
+
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    if (res.writableLength > MAX_QUEUED_BYTES) {
+      logger.warn('Event stream client is not keeping up, disconnecting', { ip: req.ip });
+      res.destroy();
+    }
+  };
+
+  // Replay and subscribe in the same tick, so no event is missed or sent twice
+  if (lastEventId !== undefined) {
+    const missed = eventsService.getEventsSince(lastEventId);
+    if (missed) {
+      missed.forEach(send);
+    } else {
+      res.write(`id: ${eventsService.getLastEventId()}\nevent: reset\ndata: {}\n\n`);
+    }
+  }
+  const unsubscribe = eventsService.subscribe(send);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  logger.debug('Event stream opened', { resumed: lastEventId !== undefined, subscribers: eventsService.getSubscriberCount() });
+}
+
+/**
+ * The filter for GET /events, or why its parameters are invalid
+ */
+function parseEventFilter(params: Request['query']): EventFilter | string {
+  const filter: EventFilter = {};
+
+  for (const name of ['appId', 'contentType', 'sender', 'feedId', 'lastEventId'] as const) {
+    const value = params[name];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !value) {
+      return `${name} must be a non-empty string`;
+    }
+    if (name !== 'lastEventId') {
+      filter[name] = value;
+    }
+  }
+
+  if (params.types !== undefined) {
+    if (typeof params.types !== 'string') {
+      return 'types must be a comma-separated list';
+    }
+    const types = params.types.split(',').map(type => type.trim());
+    const unknown = types.find(type => !EVENT_TYPES.includes(type as NodeEventType));
+    if (unknown !== undefined) {
+      return `Unknown event type: ${unknown}. Use: ${EVENT_TYPES.join(', ')}`;
+    }
+    filter.types = new Set(types as NodeEventType[]);
+  }
+
+  return filter;
+}
+
+function matchesFilter(event: NodeEvent, filter: EventFilter): boolean {
+  if (filter.types && !filter.types.has(event.type)) return false;
+
+  if (event.type === 'blob.stored' || event.type === 'blob.deleted') {
+    if (!filter.appId && !filter.contentType && !filter.sender) return true;
+
+    const { owners } = event.data as BlobStoredEvent | BlobDeletedEvent;
+    return owners.some(owner =>
+      (!filter.appId || owner.appId === filter.appId) &&
+      (!filter.contentType || owner.contentType === filter.contentType) &&
+      (!filter.sender || owner.sender?.toLowerCase() === filter.sender.toLowerCase())
+    );
+  }
+
+  if (event.type === 'feed.entry' && filter.feedId) {
+    return (event.data as FeedEvent).feedId === filter.feedId;
+  }
+
+  return true;
+}
@@ -0,0 +1,36 @@
+/**
+ * HASHD Vault - Consistency Check Routes
+ *
+ * GET /admin/fsck - Consistency check status and last result
+ * POST /admin/fsck - Start a consistency check now
+ */
+
+import { Request, Response } from 'express';
+import { fsckService } from '../services/fsck.service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Get consistency check status
+ */
+export async function fsckStatusHandler(_req: Request, res: Response): Promise<void> {
+  res.json(fsckService.getStatus());
+}
+
+/**
+ * Start a consistency check in the background
+ */
+export async function triggerFsckHandler(_req: Request, res: Response): Promise<void> {
+  if (fsckService.isRunning()) {
+    res.status(409).json({
+      error: 'FSCK_ALREADY_RUNNING',
+      message: 'A consistency check is already in progress',
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  logger.info('Manual consistency check triggered');
+  fsckService.run().catch(error => logger.error('Manual consistency check failed', error));
+
+  res.status(202).json(fsckService.getStatus());
+}
@@ -103,6 +103,8 @@ export async function forcePurgeHandler(_req: Request, res: Response): Promise<v
  * - Verifies replication factor
  * - Checks shard assignment
  * - Respects pin status
+ *
+ * The blob goes to the trash and can be restored until it is purged.
  * 
  * Query params:
  * - force: boolean - skip replication checks (still respects pins)
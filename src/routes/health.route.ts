@@ -4,8 +4,6 @@
  */
 
 import { Request, Response } from 'express';
-import fs from 'fs/promises';
-import path from 'path';
 import { config } from '../config/index.js';
 import { storageService } from '../services/storage.service.js';
 import { replicationService } from '../services/replication.service.js';
@@ -13,7 +11,9 @@ import { metricsService } from '../services/metrics.service.js';
 import { p2pService } from '../services/p2p.service.js';
 import { proofService } from '../services/proof.service.js';
 import { logger } from '../utils/logger.js';
-import { verifyCID, verifyMetadataIntegrity } from '../utils/cid.js';
+import { integrityService } from '../services/integrity.service.js';
+import { verifyCID } from '../utils/cid.js';
+import { compressionOf, decompressSync } from '../utils/compression.js';
 import { HealthResponse, BlobMetadata } from '../types/index.js';
 
 const VERSION = '1.0.0';
@@ -24,6 +24,7 @@ interface IntegrityCheck {
   failed: number;
   orphaned: number;  // Files without metadata (potential tampering)
   metadataTampered: number;  // Metadata with invalid integrity hash
+  metadataUnsigned: number;  // Metadata with no hash or only a legacy (unkeyed) hash
   failedCids: string[];
 }
 
@@ -39,44 +40,39 @@ async function checkBlobIntegrity(): Promise<IntegrityCheck> {
     failed: 0,
     orphaned: 0,
     metadataTampered: 0,
+    metadataUnsigned: 0,
     failedCids: []
   };
 
   try {
-    const metaDir = path.join(config.dataDir, 'meta');
-    const blobsDir = path.join(config.dataDir, 'blobs');
+    // Read the index and backend directly (bypassing integrity check in getMetadata)
+    const backend = storageService.getBackend();
+    const metadataIndex = storageService.getMetadataIndex();
+    const metaCids = await metadataIndex.listCids();
     
-    // Read metadata files directly (bypassing integrity check in getMetadata)
-    const metaFiles = await fs.readdir(metaDir);
-    const blobFiles = await fs.readdir(blobsDir);
+    // Count actual blobs
+    const blobCids = new Set(await backend.list());
     
-    // Count actual blob files
-    const blobCids = new Set(
-      blobFiles
-        .filter(f => f.endsWith('.enc'))
-        .map(f => f.replace('.enc', ''))
-    );
-    
-    // Check each metadata file
-    for (const file of metaFiles) {
-      if (!file.endsWith('.json')) continue;
-      
-      const cid = file.replace('.json', '');
+    // Check each metadata record
+    for (const cid of metaCids) {
       result.checked++;
       
       try {
         // Read metadata directly without verification
-        const metaPath = path.join(metaDir, file);
-        const content = await fs.readFile(metaPath, 'utf-8');
-        const metadata = JSON.parse(content) as BlobMetadata;
+        const metadata = await metadataIndex.get(cid) as BlobMetadata;
         
         // Check 1: Verify metadata integrity hash
-        const integrityResult = verifyMetadataIntegrity(metadata);
+        const integrityResult = integrityService.verifyMetadata(metadata);
         if (!integrityResult.valid) {
-          result.metadataTampered++;
+          if (integrityResult.reason === 'hash_mismatch') {
+            result.metadataTampered++;
+          } else {
+            // Not re-signed by the node key: left over from a failed migration or forged
+            result.metadataUnsigned++;
+          }
           result.failed++;
           result.failedCids.push(cid);
-          logger.error('INTEGRITY_CHECK_FAILED: Metadata tampered', { cid, reason: integrityResult.reason });
+          logger.error('INTEGRITY_CHECK_FAILED: Metadata integrity check failed', { cid, reason: integrityResult.reason });
           continue;
         }
         
@@ -89,8 +85,8 @@ async function checkBlobIntegrity(): Promise<IntegrityCheck> {
         }
         
         // Check 3: Verify blob content matches CID
-        const blobPath = path.join(blobsDir, `${cid}.enc`);
-        const ciphertext = await fs.readFile(blobPath);
+        const stored = await backend.get(cid) as Buffer;
+        const ciphertext = decompressSync(compressionOf(metadata), stored);
         if (!verifyCID(cid, ciphertext)) {
           result.failed++;
           result.failedCids.push(cid);
@@ -106,15 +102,11 @@ async function checkBlobIntegrity(): Promise<IntegrityCheck> {
       }
     }
     
-    // Detect orphaned blob files (blobs without metadata)
-    const metaCids = new Set(
-      metaFiles
-        .filter(f => f.endsWith('.json'))
-        .map(f => f.replace('.json', ''))
-    );
+    // Detect orphaned blobs (blobs without metadata)
+    const metaCidSet = new Set(metaCids);
     
     for (const blobCid of blobCids) {
-      if (!metaCids.has(blobCid)) {
+      if (!metaCidSet.has(blobCid)) {
         result.orphaned++;
         logger.error('INTEGRITY_CHECK_FAILED: Orphaned blob (no metadata)', { cid: blobCid });
       }
@@ -140,8 +132,13 @@ export async function healthHandler(_req: Request, res: Response): Promise<void>
     // Determine health status
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
     
-    // Unhealthy if integrity check fails, orphaned files, or metadata tampered
-    if (integrityCheck.failed > 0 || integrityCheck.orphaned > 0 || integrityCheck.metadataTampered > 0) {
+    // Unhealthy if integrity check fails, orphaned files, or metadata tampered or unsigned
+    if (
+      integrityCheck.failed > 0 ||
+      integrityCheck.orphaned > 0 ||
+      integrityCheck.metadataTampered > 0 ||
+      integrityCheck.metadataUnsigned > 0
+    ) {
       status = 'unhealthy';
     }
     // Degraded if success rate is below 90%
@@ -154,6 +151,12 @@ export async function healthHandler(_req: Request, res: Response): Promise<void>
       status = 'unhealthy';
     }
 
+    // Degraded while a data volume is erroring or has failed
+    const volumes = storageService.hasDataVolumes() ? storageService.getVolumes() : undefined;
+    if (status === 'healthy' && volumes?.some(volume => volume.state !== 'ok')) {
+      status = 'degraded';
+    }
+
     // Get public key for contract registration
     let publicKey: string | undefined;
     try {
@@ -195,7 +198,8 @@ export async function healthHandler(_req: Request, res: Response): Promise<void>
         avgResponseTime: metrics.avgLatency,
         successRate
       },
-      integrity: integrityCheck
+      integrity: integrityCheck,
+      volumes
     };
 
     res.json(response);
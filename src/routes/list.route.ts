@@ -1,30 +1,70 @@
 /**
  * HASHD Vault - List Route
- * GET /blobs - List all stored blobs
+ * GET /blobs - List stored blobs, a page at a time
  */
 
 import { Request, Response } from 'express';
 import { storageService } from '../services/storage.service.js';
+import { MAX_PAGE_SIZE } from '../services/backends/index.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { BlobSortField, MetadataQuery } from '../types/index.js';
 
-export async function listHandler(_req: Request, res: Response): Promise<void> {
+const SORT_FIELDS: BlobSortField[] = ['createdAt', 'size'];
+
+/**
+ * List blobs
+ *
+ * Query params:
+ * - limit: number - blobs per page (default 100, max 1000)
+ * - cursor: string - nextCursor from the previous page (same filters and sort)
+ * - appId, contentType, sender: string - match any owner of the blob
+ * - mimeType: string - exact, or "type/*"
+ * - pinned: boolean
+ * - shard: number - shard the CID maps to (0 to SHARD_COUNT - 1)
+ * - since, until: Unix ms - only blobs created in [since, until)
+ * - sort: createdAt | size (default createdAt)
+ * - order: asc | desc (default desc)
+ * - count: boolean - only return the number of matching blobs
+ *
+ * A page can hold fewer than limit blobs while more follow; keep following
+ * nextCursor until it is absent.
+ */
+export async function listHandler(req: Request, res: Response): Promise<void> {
   const startTime = Date.now();
 
   try {
     logger.debug('List blobs request received');
 
-    const blobs = await storageService.listBlobs();
+    const parsed = parseListQuery(req.query);
+    if (typeof parsed === 'string') {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: parsed,
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (req.query.count === 'true') {
+      res.json({ count: await storageService.countBlobs(parsed) });
+      return;
+    }
+
+    const page = await storageService.queryBlobs(parsed);
 
     const response = {
-      count: blobs.length,
-      blobs: blobs.map(blob => ({
+      count: page.blobs.length,
+      blobs: page.blobs.map(blob => ({
         cid: blob.cid,
         size: blob.size,
         mimeType: blob.mimeType,
         createdAt: blob.createdAt,
         retrievalCount: blob.metrics?.retrievalCount || 0,
-        lastAccessed: blob.metrics?.lastAccessed || blob.createdAt
-      }))
+        lastAccessed: blob.metrics?.lastAccessed || blob.createdAt,
+        expiresAt: blob.expiresAt
+      })),
+      nextCursor: page.nextCursor
     };
 
     const latency = Date.now() - startTime;
@@ -32,16 +72,86 @@ export async function listHandler(_req: Request, res: Response): Promise<void> {
     res.json(response);
 
     logger.debug('List blobs completed', {
-      count: blobs.length,
+      count: page.blobs.length,
       latency
     });
   } catch (error: any) {
-    logger.error('List blobs failed', error);
+    const statusCode = error.statusCode || 500;
+    if (statusCode >= 500) {
+      logger.error('List blobs failed', error);
+    }
 
-    res.status(500).json({
-      error: 'LIST_FAILED',
+    res.status(statusCode).json({
+      error: error.code || 'LIST_FAILED',
       message: error.message,
       timestamp: Date.now()
     });
   }
 }
+
+/**
+ * The query for GET /blobs, or why its parameters are invalid
+ */
+function parseListQuery(params: Request['query']): MetadataQuery | string {
+  const query: MetadataQuery = {};
+
+  for (const name of ['cursor', 'appId', 'contentType', 'sender', 'mimeType'] as const) {
+    const value = params[name];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !value) {
+      return `${name} must be a non-empty string`;
+    }
+    query[name] = value;
+  }
+
+  for (const name of ['pinned', 'count'] as const) {
+    const value = params[name];
+    if (value !== undefined && value !== 'true' && value !== 'false') {
+      return `${name} must be true or false`;
+    }
+  }
+  if (params.pinned !== undefined) {
+    query.pinned = params.pinned === 'true';
+  }
+
+  if (params.limit !== undefined) {
+    query.limit = Number(params.limit);
+    if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_PAGE_SIZE) {
+      return `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`;
+    }
+  }
+
+  if (params.shard !== undefined) {
+    query.shard = Number(params.shard);
+    if (!Number.isInteger(query.shard) || query.shard < 0 || query.shard >= config.shardCount) {
+      return `shard must be an integer between 0 and ${config.shardCount - 1}`;
+    }
+  }
+
+  for (const name of ['since', 'until'] as const) {
+    if (params[name] === undefined) continue;
+    query[name] = Number(params[name]);
+    if (!Number.isSafeInteger(query[name]) || query[name]! < 0) {
+      return `${name} must be a Unix timestamp in milliseconds`;
+    }
+  }
+  if (query.since !== undefined && query.until !== undefined && query.since >= query.until) {
+    return 'since must be before until';
+  }
+
+  if (params.sort !== undefined) {
+    if (!SORT_FIELDS.includes(params.sort as BlobSortField)) {
+      return `sort must be one of: ${SORT_FIELDS.join(', ')}`;
+    }
+    query.sort = params.sort as BlobSortField;
+  }
+
+  if (params.order !== undefined) {
+    if (params.order !== 'asc' && params.order !== 'desc') {
+      return 'order must be asc or desc';
+    }
+    query.order = params.order;
+  }
+
+  return query;
+}
@@ -0,0 +1,124 @@
+/**
+ * HASHD Vault - Blob Ownership Routes
+ *
+ * A blob stored by several apps or senders has one ownership record per
+ * app/sender. Owners pin, unpin and release their own reference with a
+ * signed request; the blob is removed once the last reference is released.
+ *
+ * - GET /blobs/:cid/owners - List a blob's owners
+ * - POST /blobs/:cid/owners/:action - Owner pin, unpin or release
+ */
+
+import { Request, Response } from 'express';
+import { storageService } from '../services/storage.service.js';
+import { storageAuthorizationService } from '../services/storage-authorization.service.js';
+import { logger } from '../utils/logger.js';
+import { OwnerAction, OwnerActionRequest } from '../types/index.js';
+
+const OWNER_ACTIONS: OwnerAction[] = ['pin', 'unpin', 'release'];
+
+/**
+ * List a blob's owners
+ * Authorization envelopes are kept on the node and not returned.
+ */
+export async function listOwnersHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { cid } = req.params;
+    const owners = await storageService.getOwners(cid);
+
+    res.json({
+      cid,
+      count: owners.length,
+      owners: owners.map(owner => ({
+        appId: owner.appId,
+        sender: owner.sender,
+        contentType: owner.contentType,
+        timestamp: owner.timestamp,
+        pinned: owner.pinned || false
+      })),
+      timestamp: Date.now()
+    });
+  } catch (error: any) {
+    sendOwnerError(res, error, 'LIST_OWNERS_FAILED');
+  }
+}
+
+/**
+ * Pin, unpin or release the caller's own reference
+ *
+ * Body: {
+ *   appId: string,
+ *   sender: string,
+ *   timestamp: number,
+ *   nonce: string,
+ *   signature: string  // EIP-191 signature of the owner action message
+ * }
+ */
+export async function ownerActionHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { cid } = req.params;
+    const action = req.params.action as OwnerAction;
+
+    if (!OWNER_ACTIONS.includes(action)) {
+      res.status(400).json({
+        error: 'INVALID_OPERATION',
+        message: `Action must be one of: ${OWNER_ACTIONS.join(', ')}`,
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const { appId, sender, timestamp, nonce, signature } = req.body ?? {};
+    if (
+      typeof appId !== 'string' || !appId ||
+      typeof sender !== 'string' || !sender ||
+      typeof timestamp !== 'number' ||
+      typeof nonce !== 'string' || !nonce ||
+      typeof signature !== 'string' || !signature
+    ) {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: 'appId, sender, timestamp, nonce and signature are required',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const request: OwnerActionRequest = { action, cid, appId, sender, timestamp, nonce, signature };
+    const verification = storageAuthorizationService.verifyOwnerAction(request);
+    if (!verification.authorized) {
+      logger.warn('Owner action rejected', { cid, action, sender, error: verification.error });
+      res.status(403).json({
+        error: 'UNAUTHORIZED',
+        message: verification.error || 'Owner action not authorized',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const owner = { appId, sender };
+    if (action === 'release') {
+      const { deleted, remainingOwners } = await storageService.releaseBlob(cid, owner);
+      res.json({ cid, action, deleted, remainingOwners, timestamp: Date.now() });
+      return;
+    }
+
+    await storageService.setOwnerPinned(cid, owner, action === 'pin');
+    res.json({ cid, action, pinned: action === 'pin', timestamp: Date.now() });
+  } catch (error: any) {
+    sendOwnerError(res, error, 'OWNER_ACTION_FAILED');
+  }
+}
+
+function sendOwnerError(res: Response, error: any, fallbackCode: string): void {
+  const statusCode = error.statusCode || 500;
+  if (statusCode >= 500) {
+    logger.error('Owner request failed', error);
+  }
+
+  res.status(statusCode).json({
+    error: error.code || fallbackCode,
+    message: error.message,
+    timestamp: Date.now()
+  });
+}
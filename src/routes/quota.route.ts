@@ -0,0 +1,96 @@
+/**
+ * HASHD Vault - Quota Routes
+ *
+ * Storage used by each app and sender against its quota.
+ *
+ * - GET /admin/quotas - Largest users and every configured quota
+ * - GET /admin/quotas/:scope/:key - One app or sender
+ */
+
+import { Request, Response } from 'express';
+import { quotaService } from '../services/quota.service.js';
+import { logger } from '../utils/logger.js';
+import { MAX_PAGE_SIZE } from '../services/backends/index.js';
+import { QuotaReport, QuotaScope } from '../types/index.js';
+
+const QUOTA_SCOPES: QuotaScope[] = ['app', 'sender'];
+
+/**
+ * List usage against quota
+ *
+ * Query params:
+ * - scope: 'app' | 'sender' (default 'app')
+ * - limit: number - largest users to include (default 100, max 1000)
+ */
+export async function listQuotasHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const scope = (req.query.scope ?? 'app') as QuotaScope;
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+
+    if (!QUOTA_SCOPES.includes(scope)) {
+      sendInvalidRequest(res, `scope must be one of: ${QUOTA_SCOPES.join(', ')}`);
+      return;
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+      sendInvalidRequest(res, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+      return;
+    }
+
+    const reports = await quotaService.listReports(scope, limit);
+    res.json({
+      scope,
+      count: reports.length,
+      usage: reports.map(formatReport),
+      timestamp: Date.now()
+    });
+  } catch (error: any) {
+    logger.error('Failed to list quota usage', error);
+    res.status(500).json({
+      error: 'QUOTA_USAGE_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * Usage of one app or sender against its quota
+ */
+export async function quotaUsageHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const scope = req.params.scope as QuotaScope;
+    if (!QUOTA_SCOPES.includes(scope)) {
+      sendInvalidRequest(res, `scope must be one of: ${QUOTA_SCOPES.join(', ')}`);
+      return;
+    }
+
+    const report = await quotaService.getReport(scope, req.params.key);
+    res.json({ ...formatReport(report), scope, timestamp: Date.now() });
+  } catch (error: any) {
+    logger.error('Failed to get quota usage', error);
+    res.status(500).json({
+      error: 'QUOTA_USAGE_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+function formatReport(report: QuotaReport) {
+  const maxBytes = report.quota?.maxMB !== undefined ? report.quota.maxMB * 1024 * 1024 : undefined;
+  return {
+    key: report.key,
+    blobCount: report.blobCount,
+    totalSize: report.totalSize,
+    quota: report.quota,
+    percentUsed: maxBytes ? Math.round((report.totalSize / maxBytes) * 1000) / 10 : undefined
+  };
+}
+
+function sendInvalidRequest(res: Response, message: string): void {
+  res.status(400).json({
+    error: 'INVALID_REQUEST',
+    message,
+    timestamp: Date.now()
+  });
+}
@@ -5,6 +5,7 @@
 
 import { Request, Response } from 'express';
 import { storageService } from '../services/storage.service.js';
+import { storageAuthorizationService } from '../services/storage-authorization.service.js';
 import { metricsService } from '../services/metrics.service.js';
 import { logger } from '../utils/logger.js';
 import { validateCiphertext, verifyCID } from '../utils/cid.js';
@@ -18,7 +19,9 @@ export async function replicateHandler(req: Request, res: Response): Promise<voi
     // Validate request
     validateReplicateRequest(req.body);
 
-    const { cid, ciphertext, mimeType, fromPeer, appId, contentType, sender, timestamp, metadata } = req.body as ReplicateRequest;
+    const {
+      cid, ciphertext, mimeType, fromPeer, contentType, authorization
+    } = req.body as ReplicateRequest;
 
     logger.debug('Replication request received', { cid, fromPeer, contentType });
 
@@ -35,14 +38,12 @@ export async function replicateHandler(req: Request, res: Response): Promise<voi
     const alreadyStored = await storageService.hasBlob(cid);
 
     if (!alreadyStored) {
-      // Store blob with replication and content metadata
-      await storageService.storeBlob(cid, ciphertextBuffer, mimeType, { 
-        fromPeer,
-        appId,
-        contentType,
-        sender,
-        timestamp,
-        metadata
+      const accepted = await storageAuthorizationService.acceptReplica(cid, ciphertextBuffer, authorization);
+
+      // Store blob with replication metadata and the owner the uploader signed for
+      await storageService.storeBlob(cid, ciphertextBuffer, mimeType, {
+        ...accepted,
+        fromPeer
       });
       logger.info('Replicated blob stored', { cid, fromPeer, size: ciphertextBuffer.length, contentType });
     } else {
@@ -0,0 +1,61 @@
+/**
+ * HASHD Vault - Integrity Scrub Routes
+ *
+ * GET /scrub/status - Scrubber status and last pass result
+ * GET /scrub/repairs - Repair history (newest first)
+ * POST /admin/scrub - Start a scrub pass now
+ */
+
+import { Request, Response } from 'express';
+import { scrubService } from '../services/scrub.service.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_HISTORY_LIMIT = 1000;
+
+/**
+ * Get scrubber status
+ */
+export async function scrubStatusHandler(_req: Request, res: Response): Promise<void> {
+  res.json(scrubService.getStatus());
+}
+
+/**
+ * Get repair history
+ *
+ * Query params:
+ * - limit: number - entries to return (default 100, max 1000)
+ */
+export async function scrubRepairsHandler(req: Request, res: Response): Promise<void> {
+  const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    res.status(400).json({
+      error: 'INVALID_REQUEST',
+      message: `limit must be an integer between 1 and ${MAX_HISTORY_LIMIT}`,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  const repairs = scrubService.getRepairHistory(limit);
+  res.json({ repairs, count: repairs.length });
+}
+
+/**
+ * Start a scrub pass in the background
+ */
+export async function triggerScrubHandler(_req: Request, res: Response): Promise<void> {
+  if (scrubService.isRunning()) {
+    res.status(409).json({
+      error: 'SCRUB_ALREADY_RUNNING',
+      message: 'An integrity scrub is already in progress',
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  logger.info('Manual scrub triggered');
+  scrubService.runScrub().catch(error => logger.error('Manual scrub failed', error));
+
+  res.status(202).json(scrubService.getStatus());
+}
@@ -28,7 +28,11 @@ export async function statusHandler(_req: Request, res: Response): Promise<void>
       uptime,
       endpoint: config.nodeUrl,
       replicationFactor: config.replicationFactor,
-      isAcceptingBlobs: stats.totalSize < maxCapacityBytes
+      isAcceptingBlobs: stats.totalSize < maxCapacityBytes,
+      // Per-tier usage, only with a cold tier configured
+      tiers: storageService.isTiered() ? await storageService.getTierUsage() : undefined,
+      // Stored size and savings per compression algorithm in use
+      compression: await storageService.getCompressionStats()
     };
 
     res.json(response);
@@ -1,6 +1,9 @@
 /**
  * HASHD Vault - Store Route
  * POST /store - Store encrypted blob with authorization
+ *
+ * Accepts either a JSON body (base64 ciphertext + authorization) or a raw
+ * application/octet-stream body with the authorization carried in headers.
  * 
  * Requires on-chain authorization verification for:
  * - group_post: Sender must be group member
@@ -16,18 +19,29 @@ import { storageService } from '../services/storage.service.js';
 import { replicationService } from '../services/replication.service.js';
 import { metricsService } from '../services/metrics.service.js';
 import { storageAuthorizationService } from '../services/storage-authorization.service.js';
+import { quotaService } from '../services/quota.service.js';
+import { uploadSessionService } from '../services/upload-session.service.js';
 import { logger } from '../utils/logger.js';
 import { generateCID, validateCiphertext } from '../utils/cid.js';
+import { createManifestForStaged } from '../utils/manifest.js';
 import { 
   AuthorizedStoreRequest, 
   AuthorizedStoreResponse,
+  PayloadTooLargeError,
+  QuotaExceededError,
+  StagedBlob,
   StorageAuthorization
 } from '../types/index.js';
 
+// Raw uploads: base64-encoded JSON StorageAuthorization
+const AUTHORIZATION_HEADER = 'X-ByteCave-Authorization';
+// Raw uploads: MIME type of the stored blob (Content-Type describes the transport)
+const MIME_TYPE_HEADER = 'X-ByteCave-Mime-Type';
+
 /**
  * Validate the authorization object structure
  */
-function validateAuthorization(auth: any): auth is StorageAuthorization {
+export function validateAuthorization(auth: any): auth is StorageAuthorization {
   if (!auth || typeof auth !== 'object') return false;
   if (!['group_post', 'group_comment', 'message', 'token_distribution', 'media'].includes(auth.type)) return false;
   if (!auth.sender || !ethers.isAddress(auth.sender)) return false;
@@ -35,6 +49,7 @@ function validateAuthorization(auth: any): auth is StorageAuthorization {
   if (!auth.timestamp || typeof auth.timestamp !== 'number') return false;
   if (!auth.nonce || typeof auth.nonce !== 'string') return false;
   if (!auth.contentHash || typeof auth.contentHash !== 'string') return false;
+  if (auth.expiresAt !== undefined && typeof auth.expiresAt !== 'number') return false;
   
   // Type-specific validation
   if (auth.type === 'group_post' || auth.type === 'group_comment') {
@@ -52,6 +67,11 @@ function validateAuthorization(auth: any): auth is StorageAuthorization {
 }
 
 export async function storeHandler(req: Request, res: Response): Promise<void> {
+  if (req.is('application/octet-stream')) {
+    await storeRawHandler(req, res);
+    return;
+  }
+
   const startTime = Date.now();
 
   try {
@@ -101,166 +121,362 @@ export async function storeHandler(req: Request, res: Response): Promise<void> {
     // Compute content hash for verification
     const actualContentHash = ethers.keccak256(ciphertextBuffer);
 
-    // Verify authorization
-    const authResult = await storageAuthorizationService.verifyAuthorization(
-      authorization,
-      actualContentHash
-    );
-
-    if (!authResult.authorized) {
-      logger.warn('Authorization failed', {
-        sender: authorization.sender,
-        type: authorization.type,
-        error: authResult.error
-      });
-      
-      res.status(403).json({
-        error: 'FORBIDDEN',
-        message: authResult.error || 'Authorization failed',
-        details: authResult.details,
-        timestamp: Date.now()
-      });
-      return;
-    }
+    if (!(await authorizeStore(res, authorization, actualContentHash))) return;
 
-    // Check if THIS node is registered in VaultNodeRegistry
-    // SECURITY: Node MUST have publicKey configured to accept storage
-    if (!config.publicKey) {
-      logger.error('Storage rejected: Node publicKey not configured');
-      res.status(503).json({
-        error: 'NODE_NOT_CONFIGURED',
-        message: 'This storage node is not properly configured (missing publicKey)',
+    // Generate CID
+    const cid = generateCID(ciphertextBuffer);
+
+    if (!(await checkAcceptance(res, cid, ciphertextBuffer.length, authorization))) return;
+
+    // Store blob locally with application metadata (v2)
+    await storageService.storeBlob(cid, ciphertextBuffer, mimeType, {
+      appId: authorization.appId,
+      contentType: authorization.contentType,
+      sender: authorization.sender,
+      timestamp: authorization.timestamp,
+      metadata: authorization.metadata,
+      expiresAt: authorization.expiresAt,
+      authorization
+    });
+
+    // Replicas get the blob's effective expiry, which other owners may have lifted
+    const replication = replicationService.replicateStoredBlob(cid);
+    await respondStored(res, startTime, cid, ciphertextBuffer.length, replication, authorization);
+  } catch (error: any) {
+    handleStoreError(res, startTime, error);
+  }
+}
+
+/**
+ * Raw binary upload
+ *
+ * The body is streamed to the staging area while being hashed, so the
+ * blob is never base64-encoded or held in memory during ingest. Bodies
+ * larger than one chunk are stored as chunks plus a manifest, and the
+ * manifest CID is returned.
+ */
+async function storeRawHandler(req: Request, res: Response): Promise<void> {
+  const startTime = Date.now();
+
+  try {
+    const authHeader = req.get(AUTHORIZATION_HEADER);
+    if (!authHeader) {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: `${AUTHORIZATION_HEADER} header is required`,
         timestamp: Date.now()
       });
       return;
     }
 
-    try {
-      const { contractIntegrationService } = await import('../services/contract-integration.service.js');
-      const nodeId = ethers.keccak256(config.publicKey);
-      const isNodeRegistered = await contractIntegrationService.isNodeActive(nodeId);
-
-      if (!isNodeRegistered) {
-        logger.warn('Storage rejected: This node is not registered in VaultNodeRegistry', { 
-          nodeId: nodeId.slice(0, 16) + '...',
-          sender: authorization.sender 
-        });
-        res.status(503).json({
-          error: 'NODE_NOT_REGISTERED',
-          message: 'This storage node is not registered in the VaultNodeRegistry',
-          timestamp: Date.now()
-        });
-        return;
-      }
-
-      logger.debug('✅ Node registration verified', { nodeId: nodeId.slice(0, 16) + '...' });
-    } catch (error: any) {
-      logger.error('Failed to verify node registration', { error: error.message });
-      res.status(503).json({
-        error: 'REGISTRATION_CHECK_FAILED',
-        message: 'Unable to verify node registration status',
+    const authorization = parseAuthorizationHeader(authHeader);
+    if (!validateAuthorization(authorization)) {
+      res.status(400).json({
+        error: 'INVALID_AUTHORIZATION',
+        message: 'Invalid authorization object structure',
         timestamp: Date.now()
       });
       return;
     }
 
-    // Generate CID
-    const cid = generateCID(ciphertextBuffer);
+    const mimeType = req.get(MIME_TYPE_HEADER) || 'application/octet-stream';
 
-    // Check if CID is blocked
-    const { blockedContentService } = await import('../services/blocked-content.service.js');
-    if (await blockedContentService.isBlocked(cid)) {
-      logger.warn('Storage rejected: CID is blocked', { cid, sender: authorization.sender });
+    // Reject unsigned or stale uploads before accepting any bytes
+    const precheck = storageAuthorizationService.precheckAuthorization(authorization);
+    if (!precheck.authorized) {
       res.status(403).json({
-        error: 'CONTENT_BLOCKED',
-        message: 'This content is blocked by node policy',
+        error: 'FORBIDDEN',
+        message: precheck.error || 'Authorization failed',
         timestamp: Date.now()
       });
       return;
     }
 
-    logger.info('Authorized store request', { 
-      cid, 
-      size: ciphertextBuffer.length,
-      sender: authorization.sender,
-      type: authorization.type
-    });
-
-    // Check capacity before storing
-    const stats = await storageService.getStats();
-    const maxCapacityBytes = config.maxStorageGB * 1024 * 1024 * 1024;
-    const newTotalSize = stats.totalSize + ciphertextBuffer.length;
-    
-    if (newTotalSize > maxCapacityBytes) {
-      res.status(507).json({
-        error: 'STORAGE_FULL',
-        message: 'Node storage capacity exceeded',
-        timestamp: Date.now()
-      });
-      return;
+    const maxBytes = config.maxChunkedBlobSizeMB * 1024 * 1024;
+    const declaredSize = Number(req.get('Content-Length'));
+    if (declaredSize > maxBytes) {
+      throw new PayloadTooLargeError(declaredSize, maxBytes);
     }
 
-    // Store blob locally with application metadata (v2)
-    await storageService.storeBlob(cid, ciphertextBuffer, mimeType, {
+    const staged = await storageService.stageBlobStream(req, maxBytes, config.chunkSizeMB * 1024 * 1024);
+    await commitStagedBlob(res, startTime, staged, mimeType, authorization);
+  } catch (error: any) {
+    handleStoreError(res, startTime, error);
+  }
+}
+
+/**
+ * Authorize, store and replicate a staged upload, then send the response
+ *
+ * Shared by raw uploads and finalized upload sessions (uploadId, so the
+ * session's own reservation is not counted twice). The staged blob is
+ * always consumed. Returns true once the blob is stored, false if an
+ * authorization or policy error response has been sent; other errors throw.
+ */
+export async function commitStagedBlob(
+  res: Response,
+  startTime: number,
+  staged: StagedBlob,
+  mimeType: string,
+  authorization: StorageAuthorization,
+  receivedAt?: number,
+  uploadId?: string
+): Promise<boolean> {
+  let pending: StagedBlob | undefined = staged;
+
+  try {
+    // The sender signs the whole content; a chunked blob is addressed by its manifest
+    const chunked = (staged.chunks?.length ?? 0) > 1;
+    const cid = chunked ? createManifestForStaged(staged, mimeType).cid : staged.cid;
+
+    if (!(await authorizeStore(res, authorization, staged.contentHash, receivedAt))) return false;
+    if (!(await checkAcceptance(res, cid, staged.size, authorization, uploadId))) return false;
+
+    const options = {
       appId: authorization.appId,
       contentType: authorization.contentType,
       sender: authorization.sender,
       timestamp: authorization.timestamp,
-      metadata: authorization.metadata
-    });
+      metadata: authorization.metadata,
+      expiresAt: authorization.expiresAt,
+      authorization
+    };
 
-    // Replicate to peers (async, don't wait)
-    const replicationPromise = replicationService
-      .replicateToAll(cid, ciphertextBuffer, mimeType)
-      .then(peers => {
-        logger.debug('Replication completed', { cid, peers: peers.length });
-        return peers.length;
-      })
-      .catch(err => {
-        logger.warn('Replication failed', { cid, error: err.message });
-        return 0;
-      });
+    pending = undefined;
+    if (chunked) {
+      await storageService.storeChunkedBlob(staged, mimeType, options);
+    } else {
+      await storageService.storeStagedBlob(staged, mimeType, options);
+    }
 
-    // Wait for replication with timeout
-    const confirmedReplicas = await Promise.race([
-      replicationPromise,
-      new Promise<number>(resolve => setTimeout(() => resolve(0), 2000))
-    ]);
-
-    const response: AuthorizedStoreResponse = {
-      success: true,
-      cid,
-      timestamp: Date.now(),
-      replicationStatus: {
-        target: config.replicationFactor,
-        confirmed: confirmedReplicas + 1 // +1 for this node
-      }
-    };
+    const replication = replicationService.replicateStoredBlob(cid);
+    await respondStored(res, startTime, cid, staged.size, replication, authorization);
+    return true;
+  } finally {
+    if (pending) {
+      await storageService.discardStagedBlob(pending);
+    }
+  }
+}
 
-    const latency = Date.now() - startTime;
-    metricsService.recordRequest(true, latency, ciphertextBuffer.length);
+/**
+ * Decode the base64 JSON authorization header
+ */
+function parseAuthorizationHeader(value: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(value, 'base64').toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
 
-    res.status(201).json(response);
+/**
+ * Verify the sender's authorization and this node's registration
+ * Sends the error response and returns false if the store must not proceed
+ */
+async function authorizeStore(
+  res: Response,
+  authorization: StorageAuthorization,
+  actualContentHash: string,
+  receivedAt?: number
+): Promise<boolean> {
+  // Verify authorization
+  const authResult = await storageAuthorizationService.verifyAuthorization(
+    authorization,
+    actualContentHash,
+    receivedAt
+  );
 
-    logger.info('Blob stored successfully', {
-      cid,
-      size: ciphertextBuffer.length,
+  if (!authResult.authorized) {
+    logger.warn('Authorization failed', {
       sender: authorization.sender,
       type: authorization.type,
-      latency,
-      replicas: confirmedReplicas + 1
+      error: authResult.error
+    });
+    
+    res.status(403).json({
+      error: 'FORBIDDEN',
+      message: authResult.error || 'Authorization failed',
+      details: authResult.details,
+      timestamp: Date.now()
+    });
+    return false;
+  }
+
+  // Check if THIS node is registered in VaultNodeRegistry
+  // SECURITY: Node MUST have publicKey configured to accept storage
+  if (!config.publicKey) {
+    logger.error('Storage rejected: Node publicKey not configured');
+    res.status(503).json({
+      error: 'NODE_NOT_CONFIGURED',
+      message: 'This storage node is not properly configured (missing publicKey)',
+      timestamp: Date.now()
     });
+    return false;
+  }
+
+  try {
+    const { contractIntegrationService } = await import('../services/contract-integration.service.js');
+    const nodeId = ethers.keccak256(config.publicKey);
+    const isNodeRegistered = await contractIntegrationService.isNodeActive(nodeId);
+
+    if (!isNodeRegistered) {
+      logger.warn('Storage rejected: This node is not registered in VaultNodeRegistry', { 
+        nodeId: nodeId.slice(0, 16) + '...',
+        sender: authorization.sender 
+      });
+      res.status(503).json({
+        error: 'NODE_NOT_REGISTERED',
+        message: 'This storage node is not registered in the VaultNodeRegistry',
+        timestamp: Date.now()
+      });
+      return false;
+    }
+
+    logger.debug('✅ Node registration verified', { nodeId: nodeId.slice(0, 16) + '...' });
   } catch (error: any) {
-    const latency = Date.now() - startTime;
-    metricsService.recordRequest(false, latency);
+    logger.error('Failed to verify node registration', { error: error.message });
+    res.status(503).json({
+      error: 'REGISTRATION_CHECK_FAILED',
+      message: 'Unable to verify node registration status',
+      timestamp: Date.now()
+    });
+    return false;
+  }
 
-    logger.error('Store request failed', error);
+  return true;
+}
 
-    const statusCode = error.statusCode || 500;
-    res.status(statusCode).json({
-      error: error.code || 'STORE_FAILED',
-      message: error.message,
+/**
+ * Apply node policy (blocked content, capacity, quotas) to an authorized blob
+ * Sends the error response and returns false if the blob is not accepted
+ */
+async function checkAcceptance(
+  res: Response,
+  cid: string,
+  size: number,
+  authorization: StorageAuthorization,
+  uploadId?: string
+): Promise<boolean> {
+  // Check if CID is blocked
+  const { blockedContentService } = await import('../services/blocked-content.service.js');
+  if (await blockedContentService.isBlocked(cid)) {
+    logger.warn('Storage rejected: CID is blocked', { cid, sender: authorization.sender });
+    res.status(403).json({
+      error: 'CONTENT_BLOCKED',
+      message: 'This content is blocked by node policy',
       timestamp: Date.now()
     });
+    return false;
   }
+
+  logger.info('Authorized store request', { 
+    cid, 
+    size,
+    sender: authorization.sender,
+    type: authorization.type
+  });
+
+  // Check capacity before storing; open upload sessions hold space of their own
+  const stats = await storageService.getStats();
+  const maxCapacityBytes = config.maxStorageGB * 1024 * 1024 * 1024;
+  const newTotalSize = stats.totalSize + uploadSessionService.reservedBytes(uploadId) + size;
+  
+  if (newTotalSize > maxCapacityBytes) {
+    res.status(507).json({
+      error: 'STORAGE_FULL',
+      message: 'Node storage capacity exceeded',
+      timestamp: Date.now()
+    });
+    return false;
+  }
+
+  // A blob the node already has only gains an owner, which uses no quota
+  if (!(await storageService.hasBlob(cid))) {
+    try {
+      await quotaService.assertWithinQuota(authorization, size);
+    } catch (error: any) {
+      if (!(error instanceof QuotaExceededError)) throw error;
+
+      logger.warn('Storage rejected: quota exceeded', { cid, ...error.details });
+      res.status(error.statusCode).json({
+        error: error.code,
+        message: error.message,
+        details: error.details,
+        timestamp: Date.now()
+      });
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Wait briefly for replication of a stored blob and send the 201 response
+ */
+async function respondStored(
+  res: Response,
+  startTime: number,
+  cid: string,
+  size: number,
+  replication: Promise<string[]>,
+  authorization: StorageAuthorization
+): Promise<void> {
+  // Replicate to peers (async, don't wait)
+  const replicationPromise = replication
+    .then(peers => {
+      logger.debug('Replication completed', { cid, peers: peers.length });
+      return peers.length;
+    })
+    .catch(err => {
+      logger.warn('Replication failed', { cid, error: err.message });
+      return 0;
+    });
+
+  // Wait for replication with timeout
+  const confirmedReplicas = await Promise.race([
+    replicationPromise,
+    new Promise<number>(resolve => setTimeout(() => resolve(0), 2000))
+  ]);
+
+  const response: AuthorizedStoreResponse = {
+    success: true,
+    cid,
+    timestamp: Date.now(),
+    replicationStatus: {
+      target: config.replicationFactor,
+      confirmed: confirmedReplicas + 1 // +1 for this node
+    }
+  };
+
+  const latency = Date.now() - startTime;
+  metricsService.recordRequest(true, latency, size);
+
+  res.status(201).json(response);
+
+  logger.info('Blob stored successfully', {
+    cid,
+    size,
+    sender: authorization.sender,
+    type: authorization.type,
+    latency,
+    replicas: confirmedReplicas + 1
+  });
+}
+
+export function handleStoreError(res: Response, startTime: number, error: any): void {
+  const latency = Date.now() - startTime;
+  metricsService.recordRequest(false, latency);
+
+  logger.error('Store request failed', error);
+
+  if (res.headersSent) return;
+
+  const statusCode = error.statusCode || 500;
+  res.status(statusCode).json({
+    error: error.code || 'STORE_FAILED',
+    message: error.message,
+    timestamp: Date.now()
+  });
 }
@@ -0,0 +1,55 @@
+/**
+ * HASHD Vault - Storage Tier Routes
+ *
+ * GET /tiers/status - Tier usage, settings and the last move's result
+ * POST /admin/tiers/move - Start a tier move pass now
+ */
+
+import { Request, Response } from 'express';
+import { tierService } from '../services/tier.service.js';
+import { storageService } from '../services/storage.service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Get storage tier status
+ */
+export async function tierStatusHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    res.json(await tierService.getStatus());
+  } catch (error: any) {
+    logger.error('Failed to get tier status', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * Start a tier move pass in the background
+ */
+export async function triggerTierMoveHandler(_req: Request, res: Response): Promise<void> {
+  if (!storageService.isTiered()) {
+    res.status(400).json({
+      error: 'TIERING_DISABLED',
+      message: 'No cold tier is configured (COLD_DATA_DIR)',
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  if (tierService.isRunning()) {
+    res.status(409).json({
+      error: 'TIER_MOVE_ALREADY_RUNNING',
+      message: 'A tier move is already in progress',
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  logger.info('Manual tier move triggered');
+  tierService.runMove().catch(error => logger.error('Manual tier move failed', error));
+
+  res.status(202).json(await tierService.getStatus());
+}
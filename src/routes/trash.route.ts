@@ -0,0 +1,103 @@
+/**
+ * HASHD Vault - Trash Routes
+ *
+ * Deleted blobs stay in the trash for TRASH_RETENTION_HOURS before the GC
+ * purges them, so a mistaken deletion can be undone.
+ *
+ * - GET /admin/trash - List trashed blobs (most recently deleted first)
+ * - POST /admin/trash/:cid/restore - Restore a trashed blob
+ * - DELETE /admin/trash/:cid - Purge a trashed blob now
+ */
+
+import { Request, Response } from 'express';
+import { storageService } from '../services/storage.service.js';
+import { logger } from '../utils/logger.js';
+import { MAX_PAGE_SIZE } from '../services/backends/index.js';
+
+/**
+ * List trashed blobs
+ *
+ * Query params:
+ * - limit: number - entries per page (default 100, max 1000)
+ * - cursor: string - nextCursor from the previous page
+ */
+export async function listTrashHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+        timestamp: Date.now()
+      });
+      return;
+    }
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+
+    const page = await storageService.listTrash({ limit, cursor });
+    const totals = await storageService.getTrashTotals();
+
+    res.json({
+      count: page.entries.length,
+      total: totals.count,
+      totalSize: totals.size,
+      entries: page.entries.map(entry => ({
+        cid: entry.cid,
+        size: entry.metadata.size,
+        mimeType: entry.metadata.mimeType,
+        createdAt: entry.metadata.createdAt,
+        deletedAt: entry.deletedAt,
+        purgeAfter: entry.purgeAfter,
+        reason: entry.reason
+      })),
+      nextCursor: page.nextCursor
+    });
+  } catch (error: any) {
+    sendTrashError(res, error, 'LIST_TRASH_FAILED');
+  }
+}
+
+/**
+ * Restore a trashed blob (and, for a manifest, its trashed chunks)
+ */
+export async function restoreTrashHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { cid } = req.params;
+
+    logger.info('Trash restore requested', { cid });
+    await storageService.restoreBlob(cid);
+
+    res.json({ cid, restored: true, timestamp: Date.now() });
+  } catch (error: any) {
+    sendTrashError(res, error, 'RESTORE_FAILED');
+  }
+}
+
+/**
+ * Permanently remove a trashed blob before its retention window ends
+ */
+export async function purgeTrashHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { cid } = req.params;
+
+    logger.info('Trash purge requested', { cid });
+    await storageService.purgeTrashed(cid);
+
+    res.json({ cid, purged: true, timestamp: Date.now() });
+  } catch (error: any) {
+    sendTrashError(res, error, 'PURGE_FAILED');
+  }
+}
+
+function sendTrashError(res: Response, error: any, fallbackCode: string): void {
+  const statusCode = error.statusCode || 500;
+  if (statusCode >= 500) {
+    logger.error('Trash request failed', error);
+  }
+
+  res.status(statusCode).json({
+    error: error.code || fallbackCode,
+    message: error.message,
+    timestamp: Date.now()
+  });
+}
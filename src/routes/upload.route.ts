@@ -0,0 +1,220 @@
+/**
+ * HASHD Vault - Resumable Upload Routes
+ *
+ * - POST /uploads - Open a session with the StorageAuthorization
+ * - PUT /uploads/:uploadId?offset=N - Write raw bytes at an offset
+ * - GET /uploads/:uploadId - Received and missing byte ranges
+ * - POST /uploads/:uploadId/finalize - Verify hashes and store the blob
+ * - DELETE /uploads/:uploadId - Abort the session
+ *
+ * Finalizing goes through the same authorization, blocklist, storage and
+ * replication path as POST /store.
+ */
+
+import { Request, Response } from 'express';
+import { storageAuthorizationService } from '../services/storage-authorization.service.js';
+import { uploadSessionService } from '../services/upload-session.service.js';
+import { logger } from '../utils/logger.js';
+import { commitStagedBlob, handleStoreError, validateAuthorization } from './store.route.js';
+import {
+  CreateUploadRequest,
+  UploadSession,
+  UploadStatusResponse
+} from '../types/index.js';
+
+const CID_PATTERN = /^[a-f0-9]{64}$/i;
+const CONTENT_HASH_PATTERN = /^0x[a-f0-9]{64}$/i;
+
+function toStatus(session: UploadSession): UploadStatusResponse {
+  return {
+    uploadId: session.id,
+    size: session.size,
+    bytesReceived: session.received.reduce((sum, r) => sum + (r.end - r.start + 1), 0),
+    received: session.received,
+    missing: uploadSessionService.getMissingRanges(session),
+    expiresAt: session.expiresAt
+  };
+}
+
+function sendUploadError(res: Response, error: any, fallbackCode: string): void {
+  if (res.headersSent) return;
+
+  res.status(error.statusCode || 500).json({
+    error: error.code || fallbackCode,
+    message: error.message,
+    details: error.details,
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * Open an upload session
+ */
+export async function createUploadHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { authorization, mimeType, size, contentHash, cid } = req.body as CreateUploadRequest;
+
+    if (!mimeType || typeof mimeType !== 'string') {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: 'mimeType is required',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (!Number.isInteger(size) || size < 1) {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: 'size must be a positive integer',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (!validateAuthorization(authorization)) {
+      res.status(400).json({
+        error: 'INVALID_AUTHORIZATION',
+        message: 'Invalid authorization object structure',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const expectedHash = contentHash ?? authorization.contentHash;
+    if (
+      !CONTENT_HASH_PATTERN.test(expectedHash) ||
+      expectedHash.toLowerCase() !== authorization.contentHash.toLowerCase()
+    ) {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: 'contentHash must be a keccak256 hash matching the authorization',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (cid !== undefined && (typeof cid !== 'string' || !CID_PATTERN.test(cid))) {
+      res.status(400).json({
+        error: 'INVALID_REQUEST',
+        message: 'cid must be a SHA-256 hex string',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // Reject unsigned or stale authorizations before accepting any bytes
+    const precheck = storageAuthorizationService.precheckAuthorization(authorization);
+    if (!precheck.authorized) {
+      res.status(403).json({
+        error: 'FORBIDDEN',
+        message: precheck.error || 'Authorization failed',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const session = await uploadSessionService.createSession(
+      authorization,
+      mimeType,
+      size,
+      expectedHash,
+      cid
+    );
+
+    res.status(201).json(toStatus(session));
+  } catch (error: any) {
+    logger.error('Failed to create upload session', error);
+    sendUploadError(res, error, 'UPLOAD_FAILED');
+  }
+}
+
+/**
+ * Write a piece of the upload at ?offset=N
+ */
+export async function uploadPieceHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { uploadId } = req.params;
+    const offset = Number(req.query.offset);
+
+    if (!req.is('application/octet-stream')) {
+      res.status(415).json({
+        error: 'UNSUPPORTED_MEDIA_TYPE',
+        message: 'Upload pieces must be sent as application/octet-stream',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const session = await uploadSessionService.writePiece(uploadId, offset, req);
+
+    res.json(toStatus(session));
+  } catch (error: any) {
+    logger.warn('Failed to write upload piece', { uploadId: req.params.uploadId, error: error.message });
+    sendUploadError(res, error, 'UPLOAD_FAILED');
+  }
+}
+
+/**
+ * Report which byte ranges have been received
+ */
+export async function uploadStatusHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const session = uploadSessionService.getSession(req.params.uploadId);
+    res.json(toStatus(session));
+  } catch (error: any) {
+    sendUploadError(res, error, 'UPLOAD_STATUS_FAILED');
+  }
+}
+
+/**
+ * Verify the assembled content and store it
+ */
+export async function finalizeUploadHandler(req: Request, res: Response): Promise<void> {
+  const startTime = Date.now();
+  const { uploadId } = req.params;
+
+  let staged;
+  let session: UploadSession;
+  try {
+    ({ session, staged } = await uploadSessionService.stageUpload(uploadId));
+  } catch (error: any) {
+    logger.warn('Failed to finalize upload', { uploadId, error: error.message });
+    sendUploadError(res, error, 'UPLOAD_FAILED');
+    return;
+  }
+
+  try {
+    const stored = await commitStagedBlob(
+      res,
+      startTime,
+      staged,
+      session.mimeType,
+      session.authorization,
+      session.createdAt,
+      uploadId
+    );
+
+    if (stored) {
+      await uploadSessionService.completeSession(uploadId);
+    }
+  } catch (error: any) {
+    handleStoreError(res, startTime, error);
+  }
+}
+
+/**
+ * Abort an upload and discard its data
+ */
+export async function abortUploadHandler(req: Request, res: Response): Promise<void> {
+  try {
+    await uploadSessionService.abortSession(req.params.uploadId);
+    res.json({
+      uploadId: req.params.uploadId,
+      aborted: true,
+      timestamp: Date.now()
+    });
+  } catch (error: any) {
+    sendUploadError(res, error, 'UPLOAD_ABORT_FAILED');
+  }
+}
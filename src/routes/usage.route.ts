@@ -0,0 +1,72 @@
+/**
+ * HASHD Vault - Usage Breakdown Routes
+ *
+ * GET /admin/usage - Stored bytes, blobs, retrievals and age by app,
+ * content type, sender, shard or MIME type, with optional growth series
+ */
+
+import { Request, Response } from 'express';
+import { USAGE_DIMENSIONS, USAGE_INTERVALS, usageReportService } from '../services/usage-report.service.js';
+import { logger } from '../utils/logger.js';
+import { MAX_PAGE_SIZE } from '../services/backends/index.js';
+import { UsageDimension, UsageInterval } from '../types/index.js';
+
+/**
+ * Break down stored blobs by one dimension
+ *
+ * Query params:
+ * - groupBy: 'appId' | 'contentType' | 'sender' | 'shard' | 'mimeType' (default 'appId')
+ * - since, until: Unix ms - only blobs created in [since, until)
+ * - interval: 'hour' | 'day' | 'week' - include growth series
+ * - limit: number - largest groups to return (default 100, max 1000)
+ */
+export async function usageBreakdownHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const groupBy = (req.query.groupBy ?? 'appId') as UsageDimension;
+    const interval = req.query.interval as UsageInterval | undefined;
+    const since = req.query.since === undefined ? undefined : Number(req.query.since);
+    const until = req.query.until === undefined ? undefined : Number(req.query.until);
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+
+    if (!USAGE_DIMENSIONS.includes(groupBy)) {
+      sendInvalidRequest(res, `groupBy must be one of: ${USAGE_DIMENSIONS.join(', ')}`);
+      return;
+    }
+    if (interval !== undefined && !Object.keys(USAGE_INTERVALS).includes(interval)) {
+      sendInvalidRequest(res, `interval must be one of: ${Object.keys(USAGE_INTERVALS).join(', ')}`);
+      return;
+    }
+    for (const [name, value] of [['since', since], ['until', until]] as const) {
+      if (value !== undefined && (!Number.isSafeInteger(value) || value < 0)) {
+        sendInvalidRequest(res, `${name} must be a Unix timestamp in milliseconds`);
+        return;
+      }
+    }
+    if (since !== undefined && until !== undefined && since >= until) {
+      sendInvalidRequest(res, 'since must be before until');
+      return;
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+      sendInvalidRequest(res, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+      return;
+    }
+
+    const breakdown = await usageReportService.getBreakdown({ groupBy, since, until, interval, limit });
+    res.json({ ...breakdown, since, until, interval, timestamp: Date.now() });
+  } catch (error: any) {
+    logger.error('Failed to build usage breakdown', error);
+    res.status(500).json({
+      error: 'USAGE_BREAKDOWN_FAILED',
+      message: error.message,
+      timestamp: Date.now()
+    });
+  }
+}
+
+function sendInvalidRequest(res: Response, message: string): void {
+  res.status(400).json({
+    error: 'INVALID_REQUEST',
+    message,
+    timestamp: Date.now()
+  });
+}
@@ -16,15 +16,31 @@ import { replicationManager } from './services/replication-manager.service.js';
 import { proofService } from './services/proof.service.js';
 import { reputationService } from './services/reputation.service.js';
 import { gcService } from './services/gc.service.js';
+import { scrubService } from './services/scrub.service.js';
+import { tierService } from './services/tier.service.js';
+import { volumeService } from './services/volume.service.js';
+import { fsckService } from './services/fsck.service.js';
+import { adminAuthService } from './services/admin-auth.service.js';
 import { feedService } from './services/feed.service.js';
+import { uploadSessionService } from './services/upload-session.service.js';
+import { eventsService } from './services/events.service.js';
 import { requestLogger } from './middleware/logging.middleware.js';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware.js';
 import { storeHandler } from './routes/store.route.js';
-import { blobHandler } from './routes/blob.route.js';
+import { blobHandler, blobHeadHandler } from './routes/blob.route.js';
+import {
+  createUploadHandler,
+  uploadPieceHandler,
+  uploadStatusHandler,
+  finalizeUploadHandler,
+  abortUploadHandler
+} from './routes/upload.route.js';
 // REMOVED: replicate.route.js - insecure HTTP endpoint that bypassed authorization
 // Replication now only allowed via P2P protocols with peer verification
 import { healthHandler } from './routes/health.route.js';
 import { listHandler } from './routes/list.route.js';
+import { blobBatchHandler } from './routes/blob-batch.route.js';
+import { eventsHandler } from './routes/events.route.js';
 import { statusHandler } from './routes/status.route.js';
 import { sendBroadcast, getBroadcasts } from './routes/broadcast.route.js';
 import { proofGenerateHandler, proofListHandler, proofStatsHandler } from './routes/proof.route.js';
@@ -44,6 +60,24 @@ import {
 import { shardsHandler } from './routes/shards.route.js';
 import { validateShardAssignment, validateShardForProof } from './middleware/shard-validation.middleware.js';
 import { gcStatusHandler, triggerGCHandler, forcePurgeHandler, deleteBlobHandler } from './routes/gc.route.js';
+import { listTrashHandler, restoreTrashHandler, purgeTrashHandler } from './routes/trash.route.js';
+import { listQuotasHandler, quotaUsageHandler } from './routes/quota.route.js';
+import { usageBreakdownHandler } from './routes/usage.route.js';
+import { scrubStatusHandler, scrubRepairsHandler, triggerScrubHandler } from './routes/scrub.route.js';
+import { fsckStatusHandler, triggerFsckHandler } from './routes/fsck.route.js';
+import {
+  listBlockedHandler,
+  blockCidHandler,
+  unblockCidHandler,
+  blockPeerHandler,
+  unblockPeerHandler,
+  addSubscriptionHandler,
+  removeSubscriptionHandler
+} from './routes/blocked-content.route.js';
+import { tierStatusHandler, triggerTierMoveHandler } from './routes/tier.route.js';
+import { encryptionStatusHandler, rotateEncryptionKeyHandler } from './routes/encryption.route.js';
+import { createTokenHandler, listTokensHandler, revokeTokenHandler, auditLogHandler } from './routes/admin.route.js';
+import { listOwnersHandler, ownerActionHandler } from './routes/owners.route.js';
 import { 
   pinBlobHandler, 
   unpinBlobHandler, 
@@ -71,8 +105,10 @@ import {
   storageLimiter,
   proofLimiter,
   readLimiter,
+  batchLimiter,
   adminLimiter
 } from './middleware/rate-limit.middleware.js';
+import { captureRawBody, requireAdmin } from './middleware/admin-auth.middleware.js';
 import {
   tlsEnforcementMiddleware,
   checkProductionSecurity,
@@ -114,12 +150,30 @@ app.use(cors({
   },
   credentials: false,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Accept'],
-  exposedHeaders: ['Content-Type']
+  allowedHeaders: [
+    'Content-Type',
+    'Accept',
+    'Authorization',
+    'If-None-Match',
+    'Range',
+    'If-Range',
+    'X-ByteCave-Authorization',
+    'X-ByteCave-Admin-Signature',
+    'X-ByteCave-Mime-Type'
+  ],
+  exposedHeaders: [
+    'Content-Type',
+    'Content-Length',
+    'Content-Range',
+    'Accept-Ranges',
+    'ETag',
+    'Cache-Control',
+    'X-ByteCave-CID'
+  ]
 }));
 
 // Body parsing
-app.use(express.json({ limit: `${config.maxBlobSizeMB}mb` }));
+app.use(express.json({ limit: `${config.maxBlobSizeMB}mb`, verify: captureRawBody }));
 
 // Pretty print JSON responses
 app.set('json spaces', 2);
@@ -141,15 +195,24 @@ app.disable('x-powered-by');
 // Storage endpoints with shard validation (R7.5)
 // Only /store is allowed - requires on-chain authorization with appId validation
 app.post('/store', storageLimiter, validateShardAssignment, storeHandler);
+
+// Resumable uploads (finalize shares the /store authorization path)
+app.post('/uploads', storageLimiter, validateShardAssignment, createUploadHandler);
+app.put('/uploads/:uploadId', storageLimiter, uploadPieceHandler);
+app.get('/uploads/:uploadId', readLimiter, uploadStatusHandler);
+app.post('/uploads/:uploadId/finalize', storageLimiter, finalizeUploadHandler);
+app.delete('/uploads/:uploadId', storageLimiter, abortUploadHandler);
 // REMOVED: /replicate endpoint - was insecure, allowed bypassing authorization
 // Replication now only via P2P protocols (/bytecave/replicate/1.0.0) with peer verification
 
 // Read endpoints
+app.head('/blob/:cid', readLimiter, blobHeadHandler);
 app.get('/blob/:cid', readLimiter, blobHandler);
 app.get('/blobs', readLimiter, listHandler);
+app.post('/blobs/batch', batchLimiter, blobBatchHandler);
 app.get('/health', monitoringLimiter, healthHandler);
 app.get('/peers', monitoringLimiter, getPeers);
-app.post('/peers/connect', generalLimiter, connectPeerHandler);
+app.post('/peers/connect', generalLimiter, requireAdmin('peers'), connectPeerHandler);
 app.get('/status', monitoringLimiter, statusHandler);
 
 // Broadcast endpoints
@@ -179,23 +242,71 @@ app.get('/shards', readLimiter, shardsHandler);
 
 // Garbage collection endpoints (Requirement 8)
 app.get('/gc/status', readLimiter, gcStatusHandler);
-app.post('/admin/gc', adminLimiter, triggerGCHandler);
-app.delete('/admin/blob/:cid', adminLimiter, deleteBlobHandler);
+app.post('/admin/gc', adminLimiter, requireAdmin('gc'), triggerGCHandler);
+app.delete('/admin/blob/:cid', adminLimiter, requireAdmin('delete'), deleteBlobHandler);
+
+// Trash (deleted blobs awaiting purge)
+app.get('/admin/trash', adminLimiter, requireAdmin('trash'), listTrashHandler);
+app.post('/admin/trash/:cid/restore', adminLimiter, requireAdmin('trash'), restoreTrashHandler);
+app.delete('/admin/trash/:cid', adminLimiter, requireAdmin('trash'), purgeTrashHandler);
+
+// Per-app and per-sender quotas
+app.get('/admin/quotas', adminLimiter, requireAdmin('audit'), listQuotasHandler);
+app.get('/admin/quotas/:scope/:key', adminLimiter, requireAdmin('audit'), quotaUsageHandler);
+
+// Storage usage breakdown
+app.get('/admin/usage', adminLimiter, requireAdmin('audit'), usageBreakdownHandler);
 
 // DEV ONLY - Force purge endpoint (bypasses all safety checks)
 // Only available in development/test environments
 if (config.nodeEnv === 'development' || config.nodeEnv === 'test') {
-  app.post('/admin/force-purge', adminLimiter, forcePurgeHandler);
+  app.post('/admin/force-purge', adminLimiter, requireAdmin('gc'), forcePurgeHandler);
   logger.warn('⚠️ Force purge endpoint enabled (DEV/TEST MODE ONLY)');
 }
 
+// Integrity scrubbing
+app.get('/scrub/status', readLimiter, scrubStatusHandler);
+app.get('/scrub/repairs', readLimiter, scrubRepairsHandler);
+app.post('/admin/scrub', adminLimiter, requireAdmin('maintenance'), triggerScrubHandler);
+
+// Consistency checks
+app.get('/admin/fsck', adminLimiter, requireAdmin('maintenance'), fsckStatusHandler);
+app.post('/admin/fsck', adminLimiter, requireAdmin('maintenance'), triggerFsckHandler);
+
+// Hot/cold storage tiers
+app.get('/tiers/status', readLimiter, tierStatusHandler);
+app.post('/admin/tiers/move', adminLimiter, requireAdmin('maintenance'), triggerTierMoveHandler);
+
+// Encryption at rest
+app.get('/admin/encryption', adminLimiter, requireAdmin('encryption'), encryptionStatusHandler);
+app.post('/admin/encryption/rotate', adminLimiter, requireAdmin('encryption'), rotateEncryptionKeyHandler);
+
+// Admin API tokens and audit log
+app.post('/admin/tokens', adminLimiter, requireAdmin('owner'), createTokenHandler);
+app.get('/admin/tokens', adminLimiter, requireAdmin('owner'), listTokensHandler);
+app.delete('/admin/tokens/:id', adminLimiter, requireAdmin('owner'), revokeTokenHandler);
+app.get('/admin/audit', adminLimiter, requireAdmin('audit'), auditLogHandler);
+
+// Blocked content and denylist subscriptions
+app.get('/admin/blocked', adminLimiter, requireAdmin('blocked'), listBlockedHandler);
+app.post('/admin/blocked/cids', adminLimiter, requireAdmin('blocked'), blockCidHandler);
+app.delete('/admin/blocked/cids/:cid', adminLimiter, requireAdmin('blocked'), unblockCidHandler);
+app.post('/admin/blocked/peers', adminLimiter, requireAdmin('blocked'), blockPeerHandler);
+app.delete('/admin/blocked/peers/:peerId', adminLimiter, requireAdmin('blocked'), unblockPeerHandler);
+app.post('/admin/blocked/subscriptions', adminLimiter, requireAdmin('blocked'), addSubscriptionHandler);
+app.delete('/admin/blocked/subscriptions/:id', adminLimiter, requireAdmin('blocked'), removeSubscriptionHandler);
+
 // Pinning endpoints (Requirement 9)
-app.post('/pin/:cid', generalLimiter, pinBlobHandler);
-app.delete('/pin/:cid', generalLimiter, unpinBlobHandler);
+app.post('/pin/:cid', generalLimiter, requireAdmin('pin'), pinBlobHandler);
+app.delete('/pin/:cid', generalLimiter, requireAdmin('pin'), unpinBlobHandler);
 app.get('/pin/list', readLimiter, listPinnedBlobsHandler);
-app.post('/pin/bulk', generalLimiter, bulkPinHandler);
+app.post('/pin/bulk', generalLimiter, requireAdmin('pin'), bulkPinHandler);
 app.get('/blobs/:cid/status', readLimiter, blobStatusHandler);
 
+// Blob ownership endpoints
+app.get('/blobs/:cid/owners', readLimiter, listOwnersHandler);
+app.post('/blobs/:cid/owners/:action', generalLimiter, ownerActionHandler);
+
 // Feed endpoints (Requirement 10)
 app.get('/feed/:feedId', readLimiter, getFeedHandler);
 app.get('/feed/:feedId/blobs', readLimiter, getFeedBlobsHandler);
@@ -204,6 +315,9 @@ app.post('/feed/:feedId/entry', storageLimiter, addFeedEntryHandler);
 app.get('/feed/:feedId/validate', readLimiter, validateFeedHandler);
 app.get('/feed/:feedId/forks', readLimiter, resolveFeedForksHandler);
 
+// Real-time node activity (server-sent events)
+app.get('/events', readLimiter, eventsHandler);
+
 // Node discovery endpoint (Requirement 11)
 app.get('/node/info', readLimiter, nodeInfoHandler);
 
@@ -220,6 +334,8 @@ app.get('/', (_req, res) => {
       store: 'POST /store',
       retrieve: 'GET /blob/:cid',
       list: 'GET /blobs',
+      batch: 'POST /blobs/batch',
+      events: 'GET /events',
       replicate: 'POST /replicate',
       health: 'GET /health',
       status: 'GET /status',
@@ -258,7 +374,8 @@ async function initialize(): Promise<void> {
     // Initialize storage authorization service
     await initializeStorageAuthorization();
 
-    // Initialize services
+    // Initialize services (events first, so none are missed)
+    await eventsService.initialize();
     await storageService.initialize();
     await blockedContentService.initialize();
     await replicationService.initialize();
@@ -266,7 +383,13 @@ async function initialize(): Promise<void> {
     await proofService.initialize();
     await reputationService.initialize();
     await gcService.initialize();
+    await scrubService.initialize();
+    await tierService.initialize();
+    await volumeService.initialize();
+    await fsckService.initialize();
+    await adminAuthService.initialize();
     await feedService.initialize();
+    await uploadSessionService.initialize();
 
     // Initialize P2P service
     await initializeP2P();
@@ -423,6 +546,14 @@ function setupGracefulShutdown(server: any): void {
 
     // Stop GC service
     gcService.stop();
+    scrubService.stop();
+    tierService.stop();
+    volumeService.stop();
+    fsckService.stop();
+    blockedContentService.stop();
+    adminAuthService.stop();
+    uploadSessionService.shutdown();
+    eventsService.stop();
 
     // Stop P2P service
     if (p2pService.isStarted()) {
@@ -432,6 +563,9 @@ function setupGracefulShutdown(server: any): void {
 
     // Destroy all active connections to free ports immediately
     server.closeAllConnections?.();
+
+    // Flush and close the storage backend
+    await storageService.close();
     
     logger.info('Shutdown complete');
     process.exit(0);
@@ -0,0 +1,285 @@
+/**
+ * HASHD Vault - Admin Authentication Service
+ *
+ * Authenticates operator requests: either signed by the node owner
+ * (OWNER_ADDRESS, EIP-191 over the request with a timestamp and nonce) or
+ * carrying an API token the owner created with a set of scopes. Tokens are
+ * kept as SHA-256 hashes in admin-tokens.json; every authenticated admin
+ * request is appended to admin-audit.log.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  AdminAuditRecord,
+  AdminScope,
+  AdminSignature,
+  AdminToken,
+  AuthorizationVerificationResult
+} from '../types/index.js';
+
+export const ADMIN_SCOPES: AdminScope[] = [
+  'gc', 'delete', 'trash', 'pin', 'peers', 'maintenance', 'encryption', 'blocked', 'audit'
+];
+
+// Signature message format for admin requests
+const ADMIN_MESSAGE_TEMPLATE = `HASHD Vault Admin Request
+Node: {nodeId}
+Method: {method}
+Path: {path}
+Body Hash: {bodyHash}
+Timestamp: {timestamp}
+Nonce: {nonce}`;
+
+const TOKEN_PREFIX = 'bca_';
+const MAX_AUDIT_HISTORY = 1000;
+
+interface StoredAdminToken extends AdminToken {
+  tokenHash: string;           // SHA-256 of the token; the token itself is only returned once
+}
+
+export class AdminAuthService {
+  private tokensFile: string;
+  private auditFile: string;
+  private tokens = new Map<string, StoredAdminToken>(); // by token hash
+  private audit: AdminAuditRecord[] = [];
+  private usedNonces = new Map<string, number>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  // Timestamp tolerance (5 minutes)
+  private readonly TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000;
+  private readonly NONCE_EXPIRY_MS = 10 * 60 * 1000;
+
+  constructor() {
+    this.tokensFile = path.join(config.dataDir, 'admin-tokens.json');
+    this.auditFile = path.join(config.dataDir, 'admin-audit.log');
+  }
+
+  /**
+   * Load API tokens and recent audit records
+   */
+  async initialize(): Promise<void> {
+    await this.loadTokens();
+    await this.loadAudit();
+
+    this.cleanupInterval = setInterval(() => this.cleanupExpiredNonces(), 60000);
+    this.cleanupInterval.unref();
+
+    if (!config.adminAuthEnabled) {
+      logger.warn('Admin authentication disabled: operator routes accept any request');
+    } else if (!config.ownerAddress) {
+      logger.warn('OWNER_ADDRESS is not set: operator routes accept only API tokens');
+    }
+  }
+
+  stop(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  /**
+   * Verify the owner's signature over a request
+   *
+   * The body hash is keccak256 of the raw request body (of no bytes if empty).
+   */
+  verifySignature(
+    request: { method: string; path: string; body?: Buffer },
+    signed: AdminSignature
+  ): AuthorizationVerificationResult {
+    if (!config.ownerAddress) {
+      return { authorized: false, error: 'OWNER_ADDRESS is not configured' };
+    }
+    if (signed.address.toLowerCase() !== config.ownerAddress.toLowerCase()) {
+      return { authorized: false, error: 'Not signed by the node owner' };
+    }
+    if (Math.abs(Date.now() - signed.timestamp) > this.TIMESTAMP_TOLERANCE_MS) {
+      return { authorized: false, error: 'Timestamp expired or invalid' };
+    }
+    if (this.usedNonces.has(signed.nonce)) {
+      return { authorized: false, error: 'Nonce already used (replay attack prevented)' };
+    }
+
+    try {
+      const message = ADMIN_MESSAGE_TEMPLATE
+        .replace('{nodeId}', config.nodeId)
+        .replace('{method}', request.method.toUpperCase())
+        .replace('{path}', request.path)
+        .replace('{bodyHash}', ethers.keccak256(request.body ?? new Uint8Array()))
+        .replace('{timestamp}', signed.timestamp.toString())
+        .replace('{nonce}', signed.nonce);
+
+      const recoveredAddress = ethers.verifyMessage(message, signed.signature);
+      if (recoveredAddress.toLowerCase() !== config.ownerAddress.toLowerCase()) {
+        logger.warn('Admin signature verification failed', {
+          expected: config.ownerAddress,
+          recovered: recoveredAddress
+        });
+        return { authorized: false, error: 'Invalid signature' };
+      }
+    } catch (error) {
+      logger.error('Admin signature verification error', error);
+      return { authorized: false, error: 'Invalid signature' };
+    }
+
+    this.usedNonces.set(signed.nonce, Date.now());
+    return { authorized: true, sender: signed.address };
+  }
+
+  /**
+   * The unexpired token a bearer secret belongs to, or null
+   */
+  verifyToken(secret: string): AdminToken | null {
+    const stored = this.tokens.get(hashToken(secret));
+    if (!stored || (stored.expiresAt !== undefined && stored.expiresAt <= Date.now())) {
+      return null;
+    }
+    return toToken(stored);
+  }
+
+  /**
+   * Create an API token
+   *
+   * @returns the token and the secret to present as a bearer token (never stored)
+   */
+  async createToken(request: { name: string; scopes: AdminScope[]; expiresAt?: number }): Promise<{ token: AdminToken; secret: string }> {
+    const secret = TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const stored: StoredAdminToken = {
+      id: crypto.randomBytes(8).toString('hex'),
+      name: request.name,
+      scopes: [...new Set(request.scopes)],
+      createdAt: Date.now(),
+      expiresAt: request.expiresAt,
+      tokenHash: hashToken(secret)
+    };
+
+    this.tokens.set(stored.tokenHash, stored);
+    await this.saveTokens();
+
+    logger.info('Admin API token created', { id: stored.id, name: stored.name, scopes: stored.scopes });
+    return { token: toToken(stored), secret };
+  }
+
+  listTokens(): AdminToken[] {
+    return [...this.tokens.values()]
+      .map(toToken)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Revoke a token by ID
+   *
+   * @returns false if there was no such token
+   */
+  async revokeToken(id: string): Promise<boolean> {
+    const entry = [...this.tokens.entries()].find(([, token]) => token.id === id);
+    if (!entry) return false;
+
+    this.tokens.delete(entry[0]);
+    await this.saveTokens();
+
+    logger.info('Admin API token revoked', { id });
+    return true;
+  }
+
+  /**
+   * Record an admin request in the audit log
+   */
+  async recordAudit(entry: Omit<AdminAuditRecord, 'at'>): Promise<void> {
+    const record: AdminAuditRecord = { at: Date.now(), ...entry };
+    this.audit.push(record);
+    if (this.audit.length > MAX_AUDIT_HISTORY) {
+      this.audit.splice(0, this.audit.length - MAX_AUDIT_HISTORY);
+    }
+
+    logger.info('Admin action', {
+      actor: record.actor.type,
+      address: record.actor.address,
+      tokenId: record.actor.tokenId,
+      method: record.method,
+      path: record.path,
+      statusCode: record.statusCode
+    });
+    try {
+      await fs.appendFile(this.auditFile, JSON.stringify(record) + '\n', { mode: 0o600 });
+    } catch (error) {
+      logger.error('Failed to write admin audit log', error);
+    }
+  }
+
+  /**
+   * Recent audit records, newest first
+   */
+  getAuditLog(limit = 100): AdminAuditRecord[] {
+    return this.audit.slice(-limit).reverse();
+  }
+
+  private async loadTokens(): Promise<void> {
+    this.tokens.clear();
+    try {
+      const stored: StoredAdminToken[] = JSON.parse(await fs.readFile(this.tokensFile, 'utf8'));
+      for (const token of stored) {
+        this.tokens.set(token.tokenHash, token);
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn('Failed to load admin API tokens', { error: error.message });
+      }
+    }
+  }
+
+  private async saveTokens(): Promise<void> {
+    const tempPath = `${this.tokensFile}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify([...this.tokens.values()], null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.tokensFile);
+  }
+
+  private async loadAudit(): Promise<void> {
+    try {
+      const lines = (await fs.readFile(this.auditFile, 'utf8')).split('\n').filter(line => line);
+      this.audit = lines.slice(-MAX_AUDIT_HISTORY).flatMap(line => {
+        try {
+          return [JSON.parse(line) as AdminAuditRecord];
+        } catch {
+          return [];
+        }
+      });
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn('Failed to load admin audit log', { error: error.message });
+      }
+      this.audit = [];
+    }
+  }
+
+  private cleanupExpiredNonces(): void {
+    const now = Date.now();
+    for (const [nonce, usedAt] of this.usedNonces.entries()) {
+      if (now - usedAt > this.NONCE_EXPIRY_MS) {
+        this.usedNonces.delete(nonce);
+      }
+    }
+  }
+}
+
+function hashToken(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function toToken(stored: StoredAdminToken): AdminToken {
+  return {
+    id: stored.id,
+    name: stored.name,
+    scopes: stored.scopes,
+    createdAt: stored.createdAt,
+    expiresAt: stored.expiresAt
+  };
+}
+
+// Singleton instance
+export const adminAuthService = new AdminAuthService();
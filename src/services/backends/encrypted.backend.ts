@@ -0,0 +1,146 @@
+/**
+ * HASHD Vault - Encrypted Storage Backend
+ *
+ * Wraps another backend and encrypts blob bytes at rest with the node's
+ * data key (see utils/envelope.ts). Bytes written before encryption was
+ * enabled are passed through unchanged until reencrypt() rewrites them.
+ * CIDs are unaffected: they are computed over what clients send.
+ */
+
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable, pipeline as pipe } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from '../../utils/logger.js';
+import { SliceStream } from '../../utils/stream.js';
+import {
+  ENVELOPE_HEADER_SIZE,
+  EnvelopeDecryptStream,
+  envelopeRangeFor,
+  isEnvelope,
+  parseEnvelopeHeader
+} from '../../utils/envelope.js';
+import { EncryptionService } from '../encryption.service.js';
+import { ByteRange, StorageBackend } from '../../types/index.js';
+
+export class EncryptedBackend implements StorageBackend {
+  readonly type: StorageBackend['type'];
+
+  constructor(private inner: StorageBackend, private encryption: EncryptionService) {
+    this.type = inner.type;
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+
+  async put(cid: string, data: Buffer): Promise<void> {
+    await this.inner.put(cid, this.encryption.encrypt(data));
+  }
+
+  async putFile(cid: string, filePath: string): Promise<void> {
+    const sealedPath = `${filePath}.sealed`;
+    try {
+      await pipeline(
+        createReadStream(filePath),
+        this.encryption.createEncryptStream(),
+        createWriteStream(sealedPath, { mode: 0o600 })
+      );
+      await this.inner.putFile(cid, sealedPath);
+    } catch (error) {
+      await fs.unlink(sealedPath).catch(() => {});
+      throw error;
+    }
+    await fs.unlink(filePath).catch(() => {});
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    const stored = await this.inner.get(cid);
+    return stored ? this.encryption.decrypt(stored) : null;
+  }
+
+  async stream(cid: string, range?: ByteRange): Promise<Readable | null> {
+    const head = await this.readHeader(cid);
+    if (!head) return null;
+    if (!isEnvelope(head)) {
+      return this.inner.stream(cid, range);
+    }
+
+    const stats = await this.inner.stat(cid);
+    if (!stats) return null;
+
+    const header = parseEnvelopeHeader(head);
+    const segments = envelopeRangeFor(header, stats.size, range);
+    const stored = await this.inner.stream(cid, segments.stored);
+    if (!stored) return null;
+
+    return pipe(
+      stored,
+      new EnvelopeDecryptStream(
+        this.encryption.getDataKey(header.keyId),
+        header,
+        segments.firstSegment,
+        segments.totalSegments
+      ),
+      new SliceStream(segments.slice.start, segments.slice.end),
+      () => {}
+    );
+  }
+
+  async has(cid: string): Promise<boolean> {
+    return this.inner.has(cid);
+  }
+
+  async delete(cid: string): Promise<boolean> {
+    return this.inner.delete(cid);
+  }
+
+  async list(): Promise<string[]> {
+    return this.inner.list();
+  }
+
+  async stat(cid: string): Promise<{ size: number } | null> {
+    return this.inner.stat(cid);
+  }
+
+  /**
+   * Rewrite every blob not encrypted under the active data key
+   *
+   * Runs while the node is serving; stops early when the signal aborts.
+   */
+  async reencrypt(signal?: AbortSignal): Promise<{ reencrypted: number; failed: number }> {
+    let reencrypted = 0;
+    let failed = 0;
+
+    for (const cid of await this.inner.list()) {
+      if (signal?.aborted) break;
+
+      try {
+        const head = await this.readHeader(cid);
+        if (!head || this.encryption.isCurrent(head)) continue;
+
+        const data = await this.get(cid);
+        // Skip blobs deleted while they were being read
+        if (!data || !(await this.inner.has(cid))) continue;
+
+        await this.put(cid, data);
+        reencrypted++;
+      } catch (error: any) {
+        failed++;
+        logger.warn('Failed to re-encrypt blob', { cid, error: error.message });
+      }
+    }
+
+    return { reencrypted, failed };
+  }
+
+  private async readHeader(cid: string): Promise<Buffer | null> {
+    const stream = await this.inner.stream(cid, { start: 0, end: ENVELOPE_HEADER_SIZE - 1 });
+    if (!stream) return null;
+    return Buffer.concat(await stream.toArray());
+  }
+}
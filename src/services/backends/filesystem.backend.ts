@@ -0,0 +1,248 @@
+/**
+ * HASHD Vault - Filesystem Storage Backend
+ *
+ * One file per blob, fanned out under directories named by CID prefixes
+ * (blobs/ab/cd/<cid>.enc) so no directory grows past a few thousand
+ * entries. Writes go through a temp file and rename, so readers never
+ * observe partially written data.
+ *
+ * A crash between writing a temp file and renaming it leaves the temp file
+ * behind; removeTempFiles cleans these up.
+ *
+ * Data directories from before the fan-out keep working: reads fall back
+ * to the flat blobs/<cid>.enc path until migrateLayout has moved the file.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { logger } from '../../utils/logger.js';
+import { ByteRange, StorageBackend } from '../../types/index.js';
+
+/** 1 = flat blobs/<cid>.enc, 2 = blobs/<cid[0:2]>/<cid[2:4]>/<cid>.enc */
+export const BLOB_LAYOUT_VERSION = 2;
+
+const BLOB_EXTENSION = '.enc';
+const TEMP_EXTENSION = '.tmp';
+
+export class FilesystemBackend implements StorageBackend {
+  readonly type = 'filesystem' as const;
+  private blobsDir: string;
+
+  constructor(dataDir: string) {
+    this.blobsDir = path.join(dataDir, 'blobs');
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.blobsDir, { recursive: true });
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  async put(cid: string, data: Buffer): Promise<void> {
+    const blobPath = this.getBlobPath(cid);
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+    await this.writeAtomic(blobPath, data);
+    await this.removeLegacyCopy(cid);
+  }
+
+  async putFile(cid: string, filePath: string): Promise<void> {
+    const blobPath = this.getBlobPath(cid);
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+    try {
+      // Callers usually stage inside dataDir, so the rename is atomic
+      await fs.rename(filePath, blobPath);
+    } catch (error: any) {
+      if (error.code !== 'EXDEV') throw error;
+      // Staged on another disk (a cold tier): copy next to the blob, then rename
+      await this.copyAtomic(filePath, blobPath);
+      await fs.unlink(filePath).catch(() => {});
+    }
+    await this.removeLegacyCopy(cid);
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    return this.withBlobPath(cid, blobPath => fs.readFile(blobPath));
+  }
+
+  async stream(cid: string, range?: ByteRange): Promise<Readable | null> {
+    const handle = await this.withBlobPath(cid, blobPath => fs.open(blobPath, 'r'));
+    if (!handle) return null;
+    return handle.createReadStream(range ? { start: range.start, end: range.end } : {});
+  }
+
+  async has(cid: string): Promise<boolean> {
+    try {
+      return (await this.withBlobPath(cid, blobPath => fs.access(blobPath).then(() => true))) ?? false;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(cid: string): Promise<boolean> {
+    return (await this.withBlobPath(cid, blobPath => fs.unlink(blobPath).then(() => true))) ?? false;
+  }
+
+  async list(): Promise<string[]> {
+    // A Set, because a blob being moved can briefly show up at both paths
+    const cids = new Set<string>();
+
+    for (const entry of await fs.readdir(this.blobsDir, { withFileTypes: true })) {
+      if (entry.isFile()) {
+        if (entry.name.endsWith(BLOB_EXTENSION)) {
+          cids.add(entry.name.slice(0, -BLOB_EXTENSION.length));
+        }
+        continue;
+      }
+      if (!entry.isDirectory()) continue;
+
+      const level1 = path.join(this.blobsDir, entry.name);
+      for (const sub of await readdirIfExists(level1)) {
+        for (const file of await readdirIfExists(path.join(level1, sub))) {
+          if (file.endsWith(BLOB_EXTENSION)) {
+            cids.add(file.slice(0, -BLOB_EXTENSION.length));
+          }
+        }
+      }
+    }
+
+    return [...cids];
+  }
+
+  async stat(cid: string): Promise<{ size: number } | null> {
+    const stats = await this.withBlobPath(cid, blobPath => fs.stat(blobPath));
+    return stats ? { size: stats.size } : null;
+  }
+
+  /**
+   * Move blobs from the flat layout into the fan-out directories
+   *
+   * Safe while the node is serving: each move is a single rename and
+   * readers fall back between the two paths. Failures are logged and
+   * left in place for the next run.
+   */
+  async migrateLayout(): Promise<{ moved: number; failed: number }> {
+    let moved = 0;
+    let failed = 0;
+
+    for (const entry of await fs.readdir(this.blobsDir, { withFileTypes: true })) {
+      if (!entry.isFile() || !entry.name.endsWith(BLOB_EXTENSION)) continue;
+
+      const cid = entry.name.slice(0, -BLOB_EXTENSION.length);
+      const blobPath = this.getBlobPath(cid);
+      try {
+        await fs.mkdir(path.dirname(blobPath), { recursive: true });
+        await fs.rename(this.getLegacyBlobPath(cid), blobPath);
+        moved++;
+      } catch (error: any) {
+        // Deleted while we were walking the directory
+        if (error.code === 'ENOENT') continue;
+        failed++;
+        logger.warn('Failed to move blob to fan-out layout', { cid, error: error.message });
+      }
+    }
+
+    return { moved, failed };
+  }
+
+  /**
+   * Remove temp files of interrupted writes last modified before a time
+   *
+   * @returns files removed
+   */
+  async removeTempFiles(modifiedBefore: number): Promise<number> {
+    let removed = 0;
+    const removeIn = async (dir: string, names: string[]) => {
+      for (const name of names) {
+        if (!name.endsWith(TEMP_EXTENSION)) continue;
+        const filePath = path.join(dir, name);
+        try {
+          const { mtimeMs } = await fs.stat(filePath);
+          if (mtimeMs >= modifiedBefore) continue;
+          await fs.unlink(filePath);
+          removed++;
+        } catch (error: any) {
+          // Renamed into place meanwhile
+          if (error.code !== 'ENOENT') throw error;
+        }
+      }
+    };
+
+    const top = await readdirIfExists(this.blobsDir);
+    await removeIn(this.blobsDir, top);
+    for (const level1 of top) {
+      const level1Dir = path.join(this.blobsDir, level1);
+      for (const level2 of await readdirIfExists(level1Dir)) {
+        const level2Dir = path.join(level1Dir, level2);
+        await removeIn(level2Dir, await readdirIfExists(level2Dir));
+      }
+    }
+
+    return removed;
+  }
+
+  private getBlobPath(cid: string): string {
+    return path.join(this.blobsDir, cid.slice(0, 2), cid.slice(2, 4), `${cid}${BLOB_EXTENSION}`);
+  }
+
+  private getLegacyBlobPath(cid: string): string {
+    return path.join(this.blobsDir, `${cid}${BLOB_EXTENSION}`);
+  }
+
+  /**
+   * Run an operation against the blob's file, wherever it currently lives
+   *
+   * Tries the fan-out path, then the flat path, then the fan-out path once
+   * more in case migrateLayout moved the file in between. Null if missing.
+   */
+  private async withBlobPath<T>(cid: string, operation: (blobPath: string) => Promise<T>): Promise<T | null> {
+    const attempts = [this.getBlobPath(cid), this.getLegacyBlobPath(cid), this.getBlobPath(cid)];
+
+    for (const blobPath of attempts) {
+      try {
+        return await operation(blobPath);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    return null;
+  }
+
+  private async removeLegacyCopy(cid: string): Promise<void> {
+    await fs.unlink(this.getLegacyBlobPath(cid)).catch(() => {});
+  }
+
+  private async copyAtomic(sourcePath: string, filePath: string): Promise<void> {
+    const tempPath = `${filePath}.${crypto.randomUUID()}${TEMP_EXTENSION}`;
+    try {
+      await fs.copyFile(sourcePath, tempPath);
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  private async writeAtomic(filePath: string, data: Buffer | string): Promise<void> {
+    const tempPath = `${filePath}.${crypto.randomUUID()}${TEMP_EXTENSION}`;
+    try {
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+}
+
+async function readdirIfExists(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') return [];
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * HASHD Vault - Storage Backends
+ */
+
+import { StorageBackend, StorageBackendType } from '../../types/index.js';
+import { FilesystemBackend } from './filesystem.backend.js';
+import { SqliteBackend } from './sqlite.backend.js';
+
+export { FilesystemBackend, BLOB_LAYOUT_VERSION } from './filesystem.backend.js';
+export { SqliteBackend } from './sqlite.backend.js';
+export { MetadataIndex, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './metadata-index.js';
+export type { MetadataCipher, WriteJournalEntry } from './metadata-index.js';
+export { EncryptedBackend } from './encrypted.backend.js';
+export { TieredBackend } from './tiered.backend.js';
+export { VolumeBackend } from './volume.backend.js';
+
+/**
+ * Create the backend for a data directory (not yet initialized)
+ */
+export function createStorageBackend(
+  dataDir: string,
+  type: StorageBackendType = 'filesystem'
+): StorageBackend {
+  switch (type) {
+    case 'filesystem':
+      return new FilesystemBackend(dataDir);
+    case 'sqlite':
+      return new SqliteBackend(dataDir);
+    default:
+      throw new Error(`Unknown storage backend: ${type}`);
+  }
+}
@@ -0,0 +1,1281 @@
+/**
+ * HASHD Vault - Metadata Index
+ *
+ * Blob metadata lives in an embedded SQLite database keyed by CID, with
+ * indexes on createdAt, size, appId, contentType, sender and pinned. Storage
+ * totals are kept in a single row that triggers adjust on every insert,
+ * update and delete, so stats and capacity checks never scan the store.
+ * The index is shared by every blob backend in a data directory.
+ *
+ * Every owner of a blob also gets a row in blob_owners, so appId and
+ * sender queries match blobs stored by more than one app or sender.
+ *
+ * Deleted blobs' records move to the trash table until they are restored
+ * or purged; they no longer count towards the storage totals.
+ *
+ * Per-app and per-sender usage (for quotas) is kept the same way as the
+ * totals, from the appId and sender columns and each record's uploaded
+ * size (logical_size: a manifest's whole content, not its own bytes).
+ *
+ * With a cold tier, each record's tier column says where its bytes are;
+ * per-tier totals are kept like the others. last_accessed, retrieval_count
+ * and tier_reads (the retrieval count when the blob last changed tier)
+ * drive the choice of blobs to move. Reads reach the index in batches
+ * (recordAccess), so these lag behind until StorageService flushes them.
+ *
+ * Each record's compression algorithm and uncompressed size are indexed
+ * too, with per-algorithm totals, so compression savings can be reported.
+ *
+ * Usage breakdowns scan the indexed columns (including mime_type and
+ * retrieval_count) rather than decoding records. mime_type is left empty
+ * when records are encrypted, as it is not needed for queries; scans that
+ * need it then read it from the record.
+ *
+ * Stores are journaled in write_journal: an entry is added before the
+ * bytes are written and removed in the same transaction that commits the
+ * record, so an entry left at startup marks a store a crash interrupted.
+ *
+ * With encryption at rest the JSON records are encrypted; the indexed
+ * columns have to stay readable for queries.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { logger } from '../../utils/logger.js';
+import { compressionOf, matchesMimeType } from '../../utils/compression.js';
+import { SQLITE_FILENAME } from './sqlite.backend.js';
+import {
+  BlobAccessMetrics,
+  BlobMetadata,
+  BlobSortField,
+  CompressionAlgorithm,
+  InvalidRequestError,
+  MetadataPage,
+  MetadataQuery,
+  QuotaScope,
+  QuotaUsage,
+  StorageBackend,
+  StorageTier,
+  StorageTotals,
+  TrashEntry,
+  TrashPage,
+  UsageRecord
+} from '../../types/index.js';
+
+export const METADATA_DB_FILENAME = 'metadata.sqlite';
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+// Records a filtered page reads at most before returning what it found
+const MAX_SCANNED_ROWS = 10 * MAX_PAGE_SIZE;
+
+// Index column each sort field orders by
+const SORT_COLUMNS: Record<BlobSortField, string> = {
+  createdAt: 'created_at',
+  size: 'original_size'
+};
+
+const IMPORT_BATCH_SIZE = 1000;
+
+/**
+ * Encrypts the stored JSON records (implemented by EncryptionService)
+ */
+export interface MetadataCipher {
+  encryptText(text: string): string;
+  decryptText(text: string): string;
+  isCurrentText(text: string): boolean;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS blob_metadata (
+    cid TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    app_id TEXT,
+    content_type TEXT,
+    sender TEXT,
+    pinned INTEGER NOT NULL DEFAULT 0,
+    stored_size INTEGER NOT NULL,
+    json TEXT NOT NULL,
+    logical_size INTEGER NOT NULL DEFAULT 0,
+    mime_type TEXT,
+    retrieval_count INTEGER NOT NULL DEFAULT 0,
+    last_accessed INTEGER NOT NULL DEFAULT 0,
+    chunk INTEGER NOT NULL DEFAULT 0,
+    tier TEXT NOT NULL DEFAULT 'hot',
+    tier_reads INTEGER NOT NULL DEFAULT 0,
+    compression TEXT NOT NULL DEFAULT 'none',
+    original_size INTEGER NOT NULL DEFAULT 0
+  ) WITHOUT ROWID;
+
+  CREATE INDEX IF NOT EXISTS idx_blob_metadata_created ON blob_metadata (created_at, cid);
+  CREATE INDEX IF NOT EXISTS idx_blob_metadata_app ON blob_metadata (app_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_blob_metadata_content_type ON blob_metadata (content_type, created_at);
+  CREATE INDEX IF NOT EXISTS idx_blob_metadata_sender ON blob_metadata (sender, created_at);
+  CREATE INDEX IF NOT EXISTS idx_blob_metadata_pinned ON blob_metadata (pinned, created_at);
+  CREATE INDEX IF NOT EXISTS idx_blob_metadata_tier ON blob_metadata (tier, chunk, last_accessed);
+  CREATE INDEX IF NOT EXISTS idx_blob_metadata_size ON blob_metadata (original_size, cid);
+
+  CREATE TABLE IF NOT EXISTS blob_owners (
+    cid TEXT NOT NULL,
+    app_id TEXT,
+    sender TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_blob_owners_cid ON blob_owners (cid);
+  CREATE INDEX IF NOT EXISTS idx_blob_owners_app ON blob_owners (app_id);
+  CREATE INDEX IF NOT EXISTS idx_blob_owners_sender ON blob_owners (sender);
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_delete_owners AFTER DELETE ON blob_metadata BEGIN
+    DELETE FROM blob_owners WHERE cid = OLD.cid;
+  END;
+
+  CREATE TABLE IF NOT EXISTS trash (
+    cid TEXT PRIMARY KEY,
+    deleted_at INTEGER NOT NULL,
+    purge_after INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    stored_size INTEGER NOT NULL,
+    json TEXT NOT NULL
+  ) WITHOUT ROWID;
+
+  CREATE INDEX IF NOT EXISTS idx_trash_deleted ON trash (deleted_at, cid);
+  CREATE INDEX IF NOT EXISTS idx_trash_purge ON trash (purge_after);
+
+  CREATE TABLE IF NOT EXISTS write_journal (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    cid TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    created TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_write_journal_cid ON write_journal (cid);
+
+  CREATE TABLE IF NOT EXISTS totals (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    blob_count INTEGER NOT NULL,
+    total_size INTEGER NOT NULL,
+    pinned_count INTEGER NOT NULL,
+    pinned_size INTEGER NOT NULL
+  );
+  INSERT OR IGNORE INTO totals VALUES (1, 0, 0, 0, 0);
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_insert AFTER INSERT ON blob_metadata BEGIN
+    UPDATE totals SET
+      blob_count = blob_count + 1,
+      total_size = total_size + NEW.stored_size,
+      pinned_count = pinned_count + NEW.pinned,
+      pinned_size = pinned_size + NEW.pinned * NEW.stored_size;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_delete AFTER DELETE ON blob_metadata BEGIN
+    UPDATE totals SET
+      blob_count = blob_count - 1,
+      total_size = total_size - OLD.stored_size,
+      pinned_count = pinned_count - OLD.pinned,
+      pinned_size = pinned_size - OLD.pinned * OLD.stored_size;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_update AFTER UPDATE OF stored_size, pinned ON blob_metadata BEGIN
+    UPDATE totals SET
+      total_size = total_size - OLD.stored_size + NEW.stored_size,
+      pinned_count = pinned_count - OLD.pinned + NEW.pinned,
+      pinned_size = pinned_size - OLD.pinned * OLD.stored_size + NEW.pinned * NEW.stored_size;
+  END;
+`;
+
+/**
+ * Columns added to blob_metadata after its first release. When an older
+ * index is opened they are added and those derived from the records are
+ * filled in; every blob starts in the hot tier.
+ */
+const ADDED_COLUMNS: Record<string, string> = {
+  logical_size: 'INTEGER NOT NULL DEFAULT 0',
+  mime_type: 'TEXT',
+  retrieval_count: 'INTEGER NOT NULL DEFAULT 0',
+  last_accessed: 'INTEGER NOT NULL DEFAULT 0',
+  chunk: 'INTEGER NOT NULL DEFAULT 0',
+  tier: "TEXT NOT NULL DEFAULT 'hot'",
+  tier_reads: 'INTEGER NOT NULL DEFAULT 0',
+  compression: "TEXT NOT NULL DEFAULT 'none'",
+  original_size: 'INTEGER NOT NULL DEFAULT 0'
+};
+
+const USAGE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS quota_usage (
+    scope TEXT NOT NULL,
+    key TEXT NOT NULL,
+    blob_count INTEGER NOT NULL,
+    total_size INTEGER NOT NULL,
+    PRIMARY KEY (scope, key)
+  ) WITHOUT ROWID;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_usage_insert AFTER INSERT ON blob_metadata BEGIN
+    ${usageAdd('NEW')}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_usage_delete AFTER DELETE ON blob_metadata BEGIN
+    ${usageRemove('OLD')}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_usage_update AFTER UPDATE OF app_id, sender, logical_size ON blob_metadata
+  WHEN OLD.app_id IS NOT NEW.app_id OR OLD.sender IS NOT NEW.sender OR OLD.logical_size != NEW.logical_size
+  BEGIN
+    ${usageRemove('OLD')}
+    ${usageAdd('NEW')}
+  END;
+`;
+
+const TIER_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tier_totals (
+    tier TEXT PRIMARY KEY,
+    blob_count INTEGER NOT NULL,
+    total_size INTEGER NOT NULL
+  ) WITHOUT ROWID;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_tier_insert AFTER INSERT ON blob_metadata BEGIN
+    ${tierAdd('NEW')}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_tier_delete AFTER DELETE ON blob_metadata BEGIN
+    ${tierRemove('OLD')}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_tier_update AFTER UPDATE OF tier, stored_size ON blob_metadata
+  WHEN OLD.tier != NEW.tier OR OLD.stored_size != NEW.stored_size
+  BEGIN
+    ${tierRemove('OLD')}
+    ${tierAdd('NEW')}
+  END;
+`;
+
+const COMPRESSION_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS compression_totals (
+    algorithm TEXT PRIMARY KEY,
+    blob_count INTEGER NOT NULL,
+    original_size INTEGER NOT NULL,
+    stored_size INTEGER NOT NULL
+  ) WITHOUT ROWID;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_compression_insert AFTER INSERT ON blob_metadata BEGIN
+    ${compressionAdd('NEW')}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_compression_delete AFTER DELETE ON blob_metadata BEGIN
+    ${compressionRemove('OLD')}
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS blob_metadata_compression_update AFTER UPDATE OF compression, original_size, stored_size ON blob_metadata
+  WHEN OLD.compression != NEW.compression OR OLD.original_size != NEW.original_size OR OLD.stored_size != NEW.stored_size
+  BEGIN
+    ${compressionRemove('OLD')}
+    ${compressionAdd('NEW')}
+  END;
+`;
+
+function compressionAdd(row: 'NEW' | 'OLD'): string {
+  return `
+    INSERT INTO compression_totals (algorithm, blob_count, original_size, stored_size)
+      VALUES (${row}.compression, 1, ${row}.original_size, ${row}.stored_size)
+      ON CONFLICT (algorithm) DO UPDATE SET
+        blob_count = blob_count + 1,
+        original_size = original_size + excluded.original_size,
+        stored_size = stored_size + excluded.stored_size;`;
+}
+
+function compressionRemove(row: 'NEW' | 'OLD'): string {
+  return `
+    UPDATE compression_totals SET
+      blob_count = blob_count - 1,
+      original_size = original_size - ${row}.original_size,
+      stored_size = stored_size - ${row}.stored_size
+      WHERE algorithm = ${row}.compression;`;
+}
+
+function tierAdd(row: 'NEW' | 'OLD'): string {
+  return `
+    INSERT INTO tier_totals (tier, blob_count, total_size) VALUES (${row}.tier, 1, ${row}.stored_size)
+      ON CONFLICT (tier) DO UPDATE SET
+        blob_count = blob_count + 1,
+        total_size = total_size + excluded.total_size;`;
+}
+
+function tierRemove(row: 'NEW' | 'OLD'): string {
+  return `
+    UPDATE tier_totals SET
+      blob_count = blob_count - 1,
+      total_size = total_size - ${row}.stored_size
+      WHERE tier = ${row}.tier;`;
+}
+
+/**
+ * Trigger statements counting a row towards its app's and sender's usage
+ */
+function usageAdd(row: 'NEW' | 'OLD'): string {
+  const targets = [
+    { scope: 'app', key: `${row}.app_id` },
+    { scope: 'sender', key: `lower(${row}.sender)` }
+  ];
+  return targets.map(({ scope, key }) => `
+    INSERT INTO quota_usage (scope, key, blob_count, total_size)
+      SELECT '${scope}', ${key}, 1, ${row}.logical_size WHERE ${key} IS NOT NULL
+      ON CONFLICT (scope, key) DO UPDATE SET
+        blob_count = blob_count + 1,
+        total_size = total_size + excluded.total_size;`).join('');
+}
+
+/**
+ * Trigger statements removing a row from its app's and sender's usage
+ */
+function usageRemove(row: 'NEW' | 'OLD'): string {
+  const match = `((scope = 'app' AND key = ${row}.app_id) OR (scope = 'sender' AND key = lower(${row}.sender)))`;
+  return `
+    UPDATE quota_usage SET
+      blob_count = blob_count - 1,
+      total_size = total_size - ${row}.logical_size
+      WHERE ${match};
+    DELETE FROM quota_usage WHERE ${match} AND blob_count <= 0;`;
+}
+
+export interface WriteJournalEntry {
+  id: number;
+  cid: string;
+  startedAt: number;
+  created: string[];
+}
+
+interface TrashRow {
+  cid: string;
+  deleted_at: number;
+  purge_after: number;
+  reason: string;
+  stored_size: number;
+  json: string;
+}
+
+export class MetadataIndex {
+  private dataDir: string;
+  private dbPath: string;
+  private db: Database.Database | null = null;
+  private cipher: MetadataCipher | null = null;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    this.dbPath = path.join(dataDir, METADATA_DB_FILENAME);
+  }
+
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    await fs.mkdir(this.dataDir, { recursive: true });
+
+    const { default: SQLite } = await import('better-sqlite3');
+    const db = new SQLite(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+
+    // Older indexes need the columns added since and a backfill
+    const hasTable = db
+      .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'blob_metadata'")
+      .get() !== undefined;
+    const columns = new Set(
+      (db.prepare('PRAGMA table_info(blob_metadata)').all() as Array<{ name: string }>).map(c => c.name)
+    );
+    const missing = hasTable ? Object.keys(ADDED_COLUMNS).filter(name => !columns.has(name)) : [];
+    for (const name of missing) {
+      db.exec(`ALTER TABLE blob_metadata ADD COLUMN ${name} ${ADDED_COLUMNS[name]}`);
+    }
+
+    db.exec(SCHEMA);
+    db.exec(USAGE_SCHEMA);
+    db.exec(TIER_SCHEMA);
+    db.exec(COMPRESSION_SCHEMA);
+    this.db = db;
+
+    if (missing.length > 0) {
+      this.rebuildDerived();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Encrypt records from now on (existing ones are rewritten by reencrypt)
+   */
+  setCipher(cipher: MetadataCipher | null): void {
+    this.cipher = cipher;
+  }
+
+  async get(cid: string): Promise<BlobMetadata | null> {
+    const row = this.getDb()
+      .prepare('SELECT json FROM blob_metadata WHERE cid = ?')
+      .get(cid) as { json: string } | undefined;
+    return row ? this.decode(row.json) : null;
+  }
+
+  /**
+   * Insert or replace a record; storedSize is the size of the stored bytes
+   */
+  async put(metadata: BlobMetadata, storedSize: number): Promise<void> {
+    const db = this.getDb();
+    db.transaction(() => {
+      this.upsert(metadata, storedSize);
+      // The record is what completes a journaled store
+      db.prepare('DELETE FROM write_journal WHERE cid = ?').run(metadata.cid);
+    })();
+  }
+
+  /**
+   * Journal a store before its bytes are written
+   *
+   * @param created - other CIDs the store writes and a rollback removes (new chunks)
+   * @returns the entry's ID, for updateWrite and endWrite
+   */
+  async beginWrite(cid: string, created: string[] = []): Promise<number> {
+    const { lastInsertRowid } = this.getDb()
+      .prepare('INSERT INTO write_journal (cid, started_at, created) VALUES (?, ?, ?)')
+      .run(cid, Date.now(), JSON.stringify(created));
+    return Number(lastInsertRowid);
+  }
+
+  async updateWrite(id: number, created: string[]): Promise<void> {
+    this.getDb().prepare('UPDATE write_journal SET created = ? WHERE id = ?').run(JSON.stringify(created), id);
+  }
+
+  /**
+   * Drop a journal entry whose store was rolled back or needs no record
+   */
+  async endWrite(id: number): Promise<void> {
+    this.getDb().prepare('DELETE FROM write_journal WHERE id = ?').run(id);
+  }
+
+  /**
+   * Journaled stores that have not completed (oldest first)
+   */
+  async listWrites(): Promise<WriteJournalEntry[]> {
+    const rows = this.getDb()
+      .prepare('SELECT id, cid, started_at, created FROM write_journal ORDER BY id')
+      .all() as Array<{ id: number; cid: string; started_at: number; created: string }>;
+    return rows.map(row => ({ id: row.id, cid: row.cid, startedAt: row.started_at, created: JSON.parse(row.created) }));
+  }
+
+  async isWritePending(cid: string): Promise<boolean> {
+    return this.getDb().prepare('SELECT 1 FROM write_journal WHERE cid = ? LIMIT 1').get(cid) !== undefined;
+  }
+
+  /**
+   * Replace an existing record, keeping its stored size; false if missing
+   */
+  async update(metadata: BlobMetadata): Promise<boolean> {
+    const db = this.getDb();
+    return db.transaction(() => {
+      const { changes } = db
+        .prepare(`
+          UPDATE blob_metadata SET
+            created_at = @createdAt,
+            app_id = @appId,
+            content_type = @contentType,
+            sender = @sender,
+            pinned = @pinned,
+            json = @json,
+            logical_size = @logicalSize,
+            mime_type = @mimeType,
+            retrieval_count = @retrievalCount,
+            last_accessed = @lastAccessed,
+            chunk = @chunk,
+            compression = @compression,
+            original_size = @originalSize
+          WHERE cid = @cid
+        `)
+        .run(this.toColumns(metadata));
+      if (changes > 0) {
+        this.replaceOwners(metadata);
+      }
+      return changes > 0;
+    })();
+  }
+
+  async delete(cid: string): Promise<boolean> {
+    const { changes } = this.getDb().prepare('DELETE FROM blob_metadata WHERE cid = ?').run(cid);
+    return changes > 0;
+  }
+
+  async listCids(): Promise<string[]> {
+    const rows = this.getDb().prepare('SELECT cid FROM blob_metadata').all() as Array<{ cid: string }>;
+    return rows.map(r => r.cid);
+  }
+
+  /**
+   * One page of records, newest first unless sorted otherwise
+   *
+   * Pages are keyed on (sort field, cid) rather than offsets, so blobs
+   * stored or deleted between requests never shift later pages.
+   *
+   * Filters on indexed columns run in SQL. The MIME type of encrypted
+   * records and anything in match are checked on the decoded records; such
+   * a page stops after MAX_SCANNED_ROWS records and can then hold fewer
+   * than limit blobs while more follow (nextCursor is set).
+   */
+  async query(query: MetadataQuery = {}, match?: (metadata: BlobMetadata) => boolean): Promise<MetadataPage> {
+    const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+    const { where, params, filter } = this.buildQuery(query, match);
+    const sort = query.sort ?? 'createdAt';
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    if (query.cursor) {
+      const { createdAt: value, cid } = decodeCursor(query.cursor);
+      const after = direction === 'ASC' ? '>' : '<';
+      const column = SORT_COLUMNS[sort];
+      where.push(`(${column} ${after} @cursorValue OR (${column} = @cursorValue AND cid ${after} @cursorCid))`);
+      params.cursorValue = value;
+      params.cursorCid = cid;
+    }
+
+    const rows = this.getDb()
+      .prepare(`
+        SELECT json FROM blob_metadata ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY ${SORT_COLUMNS[sort]} ${direction}, cid ${direction}
+      `)
+      .iterate(params) as IterableIterator<{ json: string }>;
+
+    const blobs: BlobMetadata[] = [];
+    let resumeAfter: BlobMetadata | undefined;
+    let scanned = 0;
+    for (const row of rows) {
+      const metadata = this.decode(row.json);
+      if (filter && !filter(metadata)) {
+        if (++scanned >= MAX_SCANNED_ROWS) {
+          resumeAfter = metadata;
+          break;
+        }
+        continue;
+      }
+      if (blobs.length === limit) {
+        resumeAfter = blobs[blobs.length - 1];
+        break;
+      }
+      blobs.push(metadata);
+    }
+
+    return {
+      blobs,
+      nextCursor: resumeAfter ? encodeCursor(sortValue(resumeAfter, sort), resumeAfter.cid) : undefined
+    };
+  }
+
+  /**
+   * Number of records a query matches (limit, cursor and sort are ignored)
+   */
+  async count(query: MetadataQuery = {}, match?: (metadata: BlobMetadata) => boolean): Promise<number> {
+    const { where, params, filter } = this.buildQuery(query, match);
+    const whereClause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+
+    if (!filter) {
+      const row = this.getDb()
+        .prepare(`SELECT COUNT(*) AS count FROM blob_metadata ${whereClause}`)
+        .get(params) as { count: number };
+      return row.count;
+    }
+
+    const rows = this.getDb()
+      .prepare(`SELECT json FROM blob_metadata ${whereClause}`)
+      .iterate(params) as IterableIterator<{ json: string }>;
+    let count = 0;
+    for (const row of rows) {
+      if (filter(this.decode(row.json))) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Move a record into the trash; null if there was no record
+   */
+  async moveToTrash(
+    cid: string,
+    entry: { deletedAt: number; purgeAfter: number; reason: string }
+  ): Promise<TrashEntry | null> {
+    const db = this.getDb();
+    const row = db.transaction(() => {
+      const existing = db
+        .prepare('SELECT stored_size, json FROM blob_metadata WHERE cid = ?')
+        .get(cid) as { stored_size: number; json: string } | undefined;
+      if (!existing) return undefined;
+
+      db
+        .prepare(`
+          INSERT OR REPLACE INTO trash (cid, deleted_at, purge_after, reason, stored_size, json)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `)
+        .run(cid, entry.deletedAt, entry.purgeAfter, entry.reason, existing.stored_size, existing.json);
+      db.prepare('DELETE FROM blob_metadata WHERE cid = ?').run(cid);
+      return existing;
+    })();
+
+    return row ? { cid, ...entry, storedSize: row.stored_size, metadata: this.decode(row.json) } : null;
+  }
+
+  async getTrashEntry(cid: string): Promise<TrashEntry | null> {
+    const row = this.getDb()
+      .prepare('SELECT * FROM trash WHERE cid = ?')
+      .get(cid) as TrashRow | undefined;
+    return row ? this.decodeTrashRow(row) : null;
+  }
+
+  /**
+   * Put a trashed record back in place of its trash entry
+   */
+  async restoreFromTrash(metadata: BlobMetadata, storedSize: number): Promise<void> {
+    const db = this.getDb();
+    db.transaction(() => {
+      this.upsert(metadata, storedSize);
+      db.prepare('DELETE FROM trash WHERE cid = ?').run(metadata.cid);
+    })();
+  }
+
+  async deleteTrashEntry(cid: string): Promise<boolean> {
+    const { changes } = this.getDb().prepare('DELETE FROM trash WHERE cid = ?').run(cid);
+    return changes > 0;
+  }
+
+  /**
+   * One page of trash entries, most recently deleted first
+   */
+  async queryTrash(query: { limit?: number; cursor?: string } = {}): Promise<TrashPage> {
+    const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+    const params: Record<string, string | number> = { limit: limit + 1 };
+    let where = '';
+
+    if (query.cursor) {
+      const { createdAt: deletedAt, cid } = decodeCursor(query.cursor);
+      where = 'WHERE deleted_at < @cursorDeletedAt OR (deleted_at = @cursorDeletedAt AND cid < @cursorCid)';
+      params.cursorDeletedAt = deletedAt;
+      params.cursorCid = cid;
+    }
+
+    const rows = this.getDb()
+      .prepare(`SELECT * FROM trash ${where} ORDER BY deleted_at DESC, cid DESC LIMIT @limit`)
+      .all(params) as TrashRow[];
+
+    const entries = rows.slice(0, limit).map(row => this.decodeTrashRow(row));
+    const last = entries[entries.length - 1];
+
+    return {
+      entries,
+      nextCursor: rows.length > limit ? encodeCursor(last.deletedAt, last.cid) : undefined
+    };
+  }
+
+  /**
+   * CIDs whose retention window ended at or before now (oldest first)
+   */
+  async listPurgeableTrash(now: number, limit: number): Promise<Array<{ cid: string; storedSize: number }>> {
+    const rows = this.getDb()
+      .prepare('SELECT cid, stored_size FROM trash WHERE purge_after <= ? ORDER BY purge_after LIMIT ?')
+      .all(now, limit) as Array<{ cid: string; stored_size: number }>;
+    return rows.map(r => ({ cid: r.cid, storedSize: r.stored_size }));
+  }
+
+  /**
+   * Count and stored size of trash entries, optionally only those due by a time
+   */
+  async getTrashTotals(dueBy?: number): Promise<{ count: number; size: number }> {
+    const row = this.getDb()
+      .prepare('SELECT COUNT(*) AS count, COALESCE(SUM(stored_size), 0) AS size FROM trash WHERE purge_after <= ?')
+      .get(dueBy ?? Number.MAX_SAFE_INTEGER) as { count: number; size: number };
+    return { count: row.count, size: row.size };
+  }
+
+  /**
+   * Usage of one app or sender (zero if it stores nothing)
+   */
+  async getUsage(scope: QuotaScope, key: string): Promise<QuotaUsage> {
+    const normalized = scope === 'sender' ? key.toLowerCase() : key;
+    const row = this.getDb()
+      .prepare('SELECT blob_count, total_size FROM quota_usage WHERE scope = ? AND key = ?')
+      .get(scope, normalized) as { blob_count: number; total_size: number } | undefined;
+    return { scope, key: normalized, blobCount: row?.blob_count ?? 0, totalSize: row?.total_size ?? 0 };
+  }
+
+  /**
+   * Apps or senders by usage, largest first
+   */
+  async listUsage(scope: QuotaScope, limit = DEFAULT_PAGE_SIZE): Promise<QuotaUsage[]> {
+    const rows = this.getDb()
+      .prepare('SELECT key, blob_count, total_size FROM quota_usage WHERE scope = ? ORDER BY total_size DESC, key LIMIT ?')
+      .all(scope, Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE)) as Array<{
+        key: string;
+        blob_count: number;
+        total_size: number;
+      }>;
+    return rows.map(r => ({ scope, key: r.key, blobCount: r.blob_count, totalSize: r.total_size }));
+  }
+
+  /**
+   * Visit the indexed columns of every record created in [since, until)
+   *
+   * Rows are read straight from the index, one at a time, so visit must not
+   * touch the index itself. Encrypted records are only decoded, for their
+   * MIME type, with resolveMimeTypes.
+   */
+  async scanUsage(
+    range: { since?: number; until?: number; resolveMimeTypes?: boolean },
+    visit: (record: UsageRecord) => void
+  ): Promise<number> {
+    const json = range.resolveMimeTypes ? 'CASE WHEN mime_type IS NULL THEN json END' : 'NULL';
+    const rows = this.getDb()
+      .prepare(`
+        SELECT cid, created_at, app_id, content_type, sender, mime_type, stored_size, retrieval_count, ${json} AS json
+        FROM blob_metadata WHERE created_at >= ? AND created_at < ?
+      `)
+      .iterate(range.since ?? 0, range.until ?? Number.MAX_SAFE_INTEGER) as IterableIterator<{
+        cid: string;
+        created_at: number;
+        app_id: string | null;
+        content_type: string | null;
+        sender: string | null;
+        mime_type: string | null;
+        stored_size: number;
+        retrieval_count: number;
+        json: string | null;
+      }>;
+
+    let scanned = 0;
+    for (const row of rows) {
+      visit({
+        cid: row.cid,
+        createdAt: row.created_at,
+        appId: row.app_id,
+        contentType: row.content_type,
+        sender: row.sender,
+        mimeType: row.json ? this.decodeMimeType(row.cid, row.json) : row.mime_type,
+        storedSize: row.stored_size,
+        retrievalCount: row.retrieval_count
+      });
+      scanned++;
+    }
+    return scanned;
+  }
+
+  async getTier(cid: string): Promise<StorageTier | null> {
+    const row = this.getDb()
+      .prepare('SELECT tier FROM blob_metadata WHERE cid = ?')
+      .get(cid) as { tier: StorageTier } | undefined;
+    return row?.tier ?? null;
+  }
+
+  /**
+   * Record that a blob's bytes moved tier; false if there is no record
+   */
+  async setTier(cid: string, tier: StorageTier): Promise<boolean> {
+    const { changes } = this.getDb()
+      .prepare('UPDATE blob_metadata SET tier = ?, tier_reads = retrieval_count WHERE cid = ?')
+      .run(tier, cid);
+    return changes > 0;
+  }
+
+  /**
+   * Blobs (not chunks: they move with their manifest) to move out of a
+   * tier, least recently read first for the hot tier and most recently
+   * read first for the cold one
+   *
+   * - accessedBefore: only blobs last read before this time
+   * - accessedSince: only blobs last read at or after this time
+   * - minReads: only blobs read at least this often since they last moved
+   */
+  async listTierCandidates(
+    tier: StorageTier,
+    options: { accessedBefore?: number; accessedSince?: number; minReads?: number; limit: number }
+  ): Promise<Array<{ cid: string; storedSize: number }>> {
+    const order = tier === 'hot' ? 'ASC' : 'DESC';
+    const rows = this.getDb()
+      .prepare(`
+        SELECT cid, stored_size FROM blob_metadata
+        WHERE tier = @tier AND chunk = 0 AND last_accessed < @before AND last_accessed >= @since
+          AND retrieval_count - tier_reads >= @minReads
+        ORDER BY last_accessed ${order} LIMIT @limit
+      `)
+      .all({
+        tier,
+        before: options.accessedBefore ?? Number.MAX_SAFE_INTEGER,
+        since: options.accessedSince ?? 0,
+        minReads: options.minReads ?? 0,
+        limit: options.limit
+      }) as Array<{ cid: string; stored_size: number }>;
+    return rows.map(r => ({ cid: r.cid, storedSize: r.stored_size }));
+  }
+
+  /**
+   * Count and stored size of the blobs in each tier
+   */
+  async getTierTotals(): Promise<Record<StorageTier, { blobCount: number; totalSize: number }>> {
+    const totals = { hot: { blobCount: 0, totalSize: 0 }, cold: { blobCount: 0, totalSize: 0 } };
+    const rows = this.getDb()
+      .prepare('SELECT tier, blob_count, total_size FROM tier_totals')
+      .all() as Array<{ tier: StorageTier; blob_count: number; total_size: number }>;
+    for (const row of rows) {
+      totals[row.tier] = { blobCount: row.blob_count, totalSize: row.total_size };
+    }
+    return totals;
+  }
+
+  /**
+   * Write many blobs' access metrics in one transaction
+   *
+   * Counts and access times never move backwards, so metrics a metadata
+   * update already wrote are not applied twice. Missing and unreadable
+   * records are skipped.
+   *
+   * @returns records updated
+   */
+  async recordAccess(metrics: Map<string, BlobAccessMetrics>): Promise<number> {
+    const db = this.getDb();
+    const select = db.prepare('SELECT json FROM blob_metadata WHERE cid = ?');
+    const update = db.prepare(`
+      UPDATE blob_metadata SET
+        json = @json,
+        retrieval_count = @retrievalCount,
+        last_accessed = @lastAccessed
+      WHERE cid = @cid
+    `);
+
+    return db.transaction(() => {
+      let updated = 0;
+      for (const [cid, pending] of metrics) {
+        const row = select.get(cid) as { json: string } | undefined;
+        if (!row) continue;
+
+        let metadata: BlobMetadata;
+        try {
+          metadata = this.decode(row.json);
+        } catch (error: any) {
+          logger.warn('Skipping access metrics of unreadable metadata', { cid, error: error.message });
+          continue;
+        }
+
+        metadata.metrics = {
+          retrievalCount: Math.max(metadata.metrics?.retrievalCount ?? 0, pending.retrievalCount),
+          lastAccessed: Math.max(metadata.metrics?.lastAccessed ?? 0, pending.lastAccessed),
+          avgLatency: pending.avgLatency
+        };
+        update.run({
+          cid,
+          json: this.encode(metadata),
+          retrievalCount: metadata.metrics.retrievalCount,
+          lastAccessed: metadata.metrics.lastAccessed
+        });
+        updated++;
+      }
+      return updated;
+    })();
+  }
+
+  /**
+   * Count, uncompressed size and stored size of the blobs stored with each
+   * compression algorithm in use
+   */
+  async getCompressionTotals(): Promise<Array<{ algorithm: CompressionAlgorithm; blobCount: number; originalSize: number; storedSize: number }>> {
+    const rows = this.getDb()
+      .prepare('SELECT algorithm, blob_count, original_size, stored_size FROM compression_totals WHERE blob_count > 0 ORDER BY algorithm')
+      .all() as Array<{ algorithm: CompressionAlgorithm; blob_count: number; original_size: number; stored_size: number }>;
+    return rows.map(row => ({
+      algorithm: row.algorithm,
+      blobCount: row.blob_count,
+      originalSize: row.original_size,
+      storedSize: row.stored_size
+    }));
+  }
+
+  async getTotals(): Promise<StorageTotals> {
+    const row = this.getDb()
+      .prepare('SELECT blob_count, total_size, pinned_count, pinned_size FROM totals WHERE id = 1')
+      .get() as { blob_count: number; total_size: number; pinned_count: number; pinned_size: number };
+
+    return {
+      blobCount: row.blob_count,
+      totalSize: row.total_size,
+      pinnedCount: row.pinned_count,
+      pinnedSize: row.pinned_size
+    };
+  }
+
+  /**
+   * Import metadata left by earlier versions (meta/<cid>.json files and the
+   * SQLite backend's metadata table), removing each source once imported
+   */
+  async importLegacy(backend: StorageBackend): Promise<number> {
+    let imported = 0;
+
+    const metaDir = path.join(this.dataDir, 'meta');
+    const files = await fs.readdir(metaDir).catch(() => [] as string[]);
+    const records: BlobMetadata[] = [];
+    const importedFiles: string[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        records.push(JSON.parse(await fs.readFile(path.join(metaDir, file), 'utf-8')));
+        importedFiles.push(file);
+      } catch (error: any) {
+        logger.warn('Skipping unreadable legacy metadata', { file, error: error.message });
+      }
+    }
+    if (records.length > 0) {
+      imported += await this.importRecords(records, backend);
+      for (const file of importedFiles) {
+        await fs.unlink(path.join(metaDir, file)).catch(() => {});
+      }
+      // Left in place if anything unreadable remains
+      await fs.rmdir(metaDir).catch(() => {});
+    }
+
+    const legacyDbPath = path.join(this.dataDir, SQLITE_FILENAME);
+    if (await fs.access(legacyDbPath).then(() => true).catch(() => false)) {
+      const { default: SQLite } = await import('better-sqlite3');
+      const legacyDb = new SQLite(legacyDbPath);
+      try {
+        const hasTable = legacyDb
+          .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'metadata'")
+          .get() !== undefined;
+        if (hasTable) {
+          const rows = legacyDb.prepare('SELECT json FROM metadata').all() as Array<{ json: string }>;
+          imported += await this.importRecords(rows.map(r => JSON.parse(r.json)), backend);
+          legacyDb.exec('DROP TABLE metadata');
+        }
+      } finally {
+        legacyDb.close();
+      }
+    }
+
+    return imported;
+  }
+
+  private async importRecords(records: BlobMetadata[], backend: StorageBackend): Promise<number> {
+    const db = this.getDb();
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO blob_metadata
+        (cid, created_at, app_id, content_type, sender, pinned, stored_size, json, logical_size, mime_type,
+         retrieval_count, last_accessed, chunk, compression, original_size)
+      VALUES (@cid, @createdAt, @appId, @contentType, @sender, @pinned, @storedSize, @json, @logicalSize, @mimeType,
+         @retrievalCount, @lastAccessed, @chunk, @compression, @originalSize)
+    `);
+    const insertBatch = db.transaction((rows: Array<Record<string, unknown>>) => {
+      for (const row of rows) insert.run(row);
+    });
+
+    for (let i = 0; i < records.length; i += IMPORT_BATCH_SIZE) {
+      const batch: Array<Record<string, unknown>> = [];
+      for (const metadata of records.slice(i, i + IMPORT_BATCH_SIZE)) {
+        const stats = await backend.stat(metadata.cid);
+        batch.push({ ...this.toColumns(metadata), storedSize: stats?.size ?? 0 });
+      }
+      insertBatch(batch);
+    }
+
+    return records.length;
+  }
+
+  /**
+   * Rewrite records not encrypted under the cipher's current key
+   */
+  async reencrypt(signal?: AbortSignal): Promise<number> {
+    const cipher = this.cipher;
+    if (!cipher) return 0;
+
+    let reencrypted = 0;
+    for (const table of ['blob_metadata', 'trash']) {
+      const db = this.getDb();
+      const select = db.prepare(`SELECT cid, json FROM ${table} WHERE cid > ? ORDER BY cid LIMIT ?`);
+      // Readable MIME types go with the plaintext records
+      const clearMimeType = table === 'blob_metadata' ? ', mime_type = NULL' : '';
+      const update = db.prepare(`UPDATE ${table} SET json = ?${clearMimeType} WHERE cid = ? AND json = ?`);
+      let after = '';
+
+      while (!signal?.aborted) {
+        const rows = select.all(after, IMPORT_BATCH_SIZE) as Array<{ cid: string; json: string }>;
+        if (rows.length === 0) break;
+
+        db.transaction(() => {
+          for (const row of rows) {
+            if (cipher.isCurrentText(row.json)) continue;
+            // Only if unchanged since it was read
+            const { changes } = update.run(cipher.encryptText(cipher.decryptText(row.json)), row.cid, row.json);
+            reencrypted += changes;
+          }
+        })();
+        after = rows[rows.length - 1].cid;
+      }
+    }
+
+    return reencrypted;
+  }
+
+  private upsert(metadata: BlobMetadata, storedSize: number): void {
+    this.getDb()
+      .prepare(`
+        INSERT INTO blob_metadata
+          (cid, created_at, app_id, content_type, sender, pinned, stored_size, json, logical_size, mime_type,
+           retrieval_count, last_accessed, chunk, compression, original_size)
+        VALUES (@cid, @createdAt, @appId, @contentType, @sender, @pinned, @storedSize, @json, @logicalSize, @mimeType,
+           @retrievalCount, @lastAccessed, @chunk, @compression, @originalSize)
+        ON CONFLICT (cid) DO UPDATE SET
+          created_at = excluded.created_at,
+          app_id = excluded.app_id,
+          content_type = excluded.content_type,
+          sender = excluded.sender,
+          pinned = excluded.pinned,
+          stored_size = excluded.stored_size,
+          json = excluded.json,
+          logical_size = excluded.logical_size,
+          mime_type = excluded.mime_type,
+          retrieval_count = excluded.retrieval_count,
+          last_accessed = excluded.last_accessed,
+          chunk = excluded.chunk,
+          compression = excluded.compression,
+          original_size = excluded.original_size
+      `)
+      .run({ ...this.toColumns(metadata), storedSize });
+    this.replaceOwners(metadata);
+  }
+
+  /**
+   * Recompute every record's derived columns and the usage, tier and compression totals from scratch
+   */
+  private rebuildDerived(): void {
+    const db = this.getDb();
+    const select = db.prepare('SELECT cid, stored_size, json FROM blob_metadata WHERE cid > ? ORDER BY cid LIMIT ?');
+    const update = db.prepare(`
+      UPDATE blob_metadata SET
+        logical_size = @logicalSize,
+        mime_type = @mimeType,
+        retrieval_count = @retrievalCount,
+        last_accessed = @lastAccessed,
+        chunk = @chunk,
+        compression = @compression,
+        original_size = @originalSize
+      WHERE cid = @cid
+    `);
+    let after = '';
+
+    for (;;) {
+      const rows = select.all(after, IMPORT_BATCH_SIZE) as Array<{ cid: string; stored_size: number; json: string }>;
+      if (rows.length === 0) break;
+
+      db.transaction(() => {
+        for (const row of rows) {
+          try {
+            update.run({ cid: row.cid, ...this.derivedColumns(this.decode(row.json)) });
+          } catch (error: any) {
+            logger.warn('Using stored size for unreadable metadata', { cid: row.cid, error: error.message });
+            update.run({
+              cid: row.cid,
+              logicalSize: row.stored_size,
+              mimeType: null,
+              retrievalCount: 0,
+              lastAccessed: 0,
+              chunk: 0,
+              compression: 'none',
+              originalSize: row.stored_size
+            });
+          }
+        }
+      })();
+      after = rows[rows.length - 1].cid;
+    }
+
+    db.transaction(() => {
+      db.exec('DELETE FROM quota_usage');
+      db.exec(`
+        INSERT INTO quota_usage (scope, key, blob_count, total_size)
+          SELECT 'app', app_id, COUNT(*), SUM(logical_size) FROM blob_metadata
+          WHERE app_id IS NOT NULL GROUP BY app_id
+      `);
+      db.exec(`
+        INSERT INTO quota_usage (scope, key, blob_count, total_size)
+          SELECT 'sender', lower(sender), COUNT(*), SUM(logical_size) FROM blob_metadata
+          WHERE sender IS NOT NULL GROUP BY lower(sender)
+      `);
+      db.exec('DELETE FROM tier_totals');
+      db.exec(`
+        INSERT INTO tier_totals (tier, blob_count, total_size)
+          SELECT tier, COUNT(*), SUM(stored_size) FROM blob_metadata GROUP BY tier
+      `);
+      db.exec('DELETE FROM compression_totals');
+      db.exec(`
+        INSERT INTO compression_totals (algorithm, blob_count, original_size, stored_size)
+          SELECT compression, COUNT(*), SUM(original_size), SUM(stored_size) FROM blob_metadata GROUP BY compression
+      `);
+    })();
+
+    logger.info('Rebuilt derived metadata columns, usage, tier and compression totals');
+  }
+
+  /**
+   * Records without an owners list (written by earlier versions) are
+   * matched on their appId and sender columns alone
+   */
+  private replaceOwners(metadata: BlobMetadata): void {
+    const db = this.getDb();
+    db.prepare('DELETE FROM blob_owners WHERE cid = ?').run(metadata.cid);
+
+    const insert = db.prepare('INSERT INTO blob_owners (cid, app_id, sender) VALUES (?, ?, ?)');
+    for (const owner of metadata.owners || []) {
+      insert.run(metadata.cid, owner.appId ?? null, owner.sender ?? null);
+    }
+  }
+
+  /**
+   * SQL conditions for a query's indexed filters, and a check on decoded
+   * records for the rest (null if there is none)
+   */
+  private buildQuery(
+    query: MetadataQuery,
+    match?: (metadata: BlobMetadata) => boolean
+  ): { where: string[]; params: Record<string, string | number>; filter: ((metadata: BlobMetadata) => boolean) | null } {
+    const where: string[] = [];
+    const params: Record<string, string | number> = {};
+    const checks: Array<(metadata: BlobMetadata) => boolean> = match ? [match] : [];
+
+    if (query.appId !== undefined) {
+      where.push('(app_id = @appId OR cid IN (SELECT cid FROM blob_owners WHERE app_id = @appId))');
+      params.appId = query.appId;
+    }
+    if (query.contentType !== undefined) {
+      where.push('content_type = @contentType');
+      params.contentType = query.contentType;
+    }
+    if (query.sender !== undefined) {
+      where.push('(sender = @sender OR cid IN (SELECT cid FROM blob_owners WHERE sender = @sender))');
+      params.sender = query.sender;
+    }
+    if (query.pinned !== undefined) {
+      where.push('pinned = @pinned');
+      params.pinned = query.pinned ? 1 : 0;
+    }
+    if (query.since !== undefined) {
+      where.push('created_at >= @since');
+      params.since = query.since;
+    }
+    if (query.until !== undefined) {
+      where.push('created_at < @until');
+      params.until = query.until;
+    }
+    if (query.mimeType !== undefined) {
+      const pattern = query.mimeType.toLowerCase();
+      if (this.cipher) {
+        // Encrypted records keep no MIME type column
+        checks.push(metadata => matchesMimeType(pattern, effectiveMimeType(metadata).toLowerCase()));
+      } else if (pattern.endsWith('/*')) {
+        where.push('substr(lower(mime_type), 1, length(@mimeTypePrefix)) = @mimeTypePrefix');
+        params.mimeTypePrefix = pattern.slice(0, -1);
+      } else {
+        where.push('lower(mime_type) = @mimeType');
+        params.mimeType = pattern;
+      }
+    }
+
+    const filter = checks.length > 0
+      ? (metadata: BlobMetadata) => checks.every(check => check(metadata))
+      : null;
+    return { where, params, filter };
+  }
+
+  private toColumns(metadata: BlobMetadata): Record<string, string | number | null> {
+    return {
+      cid: metadata.cid,
+      createdAt: metadata.createdAt,
+      appId: metadata.appId ?? null,
+      contentType: metadata.contentType ?? null,
+      sender: metadata.sender ?? null,
+      pinned: metadata.pinned ? 1 : 0,
+      json: this.encode(metadata),
+      ...this.derivedColumns(metadata)
+    };
+  }
+
+  private derivedColumns(metadata: BlobMetadata): Record<string, string | number | null> {
+    return {
+      logicalSize: logicalSize(metadata),
+      mimeType: this.cipher ? null : effectiveMimeType(metadata),
+      retrievalCount: metadata.metrics?.retrievalCount ?? 0,
+      lastAccessed: metadata.metrics?.lastAccessed ?? metadata.createdAt,
+      chunk: metadata.chunkOf?.length ? 1 : 0,
+      compression: compressionOf(metadata),
+      originalSize: metadata.size
+    };
+  }
+
+  private decodeMimeType(cid: string, stored: string): string | null {
+    try {
+      return effectiveMimeType(this.decode(stored));
+    } catch (error: any) {
+      logger.warn('Skipping MIME type of unreadable metadata', { cid, error: error.message });
+      return null;
+    }
+  }
+
+  private decodeTrashRow(row: TrashRow): TrashEntry {
+    return {
+      cid: row.cid,
+      deletedAt: row.deleted_at,
+      purgeAfter: row.purge_after,
+      reason: row.reason,
+      storedSize: row.stored_size,
+      metadata: this.decode(row.json)
+    };
+  }
+
+  private encode(metadata: BlobMetadata): string {
+    const json = JSON.stringify(metadata);
+    return this.cipher ? this.cipher.encryptText(json) : json;
+  }
+
+  private decode(stored: string): BlobMetadata {
+    if (stored.startsWith('{')) {
+      return JSON.parse(stored) as BlobMetadata;
+    }
+    if (!this.cipher) {
+      throw new Error('Metadata is encrypted but encryption at rest is not configured');
+    }
+    return JSON.parse(this.cipher.decryptText(stored)) as BlobMetadata;
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('Metadata index not initialized');
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Bytes a record counts towards quotas: what was uploaded, so a manifest
+ * counts its whole content (its chunks carry no app or sender)
+ */
+function logicalSize(metadata: BlobMetadata): number {
+  return metadata.manifest?.size ?? metadata.size;
+}
+
+/**
+ * MIME type of what was uploaded (a manifest's reassembled content)
+ */
+function effectiveMimeType(metadata: BlobMetadata): string {
+  return metadata.manifest?.mimeType ?? metadata.mimeType;
+}
+
+function sortValue(metadata: BlobMetadata, sort: BlobSortField): number {
+  return sort === 'size' ? metadata.size : metadata.createdAt;
+}
+
+function encodeCursor(createdAt: number, cid: string): string {
+  return Buffer.from(`${createdAt}:${cid}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { createdAt: number; cid: string } {
+  const [createdAt, cid] = Buffer.from(cursor, 'base64url').toString().split(':');
+  if (!cid || !Number.isSafeInteger(Number(createdAt))) {
+    throw new InvalidRequestError('Invalid cursor');
+  }
+  return { createdAt: Number(createdAt), cid };
+}
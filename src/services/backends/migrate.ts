@@ -0,0 +1,86 @@
+/**
+ * HASHD Vault - Storage Backend Migration
+ *
+ * Copies every blob from one backend to another. Stored bytes are copied
+ * as-is (compressed blobs stay compressed) and verified against their CID
+ * before being written. Metadata stays in the data directory's metadata
+ * index, which both backends share.
+ */
+
+import { verifyCID } from '../../utils/cid.js';
+import { compressionOf, decompressSync } from '../../utils/compression.js';
+import { logger } from '../../utils/logger.js';
+import { StorageBackend } from '../../types/index.js';
+import { MetadataIndex } from './metadata-index.js';
+
+export interface MigrationOptions {
+  deleteSource?: boolean;   // Remove each blob from the source once copied
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface MigrationResult {
+  total: number;
+  migrated: number;
+  skipped: number;          // Already present in the target
+  failed: number;
+  failedCids: string[];
+}
+
+export async function migrateStorage(
+  source: StorageBackend,
+  target: StorageBackend,
+  metadataIndex: MetadataIndex,
+  options: MigrationOptions = {}
+): Promise<MigrationResult> {
+  const cids = await source.list();
+  const result: MigrationResult = {
+    total: cids.length,
+    migrated: 0,
+    skipped: 0,
+    failed: 0,
+    failedCids: []
+  };
+
+  for (const [index, cid] of cids.entries()) {
+    try {
+      if (await target.has(cid)) {
+        result.skipped++;
+      } else {
+        const [data, metadata] = await Promise.all([source.get(cid), metadataIndex.get(cid)]);
+        if (!data || !metadata) {
+          throw new Error(data ? 'metadata missing' : 'blob missing');
+        }
+
+        // SECURITY: Never copy corrupted data into the new backend
+        const content = decompressSync(compressionOf(metadata), data);
+        if (!verifyCID(cid, content)) {
+          throw new Error('content does not match CID');
+        }
+
+        await target.put(cid, data);
+        result.migrated++;
+      }
+
+      if (options.deleteSource) {
+        await source.delete(cid);
+      }
+    } catch (error: any) {
+      result.failed++;
+      result.failedCids.push(cid);
+      logger.error('Failed to migrate blob', { cid, error: error.message });
+    }
+
+    options.onProgress?.(index + 1, cids.length);
+  }
+
+  logger.info('Storage migration completed', {
+    from: source.type,
+    to: target.type,
+    total: result.total,
+    migrated: result.migrated,
+    skipped: result.skipped,
+    failed: result.failed
+  });
+
+  return result;
+}
@@ -0,0 +1,106 @@
+/**
+ * HASHD Vault - SQLite Storage Backend
+ *
+ * Keeps blobs in a single embedded database file, which scales far
+ * better than one file per blob for nodes holding millions of small
+ * message blobs.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import type Database from 'better-sqlite3';
+import { ByteRange, StorageBackend } from '../../types/index.js';
+
+export const SQLITE_FILENAME = 'bytecave.sqlite';
+
+export class SqliteBackend implements StorageBackend {
+  readonly type = 'sqlite' as const;
+  private dbPath: string;
+  private db: Database.Database | null = null;
+
+  constructor(dataDir: string) {
+    this.dbPath = path.join(dataDir, SQLITE_FILENAME);
+  }
+
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+
+    // Native module: only loaded when this backend is selected
+    const { default: SQLite } = await import('better-sqlite3');
+    const db = new SQLite(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS blobs (
+        cid TEXT PRIMARY KEY,
+        data BLOB NOT NULL
+      ) WITHOUT ROWID;
+    `);
+    this.db = db;
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async put(cid: string, data: Buffer): Promise<void> {
+    this.getDb().prepare('INSERT OR REPLACE INTO blobs (cid, data) VALUES (?, ?)').run(cid, data);
+  }
+
+  async putFile(cid: string, filePath: string): Promise<void> {
+    await this.put(cid, await fs.readFile(filePath));
+    await fs.unlink(filePath).catch(() => {});
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    const row = this.getDb()
+      .prepare('SELECT data FROM blobs WHERE cid = ?')
+      .get(cid) as { data: Buffer } | undefined;
+    return row ? row.data : null;
+  }
+
+  async stream(cid: string, range?: ByteRange): Promise<Readable | null> {
+    if (!range) {
+      const data = await this.get(cid);
+      return data ? Readable.from([data]) : null;
+    }
+
+    // substr() on a BLOB is byte-based and 1-indexed
+    const row = this.getDb()
+      .prepare('SELECT substr(data, ?, ?) AS data FROM blobs WHERE cid = ?')
+      .get(range.start + 1, range.end - range.start + 1, cid) as { data: Buffer } | undefined;
+    return row ? Readable.from([row.data]) : null;
+  }
+
+  async has(cid: string): Promise<boolean> {
+    return this.getDb().prepare('SELECT 1 FROM blobs WHERE cid = ?').get(cid) !== undefined;
+  }
+
+  async delete(cid: string): Promise<boolean> {
+    const { changes } = this.getDb().prepare('DELETE FROM blobs WHERE cid = ?').run(cid);
+    return changes > 0;
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.getDb().prepare('SELECT cid FROM blobs').all() as Array<{ cid: string }>;
+    return rows.map(r => r.cid);
+  }
+
+  async stat(cid: string): Promise<{ size: number } | null> {
+    const row = this.getDb()
+      .prepare('SELECT length(data) AS size FROM blobs WHERE cid = ?')
+      .get(cid) as { size: number } | undefined;
+    return row ? { size: row.size } : null;
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite backend not initialized');
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * HASHD Vault - Tiered Storage Backend
+ *
+ * Spreads blob bytes over a hot backend (the data directory, e.g. an SSD)
+ * and a cold one (COLD_DATA_DIR, e.g. an HDD). Reads try the hot tier
+ * first and fall back to the cold one, so a blob can be read throughout a
+ * move between tiers. New blobs land in the hot tier; replacing a blob's
+ * bytes (repair, re-encryption) keeps them in the tier that holds them.
+ * Moves are made by StorageService.moveBlobToTier.
+ */
+
+import { Readable } from 'stream';
+import { ByteRange, StorageBackend, StorageTier } from '../../types/index.js';
+
+export class TieredBackend implements StorageBackend {
+  readonly type: StorageBackend['type'];
+
+  constructor(readonly hot: StorageBackend, readonly cold: StorageBackend) {
+    this.type = hot.type;
+  }
+
+  async initialize(): Promise<void> {
+    await this.hot.initialize();
+    await this.cold.initialize();
+  }
+
+  async close(): Promise<void> {
+    await this.hot.close();
+    await this.cold.close();
+  }
+
+  async put(cid: string, data: Buffer): Promise<void> {
+    const backend = await this.target(cid);
+    await backend.put(cid, data);
+  }
+
+  async putFile(cid: string, filePath: string): Promise<void> {
+    const backend = await this.target(cid);
+    await backend.putFile(cid, filePath);
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    return (await this.hot.get(cid)) ?? this.cold.get(cid);
+  }
+
+  async stream(cid: string, range?: ByteRange): Promise<Readable | null> {
+    return (await this.hot.stream(cid, range)) ?? this.cold.stream(cid, range);
+  }
+
+  async has(cid: string): Promise<boolean> {
+    return (await this.hot.has(cid)) || this.cold.has(cid);
+  }
+
+  async delete(cid: string): Promise<boolean> {
+    const hot = await this.hot.delete(cid);
+    const cold = await this.cold.delete(cid);
+    return hot || cold;
+  }
+
+  async list(): Promise<string[]> {
+    return [...new Set([...(await this.hot.list()), ...(await this.cold.list())])];
+  }
+
+  async stat(cid: string): Promise<{ size: number } | null> {
+    return (await this.hot.stat(cid)) ?? this.cold.stat(cid);
+  }
+
+  /**
+   * The tier holding a blob's bytes (hot if both do, mid-move)
+   */
+  async tierOf(cid: string): Promise<StorageTier | null> {
+    if (await this.hot.has(cid)) return 'hot';
+    if (await this.cold.has(cid)) return 'cold';
+    return null;
+  }
+
+  getTier(tier: StorageTier): StorageBackend {
+    return tier === 'hot' ? this.hot : this.cold;
+  }
+
+  private async target(cid: string): Promise<StorageBackend> {
+    return (await this.tierOf(cid)) === 'cold' ? this.cold : this.hot;
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * HASHD Vault - Multi-Volume Storage Backend
+ *
+ * Spreads blob bytes over several directories, usually one per disk (the
+ * data directory plus DATA_VOLUMES). New blobs go to a volume picked at
+ * random, weighted by its free space; rewriting a blob keeps it where it
+ * is. Reads try every volume in turn.
+ *
+ * An IO error marks a volume degraded: it is still read, but no new blobs
+ * are placed on it, and blobs rewritten there move to a healthy volume.
+ * check() probes each volume with a small write and read. A volume failing
+ * the probe is marked failed and no longer touched; StorageService then has
+ * its blobs re-fetched from peers. Volumes recover once they pass a probe
+ * (degraded ones only after a whole check interval without new errors).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { logger } from '../../utils/logger.js';
+import { getFreeDiskSpace } from '../../utils/disk.js';
+import {
+  ByteRange,
+  StorageBackend,
+  VolumeState,
+  VolumeStatus,
+  VolumeUnavailableError
+} from '../../types/index.js';
+
+const PROBE_FILE = '.volume-probe';
+
+interface Volume {
+  path: string;
+  backend: StorageBackend;
+  state: VolumeState;
+  freeDiskBytes: number;
+  errors: number;
+  errorsAtLastCheck: number;
+  lastError?: string;
+  lastCheckedAt: number;
+  stateChangedAt: number;
+}
+
+export class VolumeBackend implements StorageBackend {
+  readonly type: StorageBackend['type'];
+  private volumes: Volume[];
+
+  constructor(
+    volumes: Array<{ path: string; backend: StorageBackend }>,
+    private random: () => number = Math.random
+  ) {
+    if (volumes.length === 0) {
+      throw new Error('At least one data volume is required');
+    }
+    this.type = volumes[0].backend.type;
+    this.volumes = volumes.map(volume => ({
+      ...volume,
+      state: 'ok',
+      freeDiskBytes: 0,
+      errors: 0,
+      errorsAtLastCheck: 0,
+      lastCheckedAt: 0,
+      stateChangedAt: Date.now()
+    }));
+  }
+
+  /**
+   * The data directory's own backend
+   */
+  get primary(): StorageBackend {
+    return this.volumes[0].backend;
+  }
+
+  /**
+   * Initialize every volume; volumes that cannot be are marked failed
+   */
+  async initialize(): Promise<void> {
+    for (const volume of this.volumes) {
+      try {
+        await volume.backend.initialize();
+        volume.freeDiskBytes = await getFreeDiskSpace(volume.path);
+      } catch (error: any) {
+        this.setState(volume, 'failed', error);
+      }
+    }
+
+    if (this.volumes.every(volume => volume.state === 'failed')) {
+      throw new VolumeUnavailableError();
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const volume of this.volumes) {
+      await volume.backend.close().catch(() => {});
+    }
+  }
+
+  async put(cid: string, data: Buffer): Promise<void> {
+    await this.write(cid, data.length, backend => backend.put(cid, data));
+  }
+
+  async putFile(cid: string, filePath: string): Promise<void> {
+    const { size } = await fs.stat(filePath);
+    await this.write(cid, size, backend => backend.putFile(cid, filePath));
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    return this.readFirst(backend => backend.get(cid));
+  }
+
+  async stream(cid: string, range?: ByteRange): Promise<Readable | null> {
+    return this.readFirst(backend => backend.stream(cid, range));
+  }
+
+  async has(cid: string): Promise<boolean> {
+    return (await this.locate(cid)) !== null;
+  }
+
+  async delete(cid: string): Promise<boolean> {
+    let deleted = false;
+    for (const volume of this.available()) {
+      try {
+        deleted = (await volume.backend.delete(cid)) || deleted;
+      } catch (error: any) {
+        this.recordError(volume, error);
+      }
+    }
+    return deleted;
+  }
+
+  async list(): Promise<string[]> {
+    const cids = new Set<string>();
+    for (const volume of this.available()) {
+      try {
+        for (const cid of await volume.backend.list()) cids.add(cid);
+      } catch (error: any) {
+        this.recordError(volume, error);
+      }
+    }
+    return [...cids];
+  }
+
+  async stat(cid: string): Promise<{ size: number } | null> {
+    return this.readFirst(backend => backend.stat(cid));
+  }
+
+  /**
+   * Probe every volume with a small write and read back
+   *
+   * @returns the volumes that failed since the last check
+   */
+  async check(): Promise<VolumeStatus[]> {
+    const failed: VolumeStatus[] = [];
+
+    for (const volume of this.volumes) {
+      volume.lastCheckedAt = Date.now();
+      try {
+        await this.probe(volume);
+        volume.freeDiskBytes = await getFreeDiskSpace(volume.path);
+      } catch (error: any) {
+        if (volume.state !== 'failed') {
+          this.setState(volume, 'failed', error);
+          failed.push(this.toStatus(volume));
+        }
+        continue;
+      }
+
+      // Degraded volumes need a whole interval without errors
+      if (volume.state === 'failed' || (volume.state === 'degraded' && volume.errors === volume.errorsAtLastCheck)) {
+        this.setState(volume, 'ok');
+      }
+      volume.errorsAtLastCheck = volume.errors;
+    }
+
+    return failed;
+  }
+
+  getVolumes(): VolumeStatus[] {
+    return this.volumes.map(volume => this.toStatus(volume));
+  }
+
+  /**
+   * Free space across the volumes that take new blobs
+   */
+  async getFreeDiskSpace(): Promise<number> {
+    let free = 0;
+    for (const volume of this.volumes) {
+      if (volume.state !== 'ok') continue;
+      volume.freeDiskBytes = await getFreeDiskSpace(volume.path);
+      free += volume.freeDiskBytes;
+    }
+    return free;
+  }
+
+  /**
+   * Write to the volume holding the blob, or else a healthy one by free space
+   *
+   * A blob moving off a degraded volume has its old copy removed afterwards.
+   */
+  private async write(cid: string, size: number, operation: (backend: StorageBackend) => Promise<void>): Promise<void> {
+    const holder = await this.locate(cid);
+    const candidates = this.volumes.filter(volume => volume.state === 'ok');
+
+    while (candidates.length > 0) {
+      const volume = holder && candidates.includes(holder) ? holder : this.pick(candidates);
+      try {
+        await operation(volume.backend);
+      } catch (error: any) {
+        // A missing source file is the caller's problem, not the volume's
+        if (error.code === 'ENOENT') throw error;
+        this.recordError(volume, error);
+        candidates.splice(candidates.indexOf(volume), 1);
+        continue;
+      }
+
+      volume.freeDiskBytes = Math.max(volume.freeDiskBytes - size, 0);
+      if (holder && holder !== volume) {
+        await holder.backend.delete(cid).catch(error => this.recordError(holder, error));
+      }
+      return;
+    }
+
+    throw new VolumeUnavailableError();
+  }
+
+  private pick(candidates: Volume[]): Volume {
+    const total = candidates.reduce((sum, volume) => sum + volume.freeDiskBytes, 0);
+    if (total === 0) {
+      return candidates[Math.floor(this.random() * candidates.length)];
+    }
+
+    let target = this.random() * total;
+    for (const volume of candidates) {
+      target -= volume.freeDiskBytes;
+      if (target < 0) return volume;
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  private async readFirst<T>(operation: (backend: StorageBackend) => Promise<T | null>): Promise<T | null> {
+    for (const volume of this.available()) {
+      try {
+        const result = await operation(volume.backend);
+        if (result !== null) return result;
+      } catch (error: any) {
+        this.recordError(volume, error);
+      }
+    }
+    return null;
+  }
+
+  private async locate(cid: string): Promise<Volume | null> {
+    for (const volume of this.available()) {
+      try {
+        if (await volume.backend.has(cid)) return volume;
+      } catch (error: any) {
+        this.recordError(volume, error);
+      }
+    }
+    return null;
+  }
+
+  private available(): Volume[] {
+    return this.volumes.filter(volume => volume.state !== 'failed');
+  }
+
+  private async probe(volume: Volume): Promise<void> {
+    const probePath = path.join(volume.path, PROBE_FILE);
+    const data = crypto.randomBytes(16);
+    await fs.writeFile(probePath, data);
+    const read = await fs.readFile(probePath);
+    await fs.unlink(probePath);
+    if (!read.equals(data)) {
+      throw new Error('Probe read back different bytes');
+    }
+  }
+
+  private recordError(volume: Volume, error: Error): void {
+    volume.errors++;
+    volume.lastError = error.message;
+    if (volume.state === 'ok') {
+      this.setState(volume, 'degraded', error);
+    }
+  }
+
+  private setState(volume: Volume, state: VolumeState, error?: Error): void {
+    volume.state = state;
+    volume.stateChangedAt = Date.now();
+    if (error) {
+      volume.lastError = error.message;
+    } else {
+      volume.errors = 0;
+      volume.lastError = undefined;
+    }
+
+    const details = { path: volume.path, error: error?.message };
+    if (state === 'ok') {
+      logger.info('Data volume healthy', details);
+    } else if (state === 'degraded') {
+      logger.warn('Data volume degraded', details);
+    } else {
+      logger.error('Data volume failed', details);
+    }
+  }
+
+  private toStatus(volume: Volume): VolumeStatus {
+    return {
+      path: volume.path,
+      state: volume.state,
+      freeDiskBytes: volume.freeDiskBytes,
+      errors: volume.errors,
+      lastError: volume.lastError,
+      lastCheckedAt: volume.lastCheckedAt,
+      stateChangedAt: volume.stateChangedAt
+    };
+  }
+}
@@ -1,34 +1,102 @@
 /**
  * HASHD Vault - Blocked Content Service
- * 
+ *
  * Manages CIDs that this node operator chooses not to store/serve.
  * This is a local preference, not network-wide moderation.
+ *
+ * Besides the operator's own blocks (each with a reason and a timestamp), the
+ * node can subscribe to denylists published by keys it trusts. A list is
+ * fetched from a URL or from a peer over P2P and only applied if its
+ * publisher signed it and it is newer than the one already applied. Newly
+ * blocked CIDs are purged from local storage.
  */
 
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
+import { ethers } from 'ethers';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { storageService } from './storage.service.js';
+import { p2pProtocolsService } from './p2p-protocols.service.js';
+import {
+  BlobNotFoundError,
+  BlockedContentList,
+  BlockedEntry,
+  DenylistSubscription,
+  SignedDenylist,
+  TrashEntryNotFoundError
+} from '../types/index.js';
+
+// Signature message format for denylists
+const DENYLIST_MESSAGE_TEMPLATE = `HASHD Vault Denylist
+Publisher: {publisher}
+Version: {version}
+Published At: {publishedAt}
+Entries Hash: {entriesHash}`;
+
+const FETCH_TIMEOUT_MS = 30000;
+const MAX_DENYLIST_BYTES = 16 * 1024 * 1024;
+
+interface BlockedCid {
+  cid: string;
+  reason?: string;
+  blockedAt: number;
+}
+
+interface BlockedPeer {
+  peerId: string;
+  reason?: string;
+  blockedAt: number;
+}
+
+interface StoredSubscription extends Omit<DenylistSubscription, 'blockedCids' | 'blockedPeers'> {
+  list?: SignedDenylist;       // The applied list, also served to peers over P2P
+}
 
 interface BlockedContent {
   version: number;
   updatedAt: number;
-  cids: string[];
-  peerIds: string[];
+  cids: BlockedCid[];          // Blocked by the operator
+  peerIds: BlockedPeer[];
+  subscriptions: StoredSubscription[];
+}
+
+/**
+ * The message a publisher signs (EIP-191) to publish a denylist
+ *
+ * Entries are hashed in list order, so the signature covers their order and
+ * reasons too.
+ */
+export function getDenylistMessage(list: Omit<SignedDenylist, 'signature'>): string {
+  const lines = [
+    ...list.cids.map(entry => JSON.stringify(['cid', entry.cid, entry.reason ?? ''])),
+    ...list.peerIds.map(entry => JSON.stringify(['peer', entry.peerId, entry.reason ?? '']))
+  ];
+
+  return DENYLIST_MESSAGE_TEMPLATE
+    .replace('{publisher}', list.publisher.toLowerCase())
+    .replace('{version}', list.version.toString())
+    .replace('{publishedAt}', list.publishedAt.toString())
+    .replace('{entriesHash}', ethers.keccak256(Buffer.from(lines.join('\n'))));
 }
 
 export class BlockedContentService {
   private blockedContent: BlockedContent | null = null;
   private configPath: string;
   private lastLoad: number = 0;
+  private saves = 0;            // Bumped when a save starts and when it ends
+  private blockedCids = new Set<string>();
+  private blockedPeers = new Set<string>();
+  private refreshInterval: NodeJS.Timeout | null = null;
   private readonly RELOAD_INTERVAL = 60000; // 1 minute
 
-  constructor() {
-    this.configPath = path.join(process.cwd(), 'config', 'blocked-content.json');
+  constructor(configPath = path.join(process.cwd(), 'config', 'blocked-content.json')) {
+    this.configPath = configPath;
   }
 
   /**
-   * Initialize blocked content list
+   * Initialize blocked content list and start refreshing subscriptions
    */
   async initialize(): Promise<void> {
     if (!config.enableBlockedContent) {
@@ -37,6 +105,25 @@ export class BlockedContentService {
     }
 
     await this.load();
+
+    this.refreshInterval = setInterval(() => {
+      this.refreshSubscriptions().catch(err =>
+        logger.warn('Failed to refresh denylist subscriptions', { error: err.message })
+      );
+    }, config.denylistRefreshMinutes * 60 * 1000);
+    this.refreshInterval.unref();
+
+    // Peers may not be connected yet; P2P subscriptions catch up on the next refresh
+    this.refreshSubscriptions().catch(err =>
+      logger.warn('Failed to refresh denylist subscriptions', { error: err.message })
+    );
+  }
+
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
   }
 
   /**
@@ -49,12 +136,12 @@ export class BlockedContentService {
 
     // Reload if stale
     if (Date.now() - this.lastLoad > this.RELOAD_INTERVAL) {
-      await this.load().catch(err => 
+      await this.load().catch(err =>
         logger.warn('Failed to reload blocked content', { error: err.message })
       );
     }
 
-    return this.blockedContent.cids.includes(cid.toLowerCase());
+    return this.blockedCids.has(cid.toLowerCase());
   }
 
   async isPeerBlocked(peerId: string): Promise<boolean> {
@@ -64,12 +151,12 @@ export class BlockedContentService {
 
     // Reload if stale
     if (Date.now() - this.lastLoad > this.RELOAD_INTERVAL) {
-      await this.load().catch(err => 
+      await this.load().catch(err =>
         logger.warn('Failed to reload blocked content', { error: err.message })
       );
     }
 
-    return this.blockedContent.peerIds.includes(peerId);
+    return this.blockedPeers.has(peerId);
   }
 
   /**
@@ -85,16 +172,24 @@ export class BlockedContentService {
         await this.createDefault();
       }
 
+      const saves = this.saves;
       const content = await fs.readFile(this.configPath, 'utf-8');
-      this.blockedContent = JSON.parse(content);
+
+      // A save overlapped the read: what is in memory is newer than what was read
+      if (this.blockedContent && this.saves !== saves) return;
+
+      this.blockedContent = this.upgrade(JSON.parse(content));
       this.lastLoad = Date.now();
+      this.rebuildIndex();
 
       logger.info('Blocked content loaded', {
-        cids: this.blockedContent?.cids.length || 0
+        cids: this.blockedCids.size,
+        subscriptions: this.blockedContent.subscriptions.length
       });
     } catch (error) {
       logger.error('Failed to load blocked content', error);
       this.blockedContent = this.getDefault();
+      this.rebuildIndex();
     }
   }
 
@@ -106,78 +201,161 @@ export class BlockedContentService {
   }
 
   /**
-   * Add CID to blocked list
+   * Add CID to blocked list and purge it from local storage
    */
-  async addCid(cid: string): Promise<void> {
-    if (!this.blockedContent) {
-      this.blockedContent = this.getDefault();
-    }
+  async addCid(cid: string, reason?: string): Promise<BlockedEntry> {
+    const content = this.ensureLoaded();
 
     const cidLower = cid.toLowerCase();
-    if (!this.blockedContent.cids.includes(cidLower)) {
-      this.blockedContent.cids.push(cidLower);
-      this.blockedContent.updatedAt = Date.now();
-
+    let entry = content.cids.find(blocked => blocked.cid === cidLower);
+    if (!entry) {
+      entry = { cid: cidLower, reason, blockedAt: Date.now() };
+      content.cids.push(entry);
       await this.save();
-      logger.info('CID added to blocked list', { cid });
+      logger.info('CID added to blocked list', { cid, reason });
     }
+
+    await this.purge([cidLower]);
+    return { value: entry.cid, reason: entry.reason, blockedAt: entry.blockedAt, source: 'local' };
   }
 
   /**
    * Remove CID from blocked list
+   *
+   * @returns false if the operator had not blocked it (it may still be on a subscribed list)
    */
-  async removeCid(cid: string): Promise<void> {
-    if (!this.blockedContent) return;
+  async removeCid(cid: string): Promise<boolean> {
+    if (!this.blockedContent) return false;
 
     const cidLower = cid.toLowerCase();
-    const index = this.blockedContent.cids.indexOf(cidLower);
-    if (index > -1) {
-      this.blockedContent.cids.splice(index, 1);
-      this.blockedContent.updatedAt = Date.now();
+    const index = this.blockedContent.cids.findIndex(blocked => blocked.cid === cidLower);
+    if (index === -1) return false;
 
-      await this.save();
-      logger.info('CID removed from blocked list', { cid });
-    }
+    this.blockedContent.cids.splice(index, 1);
+    await this.save();
+    logger.info('CID removed from blocked list', { cid });
+    return true;
   }
 
   /**
    * Add peer to blocked list
    */
-  async addPeer(peerId: string): Promise<void> {
-    if (!this.blockedContent) {
-      this.blockedContent = this.getDefault();
-    }
-
-    if (!this.blockedContent.peerIds.includes(peerId)) {
-      this.blockedContent.peerIds.push(peerId);
-      this.blockedContent.updatedAt = Date.now();
+  async addPeer(peerId: string, reason?: string): Promise<BlockedEntry> {
+    const content = this.ensureLoaded();
 
+    let entry = content.peerIds.find(blocked => blocked.peerId === peerId);
+    if (!entry) {
+      entry = { peerId, reason, blockedAt: Date.now() };
+      content.peerIds.push(entry);
       await this.save();
-      logger.info('Peer added to blocked list', { peerId });
+      logger.info('Peer added to blocked list', { peerId, reason });
     }
+
+    return { value: entry.peerId, reason: entry.reason, blockedAt: entry.blockedAt, source: 'local' };
   }
 
   /**
    * Remove peer from blocked list
+   *
+   * @returns false if the operator had not blocked it
    */
-  async removePeer(peerId: string): Promise<void> {
-    if (!this.blockedContent) return;
+  async removePeer(peerId: string): Promise<boolean> {
+    if (!this.blockedContent) return false;
 
-    const index = this.blockedContent.peerIds.indexOf(peerId);
-    if (index > -1) {
-      this.blockedContent.peerIds.splice(index, 1);
-      this.blockedContent.updatedAt = Date.now();
+    const index = this.blockedContent.peerIds.findIndex(blocked => blocked.peerId === peerId);
+    if (index === -1) return false;
 
-      await this.save();
-      logger.info('Peer removed from blocked list', { peerId });
+    this.blockedContent.peerIds.splice(index, 1);
+    await this.save();
+    logger.info('Peer removed from blocked list', { peerId });
+    return true;
+  }
+
+  /**
+   * Subscribe to a denylist and fetch it once
+   *
+   * The subscription is kept even if the first fetch fails (see lastError).
+   */
+  async addSubscription(request: { publisher: string; url?: string; peerId?: string }): Promise<DenylistSubscription> {
+    const content = this.ensureLoaded();
+
+    const subscription: StoredSubscription = {
+      id: crypto.randomBytes(8).toString('hex'),
+      publisher: ethers.getAddress(request.publisher),
+      url: request.url,
+      peerId: request.peerId,
+      addedAt: Date.now()
+    };
+    content.subscriptions.push(subscription);
+    await this.save();
+    logger.info('Denylist subscription added', { id: subscription.id, publisher: subscription.publisher });
+
+    await this.refreshSubscription(subscription);
+    return toSubscription(this.findSubscription(subscription.id) ?? subscription);
+  }
+
+  /**
+   * Unsubscribe from a denylist; its blocks no longer apply
+   *
+   * @returns false if there was no such subscription
+   */
+  async removeSubscription(id: string): Promise<boolean> {
+    if (!this.blockedContent) return false;
+
+    const index = this.blockedContent.subscriptions.findIndex(subscription => subscription.id === id);
+    if (index === -1) return false;
+
+    this.blockedContent.subscriptions.splice(index, 1);
+    await this.save();
+    logger.info('Denylist subscription removed', { id });
+    return true;
+  }
+
+  /**
+   * Fetch every subscribed denylist and apply newer versions
+   */
+  async refreshSubscriptions(): Promise<void> {
+    for (const subscription of [...(this.blockedContent?.subscriptions ?? [])]) {
+      await this.refreshSubscription(subscription);
     }
   }
 
   /**
-   * Get all blocked content
+   * The newest applied denylist signed by a publisher, to serve to peers
    */
-  getBlocked(): BlockedContent | null {
-    return this.blockedContent;
+  getSignedDenylist(publisher: string): SignedDenylist | null {
+    const lists = (this.blockedContent?.subscriptions ?? [])
+      .map(subscription => subscription.list)
+      .filter((list): list is SignedDenylist => !!list && list.publisher.toLowerCase() === publisher.toLowerCase())
+      .sort((a, b) => b.version - a.version);
+
+    return lists[0] ?? null;
+  }
+
+  /**
+   * Get all blocked CIDs and peers, and the subscriptions they came from
+   */
+  getBlocked(): BlockedContentList {
+    const content = this.blockedContent ?? this.getDefault();
+
+    const cids: BlockedEntry[] = content.cids.map(entry => ({
+      value: entry.cid, reason: entry.reason, blockedAt: entry.blockedAt, source: 'local'
+    }));
+    const peerIds: BlockedEntry[] = content.peerIds.map(entry => ({
+      value: entry.peerId, reason: entry.reason, blockedAt: entry.blockedAt, source: 'local'
+    }));
+
+    for (const subscription of content.subscriptions) {
+      const blockedAt = subscription.appliedAt ?? subscription.addedAt;
+      for (const entry of subscription.list?.cids ?? []) {
+        cids.push({ value: entry.cid.toLowerCase(), reason: entry.reason, blockedAt, source: subscription.id });
+      }
+      for (const entry of subscription.list?.peerIds ?? []) {
+        peerIds.push({ value: entry.peerId, reason: entry.reason, blockedAt, source: subscription.id });
+      }
+    }
+
+    return { cids, peerIds, subscriptions: content.subscriptions.map(toSubscription) };
   }
 
   /**
@@ -185,7 +363,7 @@ export class BlockedContentService {
    */
   getStats(): { totalBlocked: number; lastUpdated: number } {
     return {
-      totalBlocked: this.blockedContent?.cids.length || 0,
+      totalBlocked: this.blockedCids.size,
       lastUpdated: this.blockedContent?.updatedAt || 0
     };
   }
@@ -194,12 +372,203 @@ export class BlockedContentService {
    * Private helper methods
    */
 
+  private async refreshSubscription(fetched: StoredSubscription): Promise<void> {
+    let list: SignedDenylist | undefined;
+    let fetchError: string | undefined;
+    try {
+      list = fetched.url
+        ? await this.fetchFromUrl(fetched.url)
+        : await this.fetchFromPeer(fetched.peerId!, fetched.publisher);
+    } catch (error: any) {
+      fetchError = error.message;
+    }
+
+    // The file may have been reloaded while the fetch was in flight, replacing the record
+    const subscription = this.findSubscription(fetched.id);
+    if (!subscription) return; // Unsubscribed meanwhile
+
+    if (!list) {
+      await this.recordFetch(subscription, fetchError);
+      logger.warn('Failed to fetch denylist', { id: subscription.id, error: fetchError });
+      return;
+    }
+
+    const error = this.verifyDenylist(subscription, list);
+    if (error) {
+      await this.recordFetch(subscription, error);
+      logger.warn('Denylist rejected', { id: subscription.id, publisher: subscription.publisher, error });
+      return;
+    }
+
+    if (subscription.version !== undefined && list.version <= subscription.version) {
+      // Already applied, or an older copy
+      await this.recordFetch(subscription);
+      return;
+    }
+
+    const previouslyBlocked = new Set(this.blockedCids);
+    subscription.list = list;
+    subscription.version = list.version;
+    subscription.appliedAt = Date.now();
+    await this.recordFetch(subscription);
+
+    const newlyBlocked = [...this.blockedCids].filter(cid => !previouslyBlocked.has(cid));
+    logger.info('Denylist applied', {
+      id: subscription.id,
+      version: list.version,
+      cids: list.cids.length,
+      peers: list.peerIds.length,
+      newlyBlocked: newlyBlocked.length
+    });
+    await this.purge(newlyBlocked);
+  }
+
+  /**
+   * Why a fetched list must not be applied, or null
+   */
+  private verifyDenylist(subscription: StoredSubscription, list: SignedDenylist): string | null {
+    if (!list || typeof list !== 'object' || !Number.isSafeInteger(list.version) ||
+        !Number.isSafeInteger(list.publishedAt) || !Array.isArray(list.cids) ||
+        !Array.isArray(list.peerIds) || typeof list.signature !== 'string' ||
+        list.cids.some(entry => typeof entry?.cid !== 'string') ||
+        list.peerIds.some(entry => typeof entry?.peerId !== 'string')) {
+      return 'Malformed denylist';
+    }
+    if (typeof list.publisher !== 'string' || list.publisher.toLowerCase() !== subscription.publisher.toLowerCase()) {
+      return 'Denylist is from a different publisher';
+    }
+
+    try {
+      const recoveredAddress = ethers.verifyMessage(getDenylistMessage(list), list.signature);
+      if (recoveredAddress.toLowerCase() !== subscription.publisher.toLowerCase()) {
+        return 'Invalid signature';
+      }
+    } catch {
+      return 'Invalid signature';
+    }
+
+    return null;
+  }
+
+  private async fetchFromUrl(url: string): Promise<SignedDenylist> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    if (Number(response.headers.get('content-length')) > MAX_DENYLIST_BYTES) {
+      await response.body?.cancel();
+      throw new Error('Denylist too large');
+    }
+
+    // The declared length may be missing or wrong, so count the bytes as they
+    // arrive; leaving the loop cancels the rest of the download
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for await (const chunk of response.body ?? []) {
+      size += chunk.length;
+      if (size > MAX_DENYLIST_BYTES) {
+        throw new Error('Denylist too large');
+      }
+      chunks.push(chunk);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  }
+
+  private async fetchFromPeer(peerId: string, publisher: string): Promise<SignedDenylist> {
+    const list = await p2pProtocolsService.getDenylistFromPeer(peerId, publisher);
+    if (!list) {
+      throw new Error(`Peer ${peerId} did not return the denylist`);
+    }
+    return list;
+  }
+
+  private async recordFetch(subscription: StoredSubscription, error?: string): Promise<void> {
+    subscription.lastFetchedAt = Date.now();
+    subscription.lastError = error;
+    await this.save();
+  }
+
+  private findSubscription(id: string): StoredSubscription | undefined {
+    return this.blockedContent?.subscriptions.find(subscription => subscription.id === id);
+  }
+
+  /**
+   * Remove blocked CIDs from local storage, including the trash
+   */
+  private async purge(cids: string[]): Promise<void> {
+    let purged = 0;
+    for (const cid of cids) {
+      try {
+        await storageService.deleteBlob(cid, { force: true, permanent: true, reason: 'blocked' });
+        purged++;
+      } catch (error: any) {
+        if (!(error instanceof BlobNotFoundError)) {
+          logger.warn('Failed to purge blocked blob', { cid, error: error.message });
+        }
+      }
+
+      try {
+        await storageService.purgeTrashed(cid);
+        purged++;
+      } catch (error: any) {
+        if (!(error instanceof TrashEntryNotFoundError)) {
+          logger.warn('Failed to purge blocked blob from trash', { cid, error: error.message });
+        }
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Blocked blobs purged', { purged });
+    }
+  }
+
+  private rebuildIndex(): void {
+    this.blockedCids = new Set(this.blockedContent?.cids.map(entry => entry.cid));
+    this.blockedPeers = new Set(this.blockedContent?.peerIds.map(entry => entry.peerId));
+
+    for (const subscription of this.blockedContent?.subscriptions ?? []) {
+      for (const entry of subscription.list?.cids ?? []) {
+        this.blockedCids.add(entry.cid.toLowerCase());
+      }
+      for (const entry of subscription.list?.peerIds ?? []) {
+        this.blockedPeers.add(entry.peerId);
+      }
+    }
+  }
+
+  /**
+   * Bring a file from an earlier version (plain CID and peer ID lists) up to date
+   */
+  private upgrade(content: any): BlockedContent {
+    const updatedAt = content.updatedAt || Date.now();
+    return {
+      version: 2,
+      updatedAt,
+      cids: (content.cids ?? []).map((entry: string | BlockedCid) =>
+        typeof entry === 'string' ? { cid: entry.toLowerCase(), blockedAt: updatedAt } : entry
+      ),
+      peerIds: (content.peerIds ?? []).map((entry: string | BlockedPeer) =>
+        typeof entry === 'string' ? { peerId: entry, blockedAt: updatedAt } : entry
+      ),
+      subscriptions: content.subscriptions ?? []
+    };
+  }
+
+  private ensureLoaded(): BlockedContent {
+    if (!this.blockedContent) {
+      this.blockedContent = this.getDefault();
+    }
+    return this.blockedContent;
+  }
+
   private getDefault(): BlockedContent {
     return {
-      version: 1,
+      version: 2,
       updatedAt: Date.now(),
       cids: [],
-      peerIds: []
+      peerIds: [],
+      subscriptions: []
     };
   }
 
@@ -219,11 +588,36 @@ export class BlockedContentService {
   private async save(): Promise<void> {
     if (!this.blockedContent) return;
 
+    this.saves++;
+    this.blockedContent.updatedAt = Date.now();
+    this.rebuildIndex();
+
+    await fs.mkdir(path.dirname(this.configPath), { recursive: true });
+    const tempPath = `${this.configPath}.tmp`;
     await fs.writeFile(
-      this.configPath,
+      tempPath,
       JSON.stringify(this.blockedContent, null, 2)
     );
+    await fs.rename(tempPath, this.configPath);
+    this.saves++;
+    this.lastLoad = Date.now();
   }
 }
 
+function toSubscription(stored: StoredSubscription): DenylistSubscription {
+  return {
+    id: stored.id,
+    publisher: stored.publisher,
+    url: stored.url,
+    peerId: stored.peerId,
+    addedAt: stored.addedAt,
+    version: stored.version,
+    appliedAt: stored.appliedAt,
+    lastFetchedAt: stored.lastFetchedAt,
+    lastError: stored.lastError,
+    blockedCids: stored.list?.cids.length ?? 0,
+    blockedPeers: stored.list?.peerIds.length ?? 0
+  };
+}
+
 export const blockedContentService = new BlockedContentService();
@@ -0,0 +1,300 @@
+/**
+ * HASHD Vault - Encryption Service
+ *
+ * Optional node-side envelope encryption at rest. Blob files and metadata
+ * are encrypted with a random data key; data keys are kept in
+ * dataDir/keyring.json wrapped (AES-256-GCM) by a key-encryption key that
+ * comes from the operator's passphrase (scrypt) or key file and is never
+ * written to disk.
+ *
+ * Rotating adds a new active data key; older keys stay in the keyring
+ * until everything has been re-encrypted, then they are dropped.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  EnvelopeEncryptStream,
+  decryptEnvelope,
+  encryptEnvelope,
+  isEnvelope,
+  parseEnvelopeHeader
+} from '../utils/envelope.js';
+
+export const KEYRING_FILENAME = 'keyring.json';
+
+const ENCRYPTED_TEXT_PREFIX = 'enc:';
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+interface StoredDataKey {
+  id: number;
+  wrappedKey: string;        // base64(iv | ciphertext | tag)
+  createdAt: number;
+}
+
+interface Keyring {
+  version: 1;
+  salt: string;              // scrypt salt for passphrase-derived KEKs
+  activeKeyId: number;
+  keys: StoredDataKey[];
+  reencryptionPending: boolean;
+}
+
+export interface EncryptionSecrets {
+  passphrase?: string;
+  keyFile?: string;
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  activeKeyId?: number;
+  keyIds?: number[];
+  reencryptionPending?: boolean;
+}
+
+export class EncryptionService {
+  private keyringPath: string;
+  private keyring: Keyring | null = null;
+  private kek: Buffer | null = null;
+  private dataKeys: Map<number, Buffer> = new Map();
+
+  constructor(
+    dataDir: string = config.dataDir,
+    private secrets: EncryptionSecrets = {
+      passphrase: config.encryptionPassphrase,
+      keyFile: config.encryptionKeyFile
+    }
+  ) {
+    this.keyringPath = path.join(dataDir, KEYRING_FILENAME);
+  }
+
+  /**
+   * Unlock (or create) the keyring
+   *
+   * SECURITY: Refuses to start without a key when the data directory
+   * already holds encrypted data, rather than serving garbage.
+   */
+  async initialize(): Promise<void> {
+    if (this.keyring) return;
+
+    const existing = await this.readKeyring();
+    const hasSecret = Boolean(this.secrets.passphrase || this.secrets.keyFile);
+
+    if (!hasSecret) {
+      if (existing) {
+        throw new Error(
+          `${this.keyringPath} exists but no ENCRYPTION_PASSPHRASE or ENCRYPTION_KEY_FILE is set; ` +
+          'the stored data cannot be read without it'
+        );
+      }
+      return;
+    }
+
+    const keyring: Keyring = existing ?? {
+      version: 1,
+      salt: crypto.randomBytes(16).toString('base64'),
+      activeKeyId: 0,
+      keys: [],
+      // Anything stored before encryption was enabled is still plaintext
+      reencryptionPending: true
+    };
+
+    this.kek = await this.deriveKek(Buffer.from(keyring.salt, 'base64'));
+
+    for (const stored of keyring.keys) {
+      this.dataKeys.set(stored.id, this.unwrapKey(stored));
+    }
+
+    this.keyring = keyring;
+    if (!existing) {
+      this.addDataKey();
+      await this.saveKeyring();
+      logger.info('Encryption keyring created', { keyringPath: this.keyringPath });
+    }
+
+    logger.info('Encryption at rest enabled', {
+      activeKeyId: this.keyring.activeKeyId,
+      keys: this.keyring.keys.length
+    });
+  }
+
+  isEnabled(): boolean {
+    return this.keyring !== null;
+  }
+
+  getActiveKey(): { id: number; key: Buffer } {
+    const keyring = this.requireKeyring();
+    return { id: keyring.activeKeyId, key: this.getDataKey(keyring.activeKeyId) };
+  }
+
+  getDataKey(keyId: number): Buffer {
+    const key = this.dataKeys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown data key ${keyId}`);
+    }
+    return key;
+  }
+
+  encrypt(data: Buffer): Buffer {
+    const { id, key } = this.getActiveKey();
+    return encryptEnvelope(key, id, data);
+  }
+
+  /**
+   * Decrypt an envelope; data written before encryption was enabled is returned as-is
+   */
+  decrypt(data: Buffer): Buffer {
+    if (!isEnvelope(data)) return data;
+    return decryptEnvelope(this.getDataKey(parseEnvelopeHeader(data).keyId), data);
+  }
+
+  createEncryptStream(): EnvelopeEncryptStream {
+    const { id, key } = this.getActiveKey();
+    return new EnvelopeEncryptStream(key, id);
+  }
+
+  encryptText(text: string): string {
+    return ENCRYPTED_TEXT_PREFIX + this.encrypt(Buffer.from(text, 'utf-8')).toString('base64');
+  }
+
+  decryptText(text: string): string {
+    if (!text.startsWith(ENCRYPTED_TEXT_PREFIX)) return text;
+    return this.decrypt(Buffer.from(text.slice(ENCRYPTED_TEXT_PREFIX.length), 'base64')).toString('utf-8');
+  }
+
+  /**
+   * Whether encrypted text (or a stored envelope header) uses the active key
+   */
+  isCurrentText(text: string): boolean {
+    if (!text.startsWith(ENCRYPTED_TEXT_PREFIX)) return false;
+    return this.isCurrent(Buffer.from(text.slice(ENCRYPTED_TEXT_PREFIX.length, ENCRYPTED_TEXT_PREFIX.length + 32), 'base64'));
+  }
+
+  isCurrent(data: Buffer): boolean {
+    return isEnvelope(data) && parseEnvelopeHeader(data).keyId === this.requireKeyring().activeKeyId;
+  }
+
+  /**
+   * Make a new data key active; existing data still needs re-encrypting
+   */
+  async rotateKey(): Promise<number> {
+    this.requireKeyring();
+    const keyId = this.addDataKey();
+    this.requireKeyring().reencryptionPending = true;
+    await this.saveKeyring();
+
+    logger.info('Encryption data key rotated', { activeKeyId: keyId });
+    return keyId;
+  }
+
+  isReencryptionPending(): boolean {
+    return this.keyring?.reencryptionPending ?? false;
+  }
+
+  /**
+   * Drop retired data keys once everything is encrypted under keyId
+   *
+   * Does nothing if another rotation happened in the meantime.
+   */
+  async completeReencryption(keyId: number): Promise<void> {
+    const keyring = this.requireKeyring();
+    if (keyring.activeKeyId !== keyId) return;
+
+    const retired = keyring.keys.filter(k => k.id !== keyId).map(k => k.id);
+    keyring.keys = keyring.keys.filter(k => k.id === keyId);
+    keyring.reencryptionPending = false;
+    for (const id of retired) {
+      this.dataKeys.delete(id);
+    }
+    await this.saveKeyring();
+
+    logger.info('Re-encryption complete', { activeKeyId: keyId, retiredKeys: retired });
+  }
+
+  getStatus(): EncryptionStatus {
+    if (!this.keyring) {
+      return { enabled: false };
+    }
+    return {
+      enabled: true,
+      activeKeyId: this.keyring.activeKeyId,
+      keyIds: this.keyring.keys.map(k => k.id),
+      reencryptionPending: this.keyring.reencryptionPending
+    };
+  }
+
+  private addDataKey(): number {
+    const keyring = this.requireKeyring();
+    const id = keyring.keys.reduce((max, k) => Math.max(max, k.id), 0) + 1;
+    const key = crypto.randomBytes(32);
+
+    keyring.keys.push({ id, wrappedKey: this.wrapKey(key), createdAt: Date.now() });
+    keyring.activeKeyId = id;
+    this.dataKeys.set(id, key);
+    return id;
+  }
+
+  private wrapKey(key: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.kek!, iv);
+    return Buffer.concat([iv, cipher.update(key), cipher.final(), cipher.getAuthTag()]).toString('base64');
+  }
+
+  private unwrapKey(stored: StoredDataKey): Buffer {
+    const wrapped = Buffer.from(stored.wrappedKey, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.kek!, wrapped.subarray(0, 12));
+    decipher.setAuthTag(wrapped.subarray(wrapped.length - 16));
+    try {
+      return Buffer.concat([decipher.update(wrapped.subarray(12, wrapped.length - 16)), decipher.final()]);
+    } catch {
+      throw new Error('Encryption passphrase or key file does not unlock the keyring');
+    }
+  }
+
+  private async deriveKek(salt: Buffer): Promise<Buffer> {
+    if (this.secrets.keyFile) {
+      const contents = (await fs.readFile(this.secrets.keyFile)).toString('utf-8').trim();
+      const key = /^[0-9a-f]{64}$/i.test(contents)
+        ? Buffer.from(contents, 'hex')
+        : Buffer.from(contents, 'base64');
+      if (key.length !== 32) {
+        throw new Error('ENCRYPTION_KEY_FILE must contain a 32-byte key (hex or base64)');
+      }
+      return key;
+    }
+
+    return new Promise((resolve, reject) => {
+      crypto.scrypt(this.secrets.passphrase!, salt, 32, SCRYPT_PARAMS, (err, key) =>
+        err ? reject(err) : resolve(key)
+      );
+    });
+  }
+
+  private async readKeyring(): Promise<Keyring | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.keyringPath, 'utf-8')) as Keyring;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async saveKeyring(): Promise<void> {
+    await fs.mkdir(path.dirname(this.keyringPath), { recursive: true });
+    const tempPath = `${this.keyringPath}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.keyring, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.keyringPath);
+  }
+
+  private requireKeyring(): Keyring {
+    if (!this.keyring) {
+      throw new Error('Encryption at rest is not enabled');
+    }
+    return this.keyring;
+  }
+}
+
+export const encryptionService = new EncryptionService();
@@ -0,0 +1,147 @@
+/**
+ * HASHD Vault - Events Service
+ *
+ * Collects node activity into one numbered stream that clients follow over
+ * GET /events: blobs stored and deleted (storage service), feed entries
+ * (feed service), replication results (replication service) and P2P
+ * broadcasts (P2P service).
+ *
+ * The most recent events are kept in memory so a client that reconnects can
+ * resume after the last event ID it saw. IDs carry the node's start time,
+ * so IDs from before a restart are recognised as unresumable.
+ */
+
+import { EventEmitter } from 'events';
+import { storageService } from './storage.service.js';
+import { feedService } from './feed.service.js';
+import { replicationService } from './replication.service.js';
+import { p2pService } from './p2p.service.js';
+import { logger } from '../utils/logger.js';
+import { BroadcastEvent, NodeEvent, NodeEventData, NodeEventType } from '../types/index.js';
+
+// Events kept for clients resuming after a reconnect
+export const MAX_BUFFERED_EVENTS = 1000;
+
+// Concurrent event stream clients
+export const MAX_EVENT_SUBSCRIBERS = 100;
+
+const MAX_BROADCAST_LENGTH = 1000;
+
+export class EventsService {
+  private readonly epoch = Date.now();
+  private emitter = new EventEmitter();
+  private buffer: Array<{ sequence: number; event: NodeEvent }> = [];
+  private nextSequence = 1;
+  private sources: Array<() => void> = [];
+
+  constructor() {
+    this.emitter.setMaxListeners(MAX_EVENT_SUBSCRIBERS);
+  }
+
+  /**
+   * Start collecting events from the other services
+   */
+  async initialize(): Promise<void> {
+    if (this.sources.length > 0) return;
+
+    this.listen(storageService, 'blob:stored', data => this.publish('blob.stored', data));
+    this.listen(storageService, 'blob:deleted', data => this.publish('blob.deleted', data));
+    this.listen(feedService, 'entry:added', data => this.publish('feed.entry', data));
+    this.listen(replicationService, 'replication:completed', data => this.publish('replication.completed', data));
+    this.listen(replicationService, 'replication:failed', data => this.publish('replication.failed', data));
+    this.listen(p2pService, 'broadcast', broadcast => this.publish('broadcast', toBroadcastEvent(broadcast)));
+
+    logger.info('Events service initialized', { maxBufferedEvents: MAX_BUFFERED_EVENTS });
+  }
+
+  /**
+   * Stop collecting events
+   */
+  stop(): void {
+    for (const remove of this.sources) {
+      remove();
+    }
+    this.sources = [];
+  }
+
+  /**
+   * Record an event and deliver it to subscribers
+   */
+  publish<T extends NodeEventType>(type: T, data: NodeEventData[T]): NodeEvent {
+    const sequence = this.nextSequence++;
+    const event: NodeEvent = { id: `${this.epoch}-${sequence}`, type, timestamp: Date.now(), data };
+
+    this.buffer.push({ sequence, event });
+    if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+      this.buffer.shift();
+    }
+
+    this.emitter.emit('event', event);
+    return event;
+  }
+
+  /**
+   * Receive every event published from now on
+   * Returns a function that unsubscribes.
+   */
+  subscribe(listener: (event: NodeEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  getSubscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+
+  /**
+   * Buffered events after the given event ID
+   *
+   * Returns null when some of them are no longer buffered, or the ID is
+   * malformed or from before a restart; the client then has to re-sync.
+   */
+  getEventsSince(lastEventId: string): NodeEvent[] | null {
+    const match = /^(\d+)-(\d+)$/.exec(lastEventId);
+    if (!match || Number(match[1]) !== this.epoch) return null;
+
+    const sequence = Number(match[2]);
+    const oldest = this.buffer[0]?.sequence ?? this.nextSequence;
+    if (sequence >= this.nextSequence || sequence < oldest - 1) return null;
+
+    return this.buffer.filter(entry => entry.sequence > sequence).map(entry => entry.event);
+  }
+
+  /**
+   * ID of the latest event; resuming from it skips everything published so far
+   */
+  getLastEventId(): string {
+    return `${this.epoch}-${this.nextSequence - 1}`;
+  }
+
+  private listen(source: EventEmitter, name: string, handler: (data: any) => void): void {
+    // A failing subscriber must never fail the store, delete or feed write that emitted
+    const listener = (data: unknown) => {
+      try {
+        handler(data);
+      } catch (error: any) {
+        logger.warn('Failed to publish node event', { source: name, error: error.message });
+      }
+    };
+    source.on(name, listener);
+    this.sources.push(() => source.off(name, listener));
+  }
+}
+
+/**
+ * Broadcasts come from other peers, so only the expected fields are passed on
+ */
+function toBroadcastEvent(broadcast: any): BroadcastEvent {
+  return {
+    from: String(broadcast?.from ?? ''),
+    message: String(broadcast?.message ?? '').slice(0, MAX_BROADCAST_LENGTH),
+    timestamp: Number.isFinite(broadcast?.timestamp) ? broadcast.timestamp : Date.now()
+  };
+}
+
+export const eventsService = new EventsService();
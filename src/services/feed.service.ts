@@ -7,10 +7,13 @@
  * - Root entry handling (R10.4)
  * - Thread reconstruction (R10.6)
  * - Fork resolution (R10.7)
+ *
+ * Added entries are announced as 'entry:added' events.
  */
 
 import fs from 'fs/promises';
 import path from 'path';
+import { EventEmitter } from 'events';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { storageService } from './storage.service.js';
@@ -24,11 +27,12 @@ import {
   ForkResolutionResult
 } from '../types/index.js';
 
-export class FeedService {
+export class FeedService extends EventEmitter {
   private feedsDir: string;
   private initialized = false;
 
   constructor() {
+    super();
     this.feedsDir = path.join(config.dataDir, 'feeds');
   }
 
@@ -124,6 +128,8 @@ export class FeedService {
       parentCid: event.parentCid,
       author: event.authorKey.substring(0, 8)
     });
+
+    this.emit('entry:added', event);
   }
 
   /**
@@ -0,0 +1,163 @@
+/**
+ * HASHD Vault - Consistency Check (fsck) Service
+ *
+ * Reconciles the blob files with the metadata index: removes temp files
+ * of interrupted writes, re-derives metadata for blob files that have none
+ * (or quarantines them if they do not match their CID) and re-fetches
+ * blobs whose metadata outlived their bytes from peers. Runs shortly after
+ * startup (FSCK_ON_STARTUP) and on demand.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { storageService } from './storage.service.js';
+import { scrubService } from './scrub.service.js';
+import { FsckResult, FsckStatus } from '../types/index.js';
+
+// Give peers time to connect before missing blobs are re-fetched
+const STARTUP_DELAY_MS = 60 * 1000;
+// Temp files younger than this may belong to a write still in progress
+const TEMP_FILE_MIN_AGE_MS = 60 * 60 * 1000;
+const MAX_UNREPAIRED_CIDS = 100;
+
+const PROCESS_STARTED_AT = Date.now() - process.uptime() * 1000;
+
+export class FsckService {
+  private running = false;
+  private lastResult: FsckResult | undefined;
+  private startupTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Schedule the startup check if enabled
+   */
+  async initialize(): Promise<void> {
+    if (!config.fsckOnStartup) {
+      logger.info('Startup consistency check disabled');
+      return;
+    }
+
+    this.startupTimer = setTimeout(() => {
+      this.startupTimer = null;
+      if (this.running) return;
+      this.run().catch(error => logger.error('Startup consistency check failed', error));
+    }, STARTUP_DELAY_MS);
+    this.startupTimer.unref();
+  }
+
+  stop(): void {
+    if (this.startupTimer) {
+      clearTimeout(this.startupTimer);
+      this.startupTimer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getStatus(): FsckStatus {
+    return {
+      running: this.running,
+      onStartup: config.fsckOnStartup,
+      lastResult: this.lastResult
+    };
+  }
+
+  /**
+   * Check the data directory once
+   */
+  async run(): Promise<FsckResult> {
+    if (this.running) {
+      throw new Error('Consistency check already running');
+    }
+
+    this.running = true;
+    const result: FsckResult = {
+      startedAt: Date.now(),
+      finishedAt: 0,
+      tempFilesRemoved: 0,
+      orphanedBlobs: 0,
+      rederived: 0,
+      quarantined: 0,
+      missingBlobs: 0,
+      refetched: 0,
+      unrepaired: 0,
+      unrepairedCids: []
+    };
+
+    try {
+      logger.info('Starting consistency check');
+
+      // Anything from before this process started was abandoned by a crash
+      const modifiedBefore = Math.max(Date.now() - TEMP_FILE_MIN_AGE_MS, PROCESS_STARTED_AT);
+      result.tempFilesRemoved = await storageService.removeTempFiles(modifiedBefore);
+
+      const metadataIndex = storageService.getMetadataIndex();
+      const stored = new Set(await storageService.getBackend().list());
+      const indexed = new Set(await metadataIndex.listCids());
+
+      for (const cid of stored) {
+        if (indexed.has(cid)) continue;
+        // Stores in progress write their bytes before their metadata
+        if (await metadataIndex.isWritePending(cid) || await metadataIndex.get(cid).catch(() => null)) continue;
+
+        result.orphanedBlobs++;
+        await this.repairOrphan(cid, result);
+      }
+
+      for (const cid of indexed) {
+        if (stored.has(cid)) continue;
+        // Deleted or restored since the listing
+        if (!(await metadataIndex.get(cid).catch(() => null)) || await storageService.hasBlob(cid)) continue;
+
+        result.missingBlobs++;
+        const peerId = await scrubService.repairFromPeers(cid).catch(error => {
+          logger.warn('Failed to re-fetch missing blob', { cid, error: error.message });
+          return null;
+        });
+        if (peerId) {
+          result.refetched++;
+        } else {
+          this.recordUnrepaired(cid, result);
+        }
+      }
+
+      result.finishedAt = Date.now();
+      this.lastResult = result;
+
+      logger.info('Consistency check complete', { ...result, unrepairedCids: undefined });
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Re-derive an orphan's metadata from its bytes, or quarantine it
+   */
+  private async repairOrphan(cid: string, result: FsckResult): Promise<void> {
+    try {
+      if (await storageService.rederiveMetadata(cid)) {
+        result.rederived++;
+        return;
+      }
+      if (await storageService.quarantineBlob(cid)) {
+        result.quarantined++;
+        return;
+      }
+    } catch (error: any) {
+      logger.warn('Failed to repair orphaned blob', { cid, error: error.message });
+    }
+    this.recordUnrepaired(cid, result);
+  }
+
+  private recordUnrepaired(cid: string, result: FsckResult): void {
+    result.unrepaired++;
+    if (result.unrepairedCids.length < MAX_UNREPAIRED_CIDS) {
+      result.unrepairedCids.push(cid);
+    }
+  }
+}
+
+// Singleton instance
+export const fsckService = new FsckService();
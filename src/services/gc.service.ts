@@ -8,6 +8,9 @@
  * - Execution engine (R8.5)
  * - Replication-aware deletion (R8.7)
  * - Priority ordering (R8.8)
+ * - Uploader-specified expiry, applied before the retention policy
+ * - Trash purge: deleted blobs are removed for good once their trash
+ *   retention window has ended
  */
 
 import { config } from '../config/index.js';
@@ -106,16 +109,29 @@ export class GarbageCollectionService {
         skippedPinned: 0,
         skippedInsufficientReplicas: 0,
         skippedShardMismatch: 0,
+        expired: 0,
+        expiredOwners: 0,
         freedBytes: 0,
-        deletedCids: []
+        deletedCids: [],
+        purged: 0,
+        purgedBytes: 0,
+        freedBytesByTier: { hot: 0, cold: 0 }
       };
 
       // Get all blobs
-      const allBlobs = await storageService.listBlobs();
+      let allBlobs = await storageService.listBlobs();
       result.checked = allBlobs.length;
 
+      const expiredCids = await this.deleteExpired(allBlobs, result, simulate);
+      if (expiredCids.size > 0) {
+        // Deleted manifests take their chunks with them
+        allBlobs = simulate
+          ? allBlobs.filter(b => !expiredCids.has(b.cid))
+          : await storageService.listBlobs();
+      }
+
       // Get deletion candidates based on retention policy
-      const candidates = await this.getDeletionCandidates(allBlobs.map(b => b.cid));
+      const candidates = await this.getDeletionCandidates(allBlobs);
 
       logger.debug('GC candidates identified', { count: candidates.length });
 
@@ -141,12 +157,14 @@ export class GarbageCollectionService {
         }
 
         // Delete the blob
+        const tier = await storageService.getBlobTier(candidate.cid) ?? 'hot';
         if (!simulate) {
-          await storageService.deleteBlob(candidate.cid);
+          await storageService.deleteBlob(candidate.cid, { reason: 'gc' });
         }
 
         result.deleted++;
         result.freedBytes += candidate.size;
+        result.freedBytesByTier[tier] += candidate.size;
         result.deletedCids.push(candidate.cid);
 
         logger.info('Blob deleted by GC', {
@@ -156,6 +174,15 @@ export class GarbageCollectionService {
         });
       }
 
+      // Final purge of the trash, after this run's deletions went into it
+      try {
+        const purge = await storageService.purgeTrash(Date.now(), simulate);
+        result.purged = purge.purged;
+        result.purgedBytes = purge.purgedBytes;
+      } catch (error: any) {
+        logger.warn('Failed to purge trash', { error: error.message });
+      }
+
       // Update stats
       if (!simulate) {
         this.lastRun = Date.now();
@@ -178,16 +205,70 @@ export class GarbageCollectionService {
     }
   }
 
+  /**
+   * Delete expired blobs and drop expired owner references
+   *
+   * Expiry is signed by the uploader, so it skips the retention policy and
+   * the replication and shard checks: every replica expires the same blob
+   * at the same time. Operator pins still win.
+   *
+   * @returns CIDs deleted (or, when simulating, that would be)
+   */
+  private async deleteExpired(
+    allBlobs: BlobMetadata[],
+    result: GCResult,
+    simulate: boolean
+  ): Promise<Set<string>> {
+    const now = Date.now();
+    const deleted = new Set<string>();
+
+    for (const metadata of allBlobs) {
+      const { cid } = metadata;
+      const blobExpired = metadata.expiresAt !== undefined && metadata.expiresAt <= now;
+      const expiredOwners = (metadata.owners || [])
+        .filter(o => o.expiresAt !== undefined && o.expiresAt <= now).length;
+      if (!blobExpired && expiredOwners === 0) continue;
+
+      try {
+        const tier = await storageService.getBlobTier(cid) ?? 'hot';
+        const outcome = simulate
+          ? {
+            deleted: blobExpired && !(metadata.operatorPinned ?? metadata.pinned) && !metadata.chunkOf?.length,
+            expiredOwners
+          }
+          : await storageService.expireBlob(cid, now);
+
+        if (!outcome.deleted) {
+          result.expiredOwners += outcome.expiredOwners;
+          continue;
+        }
+
+        const size = metadata.manifest?.size ?? metadata.size;
+        deleted.add(cid);
+        result.deleted++;
+        result.expired++;
+        result.freedBytes += size;
+        result.freedBytesByTier[tier] += size;
+        result.deletedCids.push(cid);
+
+        logger.info('Expired blob deleted by GC', { cid, size, expiresAt: metadata.expiresAt, simulate });
+      } catch (error: any) {
+        logger.warn('Failed to expire blob', { cid, error: error.message });
+      }
+    }
+
+    return deleted;
+  }
+
   /**
    * Get deletion candidates based on retention policy (R8.2, R8.8)
    */
-  private async getDeletionCandidates(allBlobs: string[]): Promise<GCCandidate[]> {
+  private async getDeletionCandidates(allBlobs: BlobMetadata[]): Promise<GCCandidate[]> {
     const candidates: GCCandidate[] = [];
     const now = Date.now();
 
-    for (const cid of allBlobs) {
-      const metadata = await storageService.getMetadata(cid);
-      if (!metadata) continue;
+    for (const metadata of allBlobs) {
+      const { cid } = metadata;
 
       const age = (now - metadata.createdAt) / (24 * 60 * 60 * 1000); // days
       const lastAccessed = metadata.metrics?.lastAccessed || metadata.createdAt;
@@ -198,7 +279,9 @@ export class GarbageCollectionService {
       let priority = 0;
       priority += age * 10; // Older = higher priority
       priority += timeSinceAccess * 5; // Less accessed = higher priority
-      priority += metadata.size / (1024 * 1024); // Larger = slightly higher priority
+      // Chunked blobs count their full content (chunks are freed with the manifest)
+      const size = metadata.manifest?.size ?? metadata.size;
+      priority += size / (1024 * 1024); // Larger = slightly higher priority
 
       if (metadata.pinned) {
         priority = -1000; // Pinned = never delete
@@ -206,7 +289,7 @@ export class GarbageCollectionService {
 
       candidates.push({
         cid,
-        size: metadata.size,
+        size,
         age,
         lastAccessed,
         pinned: metadata.pinned || false,
@@ -313,6 +396,11 @@ export class GarbageCollectionService {
       return { allowed: false, reason: 'pinned' };
     }
 
+    // Chunks go away with the last manifest that references them
+    if (metadata.chunkOf?.length) {
+      return { allowed: false, reason: 'chunk_in_use' };
+    }
+
     // 2. Check shard responsibility (R8.1)
     const belongsToShard = shouldNodeStoreCid(cid, config.nodeShards, config.shardCount);
     if (!belongsToShard) {
@@ -407,7 +495,8 @@ export class GarbageCollectionService {
       deletedCount: this.totalDeleted,
       skippedPinned: this.totalSkippedPinned,
       skippedInsufficientReplicas: this.totalSkippedInsufficientReplicas,
-      nextRun
+      nextRun,
+      tiers: await storageService.getTierUsage()
     };
   }
 
@@ -422,7 +511,8 @@ export class GarbageCollectionService {
    * Force purge ALL blobs (DEV ONLY)
    * 
    * ⚠️ DANGER: Bypasses all safety checks
-   * - Deletes ALL blobs (including pinned)
+   * - Deletes ALL blobs (including pinned), skipping the trash
+   * - Empties the trash
    * - Ignores shard assignments
    * - Ignores replication factor
    * 
@@ -454,8 +544,13 @@ export class GarbageCollectionService {
         skippedPinned: 0,
         skippedInsufficientReplicas: 0,
         skippedShardMismatch: 0,
+        expired: 0,
+        expiredOwners: 0,
         freedBytes: 0,
-        deletedCids: []
+        deletedCids: [],
+        purged: 0,
+        purgedBytes: 0,
+        freedBytesByTier: { hot: 0, cold: 0 }
       };
 
       // Get ALL blobs
@@ -467,9 +562,14 @@ export class GarbageCollectionService {
       // Delete every single blob (no safety checks)
       for (const blob of allBlobs) {
         try {
-          await storageService.deleteBlob(blob.cid);
+          // Chunks may already be gone with their manifest
+          if (!(await storageService.hasBlob(blob.cid))) continue;
+
+          const tier = await storageService.getBlobTier(blob.cid) ?? 'hot';
+          await storageService.deleteBlob(blob.cid, { force: true, permanent: true, reason: 'gc' });
           result.deleted++;
           result.freedBytes += blob.size;
+          result.freedBytesByTier[tier] += blob.size;
           result.deletedCids.push(blob.cid);
         } catch (error: any) {
           logger.error('Failed to delete blob during force purge', {
@@ -479,6 +579,11 @@ export class GarbageCollectionService {
         }
       }
 
+      // Empty the trash too
+      const purge = await storageService.purgeTrash(Number.MAX_SAFE_INTEGER);
+      result.purged = purge.purged;
+      result.purgedBytes = purge.purgedBytes;
+
       const duration = Date.now() - startTime;
 
       logger.warn('Force purge completed', {
@@ -537,7 +642,7 @@ export class GarbageCollectionService {
       }
 
       // Delete the blob
-      await storageService.deleteBlob(cid);
+      await storageService.deleteBlob(cid, { reason: 'admin' });
 
       logger.info('Blob deleted', { cid, size: metadata.size });
 
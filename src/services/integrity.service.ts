@@ -0,0 +1,135 @@
+/**
+ * HASHD Vault - Integrity Service
+ *
+ * Holds the per-node secret that keys metadata and replication state
+ * integrity hashes. The secret is generated on first start and kept next
+ * to the node keys (dataDir/integrity-key.json, owner read/write only), so
+ * editing the stored records is not enough to forge a valid hash.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  IntegrityResult,
+  MetadataIntegrityFields,
+  ReplicationIntegrityFields,
+  generateMetadataIntegrityHash,
+  generateReplicationStateHash,
+  verifyMetadataIntegrity,
+  verifyReplicationStateIntegrity
+} from '../utils/cid.js';
+import { MAX_PAGE_SIZE, MetadataIndex } from './backends/index.js';
+
+export const INTEGRITY_KEY_FILENAME = 'integrity-key.json';
+
+/**
+ * Recorded in the environment marker once legacy metadata has been re-signed
+ * (3: the hash covers manifests, chunk references, app metadata and timestamps)
+ */
+export const METADATA_INTEGRITY_VERSION = 3;
+
+export class IntegrityService {
+  private keyPath: string;
+  private secret: Buffer | null = null;
+
+  constructor(dataDir: string = config.dataDir) {
+    this.keyPath = path.join(dataDir, INTEGRITY_KEY_FILENAME);
+  }
+
+  /**
+   * Load or generate the integrity secret
+   */
+  async initialize(): Promise<void> {
+    if (this.secret) return;
+
+    try {
+      const keyData = JSON.parse(await fs.readFile(this.keyPath, 'utf8'));
+      const secret = Buffer.from(keyData.secret, 'hex');
+      if (secret.length !== 32) {
+        throw new Error(`${this.keyPath} does not hold a 32-byte secret`);
+      }
+      this.secret = secret;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+
+      const secret = crypto.randomBytes(32);
+      await fs.mkdir(path.dirname(this.keyPath), { recursive: true });
+      await fs.writeFile(
+        this.keyPath,
+        JSON.stringify({ secret: secret.toString('hex'), generated: Date.now() }, null, 2),
+        { mode: 0o600 }
+      );
+      this.secret = secret;
+      logger.info('Generated metadata integrity key', { keyPath: this.keyPath });
+    }
+
+    // Ensure existing key file has correct permissions
+    try {
+      await fs.chmod(this.keyPath, 0o600);
+    } catch {
+      // Ignore if chmod fails (e.g., Windows)
+    }
+  }
+
+  signMetadata(metadata: MetadataIntegrityFields): string {
+    return generateMetadataIntegrityHash(this.requireSecret(), metadata);
+  }
+
+  verifyMetadata(metadata: MetadataIntegrityFields): IntegrityResult {
+    return verifyMetadataIntegrity(this.requireSecret(), metadata);
+  }
+
+  signReplicationState(state: ReplicationIntegrityFields): string {
+    return generateReplicationStateHash(this.requireSecret(), state);
+  }
+
+  verifyReplicationState(state: ReplicationIntegrityFields): IntegrityResult {
+    return verifyReplicationStateIntegrity(this.requireSecret(), state);
+  }
+
+  /**
+   * Re-sign metadata written by earlier versions with the node secret
+   *
+   * Records without a hash, or whose hash in an earlier scheme still
+   * matches, are re-signed. Records whose hash does not match are left
+   * alone and keep failing verification.
+   */
+  async resignMetadata(metadataIndex: MetadataIndex): Promise<{ resigned: number; failed: number }> {
+    let resigned = 0;
+    let failed = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await metadataIndex.query({ limit: MAX_PAGE_SIZE, cursor });
+      cursor = page.nextCursor;
+
+      for (const metadata of page.blobs) {
+        const result = this.verifyMetadata(metadata);
+        if (result.valid) continue;
+
+        if (result.reason === 'hash_mismatch') {
+          failed++;
+          logger.error('SECURITY: Legacy metadata failed integrity check, not re-signing', { cid: metadata.cid });
+          continue;
+        }
+
+        await metadataIndex.update({ ...metadata, integrityHash: this.signMetadata(metadata) });
+        resigned++;
+      }
+    } while (cursor);
+
+    return { resigned, failed };
+  }
+
+  private requireSecret(): Buffer {
+    if (!this.secret) {
+      throw new Error('Integrity service not initialized');
+    }
+    return this.secret;
+  }
+}
+
+export const integrityService = new IntegrityService();
@@ -6,6 +6,7 @@
  * - /bytecave/blob/1.0.0 - Blob retrieval
  * - /bytecave/health/1.0.0 - Health status exchange
  * - /bytecave/info/1.0.0 - Node info (for registration)
+ * - /bytecave/denylist/1.0.0 - Signed denylists this node subscribes to
  */
 
 import { Libp2p } from 'libp2p';
@@ -15,6 +16,8 @@ import { storageService } from './storage.service.js';
 import { metricsService } from './metrics.service.js';
 import { proofService } from './proof.service.js';
 import { config } from '../config/index.js';
+import { MAX_PAGE_SIZE } from './backends/index.js';
+import { SignedDenylist, StorageAuthorization } from '../types/index.js';
 
 // Protocol identifiers
 export const PROTOCOL_REPLICATE = '/bytecave/replicate/1.0.0';
@@ -22,6 +25,7 @@ export const PROTOCOL_BLOB = '/bytecave/blob/1.0.0';
 export const PROTOCOL_HEALTH = '/bytecave/health/1.0.0';
 export const PROTOCOL_INFO = '/bytecave/info/1.0.0';
 export const PROTOCOL_HAVE_LIST = '/bytecave/have-list/1.0.0';
+export const PROTOCOL_DENYLIST = '/bytecave/denylist/1.0.0';
 
 // Message types for protocol communication (v2 - with application metadata)
 interface ReplicateRequest {
@@ -33,12 +37,14 @@ interface ReplicateRequest {
   sender?: string;
   timestamp?: number;
   metadata?: Record<string, any>;
+  authorization?: StorageAuthorization;   // Uploader's signed authorization, carrying any expiry
 }
 
 interface ReplicateResponse {
   success: boolean;
   alreadyStored?: boolean;
   error?: string;
+  code?: string;      // Error code, e.g. QUOTA_EXCEEDED
 }
 
 interface BlobRequest {
@@ -75,6 +81,7 @@ export interface P2PHealthResponse {
     failed: number;
     orphaned: number;
     metadataTampered: number;
+    metadataUnsigned: number;
     failedCids: string[];
   };
 }
@@ -88,13 +95,25 @@ export interface P2PInfoResponse {
 
 interface HaveListRequest {
   limit?: number; // Max number of CIDs to return
-  offset?: number; // Pagination offset
+  offset?: number; // Pagination offset (peers on older versions)
+  cursor?: string; // nextCursor from the previous page
 }
 
 interface HaveListResponse {
   cids: string[];
   total: number;
   hasMore: boolean;
+  nextCursor?: string;
+}
+
+interface DenylistRequest {
+  publisher: string; // Address the list is signed by
+}
+
+interface DenylistResponse {
+  success: boolean;
+  denylist?: SignedDenylist;
+  error?: string;
 }
 
 class P2PProtocolsService {
@@ -118,9 +137,11 @@ class P2PProtocolsService {
       this.handleInfo(stream, connection));
     node.handle(PROTOCOL_HAVE_LIST, (stream: Stream, connection: Connection) => 
       this.handleHaveList(stream, connection));
+    node.handle(PROTOCOL_DENYLIST, (stream: Stream, connection: Connection) => 
+      this.handleDenylist(stream, connection));
 
     logger.info('P2P protocols registered', {
-      protocols: [PROTOCOL_REPLICATE, PROTOCOL_BLOB, PROTOCOL_HEALTH, PROTOCOL_INFO, PROTOCOL_HAVE_LIST]
+      protocols: [PROTOCOL_REPLICATE, PROTOCOL_BLOB, PROTOCOL_HEALTH, PROTOCOL_INFO, PROTOCOL_HAVE_LIST, PROTOCOL_DENYLIST]
     });
   }
 
@@ -135,6 +156,7 @@ class P2PProtocolsService {
     this.node.unhandle(PROTOCOL_HEALTH);
     this.node.unhandle(PROTOCOL_INFO);
     this.node.unhandle(PROTOCOL_HAVE_LIST);
+    this.node.unhandle(PROTOCOL_DENYLIST);
 
     logger.info('P2P protocols unregistered');
   }
@@ -273,13 +295,12 @@ class P2PProtocolsService {
         return;
       }
 
-      // All security checks passed - store the blob with metadata
+      const { storageAuthorizationService } = await import('./storage-authorization.service.js');
+      const accepted = await storageAuthorizationService.acceptReplica(request.cid, ciphertext, request.authorization);
+
+      // All security checks passed - store the blob with the owner the uploader signed for
       await storageService.storeBlob(request.cid, ciphertext, request.mimeType, {
-        appId: request.appId,
-        contentType: request.contentType,
-        sender: request.sender,
-        timestamp: request.timestamp,
-        metadata: request.metadata,
+        ...accepted,
         fromPeer: remotePeer
       });
 
@@ -294,7 +315,7 @@ class P2PProtocolsService {
     } catch (error: any) {
       logger.error('Replicate handler error', { error: error.message });
       try {
-        await this.writeMessage(stream, { success: false, error: error.message });
+        await this.writeMessage(stream, { success: false, error: error.message, code: error.code });
       } catch {
         // Stream may be closed
       }
@@ -316,6 +337,12 @@ class P2PProtocolsService {
         return;
       }
 
+      const { blockedContentService } = await import('./blocked-content.service.js');
+      if (await blockedContentService.isBlocked(request.cid)) {
+        await this.writeMessage(stream, { success: false, error: 'Content blocked' });
+        return;
+      }
+
       try {
         const blob = await storageService.getBlob(request.cid);
         
@@ -429,26 +456,62 @@ class P2PProtocolsService {
     try {
       const request = await this.readMessage<HaveListRequest>(stream);
       
-      const limit = request?.limit || 100;
+      const limit = Math.min(request?.limit || 100, MAX_PAGE_SIZE);
       const offset = request?.offset || 0;
+      const total = (await storageService.getStats()).blobCount;
+
+      let response: HaveListResponse;
+      if (offset > 0 && request?.cursor === undefined) {
+        // Peers on older versions page by offset
+        const allBlobs = await storageService.listBlobs();
+        response = {
+          cids: allBlobs.slice(offset, offset + limit).map(blob => blob.cid),
+          total,
+          hasMore: offset + limit < allBlobs.length
+        };
+      } else {
+        const page = await storageService.queryBlobs({ limit, cursor: request?.cursor });
+        response = {
+          cids: page.blobs.map(blob => blob.cid),
+          total,
+          hasMore: page.nextCursor !== undefined,
+          nextCursor: page.nextCursor
+        };
+      }
 
-      // Get list of CIDs we have
-      const allBlobs = await storageService.listBlobs();
-      const total = allBlobs.length;
-      const cids = allBlobs.slice(offset, offset + limit).map(blob => blob.cid);
-      const hasMore = offset + limit < total;
+      await this.writeMessage(stream, response);
+      logger.debug('Sent have-list to peer', { to: remotePeer, count: response.cids.length, total });
 
-      const response: HaveListResponse = {
-        cids,
-        total,
-        hasMore
-      };
+    } catch (error: any) {
+      logger.error('Have-list handler error', { error: error.message });
+    }
+  }
 
+  /**
+   * Handle incoming denylist request
+   */
+  private async handleDenylist(stream: Stream, connection: Connection): Promise<void> {
+    const remotePeer = connection.remotePeer.toString();
+    logger.debug('Handling denylist request', { from: remotePeer });
+
+    try {
+      const request = await this.readMessage<DenylistRequest>(stream);
+
+      if (!request || typeof request.publisher !== 'string') {
+        await this.writeMessage(stream, { success: false, error: 'Invalid request' });
+        return;
+      }
+
+      const { blockedContentService } = await import('./blocked-content.service.js');
+      const denylist = blockedContentService.getSignedDenylist(request.publisher);
+
+      const response: DenylistResponse = denylist
+        ? { success: true, denylist }
+        : { success: false, error: 'Denylist not found' };
       await this.writeMessage(stream, response);
-      logger.debug('Sent have-list to peer', { to: remotePeer, count: cids.length, total });
 
     } catch (error: any) {
-      logger.error('Have-list handler error', { error: error.message });
+      logger.error('Denylist handler error', { error: error.message });
     }
   }
 
@@ -470,6 +533,7 @@ class P2PProtocolsService {
       sender?: string;
       timestamp?: number;
       metadata?: Record<string, any>;
+      authorization?: StorageAuthorization;
     }
   ): Promise<boolean> {
     if (!this.node) return false;
@@ -485,7 +549,8 @@ class P2PProtocolsService {
         contentType: options?.contentType,
         sender: options?.sender,
         timestamp: options?.timestamp,
-        metadata: options?.metadata
+        metadata: options?.metadata,
+        authorization: options?.authorization
       };
 
       await this.writeMessage(stream, request);
@@ -584,7 +649,7 @@ class P2PProtocolsService {
   /**
    * Get list of CIDs a peer has via P2P stream
    */
-  async getHaveListFromPeer(peerId: string, options?: { limit?: number; offset?: number }): Promise<HaveListResponse | null> {
+  async getHaveListFromPeer(peerId: string, options?: { limit?: number; offset?: number; cursor?: string }): Promise<HaveListResponse | null> {
     if (!this.node) return null;
 
     try {
@@ -592,7 +657,8 @@ class P2PProtocolsService {
 
       const request: HaveListRequest = {
         limit: options?.limit || 100,
-        offset: options?.offset || 0
+        offset: options?.offset || 0,
+        cursor: options?.cursor
       };
 
       await this.writeMessage(stream, request);
@@ -607,6 +673,30 @@ class P2PProtocolsService {
     }
   }
 
+  /**
+   * Get a peer's copy of a signed denylist via P2P stream
+   *
+   * The list is returned unverified; callers check its signature.
+   */
+  async getDenylistFromPeer(peerId: string, publisher: string): Promise<SignedDenylist | null> {
+    if (!this.node) return null;
+
+    try {
+      const stream = await this.node.dialProtocol(peerId as any, PROTOCOL_DENYLIST);
+
+      const request: DenylistRequest = { publisher };
+      await this.writeMessage(stream, request);
+      const response = await this.readMessage<DenylistResponse>(stream);
+
+      await stream.close();
+      return response?.success && response.denylist ? response.denylist : null;
+
+    } catch (error: any) {
+      logger.warn('Failed to get denylist from peer', { peerId, error: error.message });
+      return null;
+    }
+  }
+
   // ============================================
   // STREAM UTILITIES
   // ============================================
@@ -0,0 +1,85 @@
+/**
+ * HASHD Vault - Quota Service
+ *
+ * Per-app and per-sender storage quotas (APP_QUOTAS, SENDER_QUOTAS), each
+ * limiting uploaded bytes and blob count. Usage is kept incrementally by
+ * the metadata index from every blob's appId and sender, so a blob counts
+ * once, towards whoever stored it first. Quotas are checked before a new
+ * blob is accepted from a client or a peer; a replica is charged to the
+ * owner in the uploader's signed authorization, never to the appId and
+ * sender the peer claims. Storing a blob the node already has only records
+ * another owner and is never refused.
+ */
+
+import { config } from '../config/index.js';
+import { storageService } from './storage.service.js';
+import { QuotaExceededError, QuotaReport, QuotaScope, StorageQuota } from '../types/index.js';
+
+const DEFAULT_QUOTA_KEY = '*';
+
+export class QuotaService {
+  /**
+   * The quota for an app or sender: its own entry, else the '*' entry
+   */
+  getQuota(scope: QuotaScope, key: string): StorageQuota | null {
+    const quotas = scope === 'app' ? config.appQuotas : config.senderQuotas;
+    const match = scope === 'app'
+      ? quotas[key]
+      : Object.entries(quotas).find(([sender]) => sender.toLowerCase() === key.toLowerCase())?.[1];
+    return match ?? quotas[DEFAULT_QUOTA_KEY] ?? null;
+  }
+
+  /**
+   * Refuse new blobs that would take their app or sender over quota
+   *
+   * @param size - Bytes the new blobs add
+   * @param blobs - Number of new blobs (default 1)
+   * @throws QuotaExceededError
+   */
+  async assertWithinQuota(owner: { appId?: string; sender?: string }, size: number, blobs = 1): Promise<void> {
+    const targets: Array<[QuotaScope, string | undefined]> = [['app', owner.appId], ['sender', owner.sender]];
+
+    for (const [scope, key] of targets) {
+      if (!key) continue;
+      const quota = this.getQuota(scope, key);
+      if (!quota) continue;
+
+      const usage = await storageService.getUsage(scope, key);
+      if (quota.maxMB !== undefined && usage.totalSize + size > quota.maxMB * 1024 * 1024) {
+        throw new QuotaExceededError(scope, usage.key, 'bytes', usage.totalSize, quota.maxMB * 1024 * 1024);
+      }
+      if (quota.maxBlobs !== undefined && usage.blobCount + blobs > quota.maxBlobs) {
+        throw new QuotaExceededError(scope, usage.key, 'blobs', usage.blobCount, quota.maxBlobs);
+      }
+    }
+  }
+
+  /**
+   * Usage of one app or sender against its quota
+   */
+  async getReport(scope: QuotaScope, key: string): Promise<QuotaReport> {
+    const usage = await storageService.getUsage(scope, key);
+    return { ...usage, quota: this.getQuota(scope, key) };
+  }
+
+  /**
+   * Largest users of a scope plus every app or sender with its own quota
+   */
+  async listReports(scope: QuotaScope, limit?: number): Promise<QuotaReport[]> {
+    const reports = (await storageService.listUsage(scope, limit))
+      .map(usage => ({ ...usage, quota: this.getQuota(scope, usage.key) }));
+
+    const quotas = scope === 'app' ? config.appQuotas : config.senderQuotas;
+    const listed = new Set(reports.map(r => r.key));
+    for (const key of Object.keys(quotas)) {
+      const normalized = scope === 'sender' ? key.toLowerCase() : key;
+      if (key === DEFAULT_QUOTA_KEY || listed.has(normalized)) continue;
+      reports.push(await this.getReport(scope, key));
+    }
+
+    return reports;
+  }
+}
+
+// Singleton instance
+export const quotaService = new QuotaService();
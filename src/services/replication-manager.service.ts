@@ -14,7 +14,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { generateReplicationStateHash, verifyReplicationStateIntegrity } from '../utils/cid.js';
+import { verifyLegacyReplicationStateIntegrity } from '../utils/cid.js';
+import { integrityService } from './integrity.service.js';
 import { reputationService } from './reputation.service.js';
 import { selectNodesForReplication, isReplicationComplete } from '../utils/node-selection.js';
 import { 
@@ -24,6 +25,9 @@ import {
   ReplicateRequest 
 } from '../types/index.js';
 
+// Version 2: integrity hashes keyed with the node's integrity secret
+const REPLICATION_STATE_VERSION = 2;
+
 export class ReplicationManagerService {
   private stateFile: string;
   private states: Map<string, ReplicationState> = new Map();
@@ -40,6 +44,7 @@ export class ReplicationManagerService {
     if (this.initialized) return;
 
     try {
+      await integrityService.initialize();
       await this.loadStates();
       this.initialized = true;
       logger.info('Replication manager initialized', {
@@ -395,15 +400,10 @@ export class ReplicationManagerService {
       failedNodes: [],
       lastUpdated: Date.now(),
       complete,
-      // SECURITY: Add integrity hash to prevent tampering
-      integrityHash: generateReplicationStateHash(
-        cid,
-        config.replicationFactor,
-        successfulPeers,
-        complete
-      ),
       lastVerified: Date.now()
     };
+    // SECURITY: Add integrity hash to prevent tampering
+    state.integrityHash = integrityService.signReplicationState(state);
 
     this.states.set(cid, state);
     
@@ -415,20 +415,32 @@ export class ReplicationManagerService {
 
   /**
    * Load replication states from disk
-   * SECURITY: Verifies integrity hash on each state
+   * SECURITY: Verifies integrity hash on each state. Files from earlier
+   * versions (a bare array) are re-signed with the node key, keeping only
+   * states whose legacy hash matches.
    */
   private async loadStates(): Promise<void> {
     try {
       const data = await fs.readFile(this.stateFile, 'utf8');
-      const statesArray: ReplicationState[] = JSON.parse(data);
+      const parsed = JSON.parse(data);
+      const legacyFile = Array.isArray(parsed);
+      const statesArray: ReplicationState[] = legacyFile ? parsed : parsed.states;
 
       this.states.clear();
       let tampered = 0;
+      let resigned = 0;
       
       for (const state of statesArray) {
         // SECURITY: Verify integrity hash
-        const integrity = verifyReplicationStateIntegrity(state);
-        if (!integrity.valid) {
+        const integrity = integrityService.verifyReplicationState(state);
+        if (
+          !integrity.valid &&
+          legacyFile &&
+          (!state.integrityHash || verifyLegacyReplicationStateIntegrity(state))
+        ) {
+          state.integrityHash = integrityService.signReplicationState(state);
+          resigned++;
+        } else if (!integrity.valid) {
           tampered++;
           logger.error('SECURITY: Replication state tampered, ignoring', { 
             cid: state.cid, 
@@ -447,6 +459,11 @@ export class ReplicationManagerService {
         });
       }
       
+      if (legacyFile) {
+        logger.info('Replication states re-signed with node integrity key', { resigned });
+        await this.saveStates();
+      }
+      
       logger.debug('Loaded replication states', { count: this.states.size });
     } catch (error: any) {
       if (error.code === 'ENOENT') {
@@ -463,10 +480,10 @@ export class ReplicationManagerService {
    */
   private async saveStates(): Promise<void> {
     try {
-      const statesArray = Array.from(this.states.values());
+      const states = Array.from(this.states.values());
       await fs.writeFile(
         this.stateFile,
-        JSON.stringify(statesArray, null, 2)
+        JSON.stringify({ version: REPLICATION_STATE_VERSION, states }, null, 2)
       );
     } catch (error) {
       logger.error('Failed to save replication states', error);
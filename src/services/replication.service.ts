@@ -4,20 +4,50 @@
  * Handles peer-to-peer blob replication using:
  * 1. Pure P2P via libp2p streams (preferred)
  * 2. HTTP fallback for legacy/direct connections
+ *
+ * The outcome of each push is announced as a 'replication:completed' or
+ * 'replication:failed' event.
  */
 
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { Peer, ReplicateRequest } from '../types/index.js';
+import {
+  BlobMetadata,
+  CIDMismatchError,
+  Peer,
+  ReplicateRequest,
+  ReplicationEvent,
+  StorageAuthorization
+} from '../types/index.js';
 import { contractIntegrationService } from './contract-integration.service.js';
 import { storageService } from './storage.service.js';
 import { replicationManager } from './replication-manager.service.js';
 import { p2pProtocolsService } from './p2p-protocols.service.js';
 import { p2pService } from './p2p.service.js';
+import { blockedContentService } from './blocked-content.service.js';
+import { MANIFEST_MIME_TYPE } from '../utils/manifest.js';
+import { generateCID, verifyCID } from '../utils/cid.js';
 
-export class ReplicationService {
+// Blobs requested per page of a peer's blob list
+const PEER_LIST_PAGE_SIZE = 1000;
+
+// Pages of one peer's blob list read per pull; the next pull resumes after them
+const MAX_PEER_LIST_PAGES = 100;
+
+// An entry of a peer's GET /blobs
+interface PeerBlob {
+  cid: string;
+  mimeType: string;
+  expiresAt?: number;
+}
+
+export class ReplicationService extends EventEmitter {
   private peers: Peer[] = [];
   private refreshInterval: NodeJS.Timeout | null = null;
+  private pullCursors = new Map<string, string>();   // Where each peer's blob list resumes
 
   /**
    * Initialize replication service
@@ -48,14 +78,28 @@ export class ReplicationService {
     cid: string,
     ciphertext: Buffer,
     mimeType: string,
-    options?: { contentType?: string; guildId?: string }
+    options?: { contentType?: string; guildId?: string; expiresAt?: number; authorization?: StorageAuthorization }
   ): Promise<string[]> {
     if (!config.replicationEnabled || this.peers.length === 0) {
       return [];
     }
 
+    // Expired content is never handed to peers again
+    if (options?.expiresAt !== undefined && options.expiresAt <= Date.now()) {
+      logger.debug('Not replicating expired blob', { cid, expiresAt: options.expiresAt });
+      return [];
+    }
+
+    if (await blockedContentService.isBlocked(cid)) {
+      logger.debug('Not replicating blocked blob', { cid });
+      return [];
+    }
+
+    const blockedPeers = await Promise.all(
+      this.peers.map(p => p.nodeId ? blockedContentService.isPeerBlocked(p.nodeId) : false)
+    );
     const enabledPeers = this.peers
-      .filter(p => p.enabled)
+      .filter((p, index) => p.enabled && !blockedPeers[index])
       .sort((a, b) => a.priority - b.priority)
       .slice(0, config.replicationFactor);
 
@@ -89,6 +133,13 @@ export class ReplicationService {
       total: enabledPeers.length
     });
 
+    const event: ReplicationEvent = {
+      cid,
+      peers: successful,
+      failedPeers: enabledPeers.map(peer => peer.url).filter(url => !successful.includes(url))
+    };
+    this.emit(successful.length > 0 ? 'replication:completed' : 'replication:failed', event);
+
     // Track replication in manager for stats
     if (successful.length > 0) {
       replicationManager.trackReplication(cid, successful);
@@ -97,6 +148,27 @@ export class ReplicationService {
     return successful;
   }
 
+  /**
+   * Replicate a blob already in local storage
+   *
+   * For chunked blobs every chunk is sent before the manifest, since peers
+   * only accept a manifest once they hold all of its chunks.
+   */
+  async replicateStoredBlob(cid: string): Promise<string[]> {
+    const manifest = await storageService.getManifest(cid);
+
+    if (manifest) {
+      const { expiresAt } = await storageService.getMetadata(cid);
+      for (const chunk of manifest.chunks) {
+        const { ciphertext, metadata } = await storageService.getBlob(chunk.cid);
+        await this.replicateToAll(chunk.cid, ciphertext, metadata.mimeType, { expiresAt });
+      }
+    }
+
+    const { ciphertext, metadata } = await storageService.getBlob(cid);
+    return this.replicateToAll(cid, ciphertext, metadata.mimeType, replicaOptions(metadata));
+  }
+
   /**
    * Replicate to a single peer - tries P2P first, falls back to HTTP (v2 - with metadata)
    */
@@ -111,6 +183,7 @@ export class ReplicationService {
       sender?: string;
       timestamp?: number;
       metadata?: Record<string, any>;
+      authorization?: StorageAuthorization;
     }
   ): Promise<boolean> {
     const startTime = Date.now();
@@ -153,7 +226,8 @@ export class ReplicationService {
         contentType: options?.contentType,
         sender: options?.sender,
         timestamp: options?.timestamp,
-        metadata: options?.metadata
+        metadata: options?.metadata,
+        authorization: options?.authorization
       };
 
       const controller = new AbortController();
@@ -324,16 +398,20 @@ export class ReplicationService {
       let synced = 0;
       let failed = 0;
 
+      // Manifests go last so peers already hold their chunks
+      blobs.sort((a, b) => Number(!!a.manifest) - Number(!!b.manifest));
+
       for (const blob of blobs) {
         try {
           // Get the blob data
           const blobData = await storageService.getBlob(blob.cid);
           
-          // Replicate to all peers
+          // Replicate to all peers (expired blobs are skipped)
           const results = await this.replicateToAll(
             blob.cid,
             blobData.ciphertext,
-            blob.mimeType
+            blob.mimeType,
+            replicaOptions(blob)
           );
 
           if (results.length > 0) {
@@ -353,74 +431,83 @@ export class ReplicationService {
 
   /**
    * Pull missing blobs from peers (bidirectional sync)
+   *
+   * Peers' blob lists are read a page at a time; peers on older versions
+   * answer with the whole list in one page. At most MAX_PEER_LIST_PAGES are
+   * read per peer per run, and a peer whose cursor repeats is not read further.
    */
   async pullMissingBlobs(): Promise<void> {
     try {
-      // Get our local blobs
-      const localBlobs = await storageService.listBlobs();
-      const localCids = new Set(localBlobs.map(b => b.cid));
-
       let pulled = 0;
       let failed = 0;
 
       // Check each peer for blobs we don't have
       for (const peer of this.peers.filter(p => p.enabled && p.healthy)) {
-        try {
-          // Get peer's blob list
-          const response = await fetch(`${peer.url}/blobs`, {
-            signal: AbortSignal.timeout(5000)
-          });
-
-          if (!response.ok) continue;
+        if (peer.nodeId && await blockedContentService.isPeerBlocked(peer.nodeId)) continue;
 
-          const peerData = await response.json() as { blobs: Array<{ cid: string; mimeType: string }> };
-          
-          // Find blobs we don't have
-          const missingBlobs = peerData.blobs.filter(b => !localCids.has(b.cid));
-
-          if (missingBlobs.length === 0) continue;
-
-          logger.info('Found missing blobs from peer', {
-            peer: peer.url,
-            missing: missingBlobs.length
-          });
-
-          // Pull each missing blob
-          for (const blob of missingBlobs) {
-            try {
-              // Fetch the blob data
-              const blobResponse = await fetch(`${peer.url}/blob/${blob.cid}`, {
-                signal: AbortSignal.timeout(config.replicationTimeoutMs)
-              });
+        try {
+          // Manifests are pulled after every page, so their chunks arrive first
+          const manifests: PeerBlob[] = [];
+          let missing = 0;
+          let cursor = this.pullCursors.get(peer.url);
+          const seenCursors = new Set<string>();
+          let pages = 0;
+          this.pullCursors.delete(peer.url);
+
+          do {
+            // Get a page of the peer's blob list
+            const params = new URLSearchParams({ limit: String(PEER_LIST_PAGE_SIZE) });
+            if (cursor) params.set('cursor', cursor);
+            const response = await fetch(`${peer.url}/blobs?${params}`, {
+              signal: AbortSignal.timeout(5000)
+            });
+
+            if (!response.ok) break;
+
+            const page = await response.json() as { blobs: PeerBlob[]; nextCursor?: string };
+            cursor = page.nextCursor;
+            pages++;
+
+            if (cursor !== undefined && seenCursors.has(cursor)) {
+              logger.warn('Peer blob list cursor repeated, not reading further', { peer: peer.url, pages });
+              cursor = undefined;
+            } else if (cursor !== undefined && pages >= MAX_PEER_LIST_PAGES) {
+              logger.debug('Peer blob list page limit reached, resuming next run', { peer: peer.url, pages });
+              this.pullCursors.set(peer.url, cursor);
+              cursor = undefined;
+            } else if (cursor !== undefined) {
+              seenCursors.add(cursor);
+            }
 
-              if (!blobResponse.ok) {
+            // Find unexpired, unblocked blobs we don't have
+            const now = Date.now();
+            for (const blob of page.blobs) {
+              // A listed expiry only decides what not to pull; it is never stored
+              if (blob.expiresAt !== undefined && blob.expiresAt <= now) continue;
+              if (await storageService.hasBlob(blob.cid) || await blockedContentService.isBlocked(blob.cid)) continue;
+
+              missing++;
+              if (blob.mimeType === MANIFEST_MIME_TYPE) {
+                manifests.push(blob);
+              } else if (await this.pullBlob(peer, blob)) {
+                pulled++;
+              } else {
                 failed++;
-                continue;
               }
+            }
+          } while (cursor);
 
-              const blobData = await blobResponse.json() as { 
-                cid: string; 
-                ciphertext: string; 
-                mimeType: string 
-              };
-
-              // Store locally
-              const ciphertextBuffer = Buffer.from(blobData.ciphertext, 'base64');
-              await storageService.storeBlob(
-                blobData.cid,
-                ciphertextBuffer,
-                blobData.mimeType
-              );
-
+          for (const blob of manifests) {
+            if (await this.pullBlob(peer, blob)) {
               pulled++;
-              localCids.add(blobData.cid); // Track so we don't pull again from another peer
-
-              logger.debug('Pulled blob from peer', { cid: blob.cid, peer: peer.url });
-            } catch (err: any) {
-              logger.debug('Failed to pull blob', { cid: blob.cid, error: err.message });
+            } else {
               failed++;
             }
           }
+
+          if (missing > 0) {
+            logger.info('Pulled missing blobs from peer', { peer: peer.url, missing });
+          }
         } catch (err: any) {
           logger.debug('Failed to get blob list from peer', { peer: peer.url, error: err.message });
         }
@@ -434,6 +521,69 @@ export class ReplicationService {
     }
   }
 
+  /**
+   * Fetch one blob from a peer and store it
+   *
+   * @returns false if it could not be pulled
+   */
+  private async pullBlob(peer: Peer, blob: PeerBlob): Promise<boolean> {
+    try {
+      // Fetch the raw blob bytes (peers on older versions still answer with JSON)
+      // resolve=false fetches a manifest itself rather than the reassembled content
+      const blobResponse = await fetch(`${peer.url}/blob/${blob.cid}?resolve=false`, {
+        headers: { Accept: 'application/octet-stream' },
+        signal: AbortSignal.timeout(config.replicationTimeoutMs)
+      });
+
+      if (!blobResponse.ok || !blobResponse.body) {
+        return false;
+      }
+
+      if (blobResponse.headers.get('content-type')?.startsWith('application/json')) {
+        const blobData = await blobResponse.json() as { 
+          cid: string; 
+          ciphertext: string; 
+          mimeType: string 
+        };
+
+        // SECURITY: Never accept bytes that do not hash to the requested CID
+        const ciphertextBuffer = Buffer.from(blobData.ciphertext, 'base64');
+        if (blobData.cid !== blob.cid || !verifyCID(blob.cid, ciphertextBuffer)) {
+          throw new CIDMismatchError(blob.cid, generateCID(ciphertextBuffer));
+        }
+
+        // Store locally (the listed expiry is not signed, so it is not kept)
+        await storageService.storeBlob(
+          blob.cid,
+          ciphertextBuffer,
+          blobData.mimeType
+        );
+      } else {
+        const staged = await storageService.stageBlobStream(
+          Readable.fromWeb(blobResponse.body as ReadableStream<Uint8Array>),
+          config.maxBlobSizeMB * 1024 * 1024
+        );
+
+        // SECURITY: Never accept bytes that do not hash to the requested CID
+        if (staged.cid !== blob.cid) {
+          await storageService.discardStagedBlob(staged);
+          throw new CIDMismatchError(blob.cid, staged.cid);
+        }
+
+        await storageService.storeStagedBlob(
+          staged,
+          blobResponse.headers.get('content-type') || blob.mimeType
+        );
+      }
+
+      logger.debug('Pulled blob from peer', { cid: blob.cid, peer: peer.url });
+      return true;
+    } catch (err: any) {
+      logger.debug('Failed to pull blob', { cid: blob.cid, error: err.message });
+      return false;
+    }
+  }
+
   /**
    * Reload peers from registry
    */
@@ -470,4 +620,19 @@ export class ReplicationService {
   }
 }
 
+/**
+ * Options a stored blob is replicated with: its effective expiry, and the
+ * owner authorization that signs it so peers can honor that expiry
+ *
+ * Chunked content is signed over the reassembled bytes, which peers cannot
+ * check against a manifest, so its replicas are kept without an expiry.
+ */
+function replicaOptions(metadata: BlobMetadata): { expiresAt?: number; authorization?: StorageAuthorization } {
+  const authorization = metadata.expiresAt === undefined || metadata.manifest
+    ? undefined
+    : metadata.owners?.find(owner => owner.authorization?.expiresAt === metadata.expiresAt)?.authorization;
+
+  return { expiresAt: metadata.expiresAt, authorization };
+}
+
 export const replicationService = new ReplicationService();
@@ -0,0 +1,300 @@
+/**
+ * HASHD Vault - Integrity Scrub Service
+ *
+ * Periodically re-hashes every stored blob against its CID and checks its
+ * metadata integrity hash. Corrupt bytes are quarantined and, like missing
+ * bytes, re-fetched from connected peers. Reads are paced to stay within
+ * SCRUB_MAX_MB_PER_SEC so a pass does not starve regular traffic.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { verifyCID } from '../utils/cid.js';
+import { storageService } from './storage.service.js';
+import { integrityService } from './integrity.service.js';
+import { p2pService } from './p2p.service.js';
+import { p2pProtocolsService } from './p2p-protocols.service.js';
+import { MAX_PAGE_SIZE } from './backends/index.js';
+import { BlobMetadata, RepairRecord, ScrubResult, ScrubStatus } from '../types/index.js';
+
+const MAX_REPAIR_HISTORY = 1000;
+
+export class ScrubService {
+  private historyFile: string;
+  private history: RepairRecord[] = [];
+  private running = false;
+  private lastRun = 0;
+  private lastResult: ScrubResult | undefined;
+  private scrubInterval: NodeJS.Timeout | null = null;
+  private abort = new AbortController();
+  private recoveryPending = false;
+
+  constructor() {
+    this.historyFile = path.join(config.dataDir, 'scrub-history.json');
+  }
+
+  /**
+   * Load repair history and start periodic scrubbing
+   */
+  async initialize(): Promise<void> {
+    await this.loadHistory();
+
+    if (!config.scrubEnabled) {
+      logger.info('Integrity scrubbing disabled');
+      return;
+    }
+
+    const intervalMs = config.scrubIntervalHours * 60 * 60 * 1000;
+    this.scrubInterval = setInterval(() => {
+      if (this.running) return;
+      this.runScrub().catch(error => logger.error('Periodic scrub failed', error));
+    }, intervalMs);
+
+    logger.info('Integrity scrubbing initialized', {
+      intervalHours: config.scrubIntervalHours,
+      maxMBPerSecond: config.scrubMaxMBPerSecond
+    });
+  }
+
+  /**
+   * Stop periodic scrubbing and abort a running pass
+   */
+  stop(): void {
+    if (this.scrubInterval) {
+      clearInterval(this.scrubInterval);
+      this.scrubInterval = null;
+    }
+    this.abort.abort();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Scrub every stored blob once
+   *
+   * A recovery pass only checks that each blob's bytes are still stored and
+   * re-fetches the missing ones, without reading them.
+   */
+  async runScrub(mode: ScrubResult['mode'] = 'scrub'): Promise<ScrubResult> {
+    if (this.running) {
+      throw new Error('Scrub already running');
+    }
+
+    this.running = true;
+    this.abort = new AbortController();
+    const signal = this.abort.signal;
+
+    const result: ScrubResult = {
+      mode,
+      startedAt: Date.now(),
+      finishedAt: 0,
+      checked: 0,
+      bytesRead: 0,
+      corrupt: 0,
+      missing: 0,
+      metadataInvalid: 0,
+      repaired: 0,
+      unrepaired: 0,
+      aborted: false
+    };
+
+    try {
+      logger.info('Starting integrity scrub', { mode, maxMBPerSecond: config.scrubMaxMBPerSecond });
+
+      const budget = config.scrubMaxMBPerSecond * 1024 * 1024;
+      const metadataIndex = storageService.getMetadataIndex();
+      let cursor: string | undefined;
+
+      do {
+        // Raw index pages: records failing their integrity check are included
+        const page = await metadataIndex.query({ limit: MAX_PAGE_SIZE, cursor });
+        cursor = page.nextCursor;
+
+        for (const metadata of page.blobs) {
+          if (signal.aborted) break;
+          result.checked++;
+          await this.scrubBlob(metadata, result, mode);
+          await this.throttle(result, budget, signal);
+        }
+      } while (cursor && !signal.aborted);
+
+      result.aborted = signal.aborted;
+      result.finishedAt = Date.now();
+      if (mode === 'scrub') {
+        this.lastRun = result.finishedAt;
+      }
+      this.lastResult = result;
+
+      logger.info('Integrity scrub complete', { ...result });
+      return result;
+    } finally {
+      this.running = false;
+      await this.saveHistory();
+      if (this.recoveryPending) {
+        this.recoveryPending = false;
+        this.requestRecovery();
+      }
+    }
+  }
+
+  /**
+   * Re-fetch blobs whose bytes are gone (a data volume failed) in the
+   * background, after the pass already running if there is one
+   */
+  requestRecovery(): void {
+    if (this.running) {
+      this.recoveryPending = true;
+      return;
+    }
+    this.runScrub('recovery').catch(error => logger.error('Recovery pass failed', error));
+  }
+
+  /**
+   * Repair history, newest first
+   */
+  getRepairHistory(limit = 100): RepairRecord[] {
+    return this.history.slice(-limit).reverse();
+  }
+
+  getStatus(): ScrubStatus {
+    const intervalMs = config.scrubIntervalHours * 60 * 60 * 1000;
+    return {
+      enabled: config.scrubEnabled,
+      running: this.running,
+      intervalHours: config.scrubIntervalHours,
+      maxMBPerSecond: config.scrubMaxMBPerSecond,
+      lastRun: this.lastRun,
+      nextRun: config.scrubEnabled && this.lastRun > 0 ? this.lastRun + intervalMs : 0,
+      lastResult: this.lastResult
+    };
+  }
+
+  private async scrubBlob(metadata: BlobMetadata, result: ScrubResult, mode: ScrubResult['mode']): Promise<void> {
+    const { cid } = metadata;
+    let problem: 'corrupt' | 'missing' | null = null;
+    let quarantinePath: string | undefined;
+
+    try {
+      let status: 'ok' | 'corrupt' | 'missing';
+      if (mode === 'recovery') {
+        // Only whether the bytes are still stored anywhere
+        status = (await storageService.hasBlob(cid)) ? 'ok' : 'missing';
+      } else {
+        const integrity = integrityService.verifyMetadata(metadata);
+        if (!integrity.valid) {
+          // Metadata cannot be taken from peers: it is this node's own record
+          result.metadataInvalid++;
+          result.unrepaired++;
+          this.record({ cid, problem: 'metadata_invalid', outcome: 'unrepaired', error: integrity.reason });
+          return;
+        }
+
+        const verified = await storageService.verifyStoredBlob(cid, metadata);
+        result.bytesRead += verified.bytesRead;
+        status = verified.status;
+      }
+      if (status === 'ok') return;
+
+      problem = status;
+      if (status === 'corrupt') {
+        result.corrupt++;
+        quarantinePath = (await storageService.quarantineBlob(cid)) ?? undefined;
+      } else {
+        result.missing++;
+      }
+
+      const peerId = await this.repairFromPeers(cid);
+      if (peerId) {
+        result.repaired++;
+      } else {
+        result.unrepaired++;
+      }
+
+      this.record({
+        cid,
+        problem: status,
+        outcome: peerId ? 'repaired' : 'unrepaired',
+        peerId: peerId ?? undefined,
+        quarantinePath
+      });
+    } catch (error: any) {
+      logger.error('Failed to scrub blob', { cid, error: error.message });
+      if (problem) {
+        result.unrepaired++;
+        this.record({ cid, problem, outcome: 'unrepaired', quarantinePath, error: error.message });
+      }
+    }
+  }
+
+  /**
+   * Fetch a good copy from the first connected peer that has one
+   *
+   * @returns the peer ID the copy came from, or null
+   */
+  async repairFromPeers(cid: string): Promise<string | null> {
+    if (!p2pService.isStarted()) return null;
+
+    for (const peerId of p2pService.getConnectedPeers()) {
+      const response = await p2pProtocolsService.retrieveFromPeer(peerId, cid);
+      // SECURITY: Never trust a peer's copy without checking it against the CID
+      if (!response || !verifyCID(cid, response.ciphertext)) continue;
+
+      await storageService.restoreBlobData(cid, response.ciphertext);
+      logger.info('Blob repaired from peer', { cid, peerId });
+      return peerId;
+    }
+
+    logger.warn('No peer could supply a good copy', { cid });
+    return null;
+  }
+
+  /**
+   * Sleep until the bytes read so far fit the IO budget
+   */
+  private async throttle(result: ScrubResult, budget: number, signal: AbortSignal): Promise<void> {
+    const due = result.startedAt + (result.bytesRead / budget) * 1000;
+    const wait = due - Date.now();
+    if (wait <= 0 || signal.aborted) return;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, wait);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  private record(entry: Omit<RepairRecord, 'detectedAt'>): void {
+    this.history.push({ ...entry, detectedAt: Date.now() });
+    if (this.history.length > MAX_REPAIR_HISTORY) {
+      this.history.splice(0, this.history.length - MAX_REPAIR_HISTORY);
+    }
+  }
+
+  private async loadHistory(): Promise<void> {
+    try {
+      this.history = JSON.parse(await fs.readFile(this.historyFile, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn('Failed to load scrub history', { error: error.message });
+      }
+      this.history = [];
+    }
+  }
+
+  private async saveHistory(): Promise<void> {
+    try {
+      await fs.writeFile(this.historyFile, JSON.stringify(this.history, null, 2));
+    } catch (error) {
+      logger.error('Failed to save scrub history', error);
+    }
+  }
+}
+
+// Singleton instance
+export const scrubService = new ScrubService();
@@ -11,9 +11,15 @@
 
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger.js';
+import { storageService } from './storage.service.js';
+import { quotaService } from './quota.service.js';
+import { uploadSessionService } from './upload-session.service.js';
 import {
   StorageAuthorization,
-  AuthorizationVerificationResult
+  AuthorizationVerificationResult,
+  OwnerActionRequest,
+  StoreBlobOptions,
+  StorageFullError
 } from '../types/index.js';
 
 // Contract ABIs for authorization verification
@@ -50,6 +56,18 @@ Context: {context}
 Timestamp: {timestamp}
 Nonce: {nonce}`;
 
+// Appended to the message only when the authorization carries an expiry
+const EXPIRY_MESSAGE_LINE = `
+Expires At: {expiresAt}`;
+
+// Signature message format for owner actions (pin, unpin, release)
+const OWNER_ACTION_MESSAGE_TEMPLATE = `HASHD Vault Owner Action
+Action: {action}
+CID: {cid}
+App ID: {appId}
+Timestamp: {timestamp}
+Nonce: {nonce}`;
+
 export class StorageAuthorizationService {
   private provider: ethers.Provider | null = null;
   private groupFactoryAddress: string | null = null;
@@ -203,10 +221,14 @@ export class StorageAuthorizationService {
 
   /**
    * Verify a storage authorization request
+   *
+   * receivedAt is when the authorization was presented (defaults to now);
+   * resumable uploads verify against the time their session was opened.
    */
   async verifyAuthorization(
     authorization: StorageAuthorization,
-    actualContentHash: string
+    actualContentHash: string,
+    receivedAt: number = Date.now()
   ): Promise<AuthorizationVerificationResult> {
     // 1. Check if service is initialized
     if (!this.initialized || !this.provider) {
@@ -301,19 +323,24 @@ export class StorageAuthorizationService {
     }
 
     // 4. Verify timestamp is within tolerance
-    const now = Date.now();
-    if (Math.abs(now - authorization.timestamp) > this.TIMESTAMP_TOLERANCE_MS) {
+    if (Math.abs(receivedAt - authorization.timestamp) > this.TIMESTAMP_TOLERANCE_MS) {
       return {
         authorized: false,
         error: 'Timestamp expired or invalid',
         details: { 
           provided: authorization.timestamp, 
-          current: now,
+          current: receivedAt,
           tolerance: this.TIMESTAMP_TOLERANCE_MS 
         }
       };
     }
 
+    // 4b. An expiry must still be in the future
+    const expiryError = this.checkExpiry(authorization, receivedAt);
+    if (expiryError) {
+      return { authorized: false, error: expiryError };
+    }
+
     // 5. Verify content hash matches
     if (authorization.contentHash.toLowerCase() !== actualContentHash.toLowerCase()) {
       return {
@@ -359,6 +386,159 @@ export class StorageAuthorizationService {
     };
   }
 
+  /**
+   * Cheap pre-check for streamed uploads
+   *
+   * Validates timestamp and signature against the claimed content hash
+   * before any bytes are accepted. Does not consume the nonce or touch the
+   * chain - verifyAuthorization must still run once the content is hashed.
+   */
+  precheckAuthorization(authorization: StorageAuthorization): AuthorizationVerificationResult {
+    if (Math.abs(Date.now() - authorization.timestamp) > this.TIMESTAMP_TOLERANCE_MS) {
+      return { authorized: false, error: 'Timestamp expired or invalid' };
+    }
+
+    const expiryError = this.checkExpiry(authorization, Date.now());
+    if (expiryError) {
+      return { authorized: false, error: expiryError };
+    }
+
+    if (!this.verifySignature(authorization)) {
+      return { authorized: false, error: 'Invalid signature' };
+    }
+
+    return { authorized: true, sender: authorization.sender };
+  }
+
+  /**
+   * Verify the uploader's authorization forwarded with a replicated blob
+   *
+   * Proves the sender signed these exact bytes, and the expiry with them.
+   * The timestamp and nonce are not checked: the authorization was consumed
+   * by the node it was first presented to, and replicas arrive later.
+   */
+  verifyReplicaAuthorization(
+    authorization: StorageAuthorization,
+    actualContentHash: string
+  ): AuthorizationVerificationResult {
+    if (typeof authorization?.contentHash !== 'string' ||
+        authorization.contentHash.toLowerCase() !== actualContentHash.toLowerCase()) {
+      return { authorized: false, error: 'Content hash mismatch' };
+    }
+
+    if (authorization.expiresAt !== undefined && !Number.isSafeInteger(authorization.expiresAt)) {
+      return { authorized: false, error: 'expiresAt must be a Unix timestamp in milliseconds' };
+    }
+
+    if (!this.verifySignature(authorization)) {
+      return { authorized: false, error: 'Invalid signature' };
+    }
+
+    return { authorized: true, sender: authorization.sender };
+  }
+
+  /**
+   * Check a replicated blob the node does not have yet against capacity and
+   * quotas, and work out the owner and expiry to store it with
+   *
+   * Shared by the HTTP and P2P replicate handlers. Only the uploader's
+   * signature over these bytes can name a replica's owner or give it an
+   * expiry, so the appId and sender a peer claims are never trusted. A
+   * replica without a valid signature is stored unowned, under the node-wide
+   * capacity check alone.
+   *
+   * @throws StorageFullError, QuotaExceededError
+   */
+  async acceptReplica(
+    cid: string,
+    ciphertext: Buffer,
+    forwarded?: StorageAuthorization
+  ): Promise<StoreBlobOptions> {
+    const { config } = await import('../config/index.js');
+    const stats = await storageService.getStats();
+    if (stats.totalSize + uploadSessionService.reservedBytes() + ciphertext.length > config.maxStorageGB * 1024 * 1024 * 1024) {
+      throw new StorageFullError();
+    }
+
+    if (!forwarded) return {};
+
+    const result = this.verifyReplicaAuthorization(forwarded, ethers.keccak256(ciphertext));
+    if (!result.authorized) {
+      logger.debug('Ignoring replica authorization', { cid, error: result.error });
+      return {};
+    }
+
+    await quotaService.assertWithinQuota(forwarded, ciphertext.length);
+
+    return {
+      appId: forwarded.appId,
+      contentType: forwarded.contentType,
+      sender: forwarded.sender,
+      timestamp: forwarded.timestamp,
+      metadata: forwarded.metadata,
+      expiresAt: forwarded.expiresAt,
+      authorization: forwarded
+    };
+  }
+
+  /**
+   * Check an optional expiry: an integer timestamp after both the signing
+   * time and the time the authorization was presented
+   */
+  private checkExpiry(authorization: StorageAuthorization, receivedAt: number): string | null {
+    const { expiresAt } = authorization;
+    if (expiresAt === undefined) return null;
+
+    if (!Number.isSafeInteger(expiresAt)) {
+      return 'expiresAt must be a Unix timestamp in milliseconds';
+    }
+    if (expiresAt <= authorization.timestamp || expiresAt <= receivedAt) {
+      return 'expiresAt must be in the future';
+    }
+    return null;
+  }
+
+  /**
+   * Verify a blob owner's signed pin, unpin or release request
+   *
+   * Only proves who signed it; the caller checks that the sender owns the
+   * blob under that appId. Needs no RPC, so it works before initialize.
+   */
+  verifyOwnerAction(request: OwnerActionRequest): AuthorizationVerificationResult {
+    if (Math.abs(Date.now() - request.timestamp) > this.TIMESTAMP_TOLERANCE_MS) {
+      return { authorized: false, error: 'Timestamp expired or invalid' };
+    }
+
+    const nonceKey = `${request.sender}:${request.nonce}`;
+    if (this.usedNonces.has(nonceKey)) {
+      return { authorized: false, error: 'Nonce already used (replay attack prevented)' };
+    }
+
+    try {
+      const message = OWNER_ACTION_MESSAGE_TEMPLATE
+        .replace('{action}', request.action)
+        .replace('{cid}', request.cid)
+        .replace('{appId}', request.appId)
+        .replace('{timestamp}', request.timestamp.toString())
+        .replace('{nonce}', request.nonce);
+
+      const recoveredAddress = ethers.verifyMessage(message, request.signature);
+      if (recoveredAddress.toLowerCase() !== request.sender.toLowerCase()) {
+        logger.warn('Owner action signature verification failed', {
+          expected: request.sender,
+          recovered: recoveredAddress
+        });
+        return { authorized: false, error: 'Invalid signature' };
+      }
+    } catch (error) {
+      logger.error('Owner action signature verification error', error);
+      return { authorized: false, error: 'Invalid signature' };
+    }
+
+    this.usedNonces.set(nonceKey, Date.now());
+    return { authorized: true, sender: request.sender };
+  }
+
   /**
    * Verify the EIP-191 signature (v2 - includes appId and contentType)
    */
@@ -372,7 +552,10 @@ export class StorageAuthorizationService {
         .replace('{contentType}', authorization.contentType)
         .replace('{context}', context)
         .replace('{timestamp}', authorization.timestamp.toString())
-        .replace('{nonce}', authorization.nonce);
+        .replace('{nonce}', authorization.nonce)
+        + (authorization.expiresAt !== undefined
+          ? EXPIRY_MESSAGE_LINE.replace('{expiresAt}', authorization.expiresAt.toString())
+          : '');
 
       const recoveredAddress = ethers.verifyMessage(message, authorization.signature);
       const isValid = recoveredAddress.toLowerCase() === authorization.sender.toLowerCase();
@@ -1,30 +1,162 @@
 /**
  * HASHD Vault - Storage Service
  * 
- * Handles blob and metadata storage using filesystem
+ * Handles blob and metadata storage. Persistence is delegated to a
+ * StorageBackend (filesystem or SQLite, see STORAGE_BACKEND); compression,
+ * manifests, integrity checks and blob ownership live here.
+ *
+ * The same CID can be stored by several apps or senders. Each one gets an
+ * ownership record; owners pin and release their own reference, and the
+ * blob is only removed once the last reference is released. Owners may give
+ * their reference an expiry; the blob expires with the last of them.
+ *
+ * Deleted blobs are moved to a trash area (dataDir/trash) and can be
+ * restored until TRASH_RETENTION_HOURS have passed; the GC purges them
+ * after that.
+ *
+ * Stored and deleted blobs, other than chunks, are announced as
+ * 'blob:stored' and 'blob:deleted' events.
  */
 
 import fs from 'fs/promises';
+import { EventEmitter } from 'events';
+import { createReadStream, createWriteStream } from 'fs';
 import path from 'path';
-import zlib from 'zlib';
-import { promisify } from 'util';
+import crypto from 'crypto';
+import { Readable, Writable, pipeline as pipe } from 'stream';
+import { pipeline } from 'stream/promises';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { generateMetadataIntegrityHash, verifyMetadataIntegrity } from '../utils/cid.js';
-import { BlobMetadata, BlobNotFoundError, StorageFullError } from '../types/index.js';
+import { generateCID, verifyCID } from '../utils/cid.js';
+import { CIDVerifyStream, HashingStream, SliceStream } from '../utils/stream.js';
+import { MANIFEST_MIME_TYPE, createManifestForStaged, parseManifest } from '../utils/manifest.js';
+import {
+  BlobAccessMetrics,
+  BlobDeletedEvent,
+  BlobEventOwner,
+  BlobExpiredError,
+  BlobIncompleteError,
+  BlobManifest,
+  BlobMetadata,
+  BlobNotFoundError,
+  BlobOwner,
+  BlobStoredEvent,
+  ByteRange,
+  ChunkInUseError,
+  CIDMismatchError,
+  CompressionAlgorithm,
+  CompressionStats,
+  MetadataPage,
+  MetadataQuery,
+  OwnerNotFoundError,
+  QuotaScope,
+  QuotaUsage,
+  StagedBlob,
+  StorageBackend,
+  StorageFullError,
+  StorageTotals,
+  StorageTier,
+  StoreBlobOptions,
+  TierUsage,
+  TrashEntry,
+  TrashEntryNotFoundError,
+  TrashPage,
+  UsageRecord,
+  VolumeStatus
+} from '../types/index.js';
 import { cacheService } from './cache.service.js';
+import { encryptionService } from './encryption.service.js';
+import { METADATA_INTEGRITY_VERSION, integrityService } from './integrity.service.js';
+import {
+  BLOB_LAYOUT_VERSION,
+  EncryptedBackend,
+  FilesystemBackend,
+  MAX_PAGE_SIZE,
+  MetadataIndex,
+  TieredBackend,
+  VolumeBackend,
+  createStorageBackend
+} from './backends/index.js';
+import { getFreeDiskSpace } from '../utils/disk.js';
+import { calculateShardKey } from '../utils/sharding.js';
+import {
+  COMPRESSION_ALGORITHMS,
+  COMPRESSION_SAMPLE_SIZE,
+  compress,
+  compressionOf,
+  createCompressStream,
+  createDecompressStream,
+  decompress,
+  isCompressionSupported,
+  isWorthCompressing,
+  selectCompression
+} from '../utils/compression.js';
+
+const TRASH_PURGE_BATCH_SIZE = 1000;
+// Blobs with unwritten reads that trigger an early flush
+const MAX_PENDING_ACCESS = 10000;
+
+export interface DeleteBlobOptions {
+  force?: boolean;          // Delete chunks still referenced by a manifest
+  permanent?: boolean;      // Skip the trash
+  reason?: string;          // Recorded on the trash entry
+}
 
-const gzip = promisify(zlib.gzip);
-const gunzip = promisify(zlib.gunzip);
-
-export class StorageService {
-  private blobsDir: string;
-  private metaDir: string;
+export class StorageService extends EventEmitter {
+  private backend: StorageBackend;
+  private baseBackend: StorageBackend;    // backend without the encryption layer
+  private hotBackend: StorageBackend;     // the data directory's backend, or the data volumes'
+  private volumeBackend: VolumeBackend | null = null;
+  private tieredBackend: TieredBackend | null = null;
+  private metadataIndex: MetadataIndex;
+  private fileBackends: FilesystemBackend[] = []; // per blob directory, when files are used
+  private trashBase: FilesystemBackend;   // raw trashed bytes, as they were stored
+  private trashBackend: StorageBackend;
+  private stagingDir: string;
+  private quarantineDir: string;
+  private markerPath: string;
+  private layoutMigration: Promise<void> | null = null;
+  private reencryption: Promise<void> | null = null;
+  private reencryptAgain = false;
+  private reencryptionAbort = new AbortController();
+  private metadataUpdates = new Map<string, Promise<unknown>>();
+  private pendingAccess = new Map<string, BlobAccessMetrics>();
+  private accessFlushInterval: NodeJS.Timeout | null = null;
   private initialized = false;
 
   constructor() {
-    this.blobsDir = path.join(config.dataDir, 'blobs');
-    this.metaDir = path.join(config.dataDir, 'meta');
+    super();
+    this.hotBackend = this.createBlobBackend(config.dataDir);
+    if (config.dataVolumes?.length) {
+      this.volumeBackend = new VolumeBackend([
+        { path: config.dataDir, backend: this.hotBackend },
+        ...config.dataVolumes.map(dir => ({ path: dir, backend: this.createBlobBackend(dir) }))
+      ]);
+      this.hotBackend = this.volumeBackend;
+    }
+    this.baseBackend = this.hotBackend;
+    if (config.coldDataDir) {
+      this.tieredBackend = new TieredBackend(
+        this.hotBackend,
+        this.createBlobBackend(config.coldDataDir)
+      );
+      this.baseBackend = this.tieredBackend;
+    }
+    this.backend = this.baseBackend;
+    this.metadataIndex = new MetadataIndex(config.dataDir);
+    this.trashBase = new FilesystemBackend(path.join(config.dataDir, 'trash'));
+    this.trashBackend = this.trashBase;
+    this.stagingDir = path.join(config.dataDir, 'staging');
+    this.quarantineDir = path.join(config.dataDir, 'quarantine');
+    this.markerPath = path.join(config.dataDir, '.vault-environment');
+  }
+
+  private createBlobBackend(dir: string): StorageBackend {
+    const backend = createStorageBackend(dir, config.storageBackend);
+    if (backend instanceof FilesystemBackend) {
+      this.fileBackends.push(backend);
+    }
+    return backend;
   }
 
   /**
@@ -34,17 +166,61 @@ export class StorageService {
     if (this.initialized) return;
 
     try {
+      await integrityService.initialize();
+
+      // Encryption at rest wraps the backend and the metadata records
+      await encryptionService.initialize();
+      if (encryptionService.isEnabled()) {
+        this.backend = new EncryptedBackend(this.baseBackend, encryptionService);
+        this.trashBackend = new EncryptedBackend(this.trashBase, encryptionService);
+        this.metadataIndex.setCipher(encryptionService);
+      }
+
       // Create directories
-      await fs.mkdir(this.blobsDir, { recursive: true });
-      await fs.mkdir(this.metaDir, { recursive: true });
+      await this.backend.initialize();
+      await this.trashBackend.initialize();
+      await this.metadataIndex.initialize();
+      await fs.mkdir(this.stagingDir, { recursive: true });
+      await this.clearStagingDir();
+
+      const imported = await this.metadataIndex.importLegacy(this.backend);
+      if (imported > 0) {
+        logger.info('Imported legacy metadata into the metadata index', { count: imported });
+      }
+
+      await this.rollBackInterruptedWrites();
 
       // Create environment marker file for safety checks
       await this.createEnvironmentMarker();
 
+      // Reads fail verification until legacy records are re-signed, so this finishes first
+      await this.upgradeMetadataIntegrity();
+
       this.initialized = true;
+
+      // Reads are counted in memory and written in batches
+      this.accessFlushInterval = setInterval(() => {
+        this.flushAccessMetrics().catch(error =>
+          logger.warn('Failed to flush access metrics', { error: error.message })
+        );
+      }, config.accessMetricsFlushSeconds * 1000);
+      this.accessFlushInterval.unref();
+
+      // Runs while the node serves; reads fall back to the old layout meanwhile
+      this.layoutMigration = this.upgradeBlobLayout().catch(error =>
+        logger.warn('Blob layout migration failed', { error: error.message })
+      );
+
+      if (encryptionService.isReencryptionPending()) {
+        this.startReencryption();
+      }
+
       logger.info('Storage service initialized', {
-        blobsDir: this.blobsDir,
-        metaDir: this.metaDir,
+        backend: this.backend.type,
+        encrypted: encryptionService.isEnabled(),
+        dataDir: config.dataDir,
+        coldDataDir: config.coldDataDir || undefined,
+        dataVolumes: this.volumeBackend ? config.dataVolumes : undefined,
         environment: config.nodeEnv
       });
     } catch (error) {
@@ -53,6 +229,87 @@ export class StorageService {
     }
   }
 
+  /**
+   * Write buffered access metrics, then release the backend and the metadata index
+   */
+  async close(): Promise<void> {
+    if (!this.initialized) return;
+    if (this.accessFlushInterval) {
+      clearInterval(this.accessFlushInterval);
+      this.accessFlushInterval = null;
+    }
+    await this.flushAccessMetrics().catch(error =>
+      logger.warn('Failed to flush access metrics', { error: error.message })
+    );
+    this.reencryptionAbort.abort();
+    this.reencryptAgain = false;
+    await this.layoutMigration;
+    await this.reencryption;
+    this.reencryptionAbort = new AbortController();
+    await this.backend.close();
+    await this.metadataIndex.close();
+    this.initialized = false;
+  }
+
+  /**
+   * The active persistence backend
+   */
+  getBackend(): StorageBackend {
+    return this.backend;
+  }
+
+  /**
+   * The metadata index
+   */
+  getMetadataIndex(): MetadataIndex {
+    return this.metadataIndex;
+  }
+
+  /**
+   * Remove uploads left in staging by an interrupted process
+   */
+  private async clearStagingDir(): Promise<void> {
+    try {
+      const files = await fs.readdir(this.stagingDir);
+      for (const file of files) {
+        await fs.unlink(path.join(this.stagingDir, file)).catch(() => {});
+      }
+      if (files.length > 0) {
+        logger.info('Cleared abandoned staged uploads', { count: files.length });
+      }
+    } catch (error) {
+      logger.warn('Failed to clear staging directory', error);
+    }
+  }
+
+  /**
+   * Roll back stores a crash interrupted before their metadata was written
+   *
+   * Their bytes (and any chunks they created that no manifest references)
+   * are removed, so a store either completed or left nothing behind.
+   */
+  private async rollBackInterruptedWrites(): Promise<void> {
+    let rolledBack = 0;
+
+    for (const entry of await this.metadataIndex.listWrites()) {
+      if (!(await this.metadataIndex.get(entry.cid).catch(() => null))) {
+        await this.backend.delete(entry.cid).catch(() => {});
+        for (const chunkCid of entry.created) {
+          const chunk = await this.metadataIndex.get(chunkCid).catch(() => null);
+          if (chunk?.chunkOf?.length) continue;
+          await this.metadataIndex.delete(chunkCid);
+          await this.backend.delete(chunkCid).catch(() => {});
+        }
+        rolledBack++;
+      }
+      await this.metadataIndex.endWrite(entry.id);
+    }
+
+    if (rolledBack > 0) {
+      logger.warn('Rolled back interrupted blob writes', { count: rolledBack });
+    }
+  }
+
   /**
    * Create environment marker file
    * 
@@ -62,7 +319,7 @@ export class StorageService {
    * - Provides recovery information if data is deleted
    */
   private async createEnvironmentMarker(): Promise<void> {
-    const markerPath = path.join(config.dataDir, '.vault-environment');
+    const markerPath = this.markerPath;
     
     try {
       // Check if marker exists
@@ -102,7 +359,11 @@ export class StorageService {
         nodeId: config.nodeId,
         createdAt: exists ? JSON.parse(await fs.readFile(markerPath, 'utf-8')).createdAt : Date.now(),
         lastStarted: Date.now(),
-        version: '1.0.0'
+        version: '1.0.0',
+        // Only advanced by upgradeBlobLayout once every blob file has moved
+        layoutVersion: exists ? JSON.parse(await fs.readFile(markerPath, 'utf-8')).layoutVersion : undefined,
+        // Only advanced by upgradeMetadataIntegrity once legacy metadata is re-signed
+        integrityVersion: exists ? JSON.parse(await fs.readFile(markerPath, 'utf-8')).integrityVersion : undefined
       };
       
       await fs.writeFile(markerPath, JSON.stringify(marker, null, 2));
@@ -119,6 +380,113 @@ export class StorageService {
     }
   }
 
+  /**
+   * Move blob files into the fan-out directory layout
+   *
+   * Each file is moved with a single rename, so the node keeps serving
+   * throughout. The environment marker records the new layout version
+   * once nothing is left in the old layout.
+   */
+  private async upgradeBlobLayout(): Promise<void> {
+    // Cold tiers and data volumes are always created in the current layout
+    const backend = this.volumeBackend?.primary ?? this.hotBackend;
+    if (!(backend instanceof FilesystemBackend)) return;
+
+    const marker = JSON.parse(await fs.readFile(this.markerPath, 'utf-8').catch(() => '{}'));
+    if (marker.layoutVersion === BLOB_LAYOUT_VERSION) return;
+
+    const { moved, failed } = await backend.migrateLayout();
+    if (moved > 0 || failed > 0) {
+      logger.info('Blob files moved to fan-out layout', { moved, failed });
+    }
+    if (failed > 0) return;
+
+    await this.updateEnvironmentMarker({ layoutVersion: BLOB_LAYOUT_VERSION });
+  }
+
+  /**
+   * Re-sign metadata from earlier versions with the node's integrity key
+   *
+   * Records that fail their legacy check are not re-signed; they keep
+   * failing verification and show up in the health report.
+   */
+  private async upgradeMetadataIntegrity(): Promise<void> {
+    const marker = JSON.parse(await fs.readFile(this.markerPath, 'utf-8').catch(() => '{}'));
+    if (marker.integrityVersion === METADATA_INTEGRITY_VERSION) return;
+
+    const { resigned, failed } = await integrityService.resignMetadata(this.metadataIndex);
+    if (resigned > 0 || failed > 0) {
+      logger.info('Metadata re-signed with node integrity key', { resigned, failed });
+    }
+
+    await this.updateEnvironmentMarker({ integrityVersion: METADATA_INTEGRITY_VERSION });
+  }
+
+  private async updateEnvironmentMarker(fields: Record<string, unknown>): Promise<void> {
+    const marker = JSON.parse(await fs.readFile(this.markerPath, 'utf-8').catch(() => '{}'));
+    await fs.chmod(this.markerPath, 0o644).catch(() => {});
+    await fs.writeFile(this.markerPath, JSON.stringify({ ...marker, ...fields }, null, 2));
+    if (config.nodeEnv === 'production') {
+      await fs.chmod(this.markerPath, 0o444);
+    }
+  }
+
+  /**
+   * Re-encrypt stored blobs and metadata under the active data key
+   *
+   * Runs in the background while the node serves. A request made while a
+   * pass is running queues one more pass, so a second rotation is covered.
+   */
+  startReencryption(): void {
+    if (!encryptionService.isEnabled()) return;
+    if (this.reencryption) {
+      this.reencryptAgain = true;
+      return;
+    }
+
+    this.reencryption = this.reencryptAll()
+      .catch(error => logger.warn('Re-encryption failed', { error: error.message }))
+      .finally(() => {
+        this.reencryption = null;
+        if (this.reencryptAgain) {
+          this.reencryptAgain = false;
+          this.startReencryption();
+        }
+      });
+  }
+
+  isReencrypting(): boolean {
+    return this.reencryption !== null;
+  }
+
+  private async reencryptAll(): Promise<void> {
+    if (!(this.backend instanceof EncryptedBackend)) return;
+
+    const keyId = encryptionService.getActiveKey().id;
+    const signal = this.reencryptionAbort.signal;
+
+    const blobs = await this.backend.reencrypt(signal);
+    // Trashed blobs must stay restorable once the old keys are dropped
+    const trash = this.trashBackend instanceof EncryptedBackend
+      ? await this.trashBackend.reencrypt(signal)
+      : { reencrypted: 0, failed: 0 };
+    const metadata = await this.metadataIndex.reencrypt(signal);
+    if (signal.aborted) return;
+
+    logger.info('Re-encryption pass finished', {
+      keyId,
+      blobs: blobs.reencrypted,
+      trash: trash.reencrypted,
+      metadata,
+      failed: blobs.failed + trash.failed
+    });
+
+    // Old keys are only dropped once nothing depends on them
+    if (blobs.failed === 0 && trash.failed === 0) {
+      await encryptionService.completeReencryption(keyId);
+    }
+  }
+
   /**
    * Store a blob with application metadata (v2)
    */
@@ -126,100 +494,363 @@ export class StorageService {
     cid: string,
     ciphertext: Buffer,
     mimeType: string,
-    options?: { 
-      fromPeer?: string;
-      appId?: string;
-      contentType?: string;
-      sender?: string;
-      timestamp?: number;
-      metadata?: Record<string, any>;
-    }
+    options?: StoreBlobOptions
   ): Promise<void> {
+    const metadata = await this.writeBlob(cid, ciphertext, mimeType, options);
+    if (metadata) {
+      this.emitStored(metadata, options);
+    }
+  }
+
+  /**
+   * Write a blob without announcing it (chunks are written this way)
+   * Returns the new metadata, or null if the blob was already stored.
+   */
+  private async writeBlob(
+    cid: string,
+    ciphertext: Buffer,
+    mimeType: string,
+    options?: StoreBlobOptions
+  ): Promise<BlobMetadata | null> {
     await this.ensureInitialized();
+    this.assertNotExpired(cid, options);
     await this.checkStorageCapacity();
 
-    const blobPath = this.getBlobPath(cid);
-    const metaPath = this.getMetaPath(cid);
-
-    // Check if already exists
+    // Already stored: only the new owner's reference is recorded
     const exists = await this.hasBlob(cid);
     if (exists) {
-      logger.debug('Blob already exists', { cid });
-      return;
+      await this.addOwner(cid, options);
+      return null;
     }
 
+    // Manifests are only accepted once every chunk they reference is present
+    const manifest = mimeType === MANIFEST_MIME_TYPE
+      ? await this.validateManifest(cid, ciphertext)
+      : undefined;
+
+    let journalId: number | undefined;
     try {
-      // Compress if enabled
+      // Compress if enabled and the policy picks an algorithm for this blob
       let dataToStore = ciphertext;
-      let compressed = false;
-      
-      if (config.compressionEnabled) {
+      let compression = await this.chooseCompression(
+        cid,
+        mimeType,
+        options,
+        ciphertext.subarray(0, COMPRESSION_SAMPLE_SIZE),
+        ciphertext.length
+      );
+
+      if (compression !== 'none') {
         try {
-          const compressedData = await gzip(ciphertext);
-          // Only use compression if it actually reduces size
-          if (compressedData.length < ciphertext.length) {
+          const compressedData = await compress(compression, ciphertext);
+          if (isWorthCompressing(ciphertext.length, compressedData.length, config.compressionMinGainPercent)) {
             dataToStore = compressedData;
-            compressed = true;
             logger.debug('Blob compressed', { 
               cid, 
+              algorithm: compression,
               originalSize: ciphertext.length, 
               compressedSize: compressedData.length,
               ratio: Math.round((compressedData.length / ciphertext.length) * 100) + '%'
             });
+          } else {
+            compression = 'none';
           }
         } catch (err) {
-          logger.warn('Compression failed, storing uncompressed', { cid, error: err });
+          logger.warn('Compression failed, storing uncompressed', { cid, algorithm: compression, error: err });
+          compression = 'none';
         }
       }
 
-      // Write blob atomically (temp file + rename)
-      const tempPath = `${blobPath}.tmp`;
-      await fs.writeFile(tempPath, dataToStore);
-      await fs.rename(tempPath, blobPath);
+      const metadata = this.buildMetadata(cid, ciphertext.length, mimeType, compression, options, manifest && {
+        manifest: {
+          mimeType: manifest.mimeType,
+          size: manifest.size,
+          chunkCount: manifest.chunks.length
+        }
+      });
+      // Bytes first, so metadata never points at a missing blob; the
+      // journal entry lets a crash in between be rolled back
+      journalId = await this.metadataIndex.beginWrite(cid);
+      await this.backend.put(cid, dataToStore);
+      const stored = await this.backend.stat(cid);
+      await this.metadataIndex.put(metadata, stored?.size ?? dataToStore.length);
+
+      if (manifest) {
+        await this.linkChunks(cid, manifest);
+      }
+      // A fresh copy supersedes one waiting in the trash
+      await this.discardTrashed(cid);
+
+      logger.info('Blob stored', { cid, size: ciphertext.length });
+      return metadata;
+    } catch (error) {
+      logger.error('Failed to store blob', error, { cid });
+      // Cleanup on failure
+      await this.metadataIndex.delete(cid).catch(() => {});
+      await this.backend.delete(cid).catch(() => {});
+      if (journalId !== undefined) {
+        await this.metadataIndex.endWrite(journalId).catch(() => {});
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream an incoming blob into the staging area
+   *
+   * The data is hashed while it is written, so the CID and authorization
+   * content hash are known without ever holding the blob in memory.
+   * With a chunkSize, per-chunk CIDs are recorded too, so the blob can
+   * be committed with storeChunkedBlob. Callers must either commit the
+   * result or discard it with discardStagedBlob.
+   */
+  async stageBlobStream(
+    source: Readable,
+    maxBytes: number,
+    chunkSize?: number
+  ): Promise<StagedBlob> {
+    await this.ensureInitialized();
+
+    const stagingPath = path.join(this.stagingDir, `${crypto.randomUUID()}.part`);
+    const hasher = new HashingStream(maxBytes, chunkSize);
+
+    try {
+      await pipeline(source, hasher, createWriteStream(stagingPath, { mode: 0o600 }));
+    } catch (error) {
+      await fs.unlink(stagingPath).catch(() => {});
+      throw error;
+    }
+
+    return { path: stagingPath, chunkSize, ...hasher.getResult() };
+  }
+
+  /**
+   * Remove a staged blob that will not be committed
+   */
+  async discardStagedBlob(staged: StagedBlob): Promise<void> {
+    await fs.unlink(staged.path).catch(() => {});
+  }
+
+  /**
+   * Commit a staged blob into the store (streaming equivalent of storeBlob)
+   */
+  async storeStagedBlob(
+    staged: StagedBlob,
+    mimeType: string,
+    options?: StoreBlobOptions
+  ): Promise<void> {
+    await this.ensureInitialized();
+    try {
+      this.assertNotExpired(staged.cid, options);
+      await this.checkStorageCapacity();
+    } catch (error) {
+      await this.discardStagedBlob(staged);
+      throw error;
+    }
+
+    // Manifests are small and must be validated and linked to their chunks
+    if (mimeType === MANIFEST_MIME_TYPE) {
+      try {
+        await this.storeBlob(staged.cid, await fs.readFile(staged.path), mimeType, options);
+      } finally {
+        await this.discardStagedBlob(staged);
+      }
+      return;
+    }
+
+    const { cid } = staged;
+
+    if (await this.hasBlob(cid)) {
+      await this.discardStagedBlob(staged);
+      await this.addOwner(cid, options);
+      return;
+    }
 
-      // Create metadata (v2 - with application metadata)
-      const createdAt = Date.now();
-      const metadata: BlobMetadata = {
+    const tempPath = `${staged.path}.compressed`;
+    let journalId: number | undefined;
+    try {
+      // Compress if enabled and the policy picks an algorithm for this blob
+      let compression = await this.chooseCompression(
         cid,
-        size: ciphertext.length,
         mimeType,
-        createdAt,
-        version: 2, // Schema version (2 = with appId metadata)
-        compressed, // Track if blob is compressed
-        // SECURITY: Generate integrity hash to detect metadata tampering
-        integrityHash: generateMetadataIntegrityHash(cid, ciphertext.length, mimeType, createdAt, false),
-        // Application metadata (v2)
-        appId: options?.appId,
-        contentType: options?.contentType,
-        sender: options?.sender,
-        timestamp: options?.timestamp,
-        metadata: options?.metadata,
-        replication: options?.fromPeer ? {
-          fromPeer: options.fromPeer,
-          replicatedAt: Date.now(),
-          replicatedTo: []
-        } : {
-          replicatedTo: []
-        },
-        metrics: {
-          retrievalCount: 0,
-          lastAccessed: Date.now(),
-          avgLatency: 0
+        options,
+        await readFileStart(staged.path, COMPRESSION_SAMPLE_SIZE),
+        staged.size
+      );
+
+      if (compression !== 'none') {
+        try {
+          await pipeline(createReadStream(staged.path), createCompressStream(compression), createWriteStream(tempPath));
+          const { size: compressedSize } = await fs.stat(tempPath);
+          if (!isWorthCompressing(staged.size, compressedSize, config.compressionMinGainPercent)) {
+            compression = 'none';
+            await fs.unlink(tempPath);
+          }
+        } catch (err) {
+          logger.warn('Compression failed, storing uncompressed', { cid, algorithm: compression, error: err });
+          compression = 'none';
+          await fs.unlink(tempPath).catch(() => {});
         }
-      };
+      }
 
-      await fs.writeFile(metaPath, JSON.stringify(metadata, null, 2));
+      const metadata = this.buildMetadata(cid, staged.size, mimeType, compression, options);
+      journalId = await this.metadataIndex.beginWrite(cid);
+      await this.backend.putFile(cid, compression !== 'none' ? tempPath : staged.path);
+      const stored = await this.backend.stat(cid);
+      await this.metadataIndex.put(metadata, stored?.size ?? 0);
+      if (compression !== 'none') {
+        await this.discardStagedBlob(staged);
+      }
+      await this.discardTrashed(cid);
 
-      logger.info('Blob stored', { cid, size: ciphertext.length });
+      logger.info('Blob stored', { cid, size: staged.size, streamed: true });
+      this.emitStored(metadata, options);
     } catch (error) {
       logger.error('Failed to store blob', error, { cid });
-      // Cleanup on failure
-      try {
-        await fs.unlink(blobPath).catch(() => {});
-        await fs.unlink(metaPath).catch(() => {});
-      } catch {}
+      await this.metadataIndex.delete(cid).catch(() => {});
+      await this.backend.delete(cid).catch(() => {});
+      if (journalId !== undefined) {
+        await this.metadataIndex.endWrite(journalId).catch(() => {});
+      }
+      await fs.unlink(tempPath).catch(() => {});
+      await this.discardStagedBlob(staged);
+      throw error;
+    }
+  }
+
+  /**
+   * Commit a staged blob as fixed-size chunks plus a manifest
+   *
+   * Each chunk is stored as an ordinary blob under its own CID; the manifest
+   * is written last, so a manifest never exists without all of its chunks.
+   * Returns the manifest CID, which identifies the whole blob.
+   */
+  async storeChunkedBlob(
+    staged: StagedBlob,
+    mimeType: string,
+    options?: StoreBlobOptions
+  ): Promise<string> {
+    await this.ensureInitialized();
+
+    let built: ReturnType<typeof createManifestForStaged>;
+    try {
+      built = createManifestForStaged(staged, mimeType);
+    } catch (error) {
+      await this.discardStagedBlob(staged);
       throw error;
     }
+    const { cid, manifest, buffer } = built;
+
+    const created: string[] = [];
+    const handle = await fs.open(staged.path, 'r');
+    // New chunks are rolled back with the manifest if a crash interrupts
+    const journalId = await this.metadataIndex.beginWrite(cid);
+
+    try {
+      let position = 0;
+      for (const chunk of manifest.chunks) {
+        const data = Buffer.alloc(chunk.size);
+        await handle.read(data, 0, chunk.size, position);
+        position += chunk.size;
+
+        const actual = generateCID(data);
+        if (actual !== chunk.cid) {
+          throw new CIDMismatchError(chunk.cid, actual);
+        }
+
+        // Chunks are owned through their manifest (chunkOf), not directly
+        if (!(await this.hasBlob(chunk.cid))) {
+          created.push(chunk.cid);
+          await this.metadataIndex.updateWrite(journalId, created);
+          await this.writeBlob(chunk.cid, data, 'application/octet-stream', {
+            fromPeer: options?.fromPeer
+          });
+        }
+      }
+
+      await this.storeBlob(cid, buffer, MANIFEST_MIME_TYPE, options);
+    } catch (error) {
+      // Never leave chunks behind without their manifest
+      for (const chunkCid of created) {
+        await this.deleteBlob(chunkCid, { force: true, permanent: true }).catch(() => {});
+      }
+      throw error;
+    } finally {
+      await this.metadataIndex.endWrite(journalId).catch(() => {});
+      await handle.close();
+      await this.discardStagedBlob(staged);
+    }
+
+    logger.info('Chunked blob stored', {
+      cid,
+      size: staged.size,
+      chunks: manifest.chunks.length,
+      newChunks: created.length
+    });
+
+    return cid;
+  }
+
+  /**
+   * Open a blob for streaming
+   *
+   * Returns the decompressed ciphertext (or an inclusive byte range of it)
+   * as a stream so large blobs are never buffered. Uncompressed blobs are
+   * read from the requested offset directly; compressed blobs have to be
+   * decompressed from the start and sliced. Manifests are reassembled from
+   * their chunks, each fully-read chunk being verified against its CID.
+   * The caller is responsible for verifying non-manifest blobs, which is
+   * only possible on full reads. With resolveManifest false, a manifest's
+   * own bytes are returned instead.
+   */
+  async openBlobStream(
+    cid: string,
+    range?: ByteRange,
+    options: { resolveManifest?: boolean } = {}
+  ): Promise<{ stream: Readable; metadata: BlobMetadata }> {
+    await this.ensureInitialized();
+
+    const startedAt = Date.now();
+    const metadata = await this.getMetadata(cid);
+
+    let stream: Readable;
+    if (metadata.manifest && options.resolveManifest !== false) {
+      const manifest = await this.loadManifest(cid, metadata);
+      const missing = await this.findMissingChunks(manifest);
+      if (missing.length > 0) {
+        throw new BlobIncompleteError(cid, missing);
+      }
+      stream = Readable.from(this.readManifestChunks(manifest, range));
+    } else {
+      stream = await this.openStoredStream(cid, metadata, range);
+    }
+
+    this.recordAccess(metadata, startedAt);
+
+    return { stream, metadata };
+  }
+
+  /**
+   * Check that a blob and, for manifests, every chunk is present
+   */
+  async hasCompleteBlob(cid: string): Promise<boolean> {
+    if (!(await this.hasBlob(cid))) return false;
+
+    const metadata = await this.getMetadata(cid);
+    if (!metadata.manifest) return true;
+
+    const manifest = await this.loadManifest(cid, metadata);
+    return (await this.findMissingChunks(manifest)).length === 0;
+  }
+
+  /**
+   * Get the parsed manifest of a chunked blob (null for ordinary blobs)
+   */
+  async getManifest(cid: string): Promise<BlobManifest | null> {
+    await this.ensureInitialized();
+
+    const metadata = await this.getMetadata(cid);
+    return metadata.manifest ? this.loadManifest(cid, metadata) : null;
   }
 
   /**
@@ -227,38 +858,37 @@ export class StorageService {
    */
   async getBlob(cid: string): Promise<{ ciphertext: Buffer; metadata: BlobMetadata }> {
     await this.ensureInitialized();
+    const startedAt = Date.now();
 
     // Check cache first
     const cached = cacheService.get(cid);
     if (cached) {
-      const metaPath = this.getMetaPath(cid);
-      const metaContent = await fs.readFile(metaPath, 'utf-8');
-      const metadata: BlobMetadata = JSON.parse(metaContent);
+      const metadata = await this.metadataIndex.get(cid);
+      if (!metadata) {
+        throw new BlobNotFoundError(cid);
+      }
       
-      // Update access metrics
-      this.updateAccessMetrics(cid, metadata).catch(err => 
-        logger.warn('Failed to update access metrics', { cid, error: err.message })
-      );
+      this.recordAccess(metadata, startedAt);
       
       return { ciphertext: cached, metadata };
     }
 
-    const blobPath = this.getBlobPath(cid);
-    const metaPath = this.getMetaPath(cid);
-
     try {
-      const [storedData, metaContent] = await Promise.all([
-        fs.readFile(blobPath),
-        fs.readFile(metaPath, 'utf-8')
+      const [storedData, metadata] = await Promise.all([
+        this.backend.get(cid),
+        this.metadataIndex.get(cid)
       ]);
 
-      const metadata: BlobMetadata = JSON.parse(metaContent);
+      if (!storedData || !metadata) {
+        throw new BlobNotFoundError(cid);
+      }
 
       // Decompress if needed
       let ciphertext = storedData;
-      if (metadata.compressed) {
+      const compression = compressionOf(metadata);
+      if (compression !== 'none') {
         try {
-          ciphertext = await gunzip(storedData);
+          ciphertext = await decompress(compression, storedData);
         } catch (err) {
           logger.error('Decompression failed', { cid, error: err });
           throw new Error('Failed to decompress blob');
@@ -268,17 +898,13 @@ export class StorageService {
       // Cache the uncompressed data
       cacheService.set(cid, ciphertext);
 
-      // Update access metrics
-      this.updateAccessMetrics(cid, metadata).catch(err => 
-        logger.warn('Failed to update access metrics', { cid, error: err.message })
-      );
+      this.recordAccess(metadata, startedAt);
 
       return { ciphertext, metadata };
     } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        throw new BlobNotFoundError(cid);
+      if (!(error instanceof BlobNotFoundError)) {
+        logger.error('Failed to read blob', error, { cid });
       }
-      logger.error('Failed to read blob', error, { cid });
       throw error;
     }
   }
@@ -289,10 +915,8 @@ export class StorageService {
   async hasBlob(cid: string): Promise<boolean> {
     await this.ensureInitialized();
     
-    const blobPath = this.getBlobPath(cid);
     try {
-      await fs.access(blobPath);
-      return true;
+      return await this.backend.has(cid);
     } catch {
       return false;
     }
@@ -300,30 +924,67 @@ export class StorageService {
 
   /**
    * Delete a blob (soft delete - move to trash)
+   *
+   * The bytes and metadata stay restorable until the trash retention
+   * window ends; permanent deletes and TRASH_RETENTION_HOURS=0 skip it.
+   * Chunks still referenced by a manifest are refused unless forced;
+   * deleting a manifest releases its chunks and removes the unreferenced ones.
    */
-  async deleteBlob(cid: string): Promise<void> {
+  async deleteBlob(cid: string, options?: DeleteBlobOptions): Promise<void> {
     await this.ensureInitialized();
 
-    const blobPath = this.getBlobPath(cid);
-    const metaPath = this.getMetaPath(cid);
+    const metadata = await this.readRawMetadata(cid);
+    if (metadata?.chunkOf?.length && !options?.force) {
+      throw new ChunkInUseError(cid, metadata.chunkOf);
+    }
+
+    let manifest: BlobManifest | undefined;
+    if (metadata?.manifest) {
+      manifest = await this.loadManifest(cid, metadata).catch(err => {
+        logger.warn('Failed to read manifest, chunks will not be released', { cid, error: err.message });
+        return undefined;
+      });
+    }
 
     try {
       // Remove from cache
       cacheService.delete(cid);
-      
-      await Promise.all([
-        fs.unlink(blobPath),
-        fs.unlink(metaPath)
-      ]);
+      this.pendingAccess.delete(cid);
+
+      const permanent = options?.permanent || config.trashRetentionHours === 0;
+      let trashed = false;
+      if (metadata && !permanent && await this.moveToTrash(cid, options?.reason ?? 'deleted')) {
+        trashed = true;
+        logger.info('Blob moved to trash', { cid, reason: options?.reason });
+      } else {
+        const hadMetadata = await this.metadataIndex.delete(cid);
+        const hadBytes = await this.backend.delete(cid);
+        if (!hadMetadata && !hadBytes) {
+          throw new BlobNotFoundError(cid);
+        }
+
+        logger.info('Blob deleted', { cid });
+      }
 
-      logger.info('Blob deleted', { cid });
+      if (!metadata?.chunkOf?.length) {
+        const event: BlobDeletedEvent = {
+          cid,
+          reason: options?.reason ?? 'deleted',
+          trashed,
+          owners: metadata ? this.ownersOf(metadata).map(eventOwner) : []
+        };
+        this.emit('blob:deleted', event);
+      }
     } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        throw new BlobNotFoundError(cid);
+      if (!(error instanceof BlobNotFoundError)) {
+        logger.error('Failed to delete blob', error, { cid });
       }
-      logger.error('Failed to delete blob', error, { cid });
       throw error;
     }
+
+    if (manifest) {
+      await this.releaseChunks(cid, manifest, options?.permanent);
+    }
   }
 
   /**
@@ -333,60 +994,60 @@ export class StorageService {
   async getMetadata(cid: string): Promise<BlobMetadata> {
     await this.ensureInitialized();
 
-    const metaPath = this.getMetaPath(cid);
+    const metadata = await this.metadataIndex.get(cid);
+    if (!metadata) {
+      throw new BlobNotFoundError(cid);
+    }
 
-    try {
-      const content = await fs.readFile(metaPath, 'utf-8');
-      const metadata = JSON.parse(content) as BlobMetadata;
-      
-      // SECURITY: Verify metadata integrity
-      const integrity = verifyMetadataIntegrity(metadata);
-      if (!integrity.valid) {
-        logger.error('SECURITY: Metadata tampering detected', { 
-          cid, 
-          reason: integrity.reason 
-        });
-        throw new Error(`METADATA_TAMPERED: Integrity check failed for ${cid}`);
-      }
-      
-      if (integrity.reason === 'legacy_no_hash') {
-        logger.debug('Legacy metadata without integrity hash', { cid });
-      }
-      
-      return metadata;
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        throw new BlobNotFoundError(cid);
-      }
-      throw error;
+    // SECURITY: Verify metadata integrity
+    const integrity = integrityService.verifyMetadata(metadata);
+    if (!integrity.valid) {
+      logger.error('SECURITY: Metadata tampering detected', { 
+        cid, 
+        reason: integrity.reason 
+      });
+      throw new Error(`METADATA_TAMPERED: Integrity check failed for ${cid}`);
+    }
+    
+    return this.withPendingAccess(metadata);
+  }
+
+  /**
+   * Write the reads counted since the last flush to the metadata index in
+   * one batch (periodically, before scans of the indexed counts and on close)
+   *
+   * @returns blobs whose metrics were written
+   */
+  async flushAccessMetrics(): Promise<number> {
+    if (this.pendingAccess.size === 0) return 0;
+
+    const batch = this.pendingAccess;
+    this.pendingAccess = new Map();
+    try {
+      return await this.metadataIndex.recordAccess(batch);
+    } catch (error) {
+      // Kept for the next flush unless newer reads replaced them
+      for (const [cid, metrics] of batch) {
+        if (!this.pendingAccess.has(cid)) this.pendingAccess.set(cid, metrics);
+      }
+      throw error;
     }
   }
 
   /**
    * Update metadata
-   * SECURITY: Regenerates integrity hash if critical fields change
+   * SECURITY: Re-signs the record after the current one has been verified
    */
   async updateMetadata(cid: string, updates: Partial<BlobMetadata>): Promise<void> {
     await this.ensureInitialized();
 
-    const metaPath = this.getMetaPath(cid);
+    // Metrics set explicitly replace reads not written yet
+    if (updates.metrics) {
+      this.pendingAccess.delete(cid);
+    }
 
     try {
-      const metadata = await this.getMetadata(cid);
-      const updated = { ...metadata, ...updates };
-      
-      // SECURITY: Regenerate integrity hash if critical fields changed
-      if ('pinned' in updates || 'size' in updates || 'mimeType' in updates) {
-        updated.integrityHash = generateMetadataIntegrityHash(
-          updated.cid,
-          updated.size,
-          updated.mimeType,
-          updated.createdAt,
-          updated.pinned || false
-        );
-      }
-      
-      await fs.writeFile(metaPath, JSON.stringify(updated, null, 2));
+      await this.serializeMetadata(cid, () => this.applyMetadataChange(cid, () => updates));
     } catch (error) {
       logger.error('Failed to update metadata', error, { cid });
       throw error;
@@ -394,37 +1055,51 @@ export class StorageService {
   }
 
   /**
-   * List all blobs
+   * List all blobs (newest first)
    */
   async listBlobs(): Promise<BlobMetadata[]> {
     await this.ensureInitialized();
 
     try {
-      const files = await fs.readdir(this.metaDir);
-      const blobs: BlobMetadata[] = [];
-
-      for (const file of files) {
-        if (!file.endsWith('.json')) continue;
-        
-        const cid = file.replace('.json', '');
-        try {
-          const metadata = await this.getMetadata(cid);
-          blobs.push(metadata);
-        } catch (error) {
-          logger.warn('Failed to read metadata for blob', { cid, error });
-        }
-      }
-
-      // Sort by creation time (newest first)
-      blobs.sort((a, b) => b.createdAt - a.createdAt);
-
-      return blobs;
+      return await this.collectPages({});
     } catch (error) {
       logger.error('Failed to list blobs', error);
       return [];
     }
   }
 
+  /**
+   * One page of blobs (newest first unless sorted otherwise), optionally filtered
+   *
+   * Records failing the integrity check are left out of the page.
+   */
+  async queryBlobs(query: MetadataQuery): Promise<MetadataPage> {
+    await this.ensureInitialized();
+
+    const page = await this.metadataIndex.query(query, shardFilter(query));
+    return {
+      ...page,
+      blobs: page.blobs
+        .filter(metadata => {
+          const integrity = integrityService.verifyMetadata(metadata);
+          if (!integrity.valid) {
+            logger.warn('Skipping blob with tampered metadata', { cid: metadata.cid, reason: integrity.reason });
+          }
+          return integrity.valid;
+        })
+        .map(metadata => this.withPendingAccess(metadata))
+    };
+  }
+
+  /**
+   * Number of blobs a query matches
+   */
+  async countBlobs(query: MetadataQuery): Promise<number> {
+    await this.ensureInitialized();
+
+    return this.metadataIndex.count(query, shardFilter(query));
+  }
+
   /**
    * Pin a blob (R9.3, R9.6)
    * Makes blob permanent and immune to GC
@@ -432,10 +1107,9 @@ export class StorageService {
   async pinBlob(cid: string): Promise<void> {
     await this.ensureInitialized();
 
-    const metadata = await this.getMetadata(cid);
-    metadata.pinned = true;
-    
-    await this.updateMetadata(cid, { pinned: true });
+    await this.serializeMetadata(cid, () => this.applyMetadataChange(cid, metadata =>
+      this.ownershipUpdates(metadata, this.ownersOf(metadata), true)
+    ));
 
     logger.info('Blob pinned', { cid });
   }
@@ -447,61 +1121,387 @@ export class StorageService {
   async unpinBlob(cid: string): Promise<void> {
     await this.ensureInitialized();
 
-    const metadata = await this.getMetadata(cid);
-    metadata.pinned = false;
-    
-    await this.updateMetadata(cid, { pinned: false });
+    await this.serializeMetadata(cid, () => this.applyMetadataChange(cid, metadata =>
+      this.ownershipUpdates(metadata, this.ownersOf(metadata), false)
+    ));
 
     logger.info('Blob unpinned', { cid });
   }
 
+  /**
+   * Ownership records of a blob, oldest first
+   */
+  async getOwners(cid: string): Promise<BlobOwner[]> {
+    await this.ensureInitialized();
+
+    return this.ownersOf(await this.getMetadata(cid));
+  }
+
+  /**
+   * Pin or unpin one owner's reference
+   *
+   * The blob stays pinned while the operator or any owner has it pinned.
+   */
+  async setOwnerPinned(
+    cid: string,
+    owner: { appId: string; sender: string },
+    pinned: boolean
+  ): Promise<void> {
+    await this.ensureInitialized();
+
+    await this.serializeMetadata(cid, () => this.applyMetadataChange(cid, metadata => {
+      const owners = this.ownersOf(metadata);
+      if (!owners.some(o => isSameOwner(o, owner))) {
+        throw new OwnerNotFoundError(cid, owner.appId, owner.sender);
+      }
+      return this.ownershipUpdates(
+        metadata,
+        owners.map(o => isSameOwner(o, owner) ? { ...o, pinned } : o),
+        this.isOperatorPinned(metadata)
+      );
+    }));
+
+    logger.info(pinned ? 'Blob pinned by owner' : 'Blob unpinned by owner', { cid, ...owner });
+  }
+
+  /**
+   * Release one owner's reference
+   *
+   * Once no owner is left the blob itself is deleted, unless the operator
+   * pinned it or it is still a chunk of a manifest.
+   */
+  async releaseBlob(
+    cid: string,
+    owner: { appId: string; sender: string }
+  ): Promise<{ deleted: boolean; remainingOwners: number }> {
+    await this.ensureInitialized();
+
+    return this.serializeMetadata(cid, async () => {
+      const metadata = await this.applyMetadataChange(cid, current => {
+        const owners = this.ownersOf(current);
+        if (!owners.some(o => isSameOwner(o, owner))) {
+          throw new OwnerNotFoundError(cid, owner.appId, owner.sender);
+        }
+        return this.ownershipUpdates(
+          current,
+          owners.filter(o => !isSameOwner(o, owner)),
+          this.isOperatorPinned(current)
+        );
+      });
+
+      const remainingOwners = metadata.owners?.length ?? 0;
+      logger.info('Blob released by owner', { cid, ...owner, remainingOwners });
+
+      if (remainingOwners > 0 || metadata.pinned || metadata.chunkOf?.length) {
+        return { deleted: false, remainingOwners };
+      }
+
+      await this.deleteBlob(cid, { reason: 'released' });
+      return { deleted: true, remainingOwners };
+    });
+  }
+
+  /**
+   * Apply owner and blob expiry
+   *
+   * Owner references whose expiry has passed are dropped, pins included.
+   * Once the blob itself has expired it is deleted, unless the operator
+   * pinned it or it is still a chunk of a manifest.
+   */
+  async expireBlob(cid: string, now = Date.now()): Promise<{ deleted: boolean; expiredOwners: number }> {
+    await this.ensureInitialized();
+
+    return this.serializeMetadata(cid, async () => {
+      let metadata = await this.getMetadata(cid);
+      const owners = this.ownersOf(metadata);
+      const remaining = owners.filter(o => o.expiresAt === undefined || o.expiresAt > now);
+      const expiredOwners = owners.length - remaining.length;
+
+      if (expiredOwners > 0) {
+        metadata = await this.applyMetadataChange(cid, current =>
+          this.ownershipUpdates(current, remaining, this.isOperatorPinned(current))
+        );
+        logger.info('Expired owner references dropped', { cid, expiredOwners, remainingOwners: remaining.length });
+      }
+
+      const expired = metadata.expiresAt !== undefined && metadata.expiresAt <= now;
+      if (!expired || metadata.pinned || metadata.chunkOf?.length) {
+        return { deleted: false, expiredOwners };
+      }
+
+      await this.deleteBlob(cid, { reason: 'expired' });
+      logger.info('Expired blob deleted', { cid, expiresAt: metadata.expiresAt });
+      return { deleted: true, expiredOwners };
+    });
+  }
+
   /**
    * List all pinned blobs (R9.7)
    */
   async listPinnedBlobs(): Promise<BlobMetadata[]> {
     await this.ensureInitialized();
 
-    const allBlobs = await this.listBlobs();
-    return allBlobs.filter(blob => blob.pinned === true);
+    return this.collectPages({ pinned: true });
   }
 
   /**
-   * Get storage statistics
+   * Re-hash a blob's stored bytes against its CID, bypassing the cache
+   *
+   * Stored bytes that cannot be read back (failed decryption or
+   * decompression) count as corrupt.
    */
-  async getStats(): Promise<{ blobCount: number; totalSize: number; pinnedCount?: number; pinnedSize?: number }> {
+  async verifyStoredBlob(
+    cid: string,
+    metadata: BlobMetadata
+  ): Promise<{ status: 'ok' | 'corrupt' | 'missing'; bytesRead: number }> {
     await this.ensureInitialized();
 
+    const stats = await this.backend.stat(cid);
+    const stored = stats && await this.backend.stream(cid);
+    if (!stats || !stored) {
+      return { status: 'missing', bytesRead: 0 };
+    }
+
+    const discard = new Writable({ write: (_chunk, _encoding, callback) => callback() });
     try {
-      const files = await fs.readdir(this.blobsDir);
-      let totalSize = 0;
-      let pinnedCount = 0;
-      let pinnedSize = 0;
+      const compression = compressionOf(metadata);
+      if (compression !== 'none') {
+        await pipeline(stored, createDecompressStream(compression), new CIDVerifyStream(cid), discard);
+      } else {
+        await pipeline(stored, new CIDVerifyStream(cid), discard);
+      }
+      return { status: 'ok', bytesRead: stats.size };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { status: 'missing', bytesRead: 0 };
+      }
+      logger.warn('Stored blob failed verification', { cid, error: error.message });
+      return { status: 'corrupt', bytesRead: stats.size };
+    }
+  }
 
-      for (const file of files) {
-        if (file.endsWith('.tmp')) continue;
-        const filePath = path.join(this.blobsDir, file);
-        const stats = await fs.stat(filePath);
-        totalSize += stats.size;
-        
-        // Check if pinned
-        const cid = file.replace('.enc', '');
-        try {
-          const metadata = await this.getMetadata(cid);
-          if (metadata.pinned) {
-            pinnedCount++;
-            pinnedSize += stats.size;
-          }
-        } catch {
-          // Ignore metadata read errors
+  /**
+   * Move a blob's stored bytes into dataDir/quarantine
+   *
+   * The metadata is kept so the blob can be restored from a replica.
+   * Returns the quarantine path, or null if nothing was stored.
+   */
+  async quarantineBlob(cid: string): Promise<string | null> {
+    await this.ensureInitialized();
+
+    // Raw stored bytes: still encrypted at rest if encryption is enabled
+    const stored = await this.baseBackend.get(cid);
+    if (!stored) return null;
+
+    await fs.mkdir(this.quarantineDir, { recursive: true });
+    const quarantinePath = path.join(this.quarantineDir, `${cid}.${Date.now()}`);
+    await fs.writeFile(quarantinePath, stored, { mode: 0o600 });
+    await this.baseBackend.delete(cid);
+    cacheService.delete(cid);
+
+    logger.warn('Blob quarantined', { cid, quarantinePath });
+    return quarantinePath;
+  }
+
+  /**
+   * Rebuild a metadata record for stored bytes that have none
+   *
+   * The bytes must match their CID once decompressed with one of the
+   * supported algorithms; application metadata and owners are lost.
+   * Returns false if they match under none of them.
+   */
+  async rederiveMetadata(cid: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const stored = await this.backend.get(cid);
+    if (!stored) return false;
+
+    for (const compression of COMPRESSION_ALGORITHMS.filter(isCompressionSupported)) {
+      const ciphertext = await decompress(compression, stored).catch(() => null);
+      if (!ciphertext || !verifyCID(cid, ciphertext)) continue;
+
+      const metadata = this.buildMetadata(cid, ciphertext.length, 'application/octet-stream', compression);
+      const size = (await this.backend.stat(cid))?.size ?? stored.length;
+      await this.metadataIndex.put(metadata, size);
+      const tier = await this.tieredBackend?.tierOf(cid);
+      if (tier) {
+        await this.metadataIndex.setTier(cid, tier);
+      }
+
+      logger.info('Blob metadata re-derived', { cid, compression });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Remove temp files interrupted writes left in the blob directories
+   *
+   * @returns files removed
+   */
+  async removeTempFiles(modifiedBefore: number): Promise<number> {
+    let removed = 0;
+    for (const backend of this.fileBackends) {
+      removed += await backend.removeTempFiles(modifiedBefore);
+    }
+    return removed;
+  }
+
+  /**
+   * Replace a blob's stored bytes with a verified copy (e.g. from a replica)
+   */
+  async restoreBlobData(cid: string, ciphertext: Buffer): Promise<void> {
+    await this.ensureInitialized();
+
+    // SECURITY: Only bytes matching the CID are ever written back
+    if (!verifyCID(cid, ciphertext)) {
+      throw new CIDMismatchError(cid, generateCID(ciphertext));
+    }
+
+    const metadata = await this.getMetadata(cid);
+    const data = await compress(compressionOf(metadata), ciphertext);
+    await this.backend.put(cid, data);
+    const stored = await this.backend.stat(cid);
+    await this.metadataIndex.put(metadata, stored?.size ?? data.length);
+    // Missing bytes come back in the hot tier
+    const tier = await this.tieredBackend?.tierOf(cid);
+    if (tier) {
+      await this.metadataIndex.setTier(cid, tier);
+    }
+    cacheService.delete(cid);
+
+    logger.info('Blob restored', { cid, size: ciphertext.length });
+  }
+
+  /**
+   * One page of the trash, most recently deleted first
+   */
+  async listTrash(query: { limit?: number; cursor?: string } = {}): Promise<TrashPage> {
+    await this.ensureInitialized();
+
+    return this.metadataIndex.queryTrash(query);
+  }
+
+  /**
+   * Number and stored size of trashed blobs
+   */
+  async getTrashTotals(): Promise<{ count: number; size: number }> {
+    await this.ensureInitialized();
+
+    return this.metadataIndex.getTrashTotals();
+  }
+
+  /**
+   * Restore a blob from the trash
+   *
+   * A manifest brings its trashed chunks back first, so it is never restored
+   * without them. If the blob has been stored again since it was deleted,
+   * the stored copy is kept and the trashed one dropped.
+   */
+  async restoreBlob(cid: string): Promise<void> {
+    await this.ensureInitialized();
+
+    const entry = await this.metadataIndex.getTrashEntry(cid);
+    if (!entry) {
+      throw new TrashEntryNotFoundError(cid);
+    }
+
+    if (await this.hasBlob(cid)) {
+      await this.discardTrashed(cid);
+      logger.info('Blob was stored again, trashed copy dropped', { cid });
+      return;
+    }
+
+    // SECURITY: Trashed records are verified like live ones before they return
+    const integrity = integrityService.verifyMetadata(entry.metadata);
+    if (!integrity.valid) {
+      logger.error('SECURITY: Metadata tampering detected', { cid, reason: integrity.reason });
+      throw new Error(`METADATA_TAMPERED: Integrity check failed for ${cid}`);
+    }
+
+    const manifest = entry.metadata.manifest
+      ? await this.restoreManifestChunks(cid, entry)
+      : undefined;
+
+    // Keep only references to manifests that still exist (linkChunks adds them back)
+    let metadata = entry.metadata;
+    if (metadata.chunkOf?.length) {
+      const chunkOf: string[] = [];
+      for (const manifestCid of metadata.chunkOf) {
+        if (await this.hasBlob(manifestCid)) chunkOf.push(manifestCid);
+      }
+      if (chunkOf.length !== metadata.chunkOf.length) {
+        metadata = { ...metadata, chunkOf };
+        metadata.integrityHash = integrityService.signMetadata(metadata);
+      }
+    }
+
+    await this.copyStored(this.trashBase, this.baseBackend, cid);
+    const stored = await this.baseBackend.stat(cid);
+    await this.metadataIndex.restoreFromTrash(metadata, stored?.size ?? entry.storedSize);
+    await this.trashBase.delete(cid);
+
+    if (manifest) {
+      await this.linkChunks(cid, manifest);
+    }
+
+    logger.info('Blob restored from trash', { cid, reason: entry.reason, deletedAt: entry.deletedAt });
+  }
+
+  /**
+   * Permanently remove one blob from the trash
+   */
+  async purgeTrashed(cid: string): Promise<void> {
+    await this.ensureInitialized();
+
+    if (!(await this.discardTrashed(cid))) {
+      throw new TrashEntryNotFoundError(cid);
+    }
+
+    logger.info('Blob purged from trash', { cid });
+  }
+
+  /**
+   * Permanently remove trash entries whose retention window ended by now
+   *
+   * With dryRun, only reports what would be purged.
+   */
+  async purgeTrash(now = Date.now(), dryRun = false): Promise<{ purged: number; purgedBytes: number }> {
+    await this.ensureInitialized();
+
+    if (dryRun) {
+      const due = await this.metadataIndex.getTrashTotals(now);
+      return { purged: due.count, purgedBytes: due.size };
+    }
+
+    let purged = 0;
+    let purgedBytes = 0;
+    for (;;) {
+      const due = await this.metadataIndex.listPurgeableTrash(now, TRASH_PURGE_BATCH_SIZE);
+      for (const { cid, storedSize } of due) {
+        if (await this.discardTrashed(cid)) {
+          purged++;
+          purgedBytes += storedSize;
         }
       }
+      if (due.length < TRASH_PURGE_BATCH_SIZE) break;
+    }
 
-      return {
-        blobCount: files.filter(f => !f.endsWith('.tmp')).length,
-        totalSize,
-        pinnedCount,
-        pinnedSize
-      };
+    if (purged > 0) {
+      logger.info('Trash purged', { purged, purgedBytes });
+    }
+    return { purged, purgedBytes };
+  }
+
+  /**
+   * Get storage statistics
+   */
+  async getStats(): Promise<StorageTotals> {
+    await this.ensureInitialized();
+
+    try {
+      return await this.metadataIndex.getTotals();
     } catch (error) {
       logger.error('Failed to get storage stats', error);
       return { blobCount: 0, totalSize: 0, pinnedCount: 0, pinnedSize: 0 };
@@ -509,50 +1509,670 @@ export class StorageService {
   }
 
   /**
-   * Get free disk space in bytes
+   * Storage used by one app or sender
    */
-  async getFreeDiskSpace(): Promise<number> {
+  async getUsage(scope: QuotaScope, key: string): Promise<QuotaUsage> {
     await this.ensureInitialized();
-    
+
+    return this.metadataIndex.getUsage(scope, key);
+  }
+
+  /**
+   * Apps or senders by storage used, largest first
+   */
+  async listUsage(scope: QuotaScope, limit?: number): Promise<QuotaUsage[]> {
+    await this.ensureInitialized();
+
+    return this.metadataIndex.listUsage(scope, limit);
+  }
+
+  /**
+   * Visit the indexed columns of every blob created in [since, until)
+   */
+  async scanUsage(
+    range: { since?: number; until?: number; resolveMimeTypes?: boolean },
+    visit: (record: UsageRecord) => void
+  ): Promise<number> {
+    await this.ensureInitialized();
+    await this.flushAccessMetrics();
+
+    return this.metadataIndex.scanUsage(range, visit);
+  }
+
+  /**
+   * Whether a cold tier is configured
+   */
+  isTiered(): boolean {
+    return this.tieredBackend !== null;
+  }
+
+  /**
+   * The tier holding a blob (null if the blob is not stored)
+   */
+  async getBlobTier(cid: string): Promise<StorageTier | null> {
+    await this.ensureInitialized();
+
+    return this.metadataIndex.getTier(cid);
+  }
+
+  /**
+   * Move a blob's stored bytes to a tier, with a manifest's chunks
+   *
+   * Bytes are copied as stored (still encrypted at rest) before the old
+   * copy is removed, so reads keep working throughout.
+   *
+   * @returns stored bytes moved (0 if already there or not stored)
+   */
+  async moveBlobToTier(cid: string, tier: StorageTier): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.tieredBackend) return 0;
+
+    return this.serializeMetadata(cid, async () => {
+      const metadata = await this.readRawMetadata(cid);
+      if (!metadata) return 0;
+
+      let moved = 0;
+      if (metadata.manifest) {
+        for (const chunk of (await this.loadManifest(cid, metadata)).chunks) {
+          moved += await this.moveStoredToTier(chunk.cid, tier);
+        }
+      }
+      return moved + await this.moveStoredToTier(cid, tier);
+    });
+  }
+
+  /**
+   * Blob count, stored size and free disk space of each tier
+   */
+  async getTierUsage(): Promise<TierUsage[]> {
+    await this.ensureInitialized();
+
+    const totals = await this.metadataIndex.getTierTotals();
+    const tiers: Array<[StorageTier, string | undefined]> = [['hot', undefined]];
+    if (this.tieredBackend) {
+      tiers.push(['cold', config.coldDataDir]);
+    }
+
+    return Promise.all(tiers.map(async ([tier, dataDir]) => ({
+      tier,
+      blobCount: totals[tier].blobCount,
+      storedSize: totals[tier].totalSize,
+      freeDiskBytes: await this.getFreeDiskSpace(dataDir)
+    })));
+  }
+
+  /**
+   * Blob count, uncompressed size, stored size and savings for each
+   * compression algorithm blobs are stored with
+   */
+  async getCompressionStats(): Promise<CompressionStats[]> {
+    await this.ensureInitialized();
+
+    const totals = await this.metadataIndex.getCompressionTotals();
+    return totals.map(total => ({
+      ...total,
+      savedBytes: total.originalSize - total.storedSize
+    }));
+  }
+
+  /**
+   * Get free disk space in bytes of a directory, or by default of the
+   * data volumes that take new blobs
+   */
+  async getFreeDiskSpace(dataDir?: string): Promise<number> {
+    await this.ensureInitialized();
+
+    if (dataDir === undefined && this.volumeBackend) {
+      return this.volumeBackend.getFreeDiskSpace();
+    }
+    return getFreeDiskSpace(dataDir ?? config.dataDir);
+  }
+
+  /**
+   * Whether blob bytes are spread over several data volumes
+   */
+  hasDataVolumes(): boolean {
+    return this.volumeBackend !== null;
+  }
+
+  /**
+   * State of each data volume (none without DATA_VOLUMES)
+   */
+  getVolumes(): VolumeStatus[] {
+    return this.volumeBackend?.getVolumes() ?? [];
+  }
+
+  /**
+   * Probe the data volumes
+   *
+   * @returns the volumes that failed since the last check; their blobs
+   * need re-fetching from peers
+   */
+  async checkVolumes(): Promise<VolumeStatus[]> {
+    await this.ensureInitialized();
+    return this.volumeBackend?.check() ?? [];
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  /**
+   * The algorithm to compress a new blob with: none unless compression is
+   * enabled, else what the policy picks for its type. Blobs larger than
+   * the sample are only compressed if their first bytes compress well.
+   */
+  private async chooseCompression(
+    cid: string,
+    mimeType: string,
+    options: StoreBlobOptions | undefined,
+    sample: Buffer,
+    size: number
+  ): Promise<CompressionAlgorithm> {
+    if (!config.compressionEnabled) return 'none';
+
+    const algorithm = selectCompression(config.compressionRules, config.compressionAlgorithm, {
+      mimeType,
+      contentType: options?.contentType
+    });
+    if (algorithm === 'none' || size <= sample.length) return algorithm;
+
     try {
-      // Use Node.js fs.statfs (available in Node 18+) or fallback to platform-specific commands
-      const { statfs } = await import('fs/promises');
-      const stats = await (statfs as any)(config.dataDir);
-      return stats.bavail * stats.bsize; // Available blocks * block size
-    } catch (error) {
-      // Fallback: use platform-specific command
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
-      
+      const compressedSample = await compress(algorithm, sample);
+      if (isWorthCompressing(sample.length, compressedSample.length, config.compressionMinGainPercent)) {
+        return algorithm;
+      }
+      logger.debug('Blob sample did not compress well, storing uncompressed', { cid, algorithm });
+    } catch (err) {
+      logger.warn('Compression failed, storing uncompressed', { cid, algorithm, error: err });
+    }
+    return 'none';
+  }
+
+  private buildMetadata(
+    cid: string,
+    size: number,
+    mimeType: string,
+    compression: CompressionAlgorithm,
+    options?: StoreBlobOptions,
+    extra?: Partial<BlobMetadata>
+  ): BlobMetadata {
+    // Create metadata (v2 - with application metadata)
+    const createdAt = Date.now();
+    const owner = this.ownerFromOptions(options);
+    const metadata: BlobMetadata = {
+      cid,
+      size,
+      mimeType,
+      createdAt,
+      version: 2, // Schema version (2 = with appId metadata)
+      compression, // How the stored bytes are compressed
+      // Application metadata (v2)
+      appId: options?.appId,
+      contentType: options?.contentType,
+      sender: options?.sender,
+      timestamp: options?.timestamp,
+      metadata: options?.metadata,
+      operatorPinned: false,
+      owners: owner ? [owner] : [],
+      expiresAt: options?.expiresAt,
+      replication: options?.fromPeer ? {
+        fromPeer: options.fromPeer,
+        replicatedAt: Date.now(),
+        replicatedTo: []
+      } : {
+        replicatedTo: []
+      },
+      metrics: {
+        retrievalCount: 0,
+        lastAccessed: Date.now(),
+        avgLatency: 0
+      },
+      ...extra
+    };
+
+    // SECURITY: Generate integrity hash to detect metadata tampering
+    metadata.integrityHash = integrityService.signMetadata(metadata);
+
+    return metadata;
+  }
+
+  /**
+   * Read metadata without integrity verification (null if missing or unreadable)
+   */
+  private async readRawMetadata(cid: string): Promise<BlobMetadata | null> {
+    try {
+      return await this.metadataIndex.get(cid);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read a blob's decompressed bytes without touching access metrics
+   */
+  private async readBlobData(cid: string, metadata: BlobMetadata): Promise<Buffer> {
+    const cached = cacheService.get(cid);
+    if (cached) return cached;
+
+    const stored = await this.backend.get(cid);
+    if (!stored) {
+      throw new BlobNotFoundError(cid);
+    }
+    return decompress(compressionOf(metadata), stored);
+  }
+
+  /**
+   * Open a stream over a single stored blob file
+   */
+  private async openStoredStream(
+    cid: string,
+    metadata: BlobMetadata,
+    range?: ByteRange
+  ): Promise<Readable> {
+    const cached = cacheService.get(cid);
+    if (cached) {
+      return Readable.from([range ? cached.subarray(range.start, range.end + 1) : cached]);
+    }
+
+    const compression = compressionOf(metadata);
+    const stored = await this.backend.stream(cid, compression === 'none' ? range : undefined);
+    if (!stored) {
+      throw new BlobNotFoundError(cid);
+    }
+
+    if (compression === 'none') {
+      return stored;
+    }
+
+    if (range) {
+      return pipe(
+        stored,
+        createDecompressStream(compression),
+        new SliceStream(range.start, range.end),
+        () => {}
+      );
+    }
+
+    return pipe(stored, createDecompressStream(compression), () => {});
+  }
+
+  /**
+   * Walk every page of a query
+   */
+  private async collectPages(query: MetadataQuery): Promise<BlobMetadata[]> {
+    const blobs: BlobMetadata[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.queryBlobs({ ...query, limit: MAX_PAGE_SIZE, cursor });
+      blobs.push(...page.blobs);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return blobs;
+  }
+
+  private async loadManifest(cid: string, metadata: BlobMetadata): Promise<BlobManifest> {
+    const data = await this.readBlobData(cid, metadata);
+
+    // SECURITY: Chunks are verified against the manifest, so it must match its own CID
+    if (!verifyCID(cid, data)) {
+      throw new CIDMismatchError(cid, generateCID(data));
+    }
+    return parseManifest(data);
+  }
+
+  private async findMissingChunks(manifest: BlobManifest): Promise<string[]> {
+    const missing: string[] = [];
+    for (const chunk of manifest.chunks) {
+      if (!(await this.hasBlob(chunk.cid))) {
+        missing.push(chunk.cid);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Stream a manifest's content chunk by chunk, restricted to a range if given
+   */
+  private async *readManifestChunks(
+    manifest: BlobManifest,
+    range?: ByteRange
+  ): AsyncGenerator<Buffer> {
+    let offset = 0;
+
+    for (const chunk of manifest.chunks) {
+      const chunkStart = offset;
+      const chunkEnd = offset + chunk.size - 1;
+      offset += chunk.size;
+
+      if (range && (chunkEnd < range.start || chunkStart > range.end)) continue;
+
+      const start = range ? Math.max(range.start - chunkStart, 0) : 0;
+      const end = range ? Math.min(range.end, chunkEnd) - chunkStart : chunk.size - 1;
+      const fullChunk = start === 0 && end === chunk.size - 1;
+
+      const metadata = await this.getMetadata(chunk.cid);
+      const stored = await this.openStoredStream(
+        chunk.cid,
+        metadata,
+        fullChunk ? undefined : { start, end }
+      );
+
+      // SECURITY: Whole chunks are verified against their CID as they stream
+      const source = fullChunk
+        ? pipe(stored, new CIDVerifyStream(chunk.cid), () => {})
+        : stored;
+
+      for await (const data of source) {
+        yield data as Buffer;
+      }
+    }
+  }
+
+  /**
+   * SECURITY: Validate a manifest and require all of its chunks locally
+   */
+  private async validateManifest(cid: string, data: Buffer): Promise<BlobManifest> {
+    const manifest = parseManifest(data);
+    const missing = await this.findMissingChunks(manifest);
+    if (missing.length > 0) {
+      throw new BlobIncompleteError(cid, missing);
+    }
+    return manifest;
+  }
+
+  /**
+   * Record that a manifest references its chunks (protects them from GC)
+   */
+  private async linkChunks(manifestCid: string, manifest: BlobManifest): Promise<void> {
+    const chunkCids = new Set(manifest.chunks.map(c => c.cid));
+    for (const chunkCid of chunkCids) {
+      const chunkMeta = await this.getMetadata(chunkCid);
+      const chunkOf = chunkMeta.chunkOf || [];
+      if (!chunkOf.includes(manifestCid)) {
+        await this.updateMetadata(chunkCid, { chunkOf: [...chunkOf, manifestCid] });
+      }
+    }
+  }
+
+  /**
+   * Drop a deleted manifest's references and delete chunks nothing else needs
+   */
+  private async releaseChunks(manifestCid: string, manifest: BlobManifest, permanent?: boolean): Promise<void> {
+    const chunkCids = new Set(manifest.chunks.map(c => c.cid));
+    for (const chunkCid of chunkCids) {
       try {
-        if (process.platform === 'win32') {
-          // Windows: use wmic
-          const { stdout } = await execAsync(`wmic logicaldisk where "DeviceID='${config.dataDir.charAt(0)}:'" get FreeSpace`);
-          const match = stdout.match(/\d+/);
-          return match ? parseInt(match[0]) : 0;
+        const chunkMeta = await this.readRawMetadata(chunkCid);
+        if (!chunkMeta) continue;
+
+        const remaining = (chunkMeta.chunkOf || []).filter(c => c !== manifestCid);
+        if (remaining.length === 0 && !chunkMeta.pinned && this.ownersOf(chunkMeta).length === 0) {
+          await this.deleteBlob(chunkCid, { force: true, permanent, reason: 'manifest_deleted' });
         } else {
-          // Unix/Linux/Mac: use df
-          const { stdout } = await execAsync(`df -k "${config.dataDir}" | tail -1 | awk '{print $4}'`);
-          return parseInt(stdout.trim()) * 1024; // Convert KB to bytes
+          await this.updateMetadata(chunkCid, { chunkOf: remaining });
         }
-      } catch (cmdError) {
-        logger.warn('Failed to get free disk space', cmdError);
-        return 0;
+      } catch (error: any) {
+        logger.warn('Failed to release chunk', { manifestCid, chunkCid, error: error.message });
       }
     }
   }
 
   /**
-   * Private helper methods
+   * Move a blob's stored bytes and metadata into the trash
+   *
+   * False if either was missing, in which case nothing was moved.
    */
+  private async moveToTrash(cid: string, reason: string): Promise<boolean> {
+    if (!(await this.copyStored(this.baseBackend, this.trashBase, cid))) {
+      return false;
+    }
+
+    const deletedAt = Date.now();
+    const entry = await this.metadataIndex.moveToTrash(cid, {
+      deletedAt,
+      purgeAfter: deletedAt + config.trashRetentionHours * 60 * 60 * 1000,
+      reason
+    });
+    if (!entry) {
+      await this.trashBase.delete(cid);
+      return false;
+    }
 
-  private getBlobPath(cid: string): string {
-    return path.join(this.blobsDir, `${cid}.enc`);
+    await this.baseBackend.delete(cid);
+    return true;
   }
 
-  private getMetaPath(cid: string): string {
-    return path.join(this.metaDir, `${cid}.json`);
+  /**
+   * Drop a blob's trash entry and bytes; false if it was not in the trash
+   */
+  private async discardTrashed(cid: string): Promise<boolean> {
+    if (!(await this.metadataIndex.deleteTrashEntry(cid))) {
+      return false;
+    }
+    await this.trashBase.delete(cid);
+    return true;
+  }
+
+  /**
+   * Restore the trashed chunks a trashed manifest needs
+   *
+   * Fails without restoring anything if a chunk is neither stored nor in
+   * the trash.
+   */
+  private async restoreManifestChunks(cid: string, entry: TrashEntry): Promise<BlobManifest> {
+    const stored = await this.trashBackend.get(cid);
+    if (!stored) {
+      throw new BlobNotFoundError(cid);
+    }
+    const manifest = parseManifest(await decompress(compressionOf(entry.metadata), stored));
+
+    const missing = [...new Set(await this.findMissingChunks(manifest))];
+    const unrecoverable: string[] = [];
+    for (const chunkCid of missing) {
+      if (!(await this.metadataIndex.getTrashEntry(chunkCid))) unrecoverable.push(chunkCid);
+    }
+    if (unrecoverable.length > 0) {
+      throw new BlobIncompleteError(cid, unrecoverable);
+    }
+
+    for (const chunkCid of missing) {
+      await this.restoreBlob(chunkCid);
+    }
+    return manifest;
+  }
+
+  /**
+   * Copy a blob's raw stored bytes between backends through the staging area
+   *
+   * False if the source has nothing stored.
+   */
+  private async moveStoredToTier(cid: string, tier: StorageTier): Promise<number> {
+    const tiered = this.tieredBackend!;
+    const from = tiered.getTier(tier === 'hot' ? 'cold' : 'hot');
+    const to = tiered.getTier(tier);
+
+    const copied = await from.has(cid) && await this.copyStored(from, to, cid);
+    if (copied) {
+      await from.delete(cid);
+    } else if (!(await to.has(cid))) {
+      return 0;
+    }
+
+    // Deleted while it was being copied: drop the copy too
+    if (!(await this.metadataIndex.setTier(cid, tier))) {
+      await to.delete(cid);
+      return 0;
+    }
+    return copied ? (await to.stat(cid))?.size ?? 0 : 0;
+  }
+
+  private async copyStored(from: StorageBackend, to: StorageBackend, cid: string): Promise<boolean> {
+    const source = await from.stream(cid);
+    if (!source) return false;
+
+    const tempPath = path.join(this.stagingDir, `${cid}.${crypto.randomUUID()}.copy`);
+    try {
+      await pipeline(source, createWriteStream(tempPath, { mode: 0o600 }));
+      await to.putFile(cid, tempPath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Record another owner of an already stored blob
+   *
+   * Replicas never add owners: a peer cannot prove who stored the blob.
+   * An owner storing the same blob again refreshes their record.
+   */
+  private async addOwner(cid: string, options?: StoreBlobOptions): Promise<void> {
+    const owner = this.ownerFromOptions(options);
+    if (!owner || options?.fromPeer || !(await this.readRawMetadata(cid))) {
+      logger.debug('Blob already exists', { cid });
+      return;
+    }
+
+    const updated = await this.serializeMetadata(cid, () => this.applyMetadataChange(cid, metadata => {
+      const owners = this.ownersOf(metadata);
+      const existing = owners.find(o => isSameOwner(o, owner));
+      return this.ownershipUpdates(
+        metadata,
+        existing
+          ? owners.map(o => o === existing ? { ...owner, pinned: existing.pinned } : o)
+          : [...owners, owner],
+        this.isOperatorPinned(metadata)
+      );
+    }));
+
+    logger.info('Blob already exists, owner recorded', { cid, appId: owner.appId, sender: owner.sender });
+    if (!updated.chunkOf?.length) {
+      this.emitStored(updated, options);
+    }
+  }
+
+  /**
+   * Announce a stored blob, or a new owner of one, with the owner that stored it
+   */
+  private emitStored(metadata: BlobMetadata, options?: StoreBlobOptions): void {
+    const owner = this.ownerFromOptions(options);
+    const event: BlobStoredEvent = {
+      cid: metadata.cid,
+      size: metadata.manifest?.size ?? metadata.size,
+      mimeType: metadata.manifest?.mimeType ?? metadata.mimeType,
+      owners: owner ? [eventOwner(owner)] : [],
+      fromPeer: options?.fromPeer
+    };
+    this.emit('blob:stored', event);
+  }
+
+  private assertNotExpired(cid: string, options?: StoreBlobOptions): void {
+    // Expired content is never stored, whether uploaded, replicated or pulled
+    if (options?.expiresAt !== undefined && options.expiresAt <= Date.now()) {
+      throw new BlobExpiredError(cid, options.expiresAt);
+    }
+  }
+
+  private ownerFromOptions(options?: StoreBlobOptions): BlobOwner | null {
+    if (!options?.appId && !options?.sender) return null;
+
+    return {
+      appId: options.appId,
+      sender: options.sender,
+      contentType: options.contentType,
+      timestamp: options.timestamp ?? Date.now(),
+      expiresAt: options.expiresAt,
+      authorization: options.authorization
+    };
+  }
+
+  /**
+   * Ownership records, including the one implied by a record written before
+   * owners were tracked (chunks are owned through their manifests)
+   */
+  private ownersOf(metadata: BlobMetadata): BlobOwner[] {
+    if (metadata.owners) return metadata.owners;
+    if (metadata.chunkOf?.length || (!metadata.appId && !metadata.sender)) return [];
+
+    return [{
+      appId: metadata.appId,
+      sender: metadata.sender,
+      contentType: metadata.contentType,
+      timestamp: metadata.timestamp ?? metadata.createdAt
+    }];
+  }
+
+  /**
+   * Before owners were tracked, every pin was the operator's
+   */
+  private isOperatorPinned(metadata: BlobMetadata): boolean {
+    return metadata.operatorPinned ?? (metadata.pinned || false);
+  }
+
+  /**
+   * Metadata fields for a new owner list: the first owner fills the indexed
+   * appId/sender columns, the effective pin combines all pins and the blob
+   * expires with the last owner (never, if any owner set no expiry).
+   * Without owners the blob keeps the expiry it was stored or replicated with.
+   */
+  private ownershipUpdates(
+    metadata: BlobMetadata,
+    owners: BlobOwner[],
+    operatorPinned: boolean
+  ): Partial<BlobMetadata> {
+    const [first] = owners;
+    let expiresAt = metadata.expiresAt;
+    if (owners.length > 0) {
+      expiresAt = owners.every(o => o.expiresAt !== undefined)
+        ? Math.max(...owners.map(o => o.expiresAt!))
+        : undefined;
+    }
+
+    return {
+      owners,
+      operatorPinned,
+      pinned: operatorPinned || owners.some(o => o.pinned),
+      expiresAt,
+      appId: first?.appId,
+      contentType: first?.contentType,
+      sender: first?.sender
+    };
+  }
+
+  /**
+   * Verify, change and re-sign a metadata record
+   * Callers hold the CID's serializeMetadata slot.
+   */
+  private async applyMetadataChange(
+    cid: string,
+    change: (metadata: BlobMetadata) => Partial<BlobMetadata>
+  ): Promise<BlobMetadata> {
+    const metadata = await this.getMetadata(cid);
+    const updated = { ...metadata, ...change(metadata) };
+    updated.integrityHash = integrityService.signMetadata(updated);
+
+    await this.metadataIndex.update(updated);
+    return updated;
+  }
+
+  /**
+   * Run read-modify-write steps on one CID's metadata one at a time, so
+   * concurrent stores, pins and releases never lose each other's changes
+   */
+  private serializeMetadata<T>(cid: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.metadataUpdates.get(cid) ?? Promise.resolve();
+    const result = previous.then(task);
+    const settled = result.catch(() => {});
+    this.metadataUpdates.set(cid, settled);
+    settled.then(() => {
+      if (this.metadataUpdates.get(cid) === settled) {
+        this.metadataUpdates.delete(cid);
+      }
+    });
+    return result;
   }
 
   private async ensureInitialized(): Promise<void> {
@@ -570,20 +2190,68 @@ export class StorageService {
     }
   }
 
-  private async updateAccessMetrics(cid: string, metadata: BlobMetadata): Promise<void> {
-    if (!metadata.metrics) {
-      metadata.metrics = {
-        retrievalCount: 0,
-        lastAccessed: Date.now(),
-        avgLatency: 0
-      };
+  /**
+   * Count a read in memory; the metadata returned to the caller shows it
+   */
+  private recordAccess(metadata: BlobMetadata, startedAt: number): void {
+    const now = Date.now();
+    const previous = this.pendingAccess.get(metadata.cid) ?? metadata.metrics ?? {
+      retrievalCount: 0,
+      lastAccessed: now,
+      avgLatency: 0
+    };
+    const retrievalCount = previous.retrievalCount + 1;
+    const metrics = {
+      retrievalCount,
+      lastAccessed: now,
+      avgLatency: (previous.avgLatency * previous.retrievalCount + (now - startedAt)) / retrievalCount
+    };
+
+    this.pendingAccess.set(metadata.cid, metrics);
+    metadata.metrics = { ...metrics };
+
+    if (this.pendingAccess.size >= MAX_PENDING_ACCESS) {
+      this.flushAccessMetrics().catch(error =>
+        logger.warn('Failed to flush access metrics', { error: error.message })
+      );
     }
+  }
 
-    metadata.metrics.retrievalCount++;
-    metadata.metrics.lastAccessed = Date.now();
+  /**
+   * Metadata with reads not yet written to the index
+   */
+  private withPendingAccess(metadata: BlobMetadata): BlobMetadata {
+    const pending = this.pendingAccess.get(metadata.cid);
+    return pending ? { ...metadata, metrics: { ...pending } } : metadata;
+  }
+}
 
-    await this.updateMetadata(cid, { metrics: metadata.metrics });
+async function readFileStart(filePath: string, length: number): Promise<Buffer> {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
   }
 }
 
+/**
+ * Match on the shard a CID maps to, which the metadata index has no column for
+ */
+function shardFilter(query: MetadataQuery): ((metadata: BlobMetadata) => boolean) | undefined {
+  const { shard } = query;
+  if (shard === undefined) return undefined;
+  return metadata => calculateShardKey(metadata.cid, config.shardCount) === shard;
+}
+
+function eventOwner({ appId, contentType, sender }: BlobOwner): BlobEventOwner {
+  return { appId, contentType, sender };
+}
+
+function isSameOwner(a: Pick<BlobOwner, 'appId' | 'sender'>, b: Pick<BlobOwner, 'appId' | 'sender'>): boolean {
+  return a.appId === b.appId && a.sender?.toLowerCase() === b.sender?.toLowerCase();
+}
+
 export const storageService = new StorageService();
@@ -0,0 +1,204 @@
+/**
+ * HASHD Vault - Storage Tier Service
+ *
+ * With a cold tier (COLD_DATA_DIR), periodically moves blobs between the
+ * tiers by how they are read: blobs not read for TIER_COLD_AFTER_HOURS
+ * are demoted, and so are the least recently read ones while the hot tier
+ * holds more than TIER_HOT_MAX_MB. Cold blobs read TIER_PROMOTE_READS
+ * times since they were demoted, the last time recently, are promoted back
+ * as long as they fit. Chunks move with their manifest.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { storageService } from './storage.service.js';
+import { MAX_PAGE_SIZE } from './backends/index.js';
+import { StorageTier, TierMoveResult, TierStatus } from '../types/index.js';
+
+export class TierService {
+  private running = false;
+  private lastRun = 0;
+  private lastResult: TierMoveResult | undefined;
+  private moveInterval: NodeJS.Timeout | null = null;
+  private abort = new AbortController();
+
+  /**
+   * Start periodic moves if a cold tier is configured
+   */
+  async initialize(): Promise<void> {
+    if (!storageService.isTiered()) {
+      logger.info('Storage tiering disabled');
+      return;
+    }
+
+    const intervalMs = config.tierIntervalMinutes * 60 * 1000;
+    this.moveInterval = setInterval(() => {
+      if (this.running) return;
+      this.runMove().catch(error => logger.error('Periodic tier move failed', error));
+    }, intervalMs);
+
+    logger.info('Storage tiering initialized', {
+      intervalMinutes: config.tierIntervalMinutes,
+      coldAfterHours: config.tierColdAfterHours,
+      promoteReads: config.tierPromoteReads,
+      hotMaxMB: config.tierHotMaxMB
+    });
+  }
+
+  /**
+   * Stop periodic moves and abort a running pass
+   */
+  stop(): void {
+    if (this.moveInterval) {
+      clearInterval(this.moveInterval);
+      this.moveInterval = null;
+    }
+    this.abort.abort();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Demote cold blobs and promote hot ones once
+   */
+  async runMove(now = Date.now()): Promise<TierMoveResult> {
+    if (!storageService.isTiered()) {
+      throw new Error('No cold tier is configured');
+    }
+    if (this.running) {
+      throw new Error('Tier move already running');
+    }
+
+    this.running = true;
+    this.abort = new AbortController();
+    const signal = this.abort.signal;
+
+    const result: TierMoveResult = {
+      startedAt: Date.now(),
+      finishedAt: 0,
+      demoted: 0,
+      demotedBytes: 0,
+      promoted: 0,
+      promotedBytes: 0,
+      failed: 0,
+      aborted: false
+    };
+
+    try {
+      // Candidates are picked from the indexed read counts
+      await storageService.flushAccessMetrics();
+
+      const metadataIndex = storageService.getMetadataIndex();
+      const coldBefore = now - config.tierColdAfterHours * 60 * 60 * 1000;
+      const hotMaxBytes = config.tierHotMaxMB * 1024 * 1024;
+      const hotSize = async () => (await metadataIndex.getTierTotals()).hot.totalSize;
+
+      // Not read for a while
+      await this.moveAll(result, 'cold', signal, () =>
+        metadataIndex.listTierCandidates('hot', { accessedBefore: coldBefore, limit: MAX_PAGE_SIZE })
+      );
+
+      // Over the hot tier's limit: least recently read first
+      if (hotMaxBytes > 0) {
+        await this.moveAll(result, 'cold', signal, async () => {
+          let excess = await hotSize() - hotMaxBytes;
+          if (excess <= 0) return [];
+          const candidates = await metadataIndex.listTierCandidates('hot', { limit: MAX_PAGE_SIZE });
+          const needed = [];
+          for (const candidate of candidates) {
+            if (excess <= 0) break;
+            excess -= candidate.storedSize;
+            needed.push(candidate);
+          }
+          return needed;
+        });
+      }
+
+      // Read again since they were demoted
+      let room = hotMaxBytes > 0 ? hotMaxBytes - await hotSize() : Infinity;
+      await this.moveAll(result, 'hot', signal, async () => {
+        const candidates = await metadataIndex.listTierCandidates('cold', {
+          accessedSince: coldBefore,
+          minReads: config.tierPromoteReads,
+          limit: MAX_PAGE_SIZE
+        });
+        const fitting = [];
+        for (const candidate of candidates) {
+          if (candidate.storedSize > room) break;
+          room -= candidate.storedSize;
+          fitting.push(candidate);
+        }
+        return fitting;
+      });
+
+      result.aborted = signal.aborted;
+      result.finishedAt = Date.now();
+      this.lastRun = result.finishedAt;
+      this.lastResult = result;
+
+      if (result.demoted > 0 || result.promoted > 0 || result.failed > 0) {
+        logger.info('Tier move complete', { ...result });
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async getStatus(): Promise<TierStatus> {
+    const enabled = storageService.isTiered();
+    const intervalMs = config.tierIntervalMinutes * 60 * 1000;
+    return {
+      enabled,
+      running: this.running,
+      intervalMinutes: config.tierIntervalMinutes,
+      coldAfterHours: config.tierColdAfterHours,
+      promoteReads: config.tierPromoteReads,
+      hotMaxMB: config.tierHotMaxMB,
+      lastRun: this.lastRun,
+      nextRun: enabled && this.lastRun > 0 ? this.lastRun + intervalMs : 0,
+      lastResult: this.lastResult,
+      tiers: await storageService.getTierUsage()
+    };
+  }
+
+  /**
+   * Move batches of candidates until none are left or a batch moves nothing
+   */
+  private async moveAll(
+    result: TierMoveResult,
+    tier: StorageTier,
+    signal: AbortSignal,
+    nextBatch: () => Promise<Array<{ cid: string }>>
+  ): Promise<void> {
+    while (!signal.aborted) {
+      const batch = await nextBatch();
+      let moved = 0;
+
+      for (const { cid } of batch) {
+        if (signal.aborted) break;
+        try {
+          const bytes = await storageService.moveBlobToTier(cid, tier);
+          moved++;
+          if (tier === 'cold') {
+            result.demoted++;
+            result.demotedBytes += bytes;
+          } else {
+            result.promoted++;
+            result.promotedBytes += bytes;
+          }
+        } catch (error: any) {
+          result.failed++;
+          logger.warn('Failed to move blob between tiers', { cid, tier, error: error.message });
+        }
+      }
+
+      if (moved === 0) break;
+    }
+  }
+}
+
+// Singleton instance
+export const tierService = new TierService();
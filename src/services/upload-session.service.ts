@@ -0,0 +1,408 @@
+/**
+ * HASHD Vault - Upload Session Service
+ *
+ * Resumable uploads: a client opens a session with its StorageAuthorization,
+ * writes the content in pieces at arbitrary offsets, and finalizes once every
+ * byte has arrived. Sessions survive restarts and expire when left unfinished.
+ *
+ * An open session reserves its full size: new sessions are checked against
+ * capacity and quotas together with the sessions already open, and each
+ * sender may only hold UPLOAD_MAX_SESSIONS_PER_SENDER of them.
+ */
+
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { ByteLimitStream } from '../utils/stream.js';
+import { storageService } from './storage.service.js';
+import { quotaService } from './quota.service.js';
+import {
+  ByteRange,
+  CIDMismatchError,
+  InvalidRequestError,
+  PayloadTooLargeError,
+  StagedBlob,
+  StorageAuthorization,
+  StorageFullError,
+  UploadIncompleteError,
+  UploadNotFoundError,
+  UploadSession,
+  VaultError
+} from '../types/index.js';
+
+export class UploadSessionService {
+  private uploadsDir: string;
+  private sessions: Map<string, UploadSession> = new Map();
+  private finalizing: Set<string> = new Set();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private creating: Promise<unknown> = Promise.resolve();
+  private initialized = false;
+
+  constructor() {
+    this.uploadsDir = path.join(config.dataDir, 'uploads');
+  }
+
+  /**
+   * Load persisted sessions and start periodic cleanup of expired ones
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    await fs.mkdir(this.uploadsDir, { recursive: true });
+
+    const files = await fs.readdir(this.uploadsDir);
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const session: UploadSession = JSON.parse(
+          await fs.readFile(path.join(this.uploadsDir, file), 'utf-8')
+        );
+        this.sessions.set(session.id, session);
+      } catch (error: any) {
+        logger.warn('Discarding unreadable upload session', { file, error: error.message });
+        await fs.unlink(path.join(this.uploadsDir, file)).catch(() => {});
+      }
+    }
+
+    await this.cleanupExpired();
+
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupExpired().catch((err: Error) =>
+        logger.warn('Failed to clean up upload sessions', { error: err.message })
+      );
+    }, 60000);
+    this.cleanupInterval.unref();
+
+    this.initialized = true;
+    logger.info('Upload session service initialized', { sessions: this.sessions.size });
+  }
+
+  /**
+   * Open a new upload session
+   *
+   * The data file is pre-sized (sparse) so pieces can be written in any order.
+   * Sessions are opened one at a time, so concurrent requests cannot reserve
+   * the same capacity or quota twice.
+   *
+   * @throws TOO_MANY_UPLOADS, CONTENT_BLOCKED, StorageFullError, QuotaExceededError
+   */
+  async createSession(
+    authorization: StorageAuthorization,
+    mimeType: string,
+    size: number,
+    contentHash: string,
+    cid?: string
+  ): Promise<UploadSession> {
+    await this.ensureInitialized();
+
+    const maxBytes = config.maxChunkedBlobSizeMB * 1024 * 1024;
+    if (size > maxBytes) {
+      throw new PayloadTooLargeError(size, maxBytes);
+    }
+
+    const result = this.creating.then(() => this.openSession(authorization, mimeType, size, contentHash, cid));
+    this.creating = result.catch(() => {});
+    return result;
+  }
+
+  private async openSession(
+    authorization: StorageAuthorization,
+    mimeType: string,
+    size: number,
+    contentHash: string,
+    cid?: string
+  ): Promise<UploadSession> {
+    await this.assertCanReserve(authorization, size, cid);
+
+    const now = Date.now();
+    const session: UploadSession = {
+      id: crypto.randomUUID(),
+      authorization,
+      mimeType,
+      size,
+      contentHash: contentHash.toLowerCase(),
+      cid: cid?.toLowerCase(),
+      received: [],
+      createdAt: now,
+      expiresAt: now + config.uploadSessionTtlMinutes * 60 * 1000
+    };
+
+    const handle = await fs.open(this.getDataPath(session.id), 'w', 0o600);
+    try {
+      await handle.truncate(size);
+    } finally {
+      await handle.close();
+    }
+
+    await this.saveSession(session);
+    this.sessions.set(session.id, session);
+
+    logger.info('Upload session created', {
+      uploadId: session.id,
+      size,
+      sender: authorization.sender
+    });
+
+    return session;
+  }
+
+  /**
+   * Refuse a session the node would not accept once it is finalized
+   *
+   * Applies the same blocked, capacity and quota policy as POST /store, with
+   * the bytes reserved by open sessions counted as already stored.
+   */
+  private async assertCanReserve(authorization: StorageAuthorization, size: number, cid?: string): Promise<void> {
+    const open = [...this.sessions.values()].filter(s => s.expiresAt > Date.now());
+    const sender = authorization.sender.toLowerCase();
+    const bySender = open.filter(s => s.authorization.sender.toLowerCase() === sender);
+    const byApp = open.filter(s => s.authorization.appId === authorization.appId);
+
+    if (bySender.length >= config.maxUploadSessionsPerSender) {
+      throw new VaultError(
+        `Sender already has ${bySender.length} open uploads`,
+        'TOO_MANY_UPLOADS',
+        429,
+        { sender, open: bySender.length, max: config.maxUploadSessionsPerSender }
+      );
+    }
+
+    const { blockedContentService } = await import('./blocked-content.service.js');
+    if (cid && await blockedContentService.isBlocked(cid)) {
+      throw new VaultError('This content is blocked by node policy', 'CONTENT_BLOCKED', 403, { cid });
+    }
+
+    const stats = await storageService.getStats();
+    if (stats.totalSize + reservedBytes(open) + size > config.maxStorageGB * 1024 * 1024 * 1024) {
+      throw new StorageFullError();
+    }
+
+    await quotaService.assertWithinQuota({ sender: authorization.sender }, reservedBytes(bySender) + size, bySender.length + 1);
+    await quotaService.assertWithinQuota({ appId: authorization.appId }, reservedBytes(byApp) + size, byApp.length + 1);
+  }
+
+  /**
+   * Bytes reserved by open sessions, not yet counted in storage stats
+   *
+   * The session being finalized is left out: its size is checked as the
+   * content being stored.
+   */
+  reservedBytes(excludeUploadId?: string): number {
+    const open = [...this.sessions.values()].filter(s => s.expiresAt > Date.now() && s.id !== excludeUploadId);
+    return reservedBytes(open);
+  }
+
+  /**
+   * Get a live session
+   */
+  getSession(uploadId: string): UploadSession {
+    const session = this.sessions.get(uploadId);
+    if (!session || session.expiresAt <= Date.now()) {
+      throw new UploadNotFoundError(uploadId);
+    }
+    return session;
+  }
+
+  /**
+   * Write one piece of the content at the given offset
+   *
+   * Only bytes that were fully written are recorded as received, so an
+   * interrupted piece is simply sent again.
+   */
+  async writePiece(uploadId: string, offset: number, source: Readable): Promise<UploadSession> {
+    const session = this.getSession(uploadId);
+
+    if (!Number.isInteger(offset) || offset < 0 || offset >= session.size) {
+      throw new InvalidRequestError(`offset must be between 0 and ${session.size - 1}`);
+    }
+    if (this.finalizing.has(uploadId)) {
+      throw new VaultError('Upload is being finalized', 'UPLOAD_FINALIZING', 409, { uploadId });
+    }
+
+    const limiter = new ByteLimitStream(session.size - offset);
+    await pipeline(
+      source,
+      limiter,
+      createWriteStream(this.getDataPath(uploadId), { flags: 'r+', start: offset })
+    );
+
+    if (limiter.bytesSeen > 0) {
+      session.received = mergeRanges([
+        ...session.received,
+        { start: offset, end: offset + limiter.bytesSeen - 1 }
+      ]);
+      await this.saveSession(session);
+    }
+
+    return session;
+  }
+
+  /**
+   * Ranges of the content that have not been received yet
+   */
+  getMissingRanges(session: UploadSession): ByteRange[] {
+    const missing: ByteRange[] = [];
+    let next = 0;
+
+    for (const range of session.received) {
+      if (range.start > next) {
+        missing.push({ start: next, end: range.start - 1 });
+      }
+      next = range.end + 1;
+    }
+    if (next < session.size) {
+      missing.push({ start: next, end: session.size - 1 });
+    }
+
+    return missing;
+  }
+
+  /**
+   * Stage a complete upload for storage
+   *
+   * SECURITY: Verifies the keccak256 content hash and (if declared) the
+   * SHA-256 CID of the assembled bytes. The session is kept until
+   * completeSession is called, so a failed store can be retried.
+   */
+  async stageUpload(uploadId: string): Promise<{ session: UploadSession; staged: StagedBlob }> {
+    const session = this.getSession(uploadId);
+
+    const missing = this.getMissingRanges(session);
+    if (missing.length > 0) {
+      throw new UploadIncompleteError(uploadId, missing);
+    }
+
+    if (this.finalizing.has(uploadId)) {
+      throw new VaultError('Upload is already being finalized', 'UPLOAD_FINALIZING', 409, { uploadId });
+    }
+    this.finalizing.add(uploadId);
+
+    try {
+      const staged = await storageService.stageBlobStream(
+        createReadStream(this.getDataPath(uploadId)),
+        session.size,
+        config.chunkSizeMB * 1024 * 1024
+      );
+
+      if (staged.contentHash.toLowerCase() !== session.contentHash) {
+        await storageService.discardStagedBlob(staged);
+        throw new VaultError(
+          'Uploaded content does not match the expected content hash',
+          'CONTENT_HASH_MISMATCH',
+          400,
+          { expected: session.contentHash, actual: staged.contentHash }
+        );
+      }
+
+      if (session.cid && staged.cid !== session.cid) {
+        await storageService.discardStagedBlob(staged);
+        throw new CIDMismatchError(session.cid, staged.cid);
+      }
+
+      return { session, staged };
+    } finally {
+      this.finalizing.delete(uploadId);
+    }
+  }
+
+  /**
+   * Remove a session once its content has been stored
+   */
+  async completeSession(uploadId: string): Promise<void> {
+    await this.removeSession(uploadId);
+    logger.info('Upload session completed', { uploadId });
+  }
+
+  /**
+   * Abort a session and discard its data
+   */
+  async abortSession(uploadId: string): Promise<void> {
+    this.getSession(uploadId);
+    await this.removeSession(uploadId);
+    logger.info('Upload session aborted', { uploadId });
+  }
+
+  /**
+   * Remove expired sessions
+   */
+  async cleanupExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const session of [...this.sessions.values()]) {
+      if (session.expiresAt <= now && !this.finalizing.has(session.id)) {
+        await this.removeSession(session.id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.info('Expired upload sessions removed', { count: removed });
+    }
+    return removed;
+  }
+
+  shutdown(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  private async removeSession(uploadId: string): Promise<void> {
+    this.sessions.delete(uploadId);
+    await fs.unlink(this.getSessionPath(uploadId)).catch(() => {});
+    await fs.unlink(this.getDataPath(uploadId)).catch(() => {});
+  }
+
+  private async saveSession(session: UploadSession): Promise<void> {
+    const sessionPath = this.getSessionPath(session.id);
+    const tempPath = `${sessionPath}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(session, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, sessionPath);
+  }
+
+  private getSessionPath(uploadId: string): string {
+    return path.join(this.uploadsDir, `${uploadId}.json`);
+  }
+
+  private getDataPath(uploadId: string): string {
+    return path.join(this.uploadsDir, `${uploadId}.part`);
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+  }
+}
+
+function reservedBytes(sessions: UploadSession[]): number {
+  return sessions.reduce((sum, session) => sum + session.size, 0);
+}
+
+/**
+ * Merge overlapping and adjacent ranges into a sorted list
+ */
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+export const uploadSessionService = new UploadSessionService();
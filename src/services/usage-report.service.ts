@@ -0,0 +1,173 @@
+/**
+ * HASHD Vault - Usage Report Service
+ *
+ * Breaks down what is stored on this node by appId, contentType, sender,
+ * shard or mimeType: stored bytes, blob counts, retrievals, the age of the
+ * blobs and, optionally, a growth series of when they were stored. Reports
+ * are built from the metadata index's columns in a single scan; nothing is
+ * kept between requests.
+ *
+ * Blobs count once, under the app and sender that stored them first. Chunks
+ * of large uploads are blobs of their own without an app, sender or content
+ * type; their manifest is grouped under the upload's MIME type.
+ */
+
+import { config } from '../config/index.js';
+import { storageService } from './storage.service.js';
+import { calculateShardKey } from '../utils/sharding.js';
+import {
+  UsageAgeBucket,
+  UsageBreakdown,
+  UsageBreakdownQuery,
+  UsageDimension,
+  UsageGroup,
+  UsageGrowthPoint,
+  UsageInterval,
+  UsageRecord,
+  UsageTotals
+} from '../types/index.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ['appId', 'contentType', 'sender', 'shard', 'mimeType'];
+
+export const USAGE_INTERVALS: Record<UsageInterval, number> = {
+  hour: HOUR,
+  day: DAY,
+  week: 7 * DAY
+};
+
+// Upper bound of each age bucket (exclusive)
+const AGE_BUCKETS: Array<{ label: string; maxAge: number }> = [
+  { label: '<1d', maxAge: DAY },
+  { label: '1-7d', maxAge: 7 * DAY },
+  { label: '7-30d', maxAge: 30 * DAY },
+  { label: '30-90d', maxAge: 90 * DAY },
+  { label: '>90d', maxAge: Infinity }
+];
+
+const DEFAULT_GROUP_LIMIT = 100;
+
+interface GroupAccumulator extends UsageTotals {
+  key: string | number | null;
+  oldestCreatedAt: number;
+  newestCreatedAt: number;
+  ages: number[][];                          // [blobCount, storedSize] per age bucket
+  growth: Map<number, UsageGrowthPoint>;
+}
+
+export class UsageReportService {
+  /**
+   * Aggregate stored blobs by one dimension
+   */
+  async getBreakdown(query: UsageBreakdownQuery, now = Date.now()): Promise<UsageBreakdown> {
+    const bucketSize = query.interval ? USAGE_INTERVALS[query.interval] : undefined;
+    const groups = new Map<string | number | null, GroupAccumulator>();
+    const overall = createAccumulator(null);
+
+    const range = { since: query.since, until: query.until, resolveMimeTypes: query.groupBy === 'mimeType' };
+    await storageService.scanUsage(range, record => {
+      const key = groupKey(query.groupBy, record);
+      let group = groups.get(key);
+      if (!group) {
+        group = createAccumulator(key);
+        groups.set(key, group);
+      }
+      accumulate(group, record, now, bucketSize);
+      accumulate(overall, record, now, bucketSize);
+    });
+
+    const sorted = [...groups.values()].sort((a, b) =>
+      b.storedSize - a.storedSize || String(a.key).localeCompare(String(b.key))
+    );
+    const total = toGroup(overall, bucketSize !== undefined);
+
+    return {
+      groupBy: query.groupBy,
+      totals: {
+        blobCount: total.blobCount,
+        storedSize: total.storedSize,
+        retrievalCount: total.retrievalCount
+      },
+      ageDistribution: total.ageDistribution,
+      growth: total.growth,
+      groupCount: sorted.length,
+      groups: sorted
+        .slice(0, query.limit ?? DEFAULT_GROUP_LIMIT)
+        .map(group => toGroup(group, bucketSize !== undefined)),
+      generatedAt: now
+    };
+  }
+}
+
+function groupKey(dimension: UsageDimension, record: UsageRecord): string | number | null {
+  switch (dimension) {
+    case 'appId':
+      return record.appId;
+    case 'contentType':
+      return record.contentType;
+    case 'sender':
+      return record.sender?.toLowerCase() ?? null;
+    case 'shard':
+      return calculateShardKey(record.cid, config.shardCount);
+    case 'mimeType':
+      return record.mimeType;
+  }
+}
+
+function createAccumulator(key: string | number | null): GroupAccumulator {
+  return {
+    key,
+    blobCount: 0,
+    storedSize: 0,
+    retrievalCount: 0,
+    oldestCreatedAt: Infinity,
+    newestCreatedAt: 0,
+    ages: AGE_BUCKETS.map(() => [0, 0]),
+    growth: new Map()
+  };
+}
+
+function accumulate(group: GroupAccumulator, record: UsageRecord, now: number, bucketSize?: number): void {
+  group.blobCount++;
+  group.storedSize += record.storedSize;
+  group.retrievalCount += record.retrievalCount;
+  group.oldestCreatedAt = Math.min(group.oldestCreatedAt, record.createdAt);
+  group.newestCreatedAt = Math.max(group.newestCreatedAt, record.createdAt);
+
+  const age = Math.max(now - record.createdAt, 0);
+  const ages = group.ages[AGE_BUCKETS.findIndex(bucket => age < bucket.maxAge)];
+  ages[0]++;
+  ages[1] += record.storedSize;
+
+  if (bucketSize !== undefined) {
+    const start = Math.floor(record.createdAt / bucketSize) * bucketSize;
+    const point = group.growth.get(start) ?? { start, blobCount: 0, storedSize: 0 };
+    point.blobCount++;
+    point.storedSize += record.storedSize;
+    group.growth.set(start, point);
+  }
+}
+
+function toGroup(group: GroupAccumulator, withGrowth: boolean): UsageGroup {
+  const ageDistribution: UsageAgeBucket[] = AGE_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    blobCount: group.ages[i][0],
+    storedSize: group.ages[i][1]
+  }));
+
+  return {
+    key: group.key,
+    blobCount: group.blobCount,
+    storedSize: group.storedSize,
+    retrievalCount: group.retrievalCount,
+    oldestCreatedAt: group.blobCount > 0 ? group.oldestCreatedAt : 0,
+    newestCreatedAt: group.newestCreatedAt,
+    ageDistribution,
+    growth: withGrowth ? [...group.growth.values()].sort((a, b) => a.start - b.start) : undefined
+  };
+}
+
+// Singleton instance
+export const usageReportService = new UsageReportService();
@@ -0,0 +1,74 @@
+/**
+ * HASHD Vault - Data Volume Service
+ *
+ * With DATA_VOLUMES configured, probes every data volume periodically.
+ * When a volume fails, a recovery pass re-fetches the blobs it held from
+ * peers onto the remaining volumes.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { storageService } from './storage.service.js';
+import { scrubService } from './scrub.service.js';
+import { VolumeStatus } from '../types/index.js';
+
+export class VolumeService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private checking = false;
+  private recoverOnNextCheck = false;
+
+  /**
+   * Start periodic volume checks if data volumes are configured
+   */
+  async initialize(): Promise<void> {
+    if (!storageService.hasDataVolumes()) return;
+
+    // Volumes that could not be opened at startup lost their blobs too;
+    // recovery waits for the first check so peers have had time to connect
+    this.recoverOnNextCheck = storageService.getVolumes().some(volume => volume.state === 'failed');
+
+    const intervalMs = config.volumeCheckIntervalMinutes * 60 * 1000;
+    this.checkInterval = setInterval(() => {
+      this.checkVolumes().catch(error => logger.error('Data volume check failed', error));
+    }, intervalMs);
+
+    logger.info('Data volume checks initialized', {
+      volumes: storageService.getVolumes().map(volume => volume.path),
+      intervalMinutes: config.volumeCheckIntervalMinutes
+    });
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Probe the volumes and start recovery if any failed
+   */
+  async checkVolumes(): Promise<VolumeStatus[]> {
+    if (this.checking) return [];
+    this.checking = true;
+
+    try {
+      const failed = await storageService.checkVolumes();
+      if (failed.length > 0) {
+        logger.error('Data volumes failed; re-fetching their blobs from peers', {
+          volumes: failed.map(volume => volume.path)
+        });
+      }
+      if (failed.length > 0 || this.recoverOnNextCheck) {
+        this.recoverOnNextCheck = false;
+        scrubService.requestRecovery();
+      }
+      return failed;
+    } finally {
+      this.checking = false;
+    }
+  }
+}
+
+// Singleton instance
+export const volumeService = new VolumeService();
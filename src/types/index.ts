@@ -2,14 +2,18 @@
  * HASHD Vault - Type Definitions
  */
 
+import type { Readable } from 'stream';
+
 export interface BlobMetadata {
   cid: string;
   size: number;
   mimeType: string;
   createdAt: number;
   version: number; // Schema version, starting at 2
-  pinned?: boolean; // Never delete if true (Requirement 9)
-  compressed?: boolean; // Whether blob is compressed with gzip
+  pinned?: boolean; // Never delete if true (Requirement 9) - operator or any owner pin
+  operatorPinned?: boolean; // Pinned by the node operator (POST /pin/:cid)
+  compression?: CompressionAlgorithm; // How the stored bytes are compressed
+  compressed?: boolean; // Records from before `compression`: true means gzip
   integrityHash?: string; // HMAC of critical fields to detect tampering
   // Application metadata (v2)
   appId?: string;        // keccak256(appName) - which app stored this
@@ -23,11 +27,274 @@ export interface BlobMetadata {
     replicatedAt?: number;
     replicatedTo?: string[];
   };
-  metrics?: {
-    retrievalCount: number;
-    lastAccessed: number;
-    avgLatency: number;
+  metrics?: BlobAccessMetrics;
+  // Chunked storage
+  manifest?: {             // Present when this blob is a chunk manifest
+    mimeType: string;      // MIME type of the reassembled content
+    size: number;          // Size of the reassembled content
+    chunkCount: number;
   };
+  chunkOf?: string[];      // Manifest CIDs that reference this blob as a chunk
+  // Ownership (reference counting)
+  owners?: BlobOwner[];    // Every app/sender that stored this blob; appId/sender above are the first
+  expiresAt?: number;      // Uploader-specified expiry (Unix ms); unset while any owner keeps it indefinitely
+}
+
+// Reads of a blob, kept in memory and written to its metadata in batches
+export interface BlobAccessMetrics {
+  retrievalCount: number;
+  lastAccessed: number;
+  avgLatency: number;      // Milliseconds to serve a read
+}
+
+// One app/sender holding a reference to a blob
+export interface BlobOwner {
+  appId?: string;
+  sender?: string;
+  contentType?: string;
+  timestamp: number;       // When this owner stored the blob
+  pinned?: boolean;        // Pinned by this owner
+  expiresAt?: number;      // When this owner's reference expires (Unix ms)
+  authorization?: StorageAuthorization; // Envelope the blob was stored with (replicas: only once verified)
+}
+
+// Reference to one chunk of a chunked blob
+export interface ChunkRef {
+  cid: string;
+  size: number;
+}
+
+// Manifest blob describing a chunked blob
+export interface BlobManifest {
+  type: 'bytecave-manifest';
+  version: number;
+  mimeType: string;        // MIME type of the reassembled content
+  size: number;            // Total size of the reassembled content
+  contentCid: string;      // SHA-256 of the reassembled content
+  chunkSize: number;
+  chunks: ChunkRef[];
+  merkleRoot: string;      // Merkle root over the chunk CIDs
+}
+
+export interface StoreBlobOptions {
+  fromPeer?: string;
+  appId?: string;
+  contentType?: string;
+  sender?: string;
+  timestamp?: number;
+  metadata?: Record<string, any>;
+  expiresAt?: number;
+  authorization?: StorageAuthorization;
+}
+
+// Blob streamed to the staging area, hashed but not yet committed
+export interface StagedBlob {
+  path: string;
+  cid: string;          // SHA-256 of the staged bytes
+  contentHash: string;  // keccak256 of the staged bytes (for authorization)
+  size: number;
+  chunks?: ChunkRef[];  // Per-chunk CIDs, when hashed with a chunk size
+  chunkSize?: number;
+}
+
+// Inclusive byte range within a blob's (decompressed) ciphertext
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export type StorageBackendType = 'filesystem' | 'sqlite';
+
+export type StorageTier = 'hot' | 'cold';
+
+export type CompressionAlgorithm = 'none' | 'gzip' | 'brotli' | 'zstd';
+
+/**
+ * Compression policy rule; the first rule matching a blob decides
+ */
+export interface CompressionRule {
+  mimeType?: string;              // Exact, or a whole type such as "image/*"
+  contentType?: string;
+  algorithm: CompressionAlgorithm;
+}
+
+/**
+ * What blobs stored with one compression algorithm take up
+ */
+export interface CompressionStats {
+  algorithm: CompressionAlgorithm;
+  blobCount: number;
+  originalSize: number;           // Before compression
+  storedSize: number;
+  savedBytes: number;
+}
+
+/** ok: in use; degraded: IO errors seen, no new blobs placed; failed: unreadable */
+export type VolumeState = 'ok' | 'degraded' | 'failed';
+
+/**
+ * Persistence layer behind StorageService
+ *
+ * Backends store opaque (possibly compressed) blob bytes keyed by CID;
+ * metadata lives in the metadata index, and compression, manifests and
+ * integrity checks stay in StorageService.
+ */
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+  /** Store bytes; an existing entry is replaced */
+  put(cid: string, data: Buffer): Promise<void>;
+  /** Store a file's bytes; the file is consumed (moved or removed) */
+  putFile(cid: string, filePath: string): Promise<void>;
+  get(cid: string): Promise<Buffer | null>;
+  /** Stream stored bytes, optionally an inclusive range of them */
+  stream(cid: string, range?: ByteRange): Promise<Readable | null>;
+  has(cid: string): Promise<boolean>;
+  /** Remove bytes; false if nothing was stored */
+  delete(cid: string): Promise<boolean>;
+  /** CIDs with stored bytes */
+  list(): Promise<string[]>;
+  /** Size of the stored bytes (null if missing) */
+  stat(cid: string): Promise<{ size: number } | null>;
+}
+
+/**
+ * Filters for paginated metadata listings (newest first)
+ */
+export type BlobSortField = 'createdAt' | 'size';
+
+export interface MetadataQuery {
+  appId?: string;
+  contentType?: string;
+  sender?: string;
+  pinned?: boolean;
+  mimeType?: string;        // Exact, or "type/*"
+  shard?: number;           // Shard the CID maps to (of SHARD_COUNT)
+  since?: number;           // Created at or after (Unix ms)
+  until?: number;           // Created before (Unix ms)
+  sort?: BlobSortField;     // Default createdAt
+  order?: 'asc' | 'desc';   // Default desc
+  limit?: number;
+  cursor?: string;          // Opaque, from a previous page's nextCursor (same sort and order)
+}
+
+export interface MetadataPage {
+  blobs: BlobMetadata[];
+  nextCursor?: string;      // Absent on the last page
+}
+
+/**
+ * A deleted blob kept in the trash until its retention window ends
+ */
+export interface TrashEntry {
+  cid: string;
+  deletedAt: number;
+  purgeAfter: number;       // Permanently removed by GC after this time
+  reason: string;           // admin | gc | expired | released | manifest_deleted | deleted
+  storedSize: number;
+  metadata: BlobMetadata;
+}
+
+export interface TrashPage {
+  entries: TrashEntry[];
+  nextCursor?: string;      // Absent on the last page
+}
+
+export type QuotaScope = 'app' | 'sender';
+
+/**
+ * Storage limit for one app or sender (either limit may be left out)
+ */
+export interface StorageQuota {
+  maxMB?: number;
+  maxBlobs?: number;
+}
+
+/**
+ * Incrementally maintained usage of one app or sender
+ * Sizes are uploaded bytes (a manifest counts its whole content); senders are lowercased.
+ */
+export interface QuotaUsage {
+  scope: QuotaScope;
+  key: string;
+  blobCount: number;
+  totalSize: number;
+}
+
+export interface QuotaReport extends QuotaUsage {
+  quota: StorageQuota | null;  // Null if no quota applies
+}
+
+export type UsageDimension = 'appId' | 'contentType' | 'sender' | 'shard' | 'mimeType';
+export type UsageInterval = 'hour' | 'day' | 'week';
+
+/**
+ * The indexed columns of one stored blob, as scanned for usage breakdowns
+ */
+export interface UsageRecord {
+  cid: string;
+  createdAt: number;
+  appId: string | null;
+  contentType: string | null;
+  sender: string | null;
+  mimeType: string | null;   // A manifest's reassembled MIME type; null for encrypted records unless resolved
+  storedSize: number;
+  retrievalCount: number;
+}
+
+export interface UsageBreakdownQuery {
+  groupBy: UsageDimension;
+  since?: number;            // Only blobs created at or after (Unix ms)
+  until?: number;            // Only blobs created before (Unix ms)
+  interval?: UsageInterval;  // Include a growth series in buckets of this length
+  limit?: number;            // Largest groups to return
+}
+
+export interface UsageAgeBucket {
+  label: string;             // e.g. '1-7d'
+  blobCount: number;
+  storedSize: number;
+}
+
+export interface UsageGrowthPoint {
+  start: number;             // Bucket start (Unix ms)
+  blobCount: number;         // Blobs created in the bucket that are still stored
+  storedSize: number;
+}
+
+export interface UsageTotals {
+  blobCount: number;
+  storedSize: number;
+  retrievalCount: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string | number | null;  // Null for blobs without a value (e.g. chunks have no appId)
+  oldestCreatedAt: number;
+  newestCreatedAt: number;
+  ageDistribution: UsageAgeBucket[];
+  growth?: UsageGrowthPoint[];
+}
+
+export interface UsageBreakdown {
+  groupBy: UsageDimension;
+  totals: UsageTotals;
+  ageDistribution: UsageAgeBucket[];
+  growth?: UsageGrowthPoint[];
+  groupCount: number;        // Groups before the limit was applied
+  groups: UsageGroup[];      // Largest stored size first
+  generatedAt: number;
+}
+
+/**
+ * Incrementally maintained totals (sizes are stored bytes, after compression)
+ */
+export interface StorageTotals {
+  blobCount: number;
+  totalSize: number;
+  pinnedCount: number;
+  pinnedSize: number;
 }
 
 export interface StoreRequest {
@@ -50,17 +317,37 @@ export interface BlobResponse {
   version: number;
 }
 
+export type BatchBlobStatus =
+  | 'found'
+  | 'missing'             // Not stored, or a chunk of it is missing
+  | 'blocked'
+  | 'integrity-failed'    // Stored bytes or metadata fail verification
+  | 'too-large'           // Reassembled content over MAX_BLOB_SIZE_MB; fetch it with GET /blob/:cid
+  | 'error';
+
+// Header of each part of a POST /blobs/batch response
+export interface BatchBlobHeader {
+  cid: string;
+  status: BatchBlobStatus;
+  size?: number;          // Bytes following the header (found only)
+  mimeType?: string;
+  createdAt?: number;
+  error?: string;
+}
+
 export interface ReplicateRequest {
   cid: string;
   ciphertext: string;
   mimeType: string;
   fromPeer: string;
-  // Application metadata (passed from original store)
+  // Application metadata as the peer describes it; unsigned, so the owner
+  // is taken from authorization instead
   appId?: string;
   contentType?: string;
   sender?: string;
   timestamp?: number;
   metadata?: Record<string, any>;
+  authorization?: StorageAuthorization;   // Uploader's signed authorization; the only source of a replica's expiry
 }
 
 export interface ReplicateResponse {
@@ -99,8 +386,10 @@ export interface HealthResponse {
     failed: number;
     orphaned: number;
     metadataTampered: number;
+    metadataUnsigned: number;
     failedCids: string[];
   };
+  volumes?: VolumeStatus[];
 }
 
 export interface Peer {
@@ -150,6 +439,7 @@ export interface Config {
   // Node identity for P2P and registration
   publicKey: string;
   ownerAddress: string;
+  adminAuthEnabled: boolean;      // Require owner signatures or API tokens on operator routes
   // P2P Configuration
   p2pEnabled: boolean;
   p2pListenAddresses: string[];
@@ -170,15 +460,41 @@ export interface Config {
   gcIntervalMinutes: number;
   gcVerifyReplicas: boolean;
   gcVerifyProofs: boolean;
+  scrubEnabled: boolean;          // Periodically re-verify stored blobs and repair them from peers
+  scrubIntervalHours: number;
+  scrubMaxMBPerSecond: number;    // Read budget for a scrub pass
+  trashRetentionHours: number;    // Deleted blobs stay restorable this long (0 = delete immediately)
+  appQuotas: Record<string, StorageQuota>;    // By appId; '*' applies to apps not listed
+  senderQuotas: Record<string, StorageQuota>; // By sender address; '*' applies to senders not listed
   dataDir: string;
   maxBlobSizeMB: number;
   maxStorageGB: number;
+  storageBackend: StorageBackendType; // Where blob bytes are persisted
+  coldDataDir: string;            // Second, slower directory for rarely read blobs ('' = no tiering)
+  tierColdAfterHours: number;     // Hot blobs not read for this long move to the cold tier
+  tierPromoteReads: number;       // Cold blobs read this often since they moved come back
+  tierHotMaxMB: number;           // Demote least recently read blobs above this (0 = no limit)
+  tierIntervalMinutes: number;
+  dataVolumes: string[];          // More directories (disks) for blob bytes, next to the data directory
+  volumeCheckIntervalMinutes: number;
+  fsckOnStartup: boolean;         // Reconcile blob bytes with their metadata shortly after startup
   replicationEnabled: boolean;
   replicationTimeoutMs: number;
   replicationFactor: number;
   enableBlockedContent: boolean;
+  denylistRefreshMinutes: number; // Time between fetches of subscribed denylists
   cacheSizeMB: number;
+  accessMetricsFlushSeconds: number; // Blob read counts are written to metadata this often
   compressionEnabled: boolean;
+  compressionAlgorithm: CompressionAlgorithm; // Used when no compression rule matches
+  compressionRules: CompressionRule[];
+  compressionMinGainPercent: number; // Store compressed only when it saves at least this much
+  chunkSizeMB: number;            // Raw uploads larger than this are stored as chunks + manifest
+  maxChunkedBlobSizeMB: number;   // Upper limit for chunked (raw) uploads
+  uploadSessionTtlMinutes: number; // Unfinished resumable uploads expire after this
+  maxUploadSessionsPerSender: number; // Open resumable uploads one sender may hold
+  encryptionPassphrase: string;   // Enables encryption at rest (env only, never persisted)
+  encryptionKeyFile: string;      // Alternative to the passphrase: file holding a 32-byte key
   metricsEnabled: boolean;
   logLevel: string;
   corsOrigin: string[];
@@ -750,8 +1066,13 @@ export interface GCResult {
   skippedPinned: number;
   skippedInsufficientReplicas: number;
   skippedShardMismatch: number;
+  expired: number;         // Blobs deleted because their expiry passed (included in deleted)
+  expiredOwners: number;   // Expired owner references dropped from blobs that remain
   freedBytes: number;
   deletedCids: string[];
+  purged: number;          // Trash entries past their retention window, removed for good
+  purgedBytes: number;
+  freedBytesByTier: Record<StorageTier, number>;
 }
 
 export interface GCStatus {
@@ -764,6 +1085,110 @@ export interface GCStatus {
   skippedPinned: number;
   skippedInsufficientReplicas: number;
   nextRun: number;
+  tiers: TierUsage[];
+}
+
+export interface ScrubResult {
+  mode: 'scrub' | 'recovery';   // recovery: only re-fetch blobs whose bytes are missing
+  startedAt: number;
+  finishedAt: number;
+  checked: number;
+  bytesRead: number;
+  corrupt: number;              // Stored bytes no longer hash to the CID
+  missing: number;              // Metadata without stored bytes
+  metadataInvalid: number;      // Metadata failing its integrity check
+  repaired: number;
+  unrepaired: number;
+  aborted: boolean;
+}
+
+/**
+ * What one storage tier holds and how much room its disk has left
+ */
+export interface TierUsage {
+  tier: StorageTier;
+  blobCount: number;
+  storedSize: number;
+  freeDiskBytes: number;
+}
+
+/**
+ * State of one data volume (a directory, usually a disk, holding blob bytes)
+ */
+export interface VolumeStatus {
+  path: string;
+  state: VolumeState;
+  freeDiskBytes: number;
+  errors: number;                 // IO errors since the volume was last found healthy
+  lastError?: string;
+  lastCheckedAt: number;
+  stateChangedAt: number;
+}
+
+export interface TierMoveResult {
+  startedAt: number;
+  finishedAt: number;
+  demoted: number;
+  demotedBytes: number;
+  promoted: number;
+  promotedBytes: number;
+  failed: number;
+  aborted: boolean;
+}
+
+export interface TierStatus {
+  enabled: boolean;
+  running: boolean;
+  intervalMinutes: number;
+  coldAfterHours: number;
+  promoteReads: number;
+  hotMaxMB: number;
+  lastRun: number;
+  nextRun: number;
+  lastResult?: TierMoveResult;
+  tiers: TierUsage[];
+}
+
+export interface ScrubStatus {
+  enabled: boolean;
+  running: boolean;
+  intervalHours: number;
+  maxMBPerSecond: number;
+  lastRun: number;
+  nextRun: number;
+  lastResult?: ScrubResult;
+}
+
+/**
+ * Outcome of one consistency check (fsck) of the data directory
+ */
+export interface FsckResult {
+  startedAt: number;
+  finishedAt: number;
+  tempFilesRemoved: number;     // Temp files of interrupted writes
+  orphanedBlobs: number;        // Stored bytes without metadata
+  rederived: number;            // Orphans whose metadata was rebuilt from the bytes
+  quarantined: number;          // Orphans not matching their CID
+  missingBlobs: number;         // Metadata without stored bytes
+  refetched: number;            // Missing blobs re-fetched from peers
+  unrepaired: number;
+  unrepairedCids: string[];
+}
+
+export interface FsckStatus {
+  running: boolean;
+  onStartup: boolean;
+  lastResult?: FsckResult;
+}
+
+export interface RepairRecord {
+  cid: string;
+  detectedAt: number;
+  problem: 'corrupt' | 'missing' | 'metadata_invalid';
+  outcome: 'repaired' | 'unrepaired';
+  peerId?: string;              // Peer the replacement bytes came from
+  quarantinePath?: string;      // Where the corrupt bytes were moved
+  error?: string;
 }
 
 export class VaultError extends Error {
@@ -801,12 +1226,91 @@ export class CIDMismatchError extends VaultError {
   }
 }
 
+export class BlobIncompleteError extends VaultError {
+  constructor(cid: string, missingChunks: string[]) {
+    super(
+      `Blob is incomplete: ${missingChunks.length} chunk(s) missing for ${cid}`,
+      'BLOB_INCOMPLETE',
+      404,
+      { cid, missingChunks }
+    );
+  }
+}
+
+export class ChunkInUseError extends VaultError {
+  constructor(cid: string, manifests: string[]) {
+    super(
+      `Blob is a chunk of ${manifests.length} manifest(s): ${cid}`,
+      'CHUNK_IN_USE',
+      409,
+      { cid, manifests }
+    );
+  }
+}
+
+export class OwnerNotFoundError extends VaultError {
+  constructor(cid: string, appId: string, sender: string) {
+    super(
+      `No ownership record for ${sender} in app ${appId}: ${cid}`,
+      'OWNER_NOT_FOUND',
+      404,
+      { cid, appId, sender }
+    );
+  }
+}
+
+export class BlobExpiredError extends VaultError {
+  constructor(cid: string, expiresAt: number) {
+    super(`Blob has expired: ${cid}`, 'BLOB_EXPIRED', 410, { cid, expiresAt });
+  }
+}
+
+export class TrashEntryNotFoundError extends VaultError {
+  constructor(cid: string) {
+    super(`Blob not in trash: ${cid}`, 'TRASH_ENTRY_NOT_FOUND', 404, { cid });
+  }
+}
+
+export class QuotaExceededError extends VaultError {
+  constructor(scope: QuotaScope, key: string, limit: 'bytes' | 'blobs', used: number, max: number) {
+    super(
+      `Storage quota exceeded for ${scope} ${key}: ${limit} limit is ${max}`,
+      'QUOTA_EXCEEDED',
+      403,
+      { scope, key, limit, used, max }
+    );
+  }
+}
+
+export class UploadNotFoundError extends VaultError {
+  constructor(uploadId: string) {
+    super(`Upload session not found or expired: ${uploadId}`, 'UPLOAD_NOT_FOUND', 404, { uploadId });
+  }
+}
+
+export class UploadIncompleteError extends VaultError {
+  constructor(uploadId: string, missing: ByteRange[]) {
+    super(
+      `Upload is incomplete: ${missing.length} range(s) missing for ${uploadId}`,
+      'UPLOAD_INCOMPLETE',
+      409,
+      { uploadId, missing }
+    );
+  }
+}
+
 export class StorageFullError extends VaultError {
   constructor() {
     super('Storage capacity reached', 'STORAGE_FULL', 507);
   }
 }
 
+export class VolumeUnavailableError extends VaultError {
+  constructor() {
+    super('No healthy data volume is available', 'VOLUME_UNAVAILABLE', 503);
+  }
+}
+
 export class InvalidRequestError extends VaultError {
   constructor(message: string, details?: any) {
     super(message, 'INVALID_REQUEST', 400, details);
@@ -850,10 +1354,11 @@ export type AuthorizationType =
 export interface StorageAuthorization {
   type: AuthorizationType;
   sender: string;              // Ethereum address
-  signature: string;           // EIP-191 signature of (contentHash + appId + contentType + timestamp + nonce)
+  signature: string;           // EIP-191 signature of (contentHash + appId + contentType + timestamp + nonce [+ expiresAt])
   timestamp: number;           // Unix timestamp (ms)
   nonce: string;               // Random nonce for replay protection
   contentHash: string;         // keccak256(ciphertext)
+  expiresAt?: number;          // Optional expiry (Unix ms), signed when present
   
   // Application identity (v2)
   appId: string;               // keccak256(appName) - which app is storing this
@@ -870,6 +1375,19 @@ export interface StorageAuthorization {
   metadata?: Record<string, any>;
 }
 
+// Signed request from a blob owner to pin, unpin or release their reference
+export type OwnerAction = 'pin' | 'unpin' | 'release';
+
+export interface OwnerActionRequest {
+  action: OwnerAction;
+  cid: string;
+  appId: string;
+  sender: string;              // Ethereum address
+  timestamp: number;           // Unix timestamp (ms)
+  nonce: string;               // Random nonce for replay protection
+  signature: string;           // EIP-191 signature of (action + cid + appId + timestamp + nonce)
+}
+
 export interface AuthorizedStoreRequest {
   ciphertext: string;          // Base64 encoded
   mimeType: string;
@@ -886,9 +1404,182 @@ export interface AuthorizedStoreResponse {
   };
 }
 
+// Resumable upload session (POST /uploads)
+export interface CreateUploadRequest {
+  authorization: StorageAuthorization;
+  mimeType: string;
+  size: number;                // Total size of the content in bytes
+  contentHash?: string;        // Expected keccak256; defaults to authorization.contentHash
+  cid?: string;                // Expected SHA-256, checked at finalize if given
+}
+
+export interface UploadSession {
+  id: string;
+  authorization: StorageAuthorization;
+  mimeType: string;
+  size: number;
+  contentHash: string;
+  cid?: string;
+  received: ByteRange[];       // Merged, sorted ranges written so far
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface UploadStatusResponse {
+  uploadId: string;
+  size: number;
+  bytesReceived: number;
+  received: ByteRange[];
+  missing: ByteRange[];
+  expiresAt: number;
+}
+
 export interface AuthorizationVerificationResult {
   authorized: boolean;
   sender?: string;
   error?: string;
   details?: any;
 }
+
+// ============================================
+// ADMIN AUTHENTICATION
+// ============================================
+
+// What an admin API token may do
+export type AdminScope =
+  | 'gc'            // POST /admin/gc, /admin/force-purge
+  | 'delete'        // DELETE /admin/blob/:cid
+  | 'trash'         // List, restore and purge trashed blobs
+  | 'pin'           // /pin/*
+  | 'peers'         // POST /peers/connect
+  | 'maintenance'   // Scrub, fsck and tier moves
+  | 'encryption'    // Encryption status and data key rotation
+  | 'blocked'       // /admin/blocked/*
+  | 'audit';        // GET /admin/audit, /admin/quotas, /admin/usage
+
+// X-ByteCave-Admin-Signature: base64-encoded JSON, signed by the node owner
+export interface AdminSignature {
+  address: string;             // Must be OWNER_ADDRESS
+  timestamp: number;           // Unix timestamp (ms)
+  nonce: string;               // Random nonce for replay protection
+  signature: string;           // EIP-191 signature of (nodeId + method + path + bodyHash + timestamp + nonce)
+}
+
+export interface AdminToken {
+  id: string;
+  name: string;
+  scopes: AdminScope[];
+  createdAt: number;
+  expiresAt?: number;
+}
+
+// Who made an admin request
+export interface AdminActor {
+  type: 'owner' | 'token' | 'unauthenticated'; // unauthenticated: ADMIN_AUTH_ENABLED=false
+  address?: string;
+  tokenId?: string;
+  tokenName?: string;
+}
+
+export interface AdminAuditRecord {
+  at: number;
+  actor: AdminActor;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string;
+}
+
+// ============================================
+// BLOCKED CONTENT
+// ============================================
+
+export interface BlockedEntry {
+  value: string;               // CID (lowercase) or peer ID
+  reason?: string;
+  blockedAt: number;
+  source: string;              // 'local', or the ID of the denylist subscription it came from
+}
+
+// A denylist as its publisher signs and serves it
+export interface SignedDenylist {
+  publisher: string;           // Ethereum address of the signing key
+  version: number;             // Increases with every change; lists older than the applied one are ignored
+  publishedAt: number;         // Unix timestamp (ms)
+  cids: Array<{ cid: string; reason?: string }>;
+  peerIds: Array<{ peerId: string; reason?: string }>;
+  signature: string;           // EIP-191 signature of getDenylistMessage(list)
+}
+
+export interface DenylistSubscription {
+  id: string;
+  publisher: string;           // Only lists signed by this address are applied
+  url?: string;                // Fetched over HTTP(S)...
+  peerId?: string;             // ...or over P2P from a peer holding the list
+  addedAt: number;
+  version?: number;            // Version of the applied list
+  appliedAt?: number;
+  lastFetchedAt?: number;
+  lastError?: string;          // Why the last fetch was not applied
+  blockedCids: number;
+  blockedPeers: number;
+}
+
+export interface BlockedContentList {
+  cids: BlockedEntry[];
+  peerIds: BlockedEntry[];
+  subscriptions: DenylistSubscription[];
+}
+
+// ============================================
+// NODE EVENTS
+// ============================================
+
+// The app/sender side of a blob owner, as events report it
+export type BlobEventOwner = Pick<BlobOwner, 'appId' | 'contentType' | 'sender'>;
+
+export interface BlobStoredEvent {
+  cid: string;
+  size: number;                // Of the reassembled content, for chunked blobs
+  mimeType: string;
+  owners: BlobEventOwner[];    // The owner that stored it; none for replicas
+  fromPeer?: string;           // Set when a peer replicated it here
+}
+
+export interface BlobDeletedEvent {
+  cid: string;
+  reason: string;              // 'gc', 'expired', 'admin', 'blocked', 'deleted', ...
+  trashed: boolean;            // Still restorable from the trash
+  owners: BlobEventOwner[];
+}
+
+export interface ReplicationEvent {
+  cid: string;
+  peers: string[];             // Peers that accepted the blob
+  failedPeers: string[];
+}
+
+export interface BroadcastEvent {
+  from: string;                // Peer ID of the sender
+  message: string;
+  timestamp: number;
+}
+
+// Payload of each event type
+export interface NodeEventData {
+  'blob.stored': BlobStoredEvent;
+  'blob.deleted': BlobDeletedEvent;
+  'feed.entry': FeedEvent;
+  'replication.completed': ReplicationEvent;  // At least one peer accepted the blob
+  'replication.failed': ReplicationEvent;     // No peer did
+  'broadcast': BroadcastEvent;                // Received over P2P
+}
+
+export type NodeEventType = keyof NodeEventData;
+
+export interface NodeEvent {
+  id: string;                  // "<epoch>-<sequence>"; the epoch changes when the node restarts
+  type: NodeEventType;
+  timestamp: number;
+  data: NodeEventData[NodeEventType];
+}
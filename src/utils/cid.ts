@@ -70,109 +70,235 @@ export function bufferToBase64(buffer: Buffer): string {
   return buffer.toString('base64');
 }
 
+/**
+ * Metadata fields covered by the integrity hash
+ */
+export interface MetadataIntegrityFields {
+  cid: string;
+  size: number;
+  mimeType: string;
+  createdAt: number;
+  pinned?: boolean;
+  compressed?: boolean;
+  compression?: string;
+  appId?: string;
+  contentType?: string;
+  sender?: string;
+  replication?: {
+    fromPeer?: string;
+    replicatedAt?: number;
+    replicatedTo?: string[];
+  };
+  operatorPinned?: boolean;
+  owners?: Array<{
+    appId?: string;
+    sender?: string;
+    contentType?: string;
+    timestamp: number;
+    pinned?: boolean;
+    expiresAt?: number;
+    authorization?: { signature: string };
+  }>;
+  expiresAt?: number;
+  manifest?: {
+    mimeType: string;
+    size: number;
+    chunkCount: number;
+  };
+  chunkOf?: string[];
+  metadata?: Record<string, unknown>;
+  timestamp?: number;
+  integrityHash?: string;
+}
+
+/**
+ * Replication state fields covered by the integrity hash
+ */
+export interface ReplicationIntegrityFields {
+  cid: string;
+  replicationFactor: number;
+  confirmedNodes: string[];
+  complete: boolean;
+  integrityHash?: string;
+}
+
+export type IntegrityResult = {
+  valid: boolean;
+  reason?: 'missing_hash' | 'legacy_hash' | 'hash_mismatch';
+};
+
 /**
  * Generate integrity hash for metadata
- * SECURITY: Creates HMAC of critical metadata fields to detect tampering
- * @param cid - Content ID (used as part of the key)
- * @param size - Blob size
- * @param mimeType - MIME type
- * @param createdAt - Creation timestamp
- * @param pinned - Pin status
+ * SECURITY: HMAC keyed with the node's integrity secret, so the hash cannot
+ * be recomputed by someone who can only edit the stored metadata
+ * @param secret - Node integrity secret
+ * @param metadata - Metadata to sign
  * @returns Hex string of HMAC
  */
-export function generateMetadataIntegrityHash(
-  cid: string,
-  size: number,
-  mimeType: string,
-  createdAt: number,
-  pinned: boolean = false
-): string {
-  // Use CID as part of the key to bind metadata to specific blob
-  const key = `vault-meta-${cid}`;
-  const data = `${cid}:${size}:${mimeType}:${createdAt}:${pinned}`;
-  
-  const hmac = crypto.createHmac('sha256', key);
-  hmac.update(data);
+export function generateMetadataIntegrityHash(secret: Buffer, metadata: MetadataIntegrityFields): string {
+  return hashMetadataFields(secret, metadata, true);
+}
+
+/**
+ * HMAC of the metadata fields; without chunkFields, the hash of versions
+ * that did not cover the manifest, chunk references, app metadata and
+ * timestamp (METADATA_INTEGRITY_VERSION 2)
+ */
+function hashMetadataFields(secret: Buffer, metadata: MetadataIntegrityFields, chunkFields: boolean): string {
+  const fields: unknown[] = [
+    metadata.cid,
+    metadata.size,
+    metadata.mimeType,
+    metadata.createdAt,
+    metadata.pinned || false,
+    metadata.compressed || false,
+    metadata.appId ?? null,
+    metadata.contentType ?? null,
+    metadata.sender ?? null,
+    metadata.replication ? [
+      metadata.replication.fromPeer ?? null,
+      metadata.replication.replicatedAt ?? null,
+      [...(metadata.replication.replicatedTo || [])].sort()
+    ] : null
+  ];
+
+  // Only present on records written since ownership was tracked, so older
+  // hashes stay valid
+  if (metadata.owners !== undefined || metadata.operatorPinned !== undefined) {
+    fields.push(
+      metadata.operatorPinned || false,
+      (metadata.owners || []).map(owner => [
+        owner.appId ?? null,
+        owner.sender ?? null,
+        owner.contentType ?? null,
+        owner.timestamp,
+        owner.pinned || false,
+        owner.authorization?.signature ?? null,
+        ...(owner.expiresAt !== undefined ? [owner.expiresAt] : [])
+      ])
+    );
+  }
+
+  if (metadata.expiresAt !== undefined) {
+    fields.push(['expiresAt', metadata.expiresAt]);
+  }
+
+  if (metadata.compression !== undefined) {
+    fields.push(['compression', metadata.compression]);
+  }
+
+  if (chunkFields) {
+    // Drive served sizes and MIME types, GC protection of chunks and quota
+    // accounting; only hashed when present, like the fields above
+    if (metadata.manifest !== undefined) {
+      fields.push(['manifest', metadata.manifest.mimeType, metadata.manifest.size, metadata.manifest.chunkCount]);
+    }
+    if (metadata.chunkOf !== undefined) {
+      fields.push(['chunkOf', [...metadata.chunkOf].sort()]);
+    }
+    if (metadata.metadata !== undefined) {
+      fields.push(['metadata', metadata.metadata]);
+    }
+    if (metadata.timestamp !== undefined) {
+      fields.push(['timestamp', metadata.timestamp]);
+    }
+  }
+
+  const data = JSON.stringify(fields);
+
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`vault-meta:${data}`);
   return hmac.digest('hex');
 }
 
 /**
  * Verify metadata integrity hash
+ * @param secret - Node integrity secret
  * @param metadata - Metadata object to verify
- * @returns true if integrity hash is valid or missing (legacy), false if tampered
+ * @returns valid, or the reason it is not: no hash, a hash in a legacy
+ *   scheme (unkeyed, or keyed but covering fewer fields), or a hash that
+ *   does not match
  */
-export function verifyMetadataIntegrity(metadata: {
-  cid: string;
-  size: number;
-  mimeType: string;
-  createdAt: number;
-  pinned?: boolean;
-  integrityHash?: string;
-}): { valid: boolean; reason?: string } {
-  // Legacy metadata without hash - allow but flag
+export function verifyMetadataIntegrity(secret: Buffer, metadata: MetadataIntegrityFields): IntegrityResult {
   if (!metadata.integrityHash) {
-    return { valid: true, reason: 'legacy_no_hash' };
+    return { valid: false, reason: 'missing_hash' };
   }
 
-  const expectedHash = generateMetadataIntegrityHash(
-    metadata.cid,
-    metadata.size,
-    metadata.mimeType,
-    metadata.createdAt,
-    metadata.pinned || false
-  );
+  if (safeEqual(metadata.integrityHash, generateMetadataIntegrityHash(secret, metadata))) {
+    return { valid: true };
+  }
 
-  if (metadata.integrityHash !== expectedHash) {
-    return { valid: false, reason: 'hash_mismatch' };
+  if (
+    safeEqual(metadata.integrityHash, hashMetadataFields(secret, metadata, false)) ||
+    verifyLegacyMetadataIntegrity(metadata)
+  ) {
+    return { valid: false, reason: 'legacy_hash' };
   }
 
-  return { valid: true };
+  return { valid: false, reason: 'hash_mismatch' };
+}
+
+/**
+ * Check a metadata hash written by earlier versions (keyed by the CID only)
+ *
+ * Only used to decide whether legacy records can be re-signed; anyone can
+ * compute these hashes, so they prove nothing on their own.
+ */
+export function verifyLegacyMetadataIntegrity(metadata: MetadataIntegrityFields): boolean {
+  if (!metadata.integrityHash) return false;
+
+  const hmac = crypto.createHmac('sha256', `vault-meta-${metadata.cid}`);
+  hmac.update(`${metadata.cid}:${metadata.size}:${metadata.mimeType}:${metadata.createdAt}:${metadata.pinned || false}`);
+  return safeEqual(metadata.integrityHash, hmac.digest('hex'));
 }
 
 /**
  * Generate integrity hash for replication state
  * SECURITY: Prevents tampering with replication claims
  */
-export function generateReplicationStateHash(
-  cid: string,
-  replicationFactor: number,
-  confirmedNodes: string[],
-  complete: boolean
-): string {
-  const key = `vault-repl-${cid}`;
+export function generateReplicationStateHash(secret: Buffer, state: ReplicationIntegrityFields): string {
   // Sort confirmed nodes for deterministic hash
-  const sortedNodes = [...confirmedNodes].sort().join(',');
-  const data = `${cid}:${replicationFactor}:${sortedNodes}:${complete}`;
-  
-  const hmac = crypto.createHmac('sha256', key);
-  hmac.update(data);
+  const sortedNodes = [...state.confirmedNodes].sort().join(',');
+  const data = `${state.cid}:${state.replicationFactor}:${sortedNodes}:${state.complete}`;
+
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`vault-repl:${data}`);
   return hmac.digest('hex');
 }
 
 /**
  * Verify replication state integrity
  */
-export function verifyReplicationStateIntegrity(state: {
-  cid: string;
-  replicationFactor: number;
-  confirmedNodes: string[];
-  complete: boolean;
-  integrityHash?: string;
-}): { valid: boolean; reason?: string } {
+export function verifyReplicationStateIntegrity(secret: Buffer, state: ReplicationIntegrityFields): IntegrityResult {
   if (!state.integrityHash) {
-    return { valid: true, reason: 'legacy_no_hash' };
+    return { valid: false, reason: 'missing_hash' };
   }
 
-  const expectedHash = generateReplicationStateHash(
-    state.cid,
-    state.replicationFactor,
-    state.confirmedNodes,
-    state.complete
-  );
+  if (safeEqual(state.integrityHash, generateReplicationStateHash(secret, state))) {
+    return { valid: true };
+  }
 
-  if (state.integrityHash !== expectedHash) {
-    return { valid: false, reason: 'hash_mismatch' };
+  if (verifyLegacyReplicationStateIntegrity(state)) {
+    return { valid: false, reason: 'legacy_hash' };
   }
 
-  return { valid: true };
+  return { valid: false, reason: 'hash_mismatch' };
+}
+
+/**
+ * Check a replication state hash written by earlier versions (keyed by the CID only)
+ */
+export function verifyLegacyReplicationStateIntegrity(state: ReplicationIntegrityFields): boolean {
+  if (!state.integrityHash) return false;
+
+  const sortedNodes = [...state.confirmedNodes].sort().join(',');
+  const hmac = crypto.createHmac('sha256', `vault-repl-${state.cid}`);
+  hmac.update(`${state.cid}:${state.replicationFactor}:${sortedNodes}:${state.complete}`);
+  return safeEqual(state.integrityHash, hmac.digest('hex'));
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
 }
@@ -0,0 +1,140 @@
+/**
+ * HASHD Vault - Compression Utilities
+ *
+ * Codecs for the compression algorithms a blob can be stored with, and the
+ * policy choosing one for a blob. zstd is only available on Node.js
+ * versions whose zlib includes it (22.15 and later).
+ */
+
+import zlib from 'zlib';
+import { Transform } from 'stream';
+import { promisify } from 'util';
+import { BlobMetadata, CompressionAlgorithm, CompressionRule } from '../types/index.js';
+
+export const COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ['none', 'gzip', 'brotli', 'zstd'];
+
+// Bytes compressed first to estimate the gain before compressing a whole blob
+export const COMPRESSION_SAMPLE_SIZE = 64 * 1024;
+
+// zlib's zstd functions are missing from older Node.js versions and their types
+const zstd = zlib as typeof zlib & {
+  zstdCompress?: (data: Buffer, callback: (error: Error | null, result: Buffer) => void) => void;
+  zstdDecompress?: (data: Buffer, callback: (error: Error | null, result: Buffer) => void) => void;
+  zstdDecompressSync?: (data: Buffer) => Buffer;
+  createZstdCompress?: () => Transform;
+  createZstdDecompress?: () => Transform;
+};
+
+type Codec = {
+  compress: (data: Buffer) => Promise<Buffer>;
+  decompress: (data: Buffer) => Promise<Buffer>;
+  decompressSync: (data: Buffer) => Buffer;
+  createCompress: () => Transform;
+  createDecompress: () => Transform;
+};
+
+const CODECS: Record<Exclude<CompressionAlgorithm, 'none'>, Codec | null> = {
+  gzip: {
+    compress: promisify(zlib.gzip),
+    decompress: promisify(zlib.gunzip),
+    decompressSync: data => zlib.gunzipSync(data),
+    createCompress: () => zlib.createGzip(),
+    createDecompress: () => zlib.createGunzip()
+  },
+  brotli: {
+    compress: promisify(zlib.brotliCompress),
+    decompress: promisify(zlib.brotliDecompress),
+    decompressSync: data => zlib.brotliDecompressSync(data),
+    createCompress: () => zlib.createBrotliCompress(),
+    createDecompress: () => zlib.createBrotliDecompress()
+  },
+  zstd: zstd.zstdCompress && zstd.zstdDecompress && zstd.zstdDecompressSync &&
+    zstd.createZstdCompress && zstd.createZstdDecompress
+    ? {
+      compress: promisify(zstd.zstdCompress),
+      decompress: promisify(zstd.zstdDecompress),
+      decompressSync: zstd.zstdDecompressSync,
+      createCompress: zstd.createZstdCompress,
+      createDecompress: zstd.createZstdDecompress
+    }
+    : null
+};
+
+/**
+ * Whether this Node.js version can compress and decompress with an algorithm
+ */
+export function isCompressionSupported(algorithm: CompressionAlgorithm): boolean {
+  return algorithm === 'none' || CODECS[algorithm] !== null;
+}
+
+/**
+ * The algorithm a blob's stored bytes are compressed with
+ *
+ * Records from before compression algorithms only carry `compressed`,
+ * which always meant gzip.
+ */
+export function compressionOf(metadata: Pick<BlobMetadata, 'compression' | 'compressed'>): CompressionAlgorithm {
+  return metadata.compression ?? (metadata.compressed ? 'gzip' : 'none');
+}
+
+export async function compress(algorithm: CompressionAlgorithm, data: Buffer): Promise<Buffer> {
+  return algorithm === 'none' ? data : codec(algorithm).compress(data);
+}
+
+export async function decompress(algorithm: CompressionAlgorithm, data: Buffer): Promise<Buffer> {
+  return algorithm === 'none' ? data : codec(algorithm).decompress(data);
+}
+
+export function decompressSync(algorithm: CompressionAlgorithm, data: Buffer): Buffer {
+  return algorithm === 'none' ? data : codec(algorithm).decompressSync(data);
+}
+
+export function createCompressStream(algorithm: Exclude<CompressionAlgorithm, 'none'>): Transform {
+  return codec(algorithm).createCompress();
+}
+
+export function createDecompressStream(algorithm: Exclude<CompressionAlgorithm, 'none'>): Transform {
+  return codec(algorithm).createDecompress();
+}
+
+/**
+ * Pick the algorithm for a blob: the first rule matching its MIME type
+ * (exactly, or "type/*") and content type, else the default
+ */
+export function selectCompression(
+  rules: CompressionRule[],
+  defaultAlgorithm: CompressionAlgorithm,
+  blob: { mimeType: string; contentType?: string }
+): CompressionAlgorithm {
+  const mimeType = blob.mimeType.toLowerCase();
+  const rule = rules.find(candidate =>
+    (candidate.mimeType === undefined || matchesMimeType(candidate.mimeType.toLowerCase(), mimeType)) &&
+    (candidate.contentType === undefined || candidate.contentType === blob.contentType)
+  );
+  return rule?.algorithm ?? defaultAlgorithm;
+}
+
+/**
+ * Whether compressing saved at least minGainPercent of the original size
+ */
+export function isWorthCompressing(originalSize: number, compressedSize: number, minGainPercent: number): boolean {
+  if (originalSize === 0 || compressedSize >= originalSize) return false;
+  return ((originalSize - compressedSize) / originalSize) * 100 >= minGainPercent;
+}
+
+/**
+ * Whether a MIME type matches a pattern (exactly, or "type/*"); both lowercase
+ */
+export function matchesMimeType(pattern: string, mimeType: string): boolean {
+  return pattern.endsWith('/*')
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : pattern === mimeType;
+}
+
+function codec(algorithm: Exclude<CompressionAlgorithm, 'none'>): Codec {
+  const found = CODECS[algorithm];
+  if (!found) {
+    throw new Error(`Compression algorithm not supported by this Node.js version: ${algorithm}`);
+  }
+  return found;
+}
@@ -0,0 +1,38 @@
+/**
+ * HASHD Vault - Disk Utilities
+ */
+
+import { logger } from './logger.js';
+
+/**
+ * Free disk space in bytes on the filesystem holding a directory (0 if unknown)
+ */
+export async function getFreeDiskSpace(dir: string): Promise<number> {
+  try {
+    // Use Node.js fs.statfs (available in Node 18+) or fallback to platform-specific commands
+    const { statfs } = await import('fs/promises');
+    const stats = await (statfs as any)(dir);
+    return stats.bavail * stats.bsize; // Available blocks * block size
+  } catch (error) {
+    // Fallback: use platform-specific command
+    const { exec } = await import('child_process');
+    const { promisify } = await import('util');
+    const execAsync = promisify(exec);
+    
+    try {
+      if (process.platform === 'win32') {
+        // Windows: use wmic
+        const { stdout } = await execAsync(`wmic logicaldisk where "DeviceID='${dir.charAt(0)}:'" get FreeSpace`);
+        const match = stdout.match(/\d+/);
+        return match ? parseInt(match[0]) : 0;
+      } else {
+        // Unix/Linux/Mac: use df
+        const { stdout } = await execAsync(`df -k "${dir}" | tail -1 | awk '{print $4}'`);
+        return parseInt(stdout.trim()) * 1024; // Convert KB to bytes
+      }
+    } catch (cmdError) {
+      logger.warn('Failed to get free disk space', cmdError);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * HASHD Vault - Envelope Encryption Format
+ *
+ * Blobs encrypted at rest are split into segments, each sealed with
+ * AES-256-GCM under a node data key, so a byte range can be decrypted and
+ * authenticated without reading the whole file.
+ *
+ *   header:  magic (8) | keyId (uint32) | nonce prefix (8) | segment size (uint32)
+ *   segment: ciphertext | tag (16)
+ *
+ * Segment i uses nonce = prefix || uint32(i) and authenticates the header,
+ * its index and whether it is the last segment, so segments cannot be
+ * reordered, moved between blobs or truncated away.
+ */
+
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { ByteRange } from '../types/index.js';
+
+export const ENVELOPE_MAGIC = Buffer.from('BCVENC01');
+export const ENVELOPE_HEADER_SIZE = 24;
+export const ENVELOPE_SEGMENT_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+
+export interface EnvelopeHeader {
+  keyId: number;
+  segmentSize: number;
+  raw: Buffer;
+}
+
+/**
+ * Stored segments that cover a plaintext range
+ */
+export interface EnvelopeRange {
+  stored: ByteRange;          // Bytes to read from the stored file
+  firstSegment: number;
+  totalSegments: number;
+  slice: ByteRange;           // The requested range within the decrypted segments
+}
+
+export function isEnvelope(data: Buffer): boolean {
+  return data.length >= ENVELOPE_HEADER_SIZE &&
+    data.subarray(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC);
+}
+
+export function createEnvelopeHeader(keyId: number, segmentSize = ENVELOPE_SEGMENT_SIZE): Buffer {
+  const header = Buffer.alloc(ENVELOPE_HEADER_SIZE);
+  ENVELOPE_MAGIC.copy(header, 0);
+  header.writeUInt32BE(keyId, 8);
+  crypto.randomBytes(8).copy(header, 12);
+  header.writeUInt32BE(segmentSize, 20);
+  return header;
+}
+
+export function parseEnvelopeHeader(data: Buffer): EnvelopeHeader {
+  if (!isEnvelope(data)) {
+    throw new Error('Not an encrypted envelope');
+  }
+  const raw = Buffer.from(data.subarray(0, ENVELOPE_HEADER_SIZE));
+  const segmentSize = raw.readUInt32BE(20);
+  if (segmentSize < 1) {
+    throw new Error('Invalid envelope segment size');
+  }
+  return { keyId: raw.readUInt32BE(8), segmentSize, raw };
+}
+
+function segmentParams(header: EnvelopeHeader, index: number, final: boolean): { nonce: Buffer; aad: Buffer } {
+  const nonce = Buffer.alloc(12);
+  header.raw.copy(nonce, 0, 12, 20);
+  nonce.writeUInt32BE(index, 8);
+
+  const position = Buffer.alloc(5);
+  position.writeUInt32BE(index, 0);
+  position[4] = final ? 1 : 0;
+
+  return { nonce, aad: Buffer.concat([header.raw, position]) };
+}
+
+export function sealSegment(
+  key: Buffer,
+  header: EnvelopeHeader,
+  index: number,
+  final: boolean,
+  plaintext: Buffer
+): Buffer {
+  const { nonce, aad } = segmentParams(header, index, final);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, nonce);
+  cipher.setAAD(aad);
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+export function openSegment(
+  key: Buffer,
+  header: EnvelopeHeader,
+  index: number,
+  final: boolean,
+  sealed: Buffer
+): Buffer {
+  if (sealed.length < TAG_SIZE) {
+    throw new Error('Encrypted segment is truncated');
+  }
+  const { nonce, aad } = segmentParams(header, index, final);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, nonce);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+  try {
+    return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_SIZE)), decipher.final()]);
+  } catch {
+    throw new Error('Encrypted segment failed authentication');
+  }
+}
+
+/**
+ * Encrypt a whole buffer into an envelope
+ */
+export function encryptEnvelope(key: Buffer, keyId: number, data: Buffer): Buffer {
+  const header = parseEnvelopeHeader(createEnvelopeHeader(keyId));
+  const parts: Buffer[] = [header.raw];
+  const count = Math.max(Math.ceil(data.length / header.segmentSize), 1);
+
+  for (let i = 0; i < count; i++) {
+    const plaintext = data.subarray(i * header.segmentSize, (i + 1) * header.segmentSize);
+    parts.push(sealSegment(key, header, i, i === count - 1, plaintext));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Decrypt a whole envelope (the key must match header.keyId)
+ */
+export function decryptEnvelope(key: Buffer, data: Buffer): Buffer {
+  const header = parseEnvelopeHeader(data);
+  const sealedSize = header.segmentSize + TAG_SIZE;
+  const body = data.subarray(ENVELOPE_HEADER_SIZE);
+  const count = countSegments(header, data.length);
+  const parts: Buffer[] = [];
+
+  for (let i = 0; i < count; i++) {
+    parts.push(openSegment(key, header, i, i === count - 1, body.subarray(i * sealedSize, (i + 1) * sealedSize)));
+  }
+  return Buffer.concat(parts);
+}
+
+export function envelopePlaintextSize(header: EnvelopeHeader, storedSize: number): number {
+  return storedSize - ENVELOPE_HEADER_SIZE - countSegments(header, storedSize) * TAG_SIZE;
+}
+
+/**
+ * Work out which stored segments hold an inclusive plaintext range
+ */
+export function envelopeRangeFor(header: EnvelopeHeader, storedSize: number, range?: ByteRange): EnvelopeRange {
+  const totalSegments = countSegments(header, storedSize);
+  const sealedSize = header.segmentSize + TAG_SIZE;
+
+  if (!range) {
+    return {
+      stored: { start: ENVELOPE_HEADER_SIZE, end: storedSize - 1 },
+      firstSegment: 0,
+      totalSegments,
+      slice: { start: 0, end: envelopePlaintextSize(header, storedSize) - 1 }
+    };
+  }
+
+  const firstSegment = Math.floor(range.start / header.segmentSize);
+  const lastSegment = Math.floor(range.end / header.segmentSize);
+  const offset = firstSegment * header.segmentSize;
+
+  return {
+    stored: {
+      start: ENVELOPE_HEADER_SIZE + firstSegment * sealedSize,
+      end: Math.min(ENVELOPE_HEADER_SIZE + (lastSegment + 1) * sealedSize, storedSize) - 1
+    },
+    firstSegment,
+    totalSegments,
+    slice: { start: range.start - offset, end: range.end - offset }
+  };
+}
+
+function countSegments(header: EnvelopeHeader, storedSize: number): number {
+  const body = storedSize - ENVELOPE_HEADER_SIZE;
+  if (body < TAG_SIZE) {
+    throw new Error('Encrypted envelope is truncated');
+  }
+  return Math.ceil(body / (header.segmentSize + TAG_SIZE));
+}
+
+/**
+ * Encrypts a stream into an envelope (header first, then sealed segments)
+ *
+ * A full segment is only sealed once more data arrives, so the last
+ * segment is always the one flagged as final.
+ */
+export class EnvelopeEncryptStream extends Transform {
+  private header: EnvelopeHeader;
+  private pending: Buffer[] = [];
+  private pendingBytes = 0;
+  private index = 0;
+
+  constructor(private key: Buffer, keyId: number) {
+    super();
+    this.header = parseEnvelopeHeader(createEnvelopeHeader(keyId));
+    this.push(this.header.raw);
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending.push(chunk);
+    this.pendingBytes += chunk.length;
+
+    const { segmentSize } = this.header;
+    if (this.pendingBytes > segmentSize) {
+      let data = Buffer.concat(this.pending);
+      while (data.length > segmentSize) {
+        this.push(sealSegment(this.key, this.header, this.index++, false, data.subarray(0, segmentSize)));
+        data = data.subarray(segmentSize);
+      }
+      this.pending = [data];
+      this.pendingBytes = data.length;
+    }
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.push(sealSegment(this.key, this.header, this.index, true, Buffer.concat(this.pending)));
+    callback();
+  }
+}
+
+/**
+ * Decrypts consecutive sealed segments (without the header)
+ */
+export class EnvelopeDecryptStream extends Transform {
+  private pending: Buffer[] = [];
+  private pendingBytes = 0;
+  private sealedSize: number;
+
+  constructor(
+    private key: Buffer,
+    private header: EnvelopeHeader,
+    private index: number,
+    private totalSegments: number
+  ) {
+    super();
+    this.sealedSize = header.segmentSize + TAG_SIZE;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending.push(chunk);
+    this.pendingBytes += chunk.length;
+
+    if (this.pendingBytes < this.sealedSize) {
+      callback();
+      return;
+    }
+
+    try {
+      let data = Buffer.concat(this.pending);
+      while (data.length >= this.sealedSize) {
+        this.push(this.open(data.subarray(0, this.sealedSize)));
+        data = data.subarray(this.sealedSize);
+      }
+      this.pending = [data];
+      this.pendingBytes = data.length;
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      if (this.pendingBytes > 0) {
+        this.push(this.open(Buffer.concat(this.pending)));
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private open(sealed: Buffer): Buffer {
+    const index = this.index++;
+    return openSegment(this.key, this.header, index, index === this.totalSegments - 1, sealed);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * HASHD Vault - Chunk Manifest Utilities
+ *
+ * Large blobs are stored as fixed-size chunks, each under its own CID,
+ * plus a manifest blob listing the chunks and their Merkle root.
+ * The manifest's own CID is the CID clients use for the whole blob.
+ */
+
+import crypto from 'crypto';
+import { generateCID } from './cid.js';
+import { BlobManifest, ChunkRef, InvalidRequestError, StagedBlob } from '../types/index.js';
+
+export const MANIFEST_MIME_TYPE = 'application/vnd.bytecave.manifest+json';
+export const MANIFEST_VERSION = 1;
+
+const CID_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Compute the Merkle root over chunk CIDs
+ *
+ * Leaves are the raw 32-byte chunk CIDs; each level hashes pairs with
+ * SHA-256 and an odd node is carried up unchanged.
+ */
+export function computeMerkleRoot(chunkCids: string[]): string {
+  if (chunkCids.length === 0) {
+    throw new InvalidRequestError('Cannot compute Merkle root of zero chunks');
+  }
+
+  let level: Buffer[] = chunkCids.map(cid => Buffer.from(cid, 'hex'));
+
+  while (level.length > 1) {
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 < level.length) {
+        next.push(crypto.createHash('sha256').update(level[i]).update(level[i + 1]).digest());
+      } else {
+        next.push(level[i]);
+      }
+    }
+    level = next;
+  }
+
+  return level[0].toString('hex');
+}
+
+/**
+ * Build a manifest for chunks produced from one piece of content
+ * Serialization is deterministic, so the same content always yields the same CID
+ */
+export function createManifest(
+  chunks: ChunkRef[],
+  mimeType: string,
+  size: number,
+  contentCid: string,
+  chunkSize: number
+): { cid: string; manifest: BlobManifest; buffer: Buffer } {
+  const manifest: BlobManifest = {
+    type: 'bytecave-manifest',
+    version: MANIFEST_VERSION,
+    mimeType,
+    size,
+    contentCid,
+    chunkSize,
+    chunks: chunks.map(c => ({ cid: c.cid, size: c.size })),
+    merkleRoot: computeMerkleRoot(chunks.map(c => c.cid))
+  };
+
+  const buffer = Buffer.from(JSON.stringify(manifest));
+  return { cid: generateCID(buffer), manifest, buffer };
+}
+
+/**
+ * Build the manifest for a blob staged with per-chunk hashing
+ */
+export function createManifestForStaged(
+  staged: StagedBlob,
+  mimeType: string
+): { cid: string; manifest: BlobManifest; buffer: Buffer } {
+  if (!staged.chunks || !staged.chunkSize) {
+    throw new Error('Staged blob was not hashed in chunks');
+  }
+  return createManifest(staged.chunks, mimeType, staged.size, staged.cid, staged.chunkSize);
+}
+
+/**
+ * Parse and validate a manifest blob
+ *
+ * SECURITY: Rejects manifests whose chunk list does not match the declared
+ * sizes or Merkle root, so a stored manifest always describes its content exactly.
+ */
+export function parseManifest(buffer: Buffer): BlobManifest {
+  let manifest: BlobManifest;
+  try {
+    manifest = JSON.parse(buffer.toString('utf-8'));
+  } catch {
+    throw new InvalidRequestError('Manifest is not valid JSON');
+  }
+
+  if (!manifest || manifest.type !== 'bytecave-manifest' || manifest.version !== MANIFEST_VERSION) {
+    throw new InvalidRequestError('Unsupported manifest type or version');
+  }
+
+  if (typeof manifest.mimeType !== 'string' || !CID_PATTERN.test(manifest.contentCid)) {
+    throw new InvalidRequestError('Manifest is missing mimeType or contentCid');
+  }
+
+  if (!Number.isInteger(manifest.chunkSize) || manifest.chunkSize < 1) {
+    throw new InvalidRequestError('Manifest chunkSize is invalid');
+  }
+
+  if (!Array.isArray(manifest.chunks) || manifest.chunks.length === 0) {
+    throw new InvalidRequestError('Manifest has no chunks');
+  }
+
+  let total = 0;
+  manifest.chunks.forEach((chunk, index) => {
+    const isLast = index === manifest.chunks.length - 1;
+    if (!chunk || !CID_PATTERN.test(chunk.cid) || !Number.isInteger(chunk.size) || chunk.size < 1) {
+      throw new InvalidRequestError(`Manifest chunk ${index} is invalid`);
+    }
+    if (isLast ? chunk.size > manifest.chunkSize : chunk.size !== manifest.chunkSize) {
+      throw new InvalidRequestError(`Manifest chunk ${index} has the wrong size`);
+    }
+    total += chunk.size;
+  });
+
+  if (total !== manifest.size) {
+    throw new InvalidRequestError('Manifest chunk sizes do not add up to its size');
+  }
+
+  if (computeMerkleRoot(manifest.chunks.map(c => c.cid)) !== manifest.merkleRoot) {
+    throw new InvalidRequestError('Manifest Merkle root does not match its chunks');
+  }
+
+  return manifest;
+}
@@ -0,0 +1,176 @@
+/**
+ * HASHD Vault - Stream Utilities
+ *
+ * Hashing and verification transforms for streaming blob IO
+ */
+
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import jsSha3 from 'js-sha3';
+import { ChunkRef, CIDMismatchError, PayloadTooLargeError } from '../types/index.js';
+
+const { keccak256 } = jsSha3;
+
+/**
+ * Pass-through stream that hashes everything flowing through it
+ *
+ * Computes the CID (SHA-256) and the authorization content hash (keccak256)
+ * in a single pass, and aborts once more than maxBytes have been seen.
+ * With a chunkSize, the CID of every fixed-size chunk is recorded as well.
+ */
+export class HashingStream extends Transform {
+  private sha256 = crypto.createHash('sha256');
+  private keccak = keccak256.create();
+  private bytes = 0;
+  private chunks: ChunkRef[] = [];
+  private chunkHash = crypto.createHash('sha256');
+  private chunkBytes = 0;
+
+  constructor(private maxBytes: number = Infinity, private chunkSize?: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.bytes > this.maxBytes) {
+      callback(new PayloadTooLargeError(this.bytes, this.maxBytes));
+      return;
+    }
+
+    this.sha256.update(chunk);
+    this.keccak.update(chunk);
+    if (this.chunkSize) {
+      this.hashChunks(chunk, this.chunkSize);
+    }
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.chunkBytes > 0) {
+      this.closeChunk();
+    }
+    callback();
+  }
+
+  /**
+   * Digests - only valid once the stream has finished
+   */
+  getResult(): { cid: string; contentHash: string; size: number; chunks?: ChunkRef[] } {
+    return {
+      cid: this.sha256.digest('hex'),
+      contentHash: '0x' + this.keccak.hex(),
+      size: this.bytes,
+      chunks: this.chunkSize ? this.chunks : undefined
+    };
+  }
+
+  private hashChunks(data: Buffer, chunkSize: number): void {
+    let offset = 0;
+    while (offset < data.length) {
+      const take = Math.min(chunkSize - this.chunkBytes, data.length - offset);
+      this.chunkHash.update(data.subarray(offset, offset + take));
+      this.chunkBytes += take;
+      offset += take;
+
+      if (this.chunkBytes === chunkSize) {
+        this.closeChunk();
+      }
+    }
+  }
+
+  private closeChunk(): void {
+    this.chunks.push({ cid: this.chunkHash.digest('hex'), size: this.chunkBytes });
+    this.chunkHash = crypto.createHash('sha256');
+    this.chunkBytes = 0;
+  }
+}
+
+/**
+ * Pass-through stream that verifies the data matches a CID
+ *
+ * SECURITY: Emits CIDMismatchError at end of stream if the content
+ * does not hash to the expected CID. Consumers that already forwarded
+ * the bytes must abort the downstream connection on error.
+ */
+export class CIDVerifyStream extends Transform {
+  private hash = crypto.createHash('sha256');
+
+  constructor(private expectedCid: string) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    const actual = this.hash.digest('hex');
+    if (actual !== this.expectedCid.toLowerCase()) {
+      callback(new CIDMismatchError(this.expectedCid, actual));
+      return;
+    }
+    callback();
+  }
+}
+
+/**
+ * Pass-through stream that only emits bytes [first, last] (inclusive)
+ *
+ * Used to serve ranges of blobs that cannot be seeked into directly,
+ * e.g. gzip-compressed blobs that must be decompressed from the start.
+ */
+export class SliceStream extends Transform {
+  private offset = 0;
+  private done = false;
+
+  constructor(private first: number, private last: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.done) {
+      callback();
+      return;
+    }
+
+    const chunkStart = this.offset;
+    this.offset += chunk.length;
+
+    const from = Math.max(this.first - chunkStart, 0);
+    const to = Math.min(this.last + 1 - chunkStart, chunk.length);
+    if (from < to) {
+      this.push(chunk.subarray(from, to));
+    }
+
+    if (this.offset > this.last) {
+      this.done = true;
+      this.push(null);
+    }
+    callback();
+  }
+}
+
+/**
+ * Pass-through stream that counts bytes and aborts past maxBytes
+ */
+export class ByteLimitStream extends Transform {
+  private bytes = 0;
+
+  constructor(private maxBytes: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.bytes > this.maxBytes) {
+      callback(new PayloadTooLargeError(this.bytes, this.maxBytes));
+      return;
+    }
+    callback(null, chunk);
+  }
+
+  get bytesSeen(): number {
+    return this.bytes;
+  }
+}
@@ -67,6 +67,10 @@ export function validateReplicateRequest(body: any): void {
   } catch (error) {
     throw new InvalidRequestError('fromPeer must be a valid URL');
   }
+
+  if (body.authorization !== undefined && (!body.authorization || typeof body.authorization !== 'object')) {
+    throw new InvalidRequestError('authorization must be an object');
+  }
 }
 
 /**